@@ -29,6 +29,7 @@ const ResetPasswordPage = lazy(() => import("@/pages/auth/reset-password").then(
 const AuthCallbackPage = lazy(() => import("@/pages/auth/callback").then(m => ({ default: m.AuthCallbackPage })))
 const CliAuthPage = lazy(() => import("@/pages/auth/cli-auth").then(m => ({ default: m.CliAuthPage })))
 const AcceptInvitePage = lazy(() => import("@/pages/auth/accept-invite").then(m => ({ default: m.AcceptInvitePage })))
+const AcceptOrgInvitePage = lazy(() => import("@/pages/auth/accept-org-invite").then(m => ({ default: m.AcceptOrgInvitePage })))
 const GithubOAuthPage = lazy(() => import("@/pages/auth/github-oauth").then(m => ({ default: m.GithubOAuthPage })))
 const GitlabOAuthPage = lazy(() => import("@/pages/auth/gitlab-oauth").then(m => ({ default: m.GitlabOAuthPage })))
 const BitbucketOAuthPage = lazy(() => import("@/pages/auth/bitbucket-oauth").then(m => ({ default: m.BitbucketOAuthPage })))
@@ -37,6 +38,7 @@ const GithubOAuthCompletePage = lazy(() => import("@/components/projects/github-
 const GitlabOAuthCompletePage = lazy(() => import("@/components/projects/gitlab-oauth-complete").then(m => ({ default: m.GitlabOAuthCompletePage })))
 const BitbucketOAuthCompletePage = lazy(() => import("@/components/projects/bitbucket-oauth-complete").then(m => ({ default: m.BitbucketOAuthCompletePage })))
 const AzureOAuthCompletePage = lazy(() => import("@/components/projects/azure-oauth-complete").then(m => ({ default: m.AzureOAuthCompletePage })))
+const TryItOAuthCompletePage = lazy(() => import("@/components/projects/try-it-oauth-complete").then(m => ({ default: m.TryItOAuthCompletePage })))
 
 const DashboardLayout = lazy(() => import("@/layout/dashboard").then(m => ({ default: m.DashboardLayout })))
 const DashboardPage = lazy(() => import("@/pages/dashboard/dashboard").then(m => ({ default: m.DashboardPage })))
@@ -45,6 +47,7 @@ const LiveAnalysisPage = lazy(() => import("@/pages/projects/live-analysis").the
 const DocumentationViewerPage = lazy(() => import("@/pages/projects/documentation").then(m => ({ default: m.DocumentationViewerPage })))
 const DocumentationsPage = lazy(() => import("@/pages/dashboard/documentations").then(m => ({ default: m.DocumentationsPage })))
 const LogsPage = lazy(() => import("@/pages/dashboard/logs").then(m => ({ default: m.LogsPage })))
+const NotificationsPage = lazy(() => import("@/pages/dashboard/notifications").then(m => ({ default: m.NotificationsPage })))
 const ProfilePage = lazy(() => import("@/pages/profile/profile").then(m => ({ default: m.ProfilePage })))
 const SettingsPage = lazy(() => import("@/pages/settings/settings").then(m => ({ default: m.SettingsPage })))
 const PricingPage = lazy(() => import("@/pages/guest/pricing").then(m => ({ default: m.PricingPage })))
@@ -132,6 +135,7 @@ function getRouteSeo(pathname: string): SeoConfig | null {
     pathname.startsWith("/projects") ||
     pathname.startsWith("/documentations") ||
     pathname.startsWith("/logs") ||
+    pathname.startsWith("/notifications") ||
     pathname.startsWith("/profile") ||
     pathname.startsWith("/settings") ||
     pathname.startsWith("/admin")
@@ -150,11 +154,13 @@ function getRouteSeo(pathname: string): SeoConfig | null {
     "/verify", "/auth/callback", "/cli-auth",
     "/auth/github", "/auth/gitlab", "/auth/bitbucket", "/auth/azure",
     "/github/oauth/complete", "/gitlab/oauth/complete", "/bitbucket/oauth/complete", "/azure/oauth/complete",
+    "/try-it/oauth/complete",
     "/forgot-password", "/reset-password",
   ]
   if (
     SYSTEM_PATHS.includes(pathname) ||
-    matchPath("/share/accept/:token", pathname)
+    matchPath("/share/accept/:token", pathname) ||
+    matchPath("/orgs/accept/:token", pathname)
   ) {
     return {
       title: "Account Access",
@@ -337,7 +343,8 @@ function AppRoutes() {
   useEffect(() => {
     const oauthPaths = [
       "/auth/github", "/auth/gitlab", "/auth/bitbucket", "/auth/azure",
-      "/github/oauth/complete", "/gitlab/oauth/complete", "/bitbucket/oauth/complete", "/azure/oauth/complete"
+      "/github/oauth/complete", "/gitlab/oauth/complete", "/bitbucket/oauth/complete", "/azure/oauth/complete",
+      "/try-it/oauth/complete",
     ]
     if (oauthPaths.includes(window.location.pathname)) {
       useAuthStore.setState({ initialized: true })
@@ -384,6 +391,7 @@ function AppRoutes() {
           <Route path="/auth/callback" element={<AuthCallbackPage />} />
           <Route path="/cli-auth" element={<CliAuthPage />} />
           <Route path="/share/accept/:token" element={<AcceptInvitePage />} />
+          <Route path="/orgs/accept/:token" element={<AcceptOrgInvitePage />} />
 
           {/* ── Repository OAuth initiators ───────────────────────── */}
           <Route path="/auth/github" element={<GithubOAuthPage />} />
@@ -396,6 +404,7 @@ function AppRoutes() {
           <Route path="/gitlab/oauth/complete" element={<GitlabOAuthCompletePage />} />
           <Route path="/bitbucket/oauth/complete" element={<BitbucketOAuthCompletePage />} />
           <Route path="/azure/oauth/complete" element={<AzureOAuthCompletePage />} />
+          <Route path="/try-it/oauth/complete" element={<TryItOAuthCompletePage />} />
 
           {/* ── Protected workspace ───────────────────────────────── */}
           <Route element={<ProtectedRoute><DashboardLayout /></ProtectedRoute>}>
@@ -406,6 +415,7 @@ function AppRoutes() {
             <Route path="projects/:id/docs" element={<DocumentationViewerPage />} />
             <Route path="documentations" element={<DocumentationsPage />} />
             <Route path="logs" element={<LogsPage />} />
+            <Route path="notifications" element={<NotificationsPage />} />
             <Route path="profile" element={<ProfilePage />} />
             <Route path="settings" element={<SettingsPage />} />
             <Route path="billing" element={<BillingRedirect />} />
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Braces, CornerDownLeft, FileText, LayoutList, Paperclip, Search, X } from "lucide-react"
+import Loader1 from "@/components/ui/loader1"
+import { searchApi, type ApiSearchResult, type SearchResultKind } from "@/lib/api"
+import { highlightSegments, searchResultHref } from "@/lib/search"
+import { useCommandPaletteStore } from "@/store/command-palette"
+import { cn } from "@/lib/utils"
+
+const DEBOUNCE_MS = 200
+const MIN_QUERY_LENGTH = 2
+
+const KIND_META: Record<SearchResultKind, { icon: React.ElementType; label: string }> = {
+  section: { icon: FileText, label: "Section" },
+  custom_tab: { icon: LayoutList, label: "Custom tab" },
+  endpoint: { icon: Braces, label: "Endpoint" },
+  attachment: { icon: Paperclip, label: "Attachment" },
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {highlightSegments(text, query).map((seg, i) =>
+        seg.match ? (
+          <mark key={i} className="bg-yellow-300/60 dark:bg-yellow-500/30 text-foreground rounded-sm px-0.5">
+            {seg.text}
+          </mark>
+        ) : (
+          <span key={i}>{seg.text}</span>
+        ),
+      )}
+    </>
+  )
+}
+
+/**
+ * Global documentation search (Ctrl/⌘+K). Searches every section, custom
+ * tab, API endpoint and attachment the user can access, across projects.
+ */
+export function CommandPalette() {
+  const navigate = useNavigate()
+  const { open, initialQuery, closePalette } = useCommandPaletteStore()
+  const [query, setQuery] = useState("")
+  const [results, setResults] = useState<ApiSearchResult[]>([])
+  const [total, setTotal] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [active, setActive] = useState(0)
+  const inputRef = useRef<HTMLInputElement>(null)
+  const listRef = useRef<HTMLDivElement>(null)
+
+  // Reset on open
+  useEffect(() => {
+    if (!open) return
+    setQuery(initialQuery)
+    setActive(0)
+    requestAnimationFrame(() => inputRef.current?.select())
+  }, [open, initialQuery])
+
+  // Debounced search; later queries win over slower earlier ones
+  useEffect(() => {
+    if (!open) return
+    const q = query.trim()
+    if (q.length < MIN_QUERY_LENGTH) {
+      setResults([])
+      setTotal(0)
+      setError(null)
+      setLoading(false)
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    const timer = setTimeout(() => {
+      searchApi
+        .query(q, { limit: 30 })
+        .then((r) => {
+          if (cancelled) return
+          setResults(r.results)
+          setTotal(r.total)
+          setActive(0)
+          setError(null)
+        })
+        .catch((err: any) => {
+          if (!cancelled) setError(err?.message ?? "Search failed")
+        })
+        .finally(() => {
+          if (!cancelled) setLoading(false)
+        })
+    }, DEBOUNCE_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [open, query])
+
+  // Keep the active result visible
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${active}"]`)?.scrollIntoView({ block: "nearest" })
+  }, [active])
+
+  if (!open) return null
+
+  const go = (result: ApiSearchResult) => {
+    closePalette()
+    navigate(searchResultHref(result))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Escape") {
+      e.preventDefault()
+      closePalette()
+    } else if (e.key === "ArrowDown" && results.length > 0) {
+      e.preventDefault()
+      setActive((i) => (i + 1) % results.length)
+    } else if (e.key === "ArrowUp" && results.length > 0) {
+      e.preventDefault()
+      setActive((i) => (i - 1 + results.length) % results.length)
+    } else if (e.key === "Enter" && results[active]) {
+      e.preventDefault()
+      go(results[active])
+    }
+  }
+
+  const q = query.trim()
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-start justify-center bg-background/70 backdrop-blur-sm px-4 pt-[12vh]"
+      onMouseDown={(e) => {
+        if (e.target === e.currentTarget) closePalette()
+      }}
+    >
+      <div
+        role="dialog"
+        aria-label="Search documentation"
+        className="w-full max-w-2xl overflow-hidden rounded-xl border border-border bg-background shadow-2xl"
+        onKeyDown={handleKeyDown}
+      >
+        <div className="flex items-center gap-2 border-b border-border px-4">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search all documentation, endpoints and attachments…"
+            className="h-12 flex-1 bg-transparent text-sm outline-none placeholder:text-muted-foreground"
+          />
+          {loading && <Loader1 className="h-4 w-4 text-muted-foreground" />}
+          <button
+            type="button"
+            onClick={closePalette}
+            className="rounded p-1 text-muted-foreground hover:bg-muted hover:text-foreground"
+            aria-label="Close search"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-1">
+          {q.length < MIN_QUERY_LENGTH ? (
+            <p className="px-4 py-8 text-center text-sm text-muted-foreground">
+              Search across every project you own or that has been shared with you.
+            </p>
+          ) : error ? (
+            <p className="px-4 py-8 text-center text-sm text-destructive">{error}</p>
+          ) : results.length === 0 && !loading ? (
+            <p className="px-4 py-8 text-center text-sm text-muted-foreground">No results for “{q}”</p>
+          ) : (
+            results.map((result, i) => {
+              const { icon: Icon, label } = KIND_META[result.kind]
+              return (
+                <button
+                  key={`${result.projectId}:${result.tab}:${result.endpointId ?? result.attachmentId ?? result.heading?.slug ?? i}`}
+                  type="button"
+                  data-index={i}
+                  onMouseEnter={() => setActive(i)}
+                  onClick={() => go(result)}
+                  className={cn(
+                    "flex w-full items-start gap-3 px-4 py-2.5 text-left transition-colors",
+                    i === active ? "bg-primary/10" : "hover:bg-muted/60",
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="truncate font-medium">
+                        <Highlighted text={result.title} query={q} />
+                      </span>
+                      {result.heading && (
+                        <span className="truncate text-xs text-muted-foreground">› {result.heading.text}</span>
+                      )}
+                    </div>
+                    <p className="mt-0.5 line-clamp-2 text-xs text-muted-foreground">
+                      <Highlighted text={result.snippet} query={q} />
+                    </p>
+                    <div className="mt-1 flex items-center gap-1.5 text-[10px] uppercase tracking-wider text-muted-foreground/80">
+                      <span>{result.projectName}</span>
+                      <span>·</span>
+                      <span>{label}</span>
+                    </div>
+                  </div>
+                  {i === active && <CornerDownLeft className="mt-1 h-3.5 w-3.5 shrink-0 text-muted-foreground" />}
+                </button>
+              )
+            })
+          )}
+        </div>
+
+        {results.length > 0 && (
+          <div className="flex items-center justify-between border-t border-border px-4 py-2 text-[11px] text-muted-foreground">
+            <span>
+              {total > results.length ? `Top ${results.length} of ${total}` : `${results.length}`} result{total !== 1 ? "s" : ""}
+            </span>
+            <span>↑↓ to navigate · ↵ to open · esc to close</span>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
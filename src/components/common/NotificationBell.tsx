@@ -0,0 +1,80 @@
+import { useEffect, useRef, useState } from "react"
+import { Link, useNavigate } from "react-router-dom"
+import { Bell, CheckCheck } from "lucide-react"
+import type { ApiNotification } from "@/lib/api"
+import { useNotificationsStore } from "@/store/notifications"
+import { NotificationItem } from "./NotificationItem"
+
+export function NotificationBell() {
+  const navigate = useNavigate()
+  const { recent, unreadCount, error, connect, disconnect, markRead, markAllRead } = useNotificationsStore()
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement>(null)
+
+  // One live stream for as long as the dashboard is mounted
+  useEffect(() => {
+    connect()
+    return () => disconnect()
+  }, [connect, disconnect])
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [])
+
+  const handleOpen = (n: ApiNotification) => {
+    setOpen(false)
+    if (!n.read) markRead([n._id])
+    if (n.link) navigate(n.link)
+  }
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="relative flex h-8 w-8 items-center justify-center rounded-full text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+        title="Notifications"
+        aria-label={unreadCount ? `Notifications (${unreadCount} unread)` : "Notifications"}
+      >
+        <Bell className="h-4 w-4" />
+        {unreadCount > 0 && (
+          <span className="absolute -right-0.5 -top-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold text-white">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 rounded-lg border border-border bg-background shadow-lg z-50 overflow-hidden">
+          <div className="flex items-center justify-between border-b border-border px-4 py-2.5">
+            <p className="text-sm font-semibold">Notifications</p>
+            {unreadCount > 0 && (
+              <button onClick={() => markAllRead()} className="flex items-center gap-1 text-xs text-primary hover:underline">
+                <CheckCheck className="h-3.5 w-3.5" />
+                Mark all read
+              </button>
+            )}
+          </div>
+          {error && <p className="border-b border-border bg-destructive/5 px-4 py-2 text-xs text-destructive">{error}</p>}
+          <div className="max-h-96 overflow-y-auto divide-y divide-border">
+            {recent.length === 0 ? (
+              <p className="px-4 py-8 text-center text-sm text-muted-foreground">You're all caught up.</p>
+            ) : (
+              recent.map((n) => <NotificationItem key={n._id} notification={n} onOpen={handleOpen} compact />)
+            )}
+          </div>
+          <Link
+            to="/notifications"
+            onClick={() => setOpen(false)}
+            className="block border-t border-border px-4 py-2 text-center text-xs font-medium text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+          >
+            View all notifications
+          </Link>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,40 @@
+import { AtSign, ClipboardCheck, UserPlus, XCircle } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import type { ApiNotification, NotificationType } from "@/lib/api"
+import { cn } from "@/lib/utils"
+
+const TYPE_ICONS: Record<NotificationType, { icon: React.ElementType; className: string }> = {
+  "share.invited": { icon: UserPlus, className: "text-blue-500 bg-blue-500/10" },
+  "tracker.assigned": { icon: ClipboardCheck, className: "text-violet-500 bg-violet-500/10" },
+  "comment.mentioned": { icon: AtSign, className: "text-amber-500 bg-amber-500/10" },
+  "pipeline.failed": { icon: XCircle, className: "text-red-500 bg-red-500/10" },
+}
+
+interface NotificationItemProps {
+  notification: ApiNotification
+  onOpen: (notification: ApiNotification) => void
+  /** Extra controls on the right (e.g. mark read/unread) */
+  actions?: React.ReactNode
+  compact?: boolean
+}
+
+export function NotificationItem({ notification: n, onOpen, actions, compact }: NotificationItemProps) {
+  const { icon: Icon, className } = TYPE_ICONS[n.type] ?? TYPE_ICONS["pipeline.failed"]
+  return (
+    <div className={cn("group flex items-start gap-3 transition-colors hover:bg-muted/50", compact ? "px-4 py-2.5" : "px-4 py-3", !n.read && "bg-primary/5")}>
+      <span className={cn("mt-0.5 flex h-7 w-7 shrink-0 items-center justify-center rounded-full", className)}>
+        <Icon className="h-3.5 w-3.5" />
+      </span>
+      <button type="button" onClick={() => onOpen(n)} className="min-w-0 flex-1 text-left">
+        <p className={cn("text-sm", !n.read && "font-medium")}>{n.title}</p>
+        {n.body && <p className={cn("text-xs text-muted-foreground", compact && "line-clamp-2")}>{n.body}</p>}
+        <p className="mt-0.5 text-[11px] text-muted-foreground">
+          {n.projectName && <>{n.projectName} · </>}
+          {formatDistanceToNow(new Date(n.createdAt), { addSuffix: true })}
+        </p>
+      </button>
+      {actions}
+      {!n.read && <span className="mt-2 h-2 w-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />}
+    </div>
+  )
+}
@@ -0,0 +1,159 @@
+import { useEffect, useRef, useState } from "react"
+import { useNavigate } from "react-router-dom"
+import { Building2, Check, ChevronsUpDown, Plus, Settings, User } from "lucide-react"
+import { ORG_ROLE_LABELS } from "@/lib/api"
+import { useAuthStore } from "@/store/auth"
+import { useWorkspaceStore, selectCurrentOrg } from "@/store/workspace"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import Loader1 from "@/components/ui/loader1"
+
+export function WorkspaceSwitcher() {
+  const navigate = useNavigate()
+  const user = useAuthStore((s) => s.user)
+  const { organizations, currentOrgId, load, switchTo, createOrganization } = useWorkspaceStore()
+  const currentOrg = useWorkspaceStore(selectCurrentOrg)
+  const [open, setOpen] = useState(false)
+  const ref = useRef<HTMLDivElement>(null)
+
+  const [createOpen, setCreateOpen] = useState(false)
+  const [newName, setNewName] = useState("")
+  const [isCreating, setIsCreating] = useState(false)
+  const [createError, setCreateError] = useState<string | null>(null)
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener("mousedown", handleClickOutside)
+    return () => document.removeEventListener("mousedown", handleClickOutside)
+  }, [])
+
+  const select = (orgId: string | null) => {
+    setOpen(false)
+    if (orgId === currentOrgId) return
+    switchTo(orgId)
+    navigate("/projects")
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const name = newName.trim()
+    if (!name) return
+    setIsCreating(true)
+    setCreateError(null)
+    try {
+      const org = await createOrganization(name)
+      switchTo(org._id)
+      setCreateOpen(false)
+      setNewName("")
+      // Next step is inviting people
+      navigate("/settings?tab=organization")
+    } catch (err: any) {
+      setCreateError(err?.message ?? "Failed to create organization.")
+    } finally {
+      setIsCreating(false)
+    }
+  }
+
+  const label = currentOrg?.name ?? "Personal"
+
+  return (
+    <div className="relative" ref={ref}>
+      <button
+        onClick={() => setOpen((o) => !o)}
+        className="flex max-w-44 items-center gap-2 rounded-md px-2 py-1 text-sm font-medium hover:bg-muted transition-colors"
+        title="Switch workspace"
+      >
+        {currentOrg ? <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" /> : <User className="h-4 w-4 shrink-0 text-muted-foreground" />}
+        <span className="truncate">{label}</span>
+        <ChevronsUpDown className="h-3.5 w-3.5 shrink-0 text-muted-foreground" />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 mt-2 w-64 rounded-lg border border-border bg-background shadow-lg z-50 py-1">
+          <p className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Workspaces</p>
+          <button
+            onClick={() => select(null)}
+            className="flex w-full items-center gap-2.5 px-3 py-2 text-sm hover:bg-muted transition-colors"
+          >
+            <User className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span className="flex-1 min-w-0 text-left">
+              <span className="block truncate">Personal</span>
+              <span className="block truncate text-xs text-muted-foreground">{user?.email}</span>
+            </span>
+            {!currentOrgId && <Check className="h-4 w-4 shrink-0 text-primary" />}
+          </button>
+          {organizations.map((org) => (
+            <button
+              key={org._id}
+              onClick={() => select(org._id)}
+              className="flex w-full items-center gap-2.5 px-3 py-2 text-sm hover:bg-muted transition-colors"
+            >
+              <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <span className="flex-1 min-w-0 text-left">
+                <span className="block truncate">{org.name}</span>
+                <span className="block truncate text-xs text-muted-foreground">
+                  {ORG_ROLE_LABELS[org.role].label} · {org.memberCount} {org.memberCount === 1 ? "member" : "members"}
+                </span>
+              </span>
+              {currentOrgId === org._id && <Check className="h-4 w-4 shrink-0 text-primary" />}
+            </button>
+          ))}
+          <div className="border-t border-border my-1" />
+          {currentOrg && (
+            <button
+              onClick={() => { setOpen(false); navigate("/settings?tab=organization") }}
+              className="flex w-full items-center gap-2.5 px-3 py-2 text-sm text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+            >
+              <Settings className="h-4 w-4 shrink-0" />
+              Organization settings
+            </button>
+          )}
+          <button
+            onClick={() => { setOpen(false); setCreateError(null); setCreateOpen(true) }}
+            className="flex w-full items-center gap-2.5 px-3 py-2 text-sm text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+          >
+            <Plus className="h-4 w-4 shrink-0" />
+            Create organization
+          </button>
+        </div>
+      )}
+
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-w-md">
+          <form onSubmit={handleCreate} className="space-y-4">
+            <DialogHeader>
+              <DialogTitle>Create organization</DialogTitle>
+              <DialogDescription>
+                A shared workspace that owns projects, so access doesn't depend on any one person. You'll be its owner.
+              </DialogDescription>
+            </DialogHeader>
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Acme Inc."
+              disabled={isCreating}
+              autoFocus
+            />
+            {createError && <p className="text-sm text-destructive">{createError}</p>}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setCreateOpen(false)} disabled={isCreating}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={isCreating || !newName.trim()}>
+                {isCreating && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+                Create
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
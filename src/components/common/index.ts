@@ -1,3 +1,7 @@
 export { ErrorBanner } from "./ErrorBanner"
 export { EmptyState } from "./EmptyState"
 export { CopyButton } from "./CopyButton"
+export { CommandPalette } from "./CommandPalette"
+export { NotificationBell } from "./NotificationBell"
+export { NotificationItem } from "./NotificationItem"
+export { WorkspaceSwitcher } from "./WorkspaceSwitcher"
@@ -1,6 +1,7 @@
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Skeleton } from "@/components/ui/skeleton"
+import { MessageSquare } from "lucide-react"
 
 interface DocSidebarProps {
   sections: Array<{
@@ -11,6 +12,8 @@ interface DocSidebarProps {
   activeTab: string
   onTabChange: (tab: string) => void
   isLoading: boolean
+  /** Open review comment threads per tab key */
+  commentCounts?: Record<string, number>
 }
 
 export function DocSidebar({
@@ -18,6 +21,7 @@ export function DocSidebar({
   activeTab,
   onTabChange,
   isLoading,
+  commentCounts = {},
 }: DocSidebarProps) {
   if (isLoading) {
     return (
@@ -50,7 +54,13 @@ export function DocSidebar({
               onClick={() => onTabChange(section.key)}
             >
               <Icon className="h-4 w-4" />
-              {section.label}
+              <span className="flex-1 text-left truncate">{section.label}</span>
+              {(commentCounts[section.key] ?? 0) > 0 && (
+                <span className="flex items-center gap-0.5 text-[10px] font-mono opacity-70">
+                  <MessageSquare className="h-2.5 w-2.5" />
+                  {commentCounts[section.key]}
+                </span>
+              )}
             </Button>
           )
         })}
@@ -13,11 +13,16 @@
  * Install: npm install react-markdown remark-gfm
  */
 
-import { useState, useCallback, Children, isValidElement } from "react"
+import { useState, useCallback, useContext, createContext, Children, isValidElement } from "react"
 import ReactMarkdown, { Components } from "react-markdown"
 import remarkGfm from "remark-gfm"          // FIX #1: static import, not require()
-import { Check, Copy, ExternalLink } from "lucide-react"
+import type { Root as HastRoot, RootContent as HastContent } from "hast"
+import { Check, Copy, ExternalLink, MessageSquare, Info, Lightbulb, TriangleAlert, OctagonAlert } from "lucide-react"
 import { cn } from "@/lib/utils"
+import { slugifyHeading } from "@/lib/comment-anchors"
+import { DIAGRAM_LANGS } from "@/lib/mermaid"
+import { remarkAdmonitions, type AdmonitionType } from "@/lib/admonitions"
+import { MermaidDiagram } from "@/components/projects/mermaid-diagram"
 
 // ─────────────────────────────────────────────────────────────────────────────
 // UTILITIES
@@ -30,12 +35,7 @@ function extractText(node: React.ReactNode): string {
 }
 
 function slugify(node: React.ReactNode): string {
-    return extractText(node)
-        .toLowerCase()
-        .replace(/[^\w\s-]/g, "")
-        .replace(/\s+/g, "-")
-        .replace(/-+/g, "-")
-        .trim() || "section"
+    return slugifyHeading(extractText(node))
 }
 
 function isBadgeUrl(src?: string): boolean {
@@ -173,6 +173,86 @@ export function CodeBlock({ lang, code }: { lang: string; code: string }) {
     )
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// CALLOUTS  (::: note / > [!NOTE] — see lib/admonitions.ts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CALLOUT_STYLE: Record<AdmonitionType, { Icon: React.ElementType; box: string; title: string }> = {
+    note: {
+        Icon: Info,
+        box: "border-blue-500/40 bg-blue-500/[0.06]",
+        title: "text-blue-700 dark:text-blue-400",
+    },
+    tip: {
+        Icon: Lightbulb,
+        box: "border-emerald-500/40 bg-emerald-500/[0.06]",
+        title: "text-emerald-700 dark:text-emerald-400",
+    },
+    warning: {
+        Icon: TriangleAlert,
+        box: "border-amber-500/50 bg-amber-500/[0.07]",
+        title: "text-amber-700 dark:text-amber-400",
+    },
+    danger: {
+        Icon: OctagonAlert,
+        box: "border-red-500/40 bg-red-500/[0.06]",
+        title: "text-red-700 dark:text-red-400",
+    },
+}
+
+function Callout({ type, title, children }: { type: AdmonitionType; title: string; children: React.ReactNode }) {
+    const style = CALLOUT_STYLE[type] ?? CALLOUT_STYLE.note
+    const { Icon } = style
+    return (
+        <aside
+            role="note"
+            className={cn("my-6 rounded-lg border-l-4 border px-4 py-3 z-10 [&>p]:my-1.5", style.box)}
+        >
+            <div className={cn("flex items-center gap-2 text-sm font-semibold mb-1", style.title)}>
+                <Icon className="h-4 w-4 shrink-0" />
+                <span>{title}</span>
+            </div>
+            {children}
+        </aside>
+    )
+}
+
+// ─────────────────────────────────────────────────────────────────────────────
+// ANNOTATIONS  (review comments on h1–h3; absent in read-only contexts)
+// ─────────────────────────────────────────────────────────────────────────────
+
+export interface DocAnnotations {
+    /** Open comment threads per heading slug */
+    commentCounts: Record<string, number>
+    onCommentHeading: (slug: string, text: string) => void
+}
+
+const DocAnnotationsContext = createContext<DocAnnotations | null>(null)
+
+function HeadingCommentButton({ slug, heading }: { slug: string; heading: React.ReactNode }) {
+    const annotations = useContext(DocAnnotationsContext)
+    if (!annotations) return null
+    const count = annotations.commentCounts[slug] ?? 0
+
+    return (
+        <button
+            type="button"
+            onClick={() => annotations.onCommentHeading(slug, extractText(heading))}
+            title={count > 0 ? `${count} comment${count !== 1 ? "s" : ""}` : "Comment on this section"}
+            className={cn(
+                "inline-flex items-center gap-1 rounded-full px-1.5 py-0.5 text-[11px] font-medium",
+                "transition-opacity shrink-0 select-none",
+                count > 0
+                    ? "bg-primary/10 text-primary opacity-100"
+                    : "text-muted-foreground opacity-0 group-hover:opacity-60 hover:opacity-100!"
+            )}
+        >
+            <MessageSquare className="h-3 w-3 shrink-0" />
+            {count > 0 && <span>{count}</span>}
+        </button>
+    )
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // RENDERERS
 // ─────────────────────────────────────────────────────────────────────────────
@@ -189,6 +269,7 @@ const components: Components = {
                    flex items-baseline gap-3"
             >
                 <span className="flex-1">{children}</span>
+                <HeadingCommentButton slug={slug} heading={children} />
 
                 <a href={`#${slug}`} aria-hidden
                     className="opacity-0 group-hover:opacity-25 text-muted-foreground
@@ -206,6 +287,7 @@ const components: Components = {
             >
                 <span className="w-[3px] h-5 rounded-full bg-primary shrink-0" aria-hidden />
                 <span className="flex-1">{children}</span>
+                <HeadingCommentButton slug={slug} heading={children} />
                 <a href={`#${slug}`} aria-hidden
                     className="opacity-0 group-hover:opacity-20 text-muted-foreground
                      transition-opacity text-sm font-normal shrink-0">#</a>
@@ -217,9 +299,11 @@ const components: Components = {
         const slug = slugify(children)
         return (
             <h3 id={slug}
-                className="mt-6 mb-2 text-[1rem] font-semibold text-foreground scroll-mt-24"
+                className="group mt-6 mb-2 text-[1rem] font-semibold text-foreground scroll-mt-24
+                   flex items-center gap-2"
             >
-                {children}
+                <span className="flex-1">{children}</span>
+                <HeadingCommentButton slug={slug} heading={children} />
             </h3>
         )
     },
@@ -299,6 +383,9 @@ const components: Components = {
             const lang = className.replace("language-", "")
             const code = String(codeElement.props.children ?? "").replace(/\n$/, "")
 
+            if (DIAGRAM_LANGS.has(lang.toLowerCase())) {
+                return <MermaidDiagram code={code} fallback={<CodeBlock lang={lang} code={code} />} />
+            }
             return <CodeBlock lang={lang} code={code} />
         }
 
@@ -447,6 +534,18 @@ const components: Components = {
         )
     },
 
+    // ── Callouts (produced by remarkAdmonitions) ──────────────────────────────
+
+    aside({ children, node }) {
+        const props = (node as any)?.properties ?? {}
+        if (!props.dataAdmonition) return <aside>{children}</aside>
+        return (
+            <Callout type={props.dataAdmonition as AdmonitionType} title={String(props.dataTitle ?? "")}>
+                {children}
+            </Callout>
+        )
+    },
+
     // ── Horizontal rule ────────────────────────────────────────────────────────
 
     hr() {
@@ -478,6 +577,32 @@ const components: Components = {
     },
 }
 
+// ─────────────────────────────────────────────────────────────────────────────
+// SOURCE LINE MARKERS  (editor preview scroll sync)
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Insert a hidden `<span data-source-line>` before every top-level block. The
+ * custom renderers above don't forward arbitrary props, so markers are
+ * siblings rather than attributes on the blocks themselves.
+ */
+function rehypeSourceLineMarkers() {
+    return (tree: HastRoot) => {
+        tree.children = tree.children.flatMap((node): HastContent[] => {
+            if (node.type !== "element" || !node.position) return [node]
+            return [
+                {
+                    type: "element",
+                    tagName: "span",
+                    properties: { dataSourceLine: node.position.start.line, hidden: true },
+                    children: [],
+                },
+                node,
+            ]
+        })
+    }
+}
+
 // ─────────────────────────────────────────────────────────────────────────────
 // EXPORT
 // ─────────────────────────────────────────────────────────────────────────────
@@ -485,20 +610,27 @@ const components: Components = {
 interface DocRendererProps {
     content: string
     className?: string
+    /** Enables per-heading comment buttons (documentation viewer only) */
+    annotations?: DocAnnotations
+    /** Emit `data-source-line` markers for the editor's scroll sync */
+    sourceLineMarkers?: boolean
 }
 
-export function DocRenderer({ content, className }: DocRendererProps) {
+export function DocRenderer({ content, className, annotations, sourceLineMarkers }: DocRendererProps) {
     if (!content?.trim()) return null
 
     return (
-        <div className={cn("doc-renderer w-full max-w-none [&_*]:box-border", className)}>
-            <ReactMarkdown
-                remarkPlugins={[remarkGfm]}   // FIX #1: always loaded, static import
-                components={components}
-                skipHtml={false}
-            >
-                {content}
-            </ReactMarkdown>
-        </div>
+        <DocAnnotationsContext.Provider value={annotations ?? null}>
+            <div className={cn("doc-renderer w-full max-w-none [&_*]:box-border", className)}>
+                <ReactMarkdown
+                    remarkPlugins={[remarkGfm, remarkAdmonitions]}   // FIX #1: always loaded, static import
+                    rehypePlugins={sourceLineMarkers ? [rehypeSourceLineMarkers] : []}
+                    components={components}
+                    skipHtml={false}
+                >
+                    {content}
+                </ReactMarkdown>
+            </div>
+        </DocAnnotationsContext.Provider>
     )
 }
\ No newline at end of file
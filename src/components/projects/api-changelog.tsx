@@ -0,0 +1,193 @@
+import { useEffect, useMemo, useState } from "react"
+import { format } from "date-fns"
+import { AlertTriangle, Globe, History, RefreshCw, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { CopyButton } from "@/components/common"
+import { cn } from "@/lib/utils"
+import {
+    PORTAL_SECTION_DEFAULT_VISIBILITY, portalApi,
+    type ApiPortal, type ApiSpecChangelogEntry, type PortalSectionConfig, type PortalSectionVisibility, type SpecChange,
+} from "@/lib/api"
+import { useApiChangelogStore } from "@/store/api-changelog"
+import Loader1 from "../ui/loader1"
+
+const NO_ENTRIES: ApiSpecChangelogEntry[] = []
+
+function groupByEndpoint(changes: SpecChange[]): [string, SpecChange[]][] {
+    const groups = new Map<string, SpecChange[]>()
+    for (const change of changes) {
+        if (!groups.has(change.endpointId)) groups.set(change.endpointId, [])
+        groups.get(change.endpointId)!.push(change)
+    }
+    return [...groups.entries()]
+}
+
+/** Renders `code` spans of a change message. */
+function ChangeMessage({ text }: { text: string }) {
+    return (
+        <>
+            {text.split(/(`[^`]+`)/).map((part, i) =>
+                part.startsWith("`") && part.endsWith("`")
+                    ? <code key={i} className="font-mono text-[11px] rounded bg-muted px-1">{part.slice(1, -1)}</code>
+                    : <span key={i}>{part}</span>,
+            )}
+        </>
+    )
+}
+
+// ── Portal toggle ──────────────────────────────────────────────────────────
+
+function PortalToggle({ projectId }: { projectId: string }) {
+    const [portal, setPortal] = useState<ApiPortal | null | undefined>(undefined)
+    const [saving, setSaving] = useState(false)
+
+    useEffect(() => {
+        portalApi.get(projectId).then((r) => setPortal(r.portal)).catch(() => setPortal(null))
+    }, [projectId])
+
+    if (portal === undefined) return null
+    if (portal === null) {
+        return <span className="text-[11px] text-muted-foreground">Set up the public portal to publish this changelog</span>
+    }
+
+    const visibility = portal.sections.find((s) => s.sectionKey === "apiChangelog")?.visibility
+        ?? PORTAL_SECTION_DEFAULT_VISIBILITY.apiChangelog
+        ?? "public"
+    const published = visibility === "public"
+
+    const toggle = async () => {
+        setSaving(true)
+        const next: PortalSectionVisibility = published ? "internal" : "public"
+        const sections: PortalSectionConfig[] = portal.sections.some((s) => s.sectionKey === "apiChangelog")
+            ? portal.sections.map((s) => (s.sectionKey === "apiChangelog" ? { ...s, visibility: next } : s))
+            : [...portal.sections, { sectionKey: "apiChangelog", visibility: next }]
+        try {
+            const r = await portalApi.update(projectId, { sections })
+            setPortal(r.portal)
+        } catch {
+            /* keep the current state */
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <Button
+            variant="outline" size="sm"
+            className={cn("h-7 text-xs gap-1", published && "border-green-500/40 text-green-600 dark:text-green-400")}
+            disabled={saving}
+            title={published ? "Shown as the API Changelog section of the public portal" : "Publish as a section of the public portal"}
+            onClick={toggle}
+        >
+            {saving ? <Loader1 className="h-3 w-3" /> : <Globe className="h-3 w-3" />}
+            {published ? "Published on portal" : "Publish to portal"}
+        </Button>
+    )
+}
+
+// ── ApiChangelog ───────────────────────────────────────────────────────────
+
+interface Props {
+    projectId: string
+    /** Whoever may publish the portal can publish the changelog on it */
+    canPublish: boolean
+    onOpenEndpoint: (endpointId: string) => void
+}
+
+/** Every recorded spec sync or re-import, with breaking changes called out. */
+export function ApiChangelog({ projectId, canPublish, onOpenEndpoint }: Props) {
+    const entries = useApiChangelogStore((s) => s.entries[projectId]) ?? NO_ENTRIES
+    const { load, loading, error } = useApiChangelogStore()
+    const [breakingOnly, setBreakingOnly] = useState(false)
+
+    useEffect(() => {
+        load(projectId)
+    }, [projectId, load])
+
+    const visible = useMemo(
+        () => breakingOnly
+            ? entries.map((e) => ({ ...e, changes: e.changes.filter((c) => c.breaking) })).filter((e) => e.changes.length)
+            : entries,
+        [entries, breakingOnly],
+    )
+
+    return (
+        <div className="flex flex-col h-full overflow-hidden">
+            <div className="shrink-0 flex items-center gap-2 border-b border-border px-4 py-2.5 bg-muted/10 flex-wrap">
+                <History className="h-4 w-4 text-primary" />
+                <span className="font-semibold text-sm flex-1">Changelog</span>
+                <label className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <input type="checkbox" checked={breakingOnly} onChange={(e) => setBreakingOnly(e.target.checked)} />
+                    Breaking changes only
+                </label>
+                {canPublish && <PortalToggle projectId={projectId} />}
+            </div>
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                {error && (
+                    <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">{error}</div>
+                )}
+                {loading && !entries.length ? (
+                    <div className="flex justify-center py-10"><Loader1 className="h-5 w-5" /></div>
+                ) : visible.length === 0 ? (
+                    <p className="py-10 text-center text-sm text-muted-foreground">
+                        {entries.length
+                            ? "No breaking changes recorded."
+                            : "Changes are recorded here each time the spec is synced or re-imported."}
+                    </p>
+                ) : visible.map((entry) => {
+                    const breaking = entry.changes.filter((c) => c.breaking).length
+                    return (
+                        <div key={entry._id} className="rounded-lg border border-border overflow-hidden">
+                            <div className="flex items-center gap-2 border-b border-border bg-muted/30 px-3 py-2 flex-wrap">
+                                {entry.trigger === "sync" ? <RefreshCw className="h-3.5 w-3.5 text-muted-foreground" /> : <Upload className="h-3.5 w-3.5 text-muted-foreground" />}
+                                <span className="text-xs font-medium">
+                                    {entry.fromVersion !== entry.toVersion
+                                        ? `${entry.fromVersion || "—"} → ${entry.toVersion || "—"}`
+                                        : entry.toVersion || "Unversioned"}
+                                </span>
+                                <span className="text-[11px] text-muted-foreground">
+                                    {entry.trigger === "sync" ? "Synced" : "Re-imported"} {format(new Date(entry.createdAt), "PPp")}
+                                    {entry.createdBy && ` by ${entry.createdBy.name}`}
+                                </span>
+                                {breaking > 0 && (
+                                    <span className="flex items-center gap-1 rounded bg-red-500/10 px-1.5 py-0.5 text-[11px] font-medium text-red-600 dark:text-red-400">
+                                        <AlertTriangle className="h-3 w-3" />
+                                        {breaking} breaking
+                                    </span>
+                                )}
+                                <CopyButton text={entry.markdown} label="Markdown" className="ml-auto h-6 px-2 py-0 text-[11px]" />
+                            </div>
+                            <div className="divide-y divide-border">
+                                {groupByEndpoint(entry.changes).map(([endpointId, changes]) => (
+                                    <div key={endpointId} className="px-3 py-2">
+                                        <button
+                                            onClick={() => onOpenEndpoint(endpointId)}
+                                            disabled={changes.some((c) => c.kind === "endpoint-removed")}
+                                            className="font-mono text-xs font-medium hover:text-primary disabled:hover:text-foreground disabled:line-through"
+                                        >
+                                            {endpointId}
+                                        </button>
+                                        <ul className="mt-1 space-y-0.5">
+                                            {changes.map((c, i) => (
+                                                <li key={i} className="flex items-start gap-2 text-xs text-muted-foreground">
+                                                    <span className={cn(
+                                                        "mt-0.5 shrink-0 rounded px-1 text-[10px] font-semibold uppercase",
+                                                        c.breaking ? "bg-red-500/10 text-red-600 dark:text-red-400" : "bg-muted text-muted-foreground",
+                                                    )}>
+                                                        {c.breaking ? "Breaking" : "Change"}
+                                                    </span>
+                                                    <span><ChangeMessage text={c.message} /></span>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                ))}
+                            </div>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
@@ -1,17 +1,50 @@
-import { useState, useMemo } from "react"
+import { useState, useMemo, useEffect } from "react"
+import { formatDistanceToNow } from "date-fns"
 import {
     ChevronDown, ChevronRight, Search, Terminal, Edit3, Check, X,
-    AlertTriangle, Info, RefreshCw, Trash2,
+    AlertTriangle, Info, RefreshCw, Trash2, Lock, Unlock, Download, ShieldCheck,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
 import { cn } from "@/lib/utils"
-import { apiSpecApi, type ApiSpec, type ApiSpecEndpoint, type ApiSpecParameter } from "@/lib/api"
+import { apiSpecApi, isHttpSpec, type ApiSpec, type ApiSpecEndpoint, type ApiSpecParameter } from "@/lib/api"
 import { TryItConsole, METHOD_COLORS } from "./try-it-console"
+import { AuthorizePanel, useTryItCredentials } from "./try-it-authorize"
+import { EnvironmentManager } from "./try-it-environments"
+import { CodeSnippets } from "./code-snippets"
+import { ContractDriftPanel } from "./contract-drift"
+import { useEnvironmentsStore } from "@/store/try-it-environments"
+import { requiresAuth, securityRequirements } from "@/lib/try-it-auth"
+import { toPostmanCollection } from "@/lib/postman"
+import { formatExample, mediaExample } from "@/lib/schema-example"
+import { contractDrift } from "@/lib/contract"
+import { useTryItRequestsStore } from "@/store/try-it-requests"
+import { useAuthStore } from "@/store/auth"
 
 // ── Method badge ───────────────────────────────────────────────────────────
 
+/** Sidebar abbreviations for the longer AsyncAPI actions */
+const METHOD_SHORT: Record<string, string> = { PUBLISH: "PUB", SUBSCRIBE: "SUB", RECEIVE: "RECV" }
+
+function specVersionLabel(version: ApiSpec["specVersion"]): string {
+    switch (version) {
+        case "postman": return "Postman"
+        case "asyncapi-2": return "AsyncAPI 2"
+        case "asyncapi-3": return "AsyncAPI 3"
+        case "protobuf": return "Protobuf"
+        default: return `OAS ${version}`
+    }
+}
+
+/** What the endpoint list is called for each kind of spec. */
+function endpointNoun(spec: ApiSpec, count: number): string {
+    const noun = spec.specVersion === "protobuf" ? "RPC"
+        : spec.specVersion.startsWith("asyncapi") ? "operation"
+            : "endpoint"
+    return `${count} ${noun}${count !== 1 ? "s" : ""}`
+}
+
 function MethodBadge({ method, className }: { method: string; className?: string }) {
     return (
         <span className={cn(
@@ -109,6 +142,50 @@ function SchemaDisplay({ schema, depth = 0 }: SchemaProps) {
     )
 }
 
+// ── Schema / example toggle ────────────────────────────────────────────────
+
+interface SchemaExampleProps {
+    spec: ApiSpec
+    media: { schema: Record<string, unknown>; example?: unknown }
+    direction: "request" | "response"
+}
+
+/** A media type's schema tree, or a sample payload — the spec's own or generated. */
+function SchemaExampleView({ spec, media, direction }: SchemaExampleProps) {
+    const [view, setView] = useState<"schema" | "example">("schema")
+    const example = useMemo(() => formatExample(mediaExample(spec, media, direction)), [spec, media, direction])
+    const generated = media.example === undefined || media.example === null
+
+    return (
+        <div>
+            <div className="mb-2 flex items-center gap-0.5">
+                {(["schema", "example"] as const).map((v) => (
+                    <button
+                        key={v}
+                        onClick={() => setView(v)}
+                        className={cn(
+                            "rounded px-2 py-0.5 text-[11px] font-medium capitalize transition-colors",
+                            view === v ? "bg-muted text-foreground" : "text-muted-foreground hover:text-foreground",
+                        )}
+                    >
+                        {v}
+                    </button>
+                ))}
+                {view === "example" && example && generated && (
+                    <span className="ml-2 text-[10px] text-muted-foreground">Generated from the schema</span>
+                )}
+            </div>
+            {view === "schema" ? (
+                <SchemaDisplay schema={media.schema} depth={0} />
+            ) : example ? (
+                <pre className="rounded bg-muted/40 p-2 font-mono text-[11px] overflow-x-auto whitespace-pre-wrap">{example}</pre>
+            ) : (
+                <p className="text-[11px] text-muted-foreground">No example can be derived from this schema.</p>
+            )}
+        </div>
+    )
+}
+
 // ── Parameters table ───────────────────────────────────────────────────────
 
 function ParamsTable({ params, title }: { params: ApiSpecParameter[]; title: string }) {
@@ -169,6 +246,9 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
     const queryParams = endpoint.parameters.filter((p) => p.in === "query")
     const headerParams = endpoint.parameters.filter((p) => p.in === "header")
     const cookieParams = endpoint.parameters.filter((p) => p.in === "cookie")
+    // AsyncAPI and protobuf specs describe messages, not HTTP calls
+    const http = isHttpSpec(spec)
+    const async = spec.specVersion.startsWith("asyncapi")
 
     const handleSaveNote = async () => {
         setNoteSaving(true)
@@ -193,6 +273,7 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
 
     function responseCodeColor(code: string) {
         const n = parseInt(code, 10)
+        if (Number.isNaN(n)) return "bg-muted text-muted-foreground border-border"
         if (n < 300) return "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20"
         if (n < 400) return "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20"
         if (n < 500) return "bg-primary/10 text-primary dark:text-primary border-primary/20"
@@ -222,10 +303,22 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
                     {endpoint.operationId && (
                         <p className="mt-1 text-[11px] font-mono text-muted-foreground/60">operationId: {endpoint.operationId}</p>
                     )}
+                    {securityRequirements(spec, endpoint).length > 0 && (
+                        <p className="mt-1.5 flex items-center gap-1 text-[11px] text-muted-foreground">
+                            <Lock className="h-3 w-3" />
+                            {requiresAuth(spec, endpoint) ? "Requires" : "Accepts"}{" "}
+                            {securityRequirements(spec, endpoint)
+                                .filter((r) => Object.keys(r).length > 0)
+                                .map((r) => Object.keys(r).join(" + "))
+                                .join(" or ")}
+                        </p>
+                    )}
                 </div>
-                <Button size="sm" variant="outline" className="shrink-0 gap-1.5" onClick={onTryIt}>
-                    <Terminal className="h-3.5 w-3.5" /> Try It
-                </Button>
+                {http && (
+                    <Button size="sm" variant="outline" className="shrink-0 gap-1.5" onClick={onTryIt}>
+                        <Terminal className="h-3.5 w-3.5" /> Try It
+                    </Button>
+                )}
             </div>
 
             {/* Custom note */}
@@ -269,16 +362,16 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
             </div>
 
             {/* Parameters */}
-            <ParamsTable params={pathParams} title="Path parameters" />
+            <ParamsTable params={pathParams} title={async ? "Channel parameters" : "Path parameters"} />
             <ParamsTable params={queryParams} title="Query parameters" />
-            <ParamsTable params={headerParams} title="Header parameters" />
+            <ParamsTable params={headerParams} title={async ? "Message headers" : "Header parameters"} />
             <ParamsTable params={cookieParams} title="Cookie parameters" />
 
             {/* Request body */}
             {endpoint.requestBody && (
                 <div>
                     <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
-                        Request body
+                        {async ? "Payload" : spec.specVersion === "protobuf" ? "Request message" : "Request body"}
                         {endpoint.requestBody.required && <span className="text-destructive ml-1">*</span>}
                     </h4>
                     {endpoint.requestBody.description && (
@@ -289,15 +382,7 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
                             <div key={ct} className="rounded-lg border border-border overflow-hidden">
                                 <div className="border-b border-border bg-muted/30 px-3 py-1.5 font-mono text-[11px] text-muted-foreground">{ct}</div>
                                 <div className="p-3">
-                                    <SchemaDisplay schema={mc.schema} depth={0} />
-                                    {mc.example !== null && mc.example !== undefined && (
-                                        <div className="mt-2">
-                                            <p className="text-[11px] text-muted-foreground mb-1">Example:</p>
-                                            <pre className="rounded bg-muted/40 p-2 font-mono text-[11px] overflow-x-auto whitespace-pre-wrap">
-                                                {typeof mc.example === "string" ? mc.example : JSON.stringify(mc.example, null, 2)}
-                                            </pre>
-                                        </div>
-                                    )}
+                                    <SchemaExampleView spec={spec} media={mc} direction="request" />
                                 </div>
                             </div>
                         ))}
@@ -308,7 +393,9 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
             {/* Responses */}
             {Object.keys(endpoint.responses).length > 0 && (
                 <div>
-                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Responses</h4>
+                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">
+                        {async ? "Reply" : spec.specVersion === "protobuf" ? "Response message" : "Responses"}
+                    </h4>
                     <div className="space-y-2">
                         {Object.entries(endpoint.responses).map(([code, r]) => (
                             <div key={code} className="rounded-lg border border-border overflow-hidden">
@@ -329,12 +416,7 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
                                         {Object.entries(r.content ?? {}).map(([ct, mc]) => (
                                             <div key={ct}>
                                                 <p className="font-mono text-[11px] text-muted-foreground mb-1">{ct}</p>
-                                                <SchemaDisplay schema={mc.schema} depth={0} />
-                                                {mc.example !== null && mc.example !== undefined && (
-                                                    <pre className="mt-2 rounded bg-muted/40 p-2 font-mono text-[11px] overflow-x-auto whitespace-pre-wrap">
-                                                        {typeof mc.example === "string" ? mc.example : JSON.stringify(mc.example, null, 2)}
-                                                    </pre>
-                                                )}
+                                                <SchemaExampleView spec={spec} media={mc} direction="response" />
                                             </div>
                                         ))}
                                     </div>
@@ -344,18 +426,114 @@ function EndpointDetail({ endpoint, spec, projectId, canEdit, onNoteUpdated, onT
                     </div>
                 </div>
             )}
+
+            {/* Code samples */}
+            {http && (
+                <div>
+                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Code samples</h4>
+                    <CodeSnippets projectId={projectId} spec={spec} endpoint={endpoint} />
+                </div>
+            )}
+
+            {http && <SavedExamples projectId={projectId} endpointId={endpoint.id} canEdit={canEdit} />}
         </div>
     )
 }
 
+// ── Saved examples ─────────────────────────────────────────────────────────
+
+function SavedExamples({ projectId, endpointId, canEdit }: { projectId: string; endpointId: string; canEdit: boolean }) {
+    const all = useTryItRequestsStore((s) => s.examples[projectId])
+    const deleteExample = useTryItRequestsStore((s) => s.deleteExample)
+    const userId = useAuthStore((s) => s.user?.id)
+    const [openId, setOpenId] = useState<string | null>(null)
+    const examples = (all ?? []).filter((e) => e.endpointId === endpointId)
+    if (examples.length === 0) return null
+
+    return (
+        <div>
+            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Saved examples</h4>
+            <div className="space-y-2">
+                {examples.map((ex) => {
+                    const query = new URLSearchParams(ex.request.queryParams ?? {}).toString()
+                    const open = openId === ex._id
+                    return (
+                        <div key={ex._id} className="rounded-lg border border-border overflow-hidden">
+                            <div className="flex items-center gap-2.5 px-3 py-2 hover:bg-muted/30 transition-colors">
+                                <button onClick={() => setOpenId(open ? null : ex._id)} className="flex flex-1 min-w-0 items-center gap-2.5 text-left">
+                                    {open
+                                        ? <ChevronDown className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                        : <ChevronRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+                                    <span className="text-xs font-medium truncate">{ex.name}</span>
+                                    {ex.response && (
+                                        <span className="rounded border border-border px-1.5 py-0.5 text-[10px] font-mono text-muted-foreground shrink-0">
+                                            {ex.response.status}
+                                        </span>
+                                    )}
+                                    <span className="ml-auto text-[10px] text-muted-foreground shrink-0">
+                                        {ex.createdBy?.name ? `${ex.createdBy.name} · ` : ""}{formatDistanceToNow(new Date(ex.createdAt), { addSuffix: true })}
+                                    </span>
+                                </button>
+                                {(canEdit || ex.createdBy?.id === userId) && (
+                                    <button
+                                        onClick={() => deleteExample(projectId, ex._id)}
+                                        className="text-muted-foreground hover:text-destructive shrink-0"
+                                        title="Delete example"
+                                    >
+                                        <Trash2 className="h-3 w-3" />
+                                    </button>
+                                )}
+                            </div>
+                            {open && (
+                                <div className="border-t border-border p-3 space-y-2">
+                                    <code className="block font-mono text-[11px] break-all">
+                                        {ex.request.method} {ex.request.path}{query && `?${query}`}
+                                    </code>
+                                    {Object.keys(ex.request.headers ?? {}).length > 0 && (
+                                        <div className="font-mono text-[11px] text-muted-foreground">
+                                            {Object.entries(ex.request.headers ?? {}).map(([k, v]) => (
+                                                <div key={k}><span className="text-primary">{k}</span>: {v}</div>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {ex.request.body && (
+                                        <pre className="rounded bg-muted/40 p-2 font-mono text-[11px] overflow-x-auto whitespace-pre-wrap">{ex.request.body}</pre>
+                                    )}
+                                    {ex.response && (
+                                        <>
+                                            <p className="text-[11px] text-muted-foreground">Response {ex.response.status}</p>
+                                            <pre className="max-h-64 overflow-auto rounded bg-muted/40 p-2 font-mono text-[11px] whitespace-pre-wrap">
+                                                {prettyJson(ex.response.body)}
+                                            </pre>
+                                        </>
+                                    )}
+                                </div>
+                            )}
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+}
+
+function prettyJson(text: string): string {
+    try {
+        return JSON.stringify(JSON.parse(text), null, 2)
+    } catch {
+        return text
+    }
+}
+
 // ── Tag group in sidebar ───────────────────────────────────────────────────
 
 function TagGroup({
-    name, description, endpoints, selectedId, onSelect,
+    name, description, endpoints, spec, selectedId, onSelect,
 }: {
     name: string
     description: string
     endpoints: ApiSpecEndpoint[]
+    spec: ApiSpec
     selectedId: string | null
     onSelect: (ep: ApiSpecEndpoint) => void
 }) {
@@ -386,9 +564,12 @@ function TagGroup({
                                 "shrink-0 rounded border px-1 py-0.5 text-[10px] font-bold font-mono w-12 text-center",
                                 METHOD_COLORS[ep.method] ?? "bg-muted text-muted-foreground",
                             )}>
-                                {ep.method}
+                                {METHOD_SHORT[ep.method] ?? ep.method}
                             </span>
                             <span className="flex-1 truncate text-left font-mono">{ep.path}</span>
+                            {requiresAuth(spec, ep) && (
+                                <Lock className="h-3 w-3 shrink-0 text-muted-foreground/70" aria-label="Requires authentication" />
+                            )}
                         </button>
                     ))}
                 </div>
@@ -407,13 +588,45 @@ interface ViewerProps {
     onSync?: () => void
     onDelete?: () => void
     isSyncing?: boolean
+    /** Endpoint to open first, e.g. from a search result link */
+    initialEndpointId?: string | null
 }
 
-export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSync, onDelete, isSyncing }: ViewerProps) {
+export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSync, onDelete, isSyncing, initialEndpointId }: ViewerProps) {
     const [search, setSearch] = useState("")
-    const [selectedEndpointId, setSelectedEndpointId] = useState<string | null>(null)
+    const [selectedEndpointId, setSelectedEndpointId] = useState<string | null>(initialEndpointId ?? null)
     const [tryItOpen, setTryItOpen] = useState(false)
+    const [authOpen, setAuthOpen] = useState(false)
+    const [envManagerOpen, setEnvManagerOpen] = useState(false)
+    const [driftOpen, setDriftOpen] = useState(false)
     const [specState, setSpecState] = useState(spec)
+    const credentials = useTryItCredentials(projectId)
+    const hasSchemes = isHttpSpec(specState) && Object.keys(specState.securitySchemes ?? {}).length > 0
+
+    useEffect(() => {
+        if (initialEndpointId) setSelectedEndpointId(initialEndpointId)
+    }, [initialEndpointId])
+
+    useEffect(() => {
+        useEnvironmentsStore.getState().load(projectId)
+        useTryItRequestsStore.getState().loadExamples(projectId)
+        useTryItRequestsStore.getState().loadHistory(projectId)
+    }, [projectId])
+
+    const examples = useTryItRequestsStore((s) => s.examples[projectId]) ?? []
+    const history = useTryItRequestsStore((s) => s.history[projectId])
+    const drift = useMemo(() => contractDrift(specState, history ?? {}), [specState, history])
+
+    const exportPostman = () => {
+        const collection = toPostmanCollection(specState, examples)
+        const blob = new Blob([JSON.stringify(collection, null, 2)], { type: "application/json" })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement("a")
+        a.href = url
+        a.download = `${(specState.info.title || "api").replace(/[^\w.-]+/g, "_")}.postman_collection.json`
+        a.click()
+        URL.revokeObjectURL(url)
+    }
 
     // Group endpoints by tags
     const grouped = useMemo(() => {
@@ -474,11 +687,48 @@ export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSyn
                         <Badge variant="outline" className="text-[10px] shrink-0">{specState.info.version}</Badge>
                     )}
                     <Badge variant="outline" className="text-[10px] shrink-0 font-mono">
-                        {specState.specVersion === "postman" ? "Postman" : `OAS ${specState.specVersion}`}
+                        {specVersionLabel(specState.specVersion)}
                     </Badge>
-                    <span className="text-xs text-muted-foreground shrink-0">{specState.endpoints.length} endpoints</span>
+                    <span className="text-xs text-muted-foreground shrink-0">{endpointNoun(specState, specState.endpoints.length)}</span>
                 </div>
                 <div className="flex items-center gap-1.5">
+                    {drift.checked.length > 0 && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className={cn("h-7 text-xs gap-1", drift.failing.length > 0 && "border-red-500/40 text-red-600 dark:text-red-400")}
+                            title="Live responses checked against this spec"
+                            onClick={() => setDriftOpen(true)}
+                        >
+                            <ShieldCheck className="h-3 w-3" />
+                            {drift.failing.length > 0
+                                ? `${drift.failing.length} drifting`
+                                : `${drift.checked.length} in contract`}
+                        </Button>
+                    )}
+                    {examples.length > 0 && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs gap-1"
+                            title={`Download the ${examples.length} saved example${examples.length !== 1 ? "s" : ""} as a Postman v2.1 collection`}
+                            onClick={exportPostman}
+                        >
+                            <Download className="h-3 w-3" />
+                            Postman
+                        </Button>
+                    )}
+                    {hasSchemes && (
+                        <Button
+                            variant="outline"
+                            size="sm"
+                            className={cn("h-7 text-xs gap-1", Object.keys(credentials).length > 0 && "border-green-500/40 text-green-600 dark:text-green-400")}
+                            onClick={() => setAuthOpen(true)}
+                        >
+                            {Object.keys(credentials).length > 0 ? <Unlock className="h-3 w-3" /> : <Lock className="h-3 w-3" />}
+                            Authorize
+                        </Button>
+                    )}
                     {specState.source === "url" && onSync && (
                         <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={onSync} disabled={isSyncing}>
                             {isSyncing
@@ -528,6 +778,7 @@ export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSyn
                                     name={tag}
                                     description={specState.tags.find((t) => t.name === tag)?.description ?? ""}
                                     endpoints={eps}
+                                    spec={specState}
                                     selectedId={selectedEndpointId}
                                     onSelect={(ep) => {
                                         setSelectedEndpointId(ep.id)
@@ -560,6 +811,8 @@ export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSyn
                                 endpoint={selectedEndpoint}
                                 spec={specState}
                                 onClose={() => setTryItOpen(false)}
+                                onAuthorize={() => setAuthOpen(true)}
+                                onManageEnvironments={() => setEnvManagerOpen(true)}
                             />
                         </div>
                     ) : (
@@ -577,6 +830,31 @@ export function ApiReferenceViewer({ spec, projectId, canEdit, onReimport, onSyn
                     )}
                 </div>
             </div>
+
+            {authOpen && (
+                <AuthorizePanel
+                    projectId={projectId}
+                    spec={specState}
+                    highlight={selectedEndpoint ? securityRequirements(specState, selectedEndpoint).flatMap((r) => Object.keys(r)) : []}
+                    onClose={() => setAuthOpen(false)}
+                />
+            )}
+
+            {envManagerOpen && (
+                <EnvironmentManager projectId={projectId} onClose={() => setEnvManagerOpen(false)} />
+            )}
+
+            {driftOpen && (
+                <ContractDriftPanel
+                    projectId={projectId}
+                    spec={specState}
+                    onSelect={(ep) => {
+                        setSelectedEndpointId(ep.id)
+                        setTryItOpen(false)
+                    }}
+                    onClose={() => setDriftOpen(false)}
+                />
+            )}
         </div>
     )
 }
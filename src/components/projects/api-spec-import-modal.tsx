@@ -5,14 +5,18 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { cn } from "@/lib/utils"
-import { apiSpecApi, type ApiSpec } from "@/lib/api"
+import { apiSpecApi, type ApiSpec, type ApiSpecChangelogEntry, type ApiSpecImportResult } from "@/lib/api"
+import { INTROSPECTION_QUERY, detectGraphQLSchema, parseIntrospection } from "@/lib/graphql"
+import { looksLikeProto, parseProto, protoToSpec } from "@/lib/protobuf"
+import { asyncApiToSpec, fetchDocument, looksLikeAsyncApi } from "@/lib/asyncapi"
 import Loader1 from "../ui/loader1"
 
 interface Props {
     projectId: string
     open: boolean
     onClose: () => void
-    onImported: (spec: ApiSpec) => void
+    /** `changelog` is the entry the server recorded for a re-import, if anything changed */
+    onImported: (spec: ApiSpec, changelog: ApiSpecChangelogEntry | null) => void
     existingSpec?: ApiSpec | null
 }
 
@@ -31,6 +35,7 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
     // URL tab
     const [url, setUrl] = useState("")
     const [autoSync, setAutoSync] = useState(false)
+    const [introspect, setIntrospect] = useState(false)
 
     // Raw tab
     const [rawText, setRawText] = useState("")
@@ -42,6 +47,7 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
         setUrl("")
         setRawText("")
         setAutoSync(false)
+        setIntrospect(false)
         setDragOver(false)
     }, [])
 
@@ -70,26 +76,83 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
         setError(null)
         setLoading(true)
         try {
-            let result: ApiSpec
+            let result: ApiSpecImportResult
 
             if (tab === "file") {
                 if (!selectedFile) { setError("Please select a file."); return }
-                const fd = new FormData()
-                fd.append("file", selectedFile)
-                fd.append("method", "file")
-                const data = await apiSpecApi.importFile(projectId, fd)
-                result = data.spec
+                const text = await selectedFile.text()
+                const title = selectedFile.name.replace(/\.\w+$/, "")
+                // .proto, AsyncAPI and GraphQL schemas are converted here; everything else is parsed by the server
+                const isProto = selectedFile.name.endsWith(".proto") || looksLikeProto(text)
+                const isAsyncApi = !isProto && looksLikeAsyncApi(text)
+                const schema = isProto || isAsyncApi ? null : detectGraphQLSchema(text)
+                if (isProto) {
+                    const data = await apiSpecApi.importProtobuf(projectId, { ...protoToSpec(parseProto(text), title), source: "file" })
+                    result = data
+                } else if (isAsyncApi) {
+                    const data = await apiSpecApi.importAsyncapi(projectId, { ...asyncApiToSpec(text, title), source: "file" })
+                    result = data
+                } else if (schema) {
+                    const data = await apiSpecApi.importGraphql(projectId, { schema, source: "file", title })
+                    result = data
+                } else {
+                    const fd = new FormData()
+                    fd.append("file", selectedFile)
+                    fd.append("method", "file")
+                    const data = await apiSpecApi.importFile(projectId, fd)
+                    result = data
+                }
             } else if (tab === "url") {
                 if (!url.trim()) { setError("Please enter a URL."); return }
-                const data = await apiSpecApi.importUrl(projectId, url.trim(), autoSync)
-                result = data.spec
+                if (introspect) {
+                    // Run the introspection query through the Try-It proxy, which avoids CORS
+                    const res = await apiSpecApi.tryRequest(projectId, {
+                        method: "POST",
+                        baseUrl: url.trim(),
+                        path: "",
+                        headers: { "Content-Type": "application/json", Accept: "application/json" },
+                        body: JSON.stringify({ query: INTROSPECTION_QUERY, operationName: "IntrospectionQuery" }),
+                    })
+                    if (res.status >= 400) throw new Error(`Introspection failed with HTTP ${res.status}.`)
+                    let json: unknown
+                    try {
+                        json = JSON.parse(res.body)
+                    } catch {
+                        throw new Error("The endpoint did not return JSON. Is this a GraphQL endpoint?")
+                    }
+                    const schema = parseIntrospection(json)
+                    const data = await apiSpecApi.importGraphql(projectId, { schema, source: "url", url: url.trim(), autoSync })
+                    result = data
+                } else {
+                    // AsyncAPI is converted here, so look at the document first; other formats go to the server
+                    const text = await fetchDocument(projectId, url.trim()).catch(() => null)
+                    if (text !== null && looksLikeAsyncApi(text)) {
+                        if (autoSync) throw new Error("Auto-sync is not available for AsyncAPI documents. Turn it off to import, then use Sync to refresh.")
+                        const data = await apiSpecApi.importAsyncapi(projectId, { ...asyncApiToSpec(text), source: "url", url: url.trim() })
+                        result = data
+                    } else {
+                        const data = await apiSpecApi.importUrl(projectId, url.trim(), autoSync)
+                        result = data
+                    }
+                }
             } else {
                 if (!rawText.trim()) { setError("Please paste a spec."); return }
-                const data = await apiSpecApi.importRaw(projectId, rawText.trim())
-                result = data.spec
+                if (looksLikeProto(rawText)) {
+                    const data = await apiSpecApi.importProtobuf(projectId, { ...protoToSpec(parseProto(rawText)), source: "raw" })
+                    result = data
+                } else if (looksLikeAsyncApi(rawText)) {
+                    const data = await apiSpecApi.importAsyncapi(projectId, { ...asyncApiToSpec(rawText), source: "raw" })
+                    result = data
+                } else {
+                    const schema = detectGraphQLSchema(rawText)
+                    const data = schema
+                        ? await apiSpecApi.importGraphql(projectId, { schema, source: "raw" })
+                        : await apiSpecApi.importRaw(projectId, rawText.trim())
+                    result = data
+                }
             }
 
-            onImported(result)
+            onImported(result.spec, result.changelog ?? null)
             reset()
             onClose()
         } catch (err: unknown) {
@@ -163,7 +226,7 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
                                 <input
                                     ref={fileInputRef}
                                     type="file"
-                                    accept=".json,.yaml,.yml"
+                                    accept=".json,.yaml,.yml,.graphql,.gql,.proto"
                                     className="hidden"
                                     onChange={handleFileSelect}
                                 />
@@ -187,12 +250,12 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
                                         <p className="text-sm text-muted-foreground">
                                             Drag & drop or <span className="text-primary underline underline-offset-2">click to select</span>
                                         </p>
-                                        <p className="mt-1 text-xs text-muted-foreground/60">.json, .yaml, .yml — max 5 MB</p>
+                                        <p className="mt-1 text-xs text-muted-foreground/60">.json, .yaml, .yml, .graphql, .proto — max 5 MB</p>
                                     </>
                                 )}
                             </div>
                             <p className="text-xs text-muted-foreground">
-                                Supports <strong>OpenAPI 2.0 / 3.0 / 3.1</strong> and <strong>Postman Collection v2.x</strong>
+                                Supports <strong>OpenAPI 2.0 / 3.0 / 3.1</strong>, <strong>AsyncAPI 2.x / 3.x</strong>, <strong>Postman Collection v2.x</strong>, <strong>GraphQL</strong> SDL or introspection JSON, and <strong>Protobuf</strong> <code>.proto</code> files
                             </p>
                         </div>
                     )}
@@ -201,17 +264,23 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
                     {tab === "url" && (
                         <div className="space-y-4">
                             <div className="space-y-1.5">
-                                <Label className="text-xs">Spec URL</Label>
+                                <Label className="text-xs">{introspect ? "GraphQL endpoint" : "Spec URL"}</Label>
                                 <Input
-                                    placeholder="https://api.example.com/openapi.json"
+                                    placeholder={introspect ? "https://api.example.com/graphql" : "https://api.example.com/openapi.json"}
                                     value={url}
                                     onChange={(e) => setUrl(e.target.value)}
                                     onKeyDown={(e) => e.key === "Enter" && handleImport()}
                                 />
                                 <p className="text-xs text-muted-foreground">
-                                    Must be publicly accessible. Supports JSON and YAML.
+                                    {introspect
+                                        ? "The schema is read with an introspection query, which the server must allow."
+                                        : "Must be publicly accessible. Supports JSON and YAML."}
                                 </p>
                             </div>
+                            <label className="flex cursor-pointer items-center gap-2 text-sm">
+                                <input type="checkbox" checked={introspect} onChange={(e) => setIntrospect(e.target.checked)} />
+                                GraphQL endpoint (run introspection)
+                            </label>
                             <label className="flex cursor-pointer items-center gap-2.5">
                                 <div
                                     onClick={() => setAutoSync((v) => !v)}
@@ -235,7 +304,7 @@ export function ApiSpecImportModal({ projectId, open, onClose, onImported, exist
                     {/* Raw paste */}
                     {tab === "raw" && (
                         <div className="space-y-2">
-                            <Label className="text-xs">Paste OpenAPI / Swagger / Postman JSON or YAML</Label>
+                            <Label className="text-xs">Paste OpenAPI / AsyncAPI / Postman JSON or YAML, a GraphQL schema or a .proto file</Label>
                             <textarea
                                 className="h-44 w-full resize-none rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring"
                                 placeholder={'{\n  "openapi": "3.0.0",\n  "info": { ... },\n  "paths": { ... }\n}'}
@@ -0,0 +1,96 @@
+import { useMemo, useState } from "react"
+import { Code2 } from "lucide-react"
+import { CopyButton } from "@/components/common"
+import { cn } from "@/lib/utils"
+import type { ApiSpec, ApiSpecEndpoint } from "@/lib/api"
+import { variableMap } from "@/lib/environments"
+import {
+    SNIPPET_LANGUAGES, buildSnippetRequest, defaultInputs, generateSnippet, type SnippetLanguage,
+} from "@/lib/snippets"
+import { useEnvironmentsStore } from "@/store/try-it-environments"
+import { useTryItRequestsStore } from "@/store/try-it-requests"
+
+const LANGUAGE_KEY = "docnine:snippet-language"
+
+function readLanguage(): SnippetLanguage {
+    try {
+        const stored = localStorage.getItem(LANGUAGE_KEY)
+        if (SNIPPET_LANGUAGES.some((l) => l.id === stored)) return stored as SnippetLanguage
+    } catch {
+        /* ignore */
+    }
+    return "curl"
+}
+
+interface Props {
+    projectId: string
+    spec: ApiSpec
+    endpoint: ApiSpecEndpoint
+    className?: string
+}
+
+/**
+ * Ready-to-run client code for an endpoint. Follows the Try-It console's
+ * fields while it is open for this endpoint, and its active environment;
+ * credentials and secret variables only ever appear as placeholders.
+ */
+export function CodeSnippets({ projectId, spec, endpoint, className }: Props) {
+    const [language, setLanguage] = useState<SnippetLanguage>(readLanguage)
+    const draft = useTryItRequestsStore((s) => s.drafts[projectId]?.[endpoint.id])
+    const environments = useEnvironmentsStore((s) => s.environments[projectId])
+    const selection = useEnvironmentsStore((s) => s.selection[projectId])
+
+    const code = useMemo(() => {
+        const activeEnv = selection?.kind === "env" ? environments?.find((e) => e._id === selection.id) ?? null : null
+        const baseUrl = activeEnv
+            ? activeEnv.baseUrl
+            : spec.servers?.[selection?.kind === "server" ? selection.index : 0]?.url ?? spec.servers?.[0]?.url ?? ""
+        const request = buildSnippetRequest({
+            spec,
+            endpoint,
+            baseUrl,
+            inputs: draft ?? defaultInputs(spec, endpoint),
+            envHeaders: activeEnv?.headers,
+            vars: variableMap(activeEnv, false),
+        })
+        return generateSnippet(language, request)
+    }, [spec, endpoint, draft, environments, selection, language])
+
+    const choose = (id: SnippetLanguage) => {
+        setLanguage(id)
+        try {
+            localStorage.setItem(LANGUAGE_KEY, id)
+        } catch {
+            /* ignore */
+        }
+    }
+
+    return (
+        <div className={cn("rounded-lg border border-border overflow-hidden", className)}>
+            <div className="flex items-center gap-1 border-b border-border bg-muted/30 px-2 py-1">
+                <Code2 className="h-3.5 w-3.5 text-muted-foreground mr-1 shrink-0" />
+                <div className="flex flex-1 items-center gap-0.5 overflow-x-auto">
+                    {SNIPPET_LANGUAGES.map((l) => (
+                        <button
+                            key={l.id}
+                            onClick={() => choose(l.id)}
+                            className={cn(
+                                "rounded px-2 py-0.5 text-[11px] font-medium transition-colors whitespace-nowrap",
+                                language === l.id ? "bg-background text-foreground shadow-sm" : "text-muted-foreground hover:text-foreground",
+                            )}
+                        >
+                            {l.label}
+                        </button>
+                    ))}
+                </div>
+                <CopyButton text={code} className="h-6 px-2 py-0 text-[11px] shrink-0" />
+            </div>
+            <pre className="max-h-96 overflow-auto p-3 font-mono text-[11px] leading-relaxed whitespace-pre">{code}</pre>
+            {draft && (
+                <p className="border-t border-border px-3 py-1 text-[10px] text-muted-foreground">
+                    Reflects the values currently entered in Try It.
+                </p>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,121 @@
+/**
+ * collab-presence.tsx — Who else has the project open.
+ *
+ * CollabPresence sits in the documentation top bar: connection status plus an
+ * avatar per collaborator, titled with the tab they are viewing or editing.
+ * TabPresenceDots marks sidebar tabs that other people have open.
+ */
+import { Pencil } from "lucide-react"
+import { useCollabStore } from "@/store/collab"
+import { peerColor, type CollabPeer } from "@/lib/collab"
+import { cn } from "@/lib/utils"
+
+const MAX_AVATARS = 4
+
+function initials(name: string) {
+  return name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((w) => w[0]!.toUpperCase())
+    .join("") || "?"
+}
+
+/** One entry per person — a user with several tabs open shows once */
+function uniquePeers(peers: CollabPeer[]): CollabPeer[] {
+  const byUser = new Map<string, CollabPeer>()
+  for (const peer of peers) {
+    const current = byUser.get(peer.user.id)
+    if (!current || (peer.presence.editing && !current.presence.editing)) byUser.set(peer.user.id, peer)
+  }
+  return [...byUser.values()]
+}
+
+interface CollabPresenceProps {
+  /** Display label of a tab key */
+  tabLabel: (tab: string) => string
+}
+
+export function CollabPresence({ tabLabel }: CollabPresenceProps) {
+  const status = useCollabStore((s) => s.status)
+  const peers = useCollabStore((s) => s.peers)
+  if (status === "idle") return null
+
+  const people = uniquePeers(Object.values(peers))
+  const shown = people.slice(0, MAX_AVATARS)
+
+  return (
+    <div className="flex items-center gap-2">
+      <span
+        className="flex items-center gap-1.5 text-[11px] text-muted-foreground"
+        title={
+          status === "live"
+            ? "Edits are shared live with other editors"
+            : status === "connecting"
+              ? "Connecting to live collaboration…"
+              : "Live collaboration unavailable — saves are checked for conflicting edits"
+        }
+      >
+        <span
+          className={cn(
+            "h-1.5 w-1.5 rounded-full",
+            status === "live" ? "bg-green-500" : status === "connecting" ? "bg-amber-500 animate-pulse" : "bg-muted-foreground/50",
+          )}
+        />
+        <span className="hidden md:inline">{status === "live" ? "Live" : status === "connecting" ? "Connecting" : "Offline"}</span>
+      </span>
+
+      {shown.length > 0 && (
+        <div className="flex -space-x-1.5">
+          {shown.map((peer) => {
+            const { tab, editing } = peer.presence
+            const where = tab ? `${editing ? "editing" : "viewing"} ${tabLabel(tab)}` : "online"
+            return (
+              <span
+                key={peer.clientId}
+                title={`${peer.user.name} — ${where}`}
+                className="relative flex h-6 w-6 items-center justify-center rounded-full border-2 border-background text-[10px] font-semibold text-white"
+                style={{ backgroundColor: peerColor(peer.clientId) }}
+              >
+                {initials(peer.user.name)}
+                {editing && (
+                  <span className="absolute -bottom-1 -right-1 flex h-3 w-3 items-center justify-center rounded-full bg-background">
+                    <Pencil className="h-2 w-2 text-foreground" />
+                  </span>
+                )}
+              </span>
+            )
+          })}
+          {people.length > shown.length && (
+            <span
+              className="flex h-6 w-6 items-center justify-center rounded-full border-2 border-background bg-muted text-[10px] font-medium text-muted-foreground"
+              title={people.slice(MAX_AVATARS).map((p) => p.user.name).join(", ")}
+            >
+              +{people.length - shown.length}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function TabPresenceDots({ tab }: { tab: string }) {
+  const peers = useCollabStore((s) => s.peers)
+  const here = uniquePeers(Object.values(peers).filter((p) => p.presence.tab === tab))
+  if (here.length === 0) return null
+  return (
+    <span
+      className="flex -space-x-0.5 shrink-0"
+      title={here.map((p) => `${p.user.name}${p.presence.editing ? " (editing)" : ""}`).join(", ")}
+    >
+      {here.slice(0, 3).map((p) => (
+        <span
+          key={p.clientId}
+          className={cn("h-2 w-2 rounded-full ring-1 ring-background", p.presence.editing && "animate-pulse")}
+          style={{ backgroundColor: peerColor(p.clientId) }}
+        />
+      ))}
+    </span>
+  )
+}
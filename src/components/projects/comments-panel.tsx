@@ -0,0 +1,412 @@
+/**
+ * comments-panel.tsx — Review comment threads for the active documentation section.
+ *
+ * Threads are anchored to a heading or a quoted text range (see
+ * lib/comment-anchors.ts). Anchors are re-resolved against the current
+ * content on every render so threads follow their text after edits.
+ */
+import { useState, useEffect, useMemo, useRef } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { X, MessageSquare, CheckCircle2, RotateCcw, Trash2, CornerDownRight, Hash, Quote } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import Loader1 from "@/components/ui/loader1"
+import { cn } from "@/lib/utils"
+import type { ApiCommentThread, ApiShare } from "@/lib/api"
+import { createAnchor, resolveAnchor, type AnchorResolutionKind } from "@/lib/comment-anchors"
+import { useCommentsStore, parseMentions } from "@/store/comments"
+
+export interface CommentDraft {
+  headingSlug: string | null
+  headingText: string | null
+  quote: string | null
+}
+
+// ── Mention-aware textarea ────────────────────────────────────────────────────
+
+interface MentionTextareaProps {
+  value: string
+  onChange: (value: string) => void
+  members: ApiShare[]
+  placeholder: string
+  autoFocus?: boolean
+  onSubmit: () => void
+}
+
+function MentionTextarea({ value, onChange, members, placeholder, autoFocus, onSubmit }: MentionTextareaProps) {
+  const ref = useRef<HTMLTextAreaElement>(null)
+  const [query, setQuery] = useState<string | null>(null)
+
+  // Detect an "@partial" token immediately before the caret
+  const updateQuery = (text: string, caret: number) => {
+    const m = /(^|\s)@([^\s@]*)$/.exec(text.slice(0, caret))
+    setQuery(m ? m[2].toLowerCase() : null)
+  }
+
+  const suggestions = query === null
+    ? []
+    : members
+      .filter((m) =>
+        m.inviteeEmail.toLowerCase().includes(query) ||
+        (m.inviteeUser?.name ?? "").toLowerCase().includes(query),
+      )
+      .slice(0, 5)
+
+  const insertMention = (email: string) => {
+    const el = ref.current
+    if (!el) return
+    const caret = el.selectionStart
+    const before = value.slice(0, caret).replace(/@([^\s@]*)$/, `@${email} `)
+    const next = before + value.slice(caret)
+    onChange(next)
+    setQuery(null)
+    setTimeout(() => {
+      el.focus()
+      el.setSelectionRange(before.length, before.length)
+    }, 0)
+  }
+
+  return (
+    <div className="relative">
+      <textarea
+        ref={ref}
+        autoFocus={autoFocus}
+        className="w-full rounded-md border border-input bg-background px-2.5 py-2 text-xs outline-none focus:border-primary resize-none min-h-16 placeholder:text-muted-foreground"
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          updateQuery(e.target.value, e.target.selectionStart)
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+            e.preventDefault()
+            onSubmit()
+          } else if (e.key === "Escape") {
+            setQuery(null)
+          }
+        }}
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute left-0 right-0 top-full mt-1 z-20 rounded-md border border-border bg-popover shadow-md overflow-hidden">
+          {suggestions.map((m) => (
+            <button
+              key={m._id}
+              type="button"
+              onMouseDown={(e) => { e.preventDefault(); insertMention(m.inviteeEmail) }}
+              className="w-full flex flex-col items-start px-2.5 py-1.5 text-left text-xs hover:bg-muted"
+            >
+              <span className="font-medium truncate">{m.inviteeUser?.name ?? m.inviteeEmail}</span>
+              {m.inviteeUser?.name && <span className="text-[10px] text-muted-foreground truncate">{m.inviteeEmail}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+/** Render a comment body with @mentions emphasised. */
+function CommentBody({ body }: { body: string }) {
+  const parts = body.split(/(@[^\s@]+@[^\s@]+\.[^\s@,;:!?)]+)/g)
+  return (
+    <p className="text-xs text-foreground/85 whitespace-pre-wrap break-words leading-relaxed">
+      {parts.map((part, i) =>
+        part.startsWith("@") && part.includes(".")
+          ? <span key={i} className="font-medium text-primary">{part}</span>
+          : part,
+      )}
+    </p>
+  )
+}
+
+const RESOLUTION_LABEL: Partial<Record<AnchorResolutionKind, string>> = {
+  heading: "Text changed",
+  nearest: "Moved",
+  document: "Detached",
+}
+
+// ── Thread card ───────────────────────────────────────────────────────────────
+
+interface ThreadCardProps {
+  thread: ApiCommentThread
+  resolution: AnchorResolutionKind
+  headingText: string | null
+  members: ApiShare[]
+  onJump: () => void
+  onReply: (body: string) => Promise<void>
+  onToggleResolved: () => void
+  onDelete: () => void
+}
+
+function ThreadCard({ thread, resolution, headingText, members, onJump, onReply, onToggleResolved, onDelete }: ThreadCardProps) {
+  const [replying, setReplying] = useState(false)
+  const [reply, setReply] = useState("")
+  const [sending, setSending] = useState(false)
+  const authorName = (a: ApiCommentThread["author"]) => a.name ?? a.email ?? "Unknown"
+
+  const submitReply = async () => {
+    if (!reply.trim()) return
+    setSending(true)
+    await onReply(reply.trim())
+    setSending(false)
+    setReply("")
+    setReplying(false)
+  }
+
+  return (
+    <div className={cn("rounded-lg border p-3 space-y-2", thread.resolved ? "border-border/50 opacity-70" : "border-border bg-background")}>
+      {/* Anchor */}
+      <button type="button" onClick={onJump} className="w-full text-left space-y-1 group">
+        <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+          <Hash className="h-3 w-3 shrink-0" />
+          <span className="truncate group-hover:text-foreground">{headingText ?? "Whole section"}</span>
+          {RESOLUTION_LABEL[resolution] && (
+            <span className="ml-auto shrink-0 rounded bg-primary/10 text-primary px-1 py-0.5">{RESOLUTION_LABEL[resolution]}</span>
+          )}
+        </div>
+        {thread.anchor.quote && (
+          <div className="flex gap-1.5 text-[11px] italic text-foreground/70 border-l-2 border-yellow-400/70 pl-2 line-clamp-2">
+            <Quote className="h-3 w-3 shrink-0 mt-0.5 opacity-50" />
+            {thread.anchor.quote}
+          </div>
+        )}
+      </button>
+
+      {/* Root comment */}
+      <div>
+        <div className="flex items-center gap-1.5 text-[11px]">
+          <span className="font-medium">{authorName(thread.author)}</span>
+          <span className="text-muted-foreground">{formatDistanceToNow(new Date(thread.createdAt), { addSuffix: true })}</span>
+        </div>
+        <CommentBody body={thread.body} />
+      </div>
+
+      {/* Replies */}
+      {thread.replies.length > 0 && (
+        <div className="space-y-2 pl-3 border-l border-border">
+          {thread.replies.map((r) => (
+            <div key={r._id}>
+              <div className="flex items-center gap-1.5 text-[11px]">
+                <span className="font-medium">{authorName(r.author)}</span>
+                <span className="text-muted-foreground">{formatDistanceToNow(new Date(r.createdAt), { addSuffix: true })}</span>
+              </div>
+              <CommentBody body={r.body} />
+            </div>
+          ))}
+        </div>
+      )}
+
+      {thread.resolved && thread.resolvedBy && (
+        <p className="text-[10px] text-muted-foreground flex items-center gap-1">
+          <CheckCircle2 className="h-3 w-3 text-green-600" />
+          Resolved by {authorName(thread.resolvedBy)}
+        </p>
+      )}
+
+      {/* Reply composer */}
+      {replying && (
+        <div className="space-y-1.5">
+          <MentionTextarea
+            autoFocus
+            value={reply}
+            onChange={setReply}
+            members={members}
+            placeholder="Reply… use @ to mention"
+            onSubmit={submitReply}
+          />
+          <div className="flex gap-1.5 justify-end">
+            <Button variant="outline" size="sm" className="h-6 text-xs px-2" onClick={() => setReplying(false)}>Cancel</Button>
+            <Button size="sm" className="h-6 text-xs px-2" disabled={sending || !reply.trim()} onClick={submitReply}>
+              {sending && <Loader1 className="mr-1 h-3 w-3" />}
+              Reply
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Actions */}
+      {!replying && (
+        <div className="flex items-center gap-1">
+          {!thread.resolved && (
+            <Button variant="ghost" size="sm" className="h-6 text-[11px] px-1.5 gap-1" onClick={() => setReplying(true)}>
+              <CornerDownRight className="h-3 w-3" /> Reply
+            </Button>
+          )}
+          <Button variant="ghost" size="sm" className="h-6 text-[11px] px-1.5 gap-1" onClick={onToggleResolved}>
+            {thread.resolved
+              ? <><RotateCcw className="h-3 w-3" /> Reopen</>
+              : <><CheckCircle2 className="h-3 w-3" /> Resolve</>}
+          </Button>
+          <Button variant="ghost" size="icon" className="h-6 w-6 ml-auto text-muted-foreground hover:text-destructive" title="Delete thread" onClick={onDelete}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ── Main panel ────────────────────────────────────────────────────────────────
+
+interface CommentsPanelProps {
+  projectId: string
+  /** Section key, e.g. "readme" or "custom_<id>" */
+  section: string
+  sectionLabel: string
+  /** Current markdown of the section — used to resolve anchors */
+  content: string
+  members: ApiShare[]
+  /** Pending new comment from a heading click or text selection */
+  draft: CommentDraft | null
+  onDraftDone: () => void
+  /** Scroll the viewer to a heading (and optionally flash a quote) */
+  onJumpTo: (headingSlug: string | null, quote: string | null) => void
+  onClose: () => void
+}
+
+export function CommentsPanel({
+  projectId,
+  section,
+  sectionLabel,
+  content,
+  members,
+  draft,
+  onDraftDone,
+  onJumpTo,
+  onClose,
+}: CommentsPanelProps) {
+  const { loadSection, createThread, reply, setResolved, deleteThread, loading, error } = useCommentsStore()
+  const threads = useCommentsStore((s) => s.threads[projectId]?.[section]) ?? []
+  const [showResolved, setShowResolved] = useState(false)
+  const [draftBody, setDraftBody] = useState("")
+  const [posting, setPosting] = useState(false)
+
+  useEffect(() => {
+    loadSection(projectId, section)
+  }, [projectId, section, loadSection])
+
+  useEffect(() => {
+    setDraftBody("")
+  }, [draft])
+
+  const memberEmails = members.map((m) => m.inviteeEmail)
+
+  // Resolve each anchor against the current content, ordered by position
+  const resolved = useMemo(
+    () =>
+      threads
+        .map((t) => ({ thread: t, resolution: resolveAnchor(content, t.anchor) }))
+        .sort((a, b) => a.resolution.anchor.offset - b.resolution.anchor.offset),
+    [threads, content],
+  )
+  const visible = resolved.filter(({ thread }) => showResolved || !thread.resolved)
+  const openCount = threads.filter((t) => !t.resolved).length
+  const resolvedCount = threads.length - openCount
+
+  const submitDraft = async () => {
+    if (!draft || !draftBody.trim()) return
+    setPosting(true)
+    const anchor = createAnchor(content, draft.headingSlug, draft.quote)
+    const created = await createThread(projectId, section, anchor, draftBody.trim(), parseMentions(draftBody, memberEmails))
+    setPosting(false)
+    if (created) onDraftDone()
+  }
+
+  return (
+    <div className="flex flex-col h-full bg-card border-l border-border">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border shrink-0">
+        <div className="flex items-center gap-2 min-w-0">
+          <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm font-semibold">Comments</span>
+          <span className="text-xs text-muted-foreground truncate max-w-[90px]">{sectionLabel}</span>
+        </div>
+        <div className="flex items-center gap-1.5">
+          {openCount > 0 && (
+            <span className="text-[10px] font-mono text-muted-foreground bg-muted px-1.5 py-0.5 rounded-full">{openCount}</span>
+          )}
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {/* New comment composer */}
+        {draft && (
+          <div className="rounded-lg border border-primary/40 bg-primary/5 p-3 space-y-2">
+            <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+              <Hash className="h-3 w-3 shrink-0" />
+              <span className="truncate">{draft.headingText ?? "Whole section"}</span>
+            </div>
+            {draft.quote && (
+              <div className="text-[11px] italic text-foreground/70 border-l-2 border-yellow-400/70 pl-2 line-clamp-3">{draft.quote}</div>
+            )}
+            <MentionTextarea
+              autoFocus
+              value={draftBody}
+              onChange={setDraftBody}
+              members={members}
+              placeholder="Add a comment… use @ to mention"
+              onSubmit={submitDraft}
+            />
+            <div className="flex gap-1.5 justify-end">
+              <Button variant="outline" size="sm" className="h-6 text-xs px-2" onClick={onDraftDone}>Cancel</Button>
+              <Button size="sm" className="h-6 text-xs px-2" disabled={posting || !draftBody.trim()} onClick={submitDraft}>
+                {posting && <Loader1 className="mr-1 h-3 w-3" />}
+                Comment
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {loading && threads.length === 0 && (
+          <div className="space-y-3">
+            {[1, 2].map((i) => <Skeleton key={i} className="h-24 w-full rounded-lg" />)}
+          </div>
+        )}
+
+        {!loading && visible.length === 0 && !draft && (
+          <div className="flex flex-col items-center justify-center py-14 text-center px-4">
+            <MessageSquare className="h-8 w-8 text-muted-foreground/30 mb-2" />
+            <p className="text-sm text-muted-foreground">No open comments.</p>
+            <p className="text-xs text-muted-foreground/60 mt-1.5 leading-relaxed">
+              Select text or click the comment icon next to a heading to start a thread.
+            </p>
+          </div>
+        )}
+
+        {visible.map(({ thread, resolution }) => (
+          <ThreadCard
+            key={thread._id}
+            thread={thread}
+            resolution={resolution.kind}
+            headingText={resolution.anchor.headingText}
+            members={members}
+            onJump={() => onJumpTo(resolution.anchor.headingSlug, resolution.kind === "exact" ? thread.anchor.quote : null)}
+            onReply={(body) => reply(projectId, section, thread._id, body, parseMentions(body, memberEmails))}
+            onToggleResolved={() => setResolved(projectId, section, thread._id, !thread.resolved)}
+            onDelete={() => {
+              if (confirm("Delete this comment thread?")) deleteThread(projectId, section, thread._id)
+            }}
+          />
+        ))}
+      </div>
+
+      {resolvedCount > 0 && (
+        <div className="px-4 py-2 border-t border-border shrink-0">
+          <button
+            type="button"
+            onClick={() => setShowResolved((s) => !s)}
+            className="text-[11px] text-muted-foreground hover:text-foreground transition-colors"
+          >
+            {showResolved ? "Hide" : "Show"} resolved ({resolvedCount})
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,176 @@
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronRight, ShieldCheck, X, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import type { ApiSpec, ApiSpecEndpoint } from "@/lib/api"
+import { ISSUE_LABELS, contractDrift, hasErrors, type ContractIssueKind, type ValidationReport } from "@/lib/contract"
+import { useTryItRequestsStore } from "@/store/try-it-requests"
+import { METHOD_COLORS } from "./try-it-console"
+
+// ── Single response ────────────────────────────────────────────────────────
+
+/** One-line verdict for a validated response, as shown next to the status code. */
+export function ValidationBadge({ report, onClick }: { report: ValidationReport; onClick?: () => void }) {
+    const errors = report.issues.filter((i) => i.severity === "error").length
+    const warnings = report.issues.length - errors
+    const label = errors
+        ? `${errors} contract error${errors !== 1 ? "s" : ""}`
+        : warnings
+            ? `${warnings} warning${warnings !== 1 ? "s" : ""}`
+            : report.schemaChecked ? "Matches spec" : "Status documented"
+
+    return (
+        <button
+            onClick={onClick}
+            title="Response checked against the spec"
+            className={cn(
+                "flex items-center gap-1 rounded px-1.5 py-0.5 text-[11px] font-medium",
+                errors ? "bg-red-500/10 text-red-600 dark:text-red-400"
+                    : warnings ? "bg-primary/10 text-primary"
+                        : "bg-green-500/10 text-green-600 dark:text-green-400",
+            )}
+        >
+            {errors ? <XCircle className="h-3 w-3" /> : warnings ? <AlertTriangle className="h-3 w-3" /> : <CheckCircle2 className="h-3 w-3" />}
+            {label}
+        </button>
+    )
+}
+
+/** The issues of one validated response. */
+export function ValidationReportView({ report }: { report: ValidationReport }) {
+    if (!report.issues.length) {
+        return (
+            <p className="text-xs text-muted-foreground">
+                {report.schemaChecked
+                    ? `The response matches the documented ${report.matched} schema.`
+                    : `Status ${report.status} is documented${report.matched !== String(report.status) ? ` (as ${report.matched})` : ""}; the spec has no JSON schema to check the body against.`}
+            </p>
+        )
+    }
+    return (
+        <ul className="space-y-1">
+            {report.issues.map((issue, i) => (
+                <li key={i} className="flex items-start gap-2 text-xs">
+                    {issue.severity === "error"
+                        ? <XCircle className="h-3.5 w-3.5 shrink-0 mt-px text-red-500" />
+                        : <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px text-primary" />}
+                    <div className="min-w-0">
+                        <span className="font-medium">{ISSUE_LABELS[issue.kind]}</span>
+                        {issue.path && <code className="ml-1.5 font-mono text-[11px] text-muted-foreground">{issue.path}</code>}
+                        <p className="text-muted-foreground">{issue.message}</p>
+                    </div>
+                </li>
+            ))}
+        </ul>
+    )
+}
+
+// ── Project summary ────────────────────────────────────────────────────────
+
+interface ContractDriftPanelProps {
+    projectId: string
+    spec: ApiSpec
+    onSelect: (endpoint: ApiSpecEndpoint) => void
+    onClose: () => void
+}
+
+/**
+ * Contract drift across the project: the newest validated Try-It response of
+ * every endpoint, with the failing ones first.
+ */
+export function ContractDriftPanel({ projectId, spec, onSelect, onClose }: ContractDriftPanelProps) {
+    const history = useTryItRequestsStore((s) => s.history[projectId]) ?? {}
+    const drift = contractDrift(spec, history)
+    const [openId, setOpenId] = useState<string | null>(drift.failing[0]?.endpoint.id ?? null)
+    const ordered = [...drift.checked].sort((a, b) => Number(hasErrors(b.report)) - Number(hasErrors(a.report)) || b.checkedAt - a.checkedAt)
+    const unchecked = spec.endpoints.length - drift.checked.length
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="w-full max-w-2xl max-h-[80vh] flex flex-col rounded-xl border border-border bg-background shadow-xl">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
+                    <ShieldCheck className="h-4 w-4 text-primary" />
+                    <div className="flex-1">
+                        <h2 className="text-sm font-semibold">Contract drift</h2>
+                        <p className="text-[11px] text-muted-foreground">
+                            Based on the latest response you received for each endpoint in Try It.
+                        </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+                        <X className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+
+                <div className="grid grid-cols-3 gap-2 px-4 py-3 border-b border-border shrink-0 text-center">
+                    <div>
+                        <p className="text-lg font-semibold">{drift.checked.length}</p>
+                        <p className="text-[11px] text-muted-foreground">checked</p>
+                    </div>
+                    <div>
+                        <p className={cn("text-lg font-semibold", drift.failing.length > 0 && "text-red-600 dark:text-red-400")}>{drift.failing.length}</p>
+                        <p className="text-[11px] text-muted-foreground">drifting</p>
+                    </div>
+                    <div>
+                        <p className="text-lg font-semibold text-muted-foreground">{unchecked}</p>
+                        <p className="text-[11px] text-muted-foreground">never called</p>
+                    </div>
+                </div>
+
+                {Object.keys(drift.byKind).length > 0 && (
+                    <div className="flex flex-wrap gap-1.5 px-4 py-2 border-b border-border shrink-0">
+                        {(Object.entries(drift.byKind) as [ContractIssueKind, number][]).map(([kind, count]) => (
+                            <span key={kind} className="rounded-full border border-border px-2 py-0.5 text-[11px] text-muted-foreground">
+                                {ISSUE_LABELS[kind]} · {count}
+                            </span>
+                        ))}
+                    </div>
+                )}
+
+                <div className="flex-1 overflow-y-auto p-2">
+                    {ordered.length === 0 ? (
+                        <p className="px-3 py-8 text-center text-xs text-muted-foreground">
+                            Send requests from Try It to check the live API against this spec.
+                        </p>
+                    ) : ordered.map(({ endpoint, report, checkedAt }) => {
+                        const open = openId === endpoint.id
+                        return (
+                            <div key={endpoint.id} className="rounded-md hover:bg-muted/30">
+                                <div className="flex items-center gap-2 px-2 py-1.5">
+                                    <button onClick={() => setOpenId(open ? null : endpoint.id)} className="flex flex-1 min-w-0 items-center gap-2 text-left">
+                                        {open
+                                            ? <ChevronDown className="h-3.5 w-3.5 text-muted-foreground shrink-0" />
+                                            : <ChevronRight className="h-3.5 w-3.5 text-muted-foreground shrink-0" />}
+                                        <span className={cn("rounded border px-1 py-px text-[10px] font-bold font-mono shrink-0", METHOD_COLORS[endpoint.method] ?? "bg-muted")}>
+                                            {endpoint.method}
+                                        </span>
+                                        <span className="font-mono text-xs truncate">{endpoint.path}</span>
+                                        <span className="ml-auto text-[10px] text-muted-foreground shrink-0">
+                                            {formatDistanceToNow(checkedAt, { addSuffix: true })}
+                                        </span>
+                                    </button>
+                                    <ValidationBadge report={report} onClick={() => setOpenId(open ? null : endpoint.id)} />
+                                </div>
+                                {open && (
+                                    <div className="ml-8 mr-2 mb-2 space-y-2">
+                                        <ValidationReportView report={report} />
+                                        <Button
+                                            variant="outline" size="sm"
+                                            className="h-6 text-[11px]"
+                                            onClick={() => {
+                                                onSelect(endpoint)
+                                                onClose()
+                                            }}
+                                        >
+                                            Open endpoint
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        )
+                    })}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,241 @@
+/**
+ * diff-viewer.tsx — Line/word diff of two markdown sources.
+ *
+ * Shows hunks with three lines of context in unified or split mode. Edited
+ * lines are paired so the changed words are highlighted inside them. When
+ * `selectable` is set each change gets a checkbox so callers can cherry-pick
+ * changes from the new side (see lib/diff.ts → applyChanges).
+ */
+import { useMemo, useState, Fragment } from "react"
+import { Columns2, Rows2 } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { computeLineDiff, buildHunks, diffWords, type DiffLine, type LineDiff, type WordSegment } from "@/lib/diff"
+
+export type DiffMode = "unified" | "split"
+
+interface DiffViewerProps {
+  oldText: string
+  newText: string
+  oldLabel: string
+  newLabel: string
+  /** Show a checkbox per change for cherry-picking */
+  selectable?: boolean
+  selected?: Set<number>
+  onToggleChange?: (changeId: number) => void
+  /** Pre-computed diff (avoids diffing twice when the caller needs it too) */
+  diff?: LineDiff
+  className?: string
+}
+
+/** Pair deleted and added lines of each change for word-level highlighting. */
+function wordSegmentsFor(lines: DiffLine[]): Map<DiffLine, WordSegment[]> {
+  const segments = new Map<DiffLine, WordSegment[]>()
+  const byChange = new Map<number, { del: DiffLine[]; add: DiffLine[] }>()
+  for (const l of lines) {
+    if (l.changeId === null) continue
+    const group = byChange.get(l.changeId) ?? { del: [], add: [] }
+    if (l.type === "del") group.del.push(l)
+    else group.add.push(l)
+    byChange.set(l.changeId, group)
+  }
+  for (const { del, add } of byChange.values()) {
+    const pairs = Math.min(del.length, add.length)
+    for (let i = 0; i < pairs; i++) {
+      const words = diffWords(del[i].text, add[i].text)
+      segments.set(del[i], words.filter((w) => w.type !== "insert"))
+      segments.set(add[i], words.filter((w) => w.type !== "delete"))
+    }
+  }
+  return segments
+}
+
+function LineText({ line, segments }: { line: DiffLine | null; segments?: WordSegment[] }) {
+  if (!line) return null
+  if (!segments) return <>{line.text || " "}</>
+  return (
+    <>
+      {segments.map((s, i) =>
+        s.type === "equal" ? (
+          <Fragment key={i}>{s.text}</Fragment>
+        ) : (
+          <span
+            key={i}
+            className={cn(
+              "rounded-sm",
+              s.type === "delete" ? "bg-red-500/30 line-through decoration-red-500/50" : "bg-green-500/30",
+            )}
+          >
+            {s.text}
+          </span>
+        ),
+      )}
+    </>
+  )
+}
+
+const LINE_BG: Record<DiffLine["type"], string> = {
+  context: "",
+  add: "bg-green-500/10",
+  del: "bg-red-500/10",
+}
+
+const LINE_MARK: Record<DiffLine["type"], string> = {
+  context: " ",
+  add: "+",
+  del: "-",
+}
+
+export function DiffViewer({
+  oldText,
+  newText,
+  oldLabel,
+  newLabel,
+  selectable,
+  selected,
+  onToggleChange,
+  diff: providedDiff,
+  className,
+}: DiffViewerProps) {
+  const [mode, setMode] = useState<DiffMode>("split")
+  const diff = useMemo(() => providedDiff ?? computeLineDiff(oldText, newText), [providedDiff, oldText, newText])
+  const hunks = useMemo(() => buildHunks(diff), [diff])
+  const segments = useMemo(() => wordSegmentsFor(diff.lines), [diff])
+
+  // First line of each change carries its checkbox
+  const firstLineOfChange = useMemo(() => {
+    const seen = new Set<number>()
+    const firsts = new Set<DiffLine>()
+    for (const l of diff.lines) {
+      if (l.changeId !== null && !seen.has(l.changeId)) {
+        seen.add(l.changeId)
+        firsts.add(l)
+      }
+    }
+    return firsts
+  }, [diff])
+
+  const ChangeToggle = ({ id }: { id: number | null }) => {
+    if (!selectable || id === null) return <span className="w-5 shrink-0" />
+    return (
+      <input
+        type="checkbox"
+        className="h-3.5 w-3.5 mt-0.5 mx-0.5 accent-primary shrink-0 cursor-pointer"
+        title="Take this change"
+        checked={selected?.has(id) ?? false}
+        onChange={() => onToggleChange?.(id)}
+      />
+    )
+  }
+
+  // Split rows: context lines side by side; changes paired del ↔ add
+  const splitRows = (lines: DiffLine[]) => {
+    const rows: Array<{ left: DiffLine | null; right: DiffLine | null; toggleId: number | null }> = []
+    let i = 0
+    while (i < lines.length) {
+      const line = lines[i]
+      if (line.type === "context") {
+        rows.push({ left: line, right: line, toggleId: null })
+        i++
+        continue
+      }
+      const dels: DiffLine[] = []
+      const adds: DiffLine[] = []
+      const changeId = line.changeId
+      while (i < lines.length && lines[i].changeId === changeId && lines[i].type !== "context") {
+        if (lines[i].type === "del") dels.push(lines[i])
+        else adds.push(lines[i])
+        i++
+      }
+      for (let r = 0; r < Math.max(dels.length, adds.length); r++) {
+        rows.push({ left: dels[r] ?? null, right: adds[r] ?? null, toggleId: r === 0 ? changeId : null })
+      }
+    }
+    return rows
+  }
+
+  const gutter = "w-10 shrink-0 select-none text-right pr-2 text-muted-foreground/60"
+
+  return (
+    <div className={cn("flex flex-col min-h-0", className)}>
+      {/* Toolbar */}
+      <div className="flex items-center justify-between gap-3 px-4 py-2 border-b border-border bg-muted/30 shrink-0">
+        <div className="flex items-center gap-3 text-xs">
+          <span className="text-green-600 dark:text-green-400 font-mono">+{diff.stats.added}</span>
+          <span className="text-red-600 dark:text-red-400 font-mono">-{diff.stats.removed}</span>
+          <span className="text-muted-foreground">
+            {diff.changes.length} change{diff.changes.length !== 1 ? "s" : ""}
+          </span>
+        </div>
+        <div className="flex rounded-md border border-border overflow-hidden">
+          {([
+            ["split", Columns2, "Split"],
+            ["unified", Rows2, "Unified"],
+          ] as const).map(([m, Icon, label]) => (
+            <button
+              key={m}
+              type="button"
+              onClick={() => setMode(m)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-1 text-xs transition-colors",
+                mode === m ? "bg-primary text-primary-foreground" : "hover:bg-muted text-muted-foreground",
+              )}
+            >
+              <Icon className="h-3 w-3" /> {label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Column labels (split mode) */}
+      {mode === "split" && (
+        <div className="grid grid-cols-2 border-b border-border text-[11px] font-semibold uppercase tracking-wider text-muted-foreground shrink-0">
+          <div className="px-4 py-1.5 border-r border-border">{oldLabel}</div>
+          <div className="px-4 py-1.5">{newLabel}</div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-auto font-mono text-[12px] leading-[1.6]">
+        {hunks.length === 0 && (
+          <div className="p-8 text-center text-sm text-muted-foreground font-sans">No differences.</div>
+        )}
+
+        {hunks.map((hunk, h) => (
+          <div key={h} className="border-b border-border last:border-b-0">
+            <div className="px-4 py-1 bg-primary/5 text-primary/80 text-[11px]">{hunk.header}</div>
+
+            {mode === "unified"
+              ? hunk.lines.map((line, i) => (
+                <div key={i} className={cn("flex items-start", LINE_BG[line.type])}>
+                  <ChangeToggle id={firstLineOfChange.has(line) ? line.changeId : null} />
+                  <span className={gutter}>{line.oldNo ?? ""}</span>
+                  <span className={gutter}>{line.newNo ?? ""}</span>
+                  <span className="w-4 shrink-0 select-none text-muted-foreground">{LINE_MARK[line.type]}</span>
+                  <span className="flex-1 whitespace-pre-wrap break-words pr-4">
+                    <LineText line={line} segments={segments.get(line)} />
+                  </span>
+                </div>
+              ))
+              : splitRows(hunk.lines).map(({ left, right, toggleId }, i) => (
+                <div key={i} className="grid grid-cols-2">
+                  <div className={cn("flex items-start border-r border-border", left && LINE_BG[left.type])}>
+                    <span className="w-5 shrink-0" />
+                    <span className={gutter}>{left?.oldNo ?? ""}</span>
+                    <span className="flex-1 whitespace-pre-wrap break-words pr-3">
+                      <LineText line={left} segments={left ? segments.get(left) : undefined} />
+                    </span>
+                  </div>
+                  <div className={cn("flex items-start", right && right.type !== "context" ? LINE_BG[right.type] : "")}>
+                    <ChangeToggle id={toggleId} />
+                    <span className={gutter}>{right?.newNo ?? ""}</span>
+                    <span className="flex-1 whitespace-pre-wrap break-words pr-3">
+                      <LineText line={right} segments={right ? segments.get(right) : undefined} />
+                    </span>
+                  </div>
+                </div>
+              ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
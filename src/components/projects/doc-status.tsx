@@ -213,19 +213,24 @@ interface DocStatusPanelProps {
 }
 
 export function DocStatusPanel({ projectId, section, sectionLabel, currentUser }: DocStatusPanelProps) {
-  const { getEntry, setStatus, setAssignee, setDueDate, isOverdue } = useDocTrackerStore()
+  const { getEntry, setStatus, setAssignee, setDueDate, isOverdue, loadProject, loadMembers } = useDocTrackerStore()
+  const members = useDocTrackerStore((s) => s.members[projectId]) ?? []
   const entry: DocSectionTrack = getEntry(projectId, section) ?? { status: "draft", log: [] }
   const [showLog, setShowLog] = useState(false)
-  const [editAssignee, setEditAssignee] = useState(false)
-  const [assigneeInput, setAssigneeInput] = useState(entry.assignee ?? "")
 
-  // Keep local input in sync if store changes externally
   useEffect(() => {
-    setAssigneeInput(getEntry(projectId, section)?.assignee ?? "")
-  }, [projectId, section]) // eslint-disable-line react-hooks/exhaustive-deps
+    loadProject(projectId)
+    loadMembers(projectId)
+  }, [projectId, loadProject, loadMembers])
 
   const overdue = isOverdue(projectId, section)
 
+  // Keep a stale assignee selectable even if they are no longer a member
+  const assigneeOptions = members.map((m) => ({ value: m.inviteeEmail, label: m.inviteeUser?.name ?? m.inviteeEmail }))
+  if (entry.assignee && !assigneeOptions.some((o) => o.value === entry.assignee)) {
+    assigneeOptions.unshift({ value: entry.assignee, label: entry.assignee })
+  }
+
   return (
     <div className="border-t border-border">
       <div className="p-3 space-y-3">
@@ -253,36 +258,16 @@ export function DocStatusPanel({ projectId, section, sectionLabel, currentUser }
         {/* Assignee */}
         <div className="flex items-center gap-1.5 min-w-0">
           <User className="h-3 w-3 text-muted-foreground shrink-0" />
-          {editAssignee ? (
-            <form
-              className="flex-1 flex gap-1"
-              onSubmit={(e) => {
-                e.preventDefault()
-                setAssignee(projectId, section, assigneeInput.trim() || undefined)
-                setEditAssignee(false)
-              }}
-            >
-              <input
-                autoFocus
-                className="flex-1 min-w-0 text-[11px] border border-border rounded px-1.5 py-0.5 bg-background outline-none focus:border-primary"
-                placeholder="name or email"
-                value={assigneeInput}
-                onChange={(e) => setAssigneeInput(e.target.value)}
-                onBlur={() => {
-                  setAssignee(projectId, section, assigneeInput.trim() || undefined)
-                  setEditAssignee(false)
-                }}
-              />
-            </form>
-          ) : (
-            <button
-              type="button"
-              onClick={() => setEditAssignee(true)}
-              className="text-[11px] truncate text-left hover:text-foreground transition-colors text-muted-foreground flex-1"
-            >
-              {entry.assignee ?? <span className="italic">Unassigned</span>}
-            </button>
-          )}
+          <select
+            className="flex-1 min-w-0 text-[11px] border border-border rounded px-1.5 py-0.5 bg-background outline-none focus:border-primary"
+            value={entry.assignee ?? ""}
+            onChange={(e) => setAssignee(projectId, section, e.target.value || undefined)}
+          >
+            <option value="">Unassigned</option>
+            {assigneeOptions.map((o) => (
+              <option key={o.value} value={o.value}>{o.label}</option>
+            ))}
+          </select>
         </div>
 
         {/* Due date */}
@@ -321,6 +306,7 @@ export function DocStatusPanel({ projectId, section, sectionLabel, currentUser }
                       <div className="min-w-0">
                         <span className="font-medium text-foreground/80">{cfg.label}</span>
                         {l.changedBy && <span> · {l.changedBy}</span>}
+                        {l.note && <div className="text-foreground/70 whitespace-pre-wrap">{l.note}</div>}
                         <div className="text-[9px]">
                           {formatDistanceToNow(new Date(l.changedAt), { addSuffix: true })}
                         </div>
@@ -0,0 +1,129 @@
+/**
+ * edit-conflict-dialog.tsx — Resolve a save rejected because someone else
+ * saved the same section first (409 from a conditional save).
+ *
+ * Shows the saved version against the local draft and offers:
+ *   merge     — three-way merge from the content the edit started from
+ *   overwrite — save the draft over the other change
+ *   fork      — keep the draft aside as a separate version and take theirs
+ */
+import { useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { GitBranch, GitMerge, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import Loader1 from "@/components/ui/loader1"
+import { DiffViewer } from "@/components/projects/diff-viewer"
+import { ThreeWayMerge } from "@/components/projects/three-way-merge"
+import type { ApiConflict } from "@/lib/api"
+
+export type ConflictAction = "merge" | "overwrite" | "fork"
+
+interface EditConflictDialogProps {
+  projectId: string
+  section: string
+  sectionLabel: string
+  /** Content the edit started from */
+  base: string
+  /** The local draft that failed to save */
+  mine: string
+  remote: ApiConflict
+  /** Action currently in flight */
+  busy: ConflictAction | null
+  /** Where a fork goes — shown on the button */
+  forkLabel: string
+  onMerge: (merged: string) => void
+  onOverwrite: () => void
+  /** Omitted when the user may not create where the fork would go; the button is hidden */
+  onFork?: () => void
+  onCancel: () => void
+}
+
+export function EditConflictDialog({
+  projectId,
+  section,
+  sectionLabel,
+  base,
+  mine,
+  remote,
+  busy,
+  forkLabel,
+  onMerge,
+  onOverwrite,
+  onFork,
+  onCancel,
+}: EditConflictDialogProps) {
+  const [merging, setMerging] = useState(false)
+
+  const savedBy = [
+    remote.updatedBy?.name ?? "Another editor",
+    remote.updatedAt && formatDistanceToNow(new Date(remote.updatedAt), { addSuffix: true }),
+  ].filter(Boolean).join(" · ")
+
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col">
+      {merging ? (
+        <ThreeWayMerge
+          projectId={projectId}
+          section={section}
+          sectionLabel={sectionLabel}
+          base={base}
+          mine={mine}
+          theirs={remote.content}
+          theirsLabel="remote"
+          saving={busy === "merge"}
+          onSave={onMerge}
+          onCancel={() => setMerging(false)}
+        />
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-border bg-card shrink-0">
+            <div className="min-w-0">
+              <h2 className="font-semibold text-sm">{sectionLabel} was changed while you were editing</h2>
+              <p className="text-xs text-muted-foreground">
+                Left: saved by {savedBy} · Right: your draft
+              </p>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <Button size="sm" disabled={busy !== null} onClick={() => setMerging(true)}>
+                <GitMerge className="mr-1.5 h-3.5 w-3.5" />
+                Merge
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                disabled={busy !== null}
+                onClick={onOverwrite}
+                title="Save your draft and discard the other change"
+              >
+                {busy === "overwrite" ? <Loader1 className="mr-1.5 h-3 w-3 " /> : <Upload className="mr-1.5 h-3.5 w-3.5" />}
+                Overwrite
+              </Button>
+              {onFork && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busy !== null}
+                  onClick={onFork}
+                  title="Keep the saved version and set your draft aside"
+                >
+                  {busy === "fork" ? <Loader1 className="mr-1.5 h-3 w-3 " /> : <GitBranch className="mr-1.5 h-3.5 w-3.5" />}
+                  {forkLabel}
+                </Button>
+              )}
+              <Button size="sm" variant="ghost" disabled={busy !== null} onClick={onCancel}>
+                Keep editing
+              </Button>
+            </div>
+          </div>
+          <DiffViewer
+            className="flex-1 bg-card"
+            oldText={remote.content}
+            newText={mine}
+            oldLabel="Saved Version"
+            newLabel="Your Draft"
+          />
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,585 @@
+import { useMemo, useState } from "react"
+import {
+    AlertTriangle, ChevronDown, ChevronRight, Play, RefreshCw, Search, Terminal, Trash2, X,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { cn } from "@/lib/utils"
+import { apiSpecApi, type ApiSpec, type GraphQLField, type GraphQLInputValue, type GraphQLNamedType, type GraphQLSchemaModel, type TryItResult } from "@/lib/api"
+import { BUILTIN_SCALARS, buildOperation, findType, namedType, operationName, rootFields, type RootOperation } from "@/lib/graphql"
+import { interpolate, variableMap } from "@/lib/environments"
+import { useEnvironmentsStore } from "@/store/try-it-environments"
+import Loader1 from "../ui/loader1"
+import { KVEditor, type KVPair } from "./try-it-console"
+
+type Selection =
+    | { kind: "field"; op: RootOperation; name: string }
+    | { kind: "type"; name: string }
+
+const OPERATIONS: { op: RootOperation; label: string }[] = [
+    { op: "query", label: "Queries" },
+    { op: "mutation", label: "Mutations" },
+    { op: "subscription", label: "Subscriptions" },
+]
+
+const KIND_LABELS: Record<GraphQLNamedType["kind"], string> = {
+    OBJECT: "type",
+    INTERFACE: "interface",
+    UNION: "union",
+    ENUM: "enum",
+    INPUT_OBJECT: "input",
+    SCALAR: "scalar",
+}
+
+const NO_ENVIRONMENTS: never[] = []
+
+// ── Type reference ─────────────────────────────────────────────────────────
+
+/** `[User!]!` with `User` linked to its type page. */
+function TypeRef({ type, model, onOpen }: { type: string; model: GraphQLSchemaModel; onOpen: (name: string) => void }) {
+    const name = namedType(type)
+    const [before, after] = type.split(name)
+    const linkable = !!findType(model, name) && !BUILTIN_SCALARS.includes(name)
+    return (
+        <code className="font-mono text-xs text-muted-foreground">
+            {before}
+            {linkable
+                ? <button onClick={() => onOpen(name)} className="text-primary hover:underline">{name}</button>
+                : <span className="text-foreground">{name}</span>}
+            {after}
+        </code>
+    )
+}
+
+function DeprecatedBadge({ reason }: { reason: string | null }) {
+    return (
+        <span title={reason ?? undefined} className="inline-flex items-center gap-1 rounded bg-primary/10 px-1.5 py-0.5 text-[10px] font-medium text-primary">
+            <AlertTriangle className="h-2.5 w-2.5" />
+            Deprecated
+        </span>
+    )
+}
+
+// ── Arguments / fields tables ──────────────────────────────────────────────
+
+function InputValuesTable({ title, values, model, onOpen }: {
+    title: string
+    values: GraphQLInputValue[]
+    model: GraphQLSchemaModel
+    onOpen: (name: string) => void
+}) {
+    if (!values.length) return null
+    return (
+        <div>
+            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">{title}</h4>
+            <div className="rounded-md border border-border divide-y divide-border">
+                {values.map((v) => (
+                    <div key={v.name} className={cn("px-3 py-2", v.isDeprecated && "opacity-60")}>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <code className="font-mono text-xs font-medium">{v.name}</code>
+                            <TypeRef type={v.type} model={model} onOpen={onOpen} />
+                            {v.type.endsWith("!") && <span className="text-[10px] font-medium text-red-500">required</span>}
+                            {v.defaultValue !== null && (
+                                <span className="text-[11px] text-muted-foreground">= <code className="font-mono">{v.defaultValue}</code></span>
+                            )}
+                            {v.isDeprecated && <DeprecatedBadge reason={v.deprecationReason} />}
+                        </div>
+                        {v.description && <p className="mt-0.5 text-xs text-muted-foreground whitespace-pre-line">{v.description}</p>}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+function FieldsTable({ fields, model, onOpen }: { fields: GraphQLField[]; model: GraphQLSchemaModel; onOpen: (name: string) => void }) {
+    if (!fields.length) return null
+    return (
+        <div>
+            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Fields</h4>
+            <div className="rounded-md border border-border divide-y divide-border">
+                {fields.map((f) => (
+                    <div key={f.name} className={cn("px-3 py-2", f.isDeprecated && "opacity-60")}>
+                        <div className="flex items-center gap-2 flex-wrap">
+                            <code className="font-mono text-xs font-medium">
+                                {f.name}
+                                {f.args.length > 0 && <span className="text-muted-foreground">({f.args.map((a) => a.name).join(", ")})</span>}
+                            </code>
+                            <TypeRef type={f.type} model={model} onOpen={onOpen} />
+                            {f.isDeprecated && <DeprecatedBadge reason={f.deprecationReason} />}
+                        </div>
+                        {f.description && <p className="mt-0.5 text-xs text-muted-foreground whitespace-pre-line">{f.description}</p>}
+                        {f.isDeprecated && f.deprecationReason && (
+                            <p className="mt-0.5 text-[11px] text-primary">{f.deprecationReason}</p>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+}
+
+// ── Detail views ───────────────────────────────────────────────────────────
+
+function FieldDetail({ op, field, model, onOpen, onTryIt }: {
+    op: RootOperation
+    field: GraphQLField
+    model: GraphQLSchemaModel
+    onOpen: (name: string) => void
+    onTryIt: () => void
+}) {
+    return (
+        <div className="p-6 space-y-6 max-w-3xl">
+            <div className="space-y-2">
+                <div className="flex items-center gap-2 flex-wrap">
+                    <Badge variant="outline" className="text-[10px] font-mono uppercase">{op}</Badge>
+                    <code className="font-mono text-sm font-semibold">{field.name}</code>
+                    <TypeRef type={field.type} model={model} onOpen={onOpen} />
+                    {field.isDeprecated && <DeprecatedBadge reason={field.deprecationReason} />}
+                    {op !== "subscription" && (
+                        <Button size="sm" className="ml-auto h-7 text-xs gap-1" onClick={onTryIt}>
+                            <Terminal className="h-3 w-3" />
+                            Try it
+                        </Button>
+                    )}
+                </div>
+                {field.description && <p className="text-sm text-muted-foreground whitespace-pre-line">{field.description}</p>}
+                {field.isDeprecated && field.deprecationReason && (
+                    <div className="flex items-start gap-2 rounded-md border border-primary/30 bg-primary/5 px-3 py-2 text-xs text-primary">
+                        <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-px" />
+                        {field.deprecationReason}
+                    </div>
+                )}
+            </div>
+            <InputValuesTable title="Arguments" values={field.args} model={model} onOpen={onOpen} />
+            <div>
+                <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Example operation</h4>
+                <pre className="rounded-md border border-border bg-muted/30 p-3 font-mono text-[11px] leading-relaxed overflow-x-auto">
+                    {buildOperation(model, op, field).query}
+                </pre>
+            </div>
+        </div>
+    )
+}
+
+function TypeDetail({ type, model, onOpen }: { type: GraphQLNamedType; model: GraphQLSchemaModel; onOpen: (name: string) => void }) {
+    const related = (title: string, names: string[]) => names.length > 0 && (
+        <div>
+            <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">{title}</h4>
+            <div className="flex flex-wrap gap-1.5">
+                {names.map((n) => (
+                    <button key={n} onClick={() => onOpen(n)} className="rounded border border-border px-2 py-0.5 font-mono text-xs hover:border-primary hover:text-primary">
+                        {n}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+
+    return (
+        <div className="p-6 space-y-6 max-w-3xl">
+            <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                    <Badge variant="outline" className="text-[10px] font-mono">{KIND_LABELS[type.kind]}</Badge>
+                    <code className="font-mono text-sm font-semibold">{type.name}</code>
+                </div>
+                {type.description && <p className="text-sm text-muted-foreground whitespace-pre-line">{type.description}</p>}
+            </div>
+            {related("Implements", type.interfaces)}
+            {related(type.kind === "UNION" ? "Members" : "Implemented by", type.possibleTypes)}
+            <FieldsTable fields={type.fields} model={model} onOpen={onOpen} />
+            <InputValuesTable title="Input fields" values={type.inputFields} model={model} onOpen={onOpen} />
+            {type.enumValues.length > 0 && (
+                <div>
+                    <h4 className="mb-2 text-xs font-semibold uppercase tracking-wider text-muted-foreground">Values</h4>
+                    <div className="rounded-md border border-border divide-y divide-border">
+                        {type.enumValues.map((v) => (
+                            <div key={v.name} className={cn("px-3 py-2", v.isDeprecated && "opacity-60")}>
+                                <div className="flex items-center gap-2">
+                                    <code className="font-mono text-xs font-medium">{v.name}</code>
+                                    {v.isDeprecated && <DeprecatedBadge reason={v.deprecationReason} />}
+                                </div>
+                                {v.description && <p className="mt-0.5 text-xs text-muted-foreground">{v.description}</p>}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+// ── Console ────────────────────────────────────────────────────────────────
+
+interface ConsoleProps {
+    projectId: string
+    spec: ApiSpec
+    op: RootOperation
+    field: GraphQLField
+    onClose: () => void
+}
+
+/** Sends an operation to the GraphQL endpoint through the Try-It proxy. */
+function GraphQLConsole({ projectId, spec, op, field, onClose }: ConsoleProps) {
+    const model = spec.graphql!
+    const environments = useEnvironmentsStore((s) => s.environments[projectId]) ?? NO_ENVIRONMENTS
+    const selection = useEnvironmentsStore((s) => s.selection[projectId])
+    const activeEnv = selection?.kind === "env" ? environments.find((e) => e._id === selection.id) ?? null : null
+    const vars = variableMap(activeEnv)
+
+    const initial = useMemo(() => buildOperation(model, op, field), [model, op, field])
+    const [endpointUrl, setEndpointUrl] = useState(activeEnv?.baseUrl ?? spec.servers?.[0]?.url ?? "")
+    const [query, setQuery] = useState(initial.query)
+    const [variablesText, setVariablesText] = useState(JSON.stringify(initial.variables, null, 2))
+    const [headerPairs, setHeaderPairs] = useState<KVPair[]>([])
+    const [showHeaders, setShowHeaders] = useState(false)
+
+    const [result, setResult] = useState<TryItResult | null>(null)
+    const [sending, setSending] = useState(false)
+    const [sendError, setSendError] = useState<string | null>(null)
+
+    const handleSend = async () => {
+        let variables: unknown
+        try {
+            variables = variablesText.trim() ? JSON.parse(interpolate(variablesText, vars)) : {}
+        } catch {
+            setSendError("Variables must be valid JSON.")
+            return
+        }
+        setSending(true)
+        setSendError(null)
+        setResult(null)
+        try {
+            const headers: Record<string, string> = {}
+            for (const { key, value } of activeEnv?.headers ?? []) {
+                if (key.trim()) headers[key.trim()] = interpolate(value, vars)
+            }
+            for (const { key, value } of headerPairs) {
+                if (key.trim()) headers[interpolate(key.trim(), vars)] = interpolate(value, vars)
+            }
+            headers["Content-Type"] = "application/json"
+            headers["Accept"] ??= "application/json"
+
+            const res = await apiSpecApi.tryRequest(projectId, {
+                method: "POST",
+                baseUrl: interpolate(endpointUrl.trim(), vars),
+                path: "",
+                headers,
+                body: JSON.stringify({ query, variables, operationName: operationName(query) }),
+            })
+            setResult(res)
+        } catch (err: unknown) {
+            setSendError(err instanceof Error ? err.message : "Request failed.")
+        } finally {
+            setSending(false)
+        }
+    }
+
+    let errors: { message?: string }[] = []
+    try {
+        errors = result ? JSON.parse(result.body)?.errors ?? [] : []
+    } catch {
+        /* not JSON */
+    }
+
+    return (
+        <div className="flex flex-col h-full w-full overflow-hidden">
+            <div className="flex items-center gap-2 border-b border-border px-4 py-3 shrink-0">
+                <Badge variant="outline" className="text-[10px] font-mono uppercase shrink-0">{op}</Badge>
+                <Input
+                    className="h-7 flex-1 font-mono text-xs"
+                    placeholder="https://api.example.com/graphql"
+                    value={endpointUrl}
+                    onChange={(e) => setEndpointUrl(e.target.value)}
+                />
+                <Button size="sm" className="h-7 text-xs gap-1" disabled={sending || !endpointUrl.trim() || !query.trim()} onClick={handleSend}>
+                    {sending ? <Loader1 className="h-3 w-3" /> : <Play className="h-3 w-3" />}
+                    Send
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onClose}>
+                    <X className="h-3.5 w-3.5" />
+                </Button>
+            </div>
+
+            <div className="flex flex-1 overflow-hidden">
+                <div className="w-1/2 border-r border-border flex flex-col overflow-y-auto p-4 gap-3">
+                    <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Operation</p>
+                        <textarea
+                            spellCheck={false}
+                            className="h-64 w-full resize-y rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                            value={query}
+                            onChange={(e) => setQuery(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <p className="text-xs font-semibold uppercase tracking-wider text-muted-foreground">Variables</p>
+                        <textarea
+                            spellCheck={false}
+                            className="h-28 w-full resize-y rounded-md border border-input bg-background px-3 py-2 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                            value={variablesText}
+                            onChange={(e) => setVariablesText(e.target.value)}
+                        />
+                    </div>
+                    <div>
+                        <button
+                            onClick={() => setShowHeaders((v) => !v)}
+                            className="flex items-center gap-1.5 py-1 text-xs font-semibold uppercase tracking-wider text-muted-foreground hover:text-foreground"
+                        >
+                            {showHeaders ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                            Headers{headerPairs.length > 0 && ` (${headerPairs.length})`}
+                        </button>
+                        {showHeaders && (
+                            <div className="pl-4 pt-1">
+                                <KVEditor pairs={headerPairs} onChange={setHeaderPairs} />
+                            </div>
+                        )}
+                    </div>
+                    {activeEnv && (
+                        <p className="text-[11px] text-muted-foreground">
+                            Using the <span className="font-medium">{activeEnv.name}</span> environment's headers and <code className="font-mono">{"{{variables}}"}</code>.
+                        </p>
+                    )}
+                </div>
+
+                <div className="w-1/2 flex flex-col overflow-hidden">
+                    <div className="flex items-center gap-2 border-b border-border px-4 py-2 shrink-0 text-xs text-muted-foreground">
+                        Response
+                        {result && <span className="rounded bg-muted px-1.5 py-0.5 font-mono text-[11px]">{result.status}</span>}
+                        {errors.length > 0 && (
+                            <span className="rounded bg-red-500/10 px-1.5 py-0.5 text-[11px] font-medium text-red-600 dark:text-red-400">
+                                {errors.length} error{errors.length !== 1 ? "s" : ""}
+                            </span>
+                        )}
+                    </div>
+                    <div className="flex-1 overflow-y-auto p-4">
+                        {sendError && (
+                            <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">{sendError}</div>
+                        )}
+                        {!result && !sendError && (
+                            <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                                Press Send to run the operation
+                            </div>
+                        )}
+                        {result && (
+                            <div className="rounded-md border border-border bg-muted/30 overflow-x-auto">
+                                <pre className="p-3 font-mono text-[11px] leading-relaxed whitespace-pre-wrap wrap-break-word">
+                                    {prettyJson(result.body)}
+                                </pre>
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
+
+function prettyJson(text: string): string {
+    try {
+        return JSON.stringify(JSON.parse(text), null, 2)
+    } catch {
+        return text
+    }
+}
+
+// ── Sidebar group ──────────────────────────────────────────────────────────
+
+function SidebarGroup({ label, count, children }: { label: string; count: number; children: React.ReactNode }) {
+    const [open, setOpen] = useState(true)
+    if (!count) return null
+    return (
+        <div>
+            <button
+                onClick={() => setOpen((v) => !v)}
+                className="flex w-full items-center gap-1.5 px-3 py-2 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground hover:text-foreground transition-colors"
+            >
+                {open ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />}
+                <span className="truncate">{label}</span>
+                <span className="ml-auto font-normal text-muted-foreground/60">{count}</span>
+            </button>
+            {open && <div>{children}</div>}
+        </div>
+    )
+}
+
+// ── GraphQLExplorer (main export) ─────────────────────────────────────────
+
+interface ExplorerProps {
+    spec: ApiSpec
+    projectId: string
+    canEdit: boolean
+    onReimport: () => void
+    onSync?: () => void
+    onDelete?: () => void
+    isSyncing?: boolean
+}
+
+/** Reference for a GraphQL spec: root operations and types, with a console. */
+export function GraphQLExplorer({ spec, projectId, canEdit, onReimport, onSync, onDelete, isSyncing }: ExplorerProps) {
+    const model = spec.graphql!
+    const [search, setSearch] = useState("")
+    const [selected, setSelected] = useState<Selection | null>(null)
+    const [tryItOpen, setTryItOpen] = useState(false)
+
+    const q = search.trim().toLowerCase()
+    const matches = (name: string, description: string) =>
+        !q || name.toLowerCase().includes(q) || description.toLowerCase().includes(q)
+
+    const operations = OPERATIONS.map(({ op, label }) => ({
+        op, label, fields: rootFields(model, op).filter((f) => matches(f.name, f.description)),
+    }))
+    // Root types are listed as operations; built-in scalars need no page
+    const allTypes = useMemo(() => {
+        const roots = [model.queryType, model.mutationType, model.subscriptionType]
+        return model.types
+            .filter((t) => !roots.includes(t.name) && !BUILTIN_SCALARS.includes(t.name))
+            .sort((a, b) => a.name.localeCompare(b.name))
+    }, [model])
+    const types = allTypes.filter((t) => matches(t.name, t.description))
+
+    const openType = (name: string) => {
+        setSelected({ kind: "type", name })
+        setTryItOpen(false)
+    }
+
+    const selectedField = selected?.kind === "field"
+        ? rootFields(model, selected.op).find((f) => f.name === selected.name) ?? null
+        : null
+    const selectedType = selected?.kind === "type" ? findType(model, selected.name) ?? null : null
+    const operationCount = operations.reduce((n, o) => n + rootFields(model, o.op).length, 0)
+
+    return (
+        <div className="flex flex-col h-full overflow-hidden">
+            {/* Info bar */}
+            <div className="shrink-0 flex items-center gap-2 border-b border-border px-4 py-2.5 bg-muted/10 flex-wrap">
+                <div className="flex items-center gap-2 flex-1 min-w-0">
+                    <span className="font-semibold text-sm truncate">{spec.info.title}</span>
+                    {spec.info.version && (
+                        <Badge variant="outline" className="text-[10px] shrink-0">{spec.info.version}</Badge>
+                    )}
+                    <Badge variant="outline" className="text-[10px] shrink-0 font-mono">GraphQL</Badge>
+                    <span className="text-xs text-muted-foreground shrink-0">
+                        {operationCount} operations · {allTypes.length} types
+                    </span>
+                </div>
+                <div className="flex items-center gap-1.5">
+                    {spec.source === "url" && onSync && (
+                        <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={onSync} disabled={isSyncing}>
+                            {isSyncing
+                                ? <><span className="animate-spin">⟳</span> Syncing…</>
+                                : <><RefreshCw className="h-3 w-3" /> Sync</>}
+                        </Button>
+                    )}
+                    {canEdit && (
+                        <Button variant="outline" size="sm" className="h-7 text-xs" onClick={onReimport}>
+                            Re-import
+                        </Button>
+                    )}
+                    {canEdit && onDelete && (
+                        <Button
+                            variant="ghost" size="sm"
+                            className="h-7 text-xs text-destructive hover:text-destructive hover:bg-destructive/10"
+                            onClick={onDelete}
+                        >
+                            <Trash2 className="h-3 w-3" />
+                        </Button>
+                    )}
+                </div>
+            </div>
+
+            {/* Body */}
+            <div className="flex flex-1 overflow-hidden">
+                {/* Sidebar */}
+                <div className="w-60 border-r border-border flex flex-col shrink-0 overflow-hidden">
+                    <div className="p-2 border-b border-border shrink-0">
+                        <div className="relative">
+                            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
+                            <Input
+                                className="pl-7 h-8 text-xs"
+                                placeholder="Search fields and types…"
+                                value={search}
+                                onChange={(e) => setSearch(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <div className="flex-1 overflow-y-auto">
+                        {operations.map(({ op, label, fields }) => (
+                            <SidebarGroup key={op} label={label} count={fields.length}>
+                                {fields.map((f) => (
+                                    <button
+                                        key={f.name}
+                                        onClick={() => {
+                                            setSelected({ kind: "field", op, name: f.name })
+                                            setTryItOpen(false)
+                                        }}
+                                        className={cn(
+                                            "flex w-full items-center gap-2 px-3 py-1.5 text-xs transition-colors hover:bg-muted",
+                                            selected?.kind === "field" && selected.op === op && selected.name === f.name && "bg-primary/10 text-primary",
+                                            f.isDeprecated && "opacity-50 line-through",
+                                        )}
+                                    >
+                                        <span className="flex-1 truncate text-left font-mono">{f.name}</span>
+                                    </button>
+                                ))}
+                            </SidebarGroup>
+                        ))}
+                        <SidebarGroup label="Types" count={types.length}>
+                            {types.map((t) => (
+                                <button
+                                    key={t.name}
+                                    onClick={() => openType(t.name)}
+                                    className={cn(
+                                        "flex w-full items-center gap-2 px-3 py-1.5 text-xs transition-colors hover:bg-muted",
+                                        selected?.kind === "type" && selected.name === t.name && "bg-primary/10 text-primary",
+                                    )}
+                                >
+                                    <span className="flex-1 truncate text-left font-mono">{t.name}</span>
+                                    <span className="shrink-0 text-[10px] text-muted-foreground">{KIND_LABELS[t.kind]}</span>
+                                </button>
+                            ))}
+                        </SidebarGroup>
+                        {operations.every((o) => !o.fields.length) && !types.length && (
+                            <p className="px-3 py-4 text-xs text-muted-foreground text-center">Nothing matches.</p>
+                        )}
+                    </div>
+                </div>
+
+                {/* Main content */}
+                <div className="flex flex-1 flex-col overflow-hidden">
+                    {selectedField && selected?.kind === "field" && tryItOpen ? (
+                        <div className="flex flex-1 overflow-hidden">
+                            <GraphQLConsole
+                                key={`${selected.op}:${selectedField.name}`}
+                                projectId={projectId}
+                                spec={spec}
+                                op={selected.op}
+                                field={selectedField}
+                                onClose={() => setTryItOpen(false)}
+                            />
+                        </div>
+                    ) : selectedField && selected?.kind === "field" ? (
+                        <div className="flex-1 overflow-y-auto">
+                            <FieldDetail op={selected.op} field={selectedField} model={model} onOpen={openType} onTryIt={() => setTryItOpen(true)} />
+                        </div>
+                    ) : selectedType ? (
+                        <div className="flex-1 overflow-y-auto">
+                            <TypeDetail type={selectedType} model={model} onOpen={openType} />
+                        </div>
+                    ) : (
+                        <div className="flex flex-1 flex-col items-center justify-center gap-3 text-center p-8">
+                            <div className="h-10 w-10 rounded-full bg-muted flex items-center justify-center">
+                                <Search className="h-5 w-5 text-muted-foreground" />
+                            </div>
+                            <p className="text-sm text-muted-foreground">Select an operation or type from the sidebar</p>
+                            {spec.info.description && (
+                                <p className="max-w-md text-xs text-muted-foreground/70">{spec.info.description}</p>
+                            )}
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,427 @@
+/**
+ * markdown-editor.tsx — Split-pane markdown editor with live preview.
+ *
+ *  - Source and DocRenderer preview side by side; scrolling either pane keeps
+ *    the same source line / rendered block aligned in the other
+ *  - Keyboard shortcuts for every toolbar action (lib/markdown-actions.ts)
+ *  - "/" at the start of a word opens a command menu (tables, callouts, code…)
+ *  - Unsaved drafts autosave to IndexedDB and are offered back after a crash
+ *  - Collaborators' carets are drawn over the source pane; edits arriving
+ *    from outside keep the local caret on the same text
+ */
+import { useCallback, useDeferredValue, useEffect, useLayoutEffect, useMemo, useRef, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Columns2, Eye, History, PencilLine } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DocRenderer } from "@/components/projects/DocRenderer"
+import { MarkdownToolbar } from "@/components/projects/markdown-toolbar"
+import { useDraftAutosave } from "@/hooks"
+import { filterSlashCommands, matchShortcut, type SlashCommand } from "@/lib/markdown-actions"
+import type { RemoteCursor } from "@/lib/collab"
+import { cn } from "@/lib/utils"
+
+type EditorLayout = "split" | "write" | "preview"
+
+// The source pane doesn't wrap, so line N sits at (N - 1) * LINE_HEIGHT
+const LINE_HEIGHT = 24
+const PADDING = 24
+
+interface SlashState {
+  /** Index of the "/" in the text */
+  start: number
+  query: string
+  active: number
+}
+
+interface BlockAnchor {
+  line: number
+  top: number
+}
+
+/** Rendered position of every source-line marker in the preview. */
+function readAnchors(preview: HTMLElement): BlockAnchor[] {
+  const base = preview.getBoundingClientRect().top - preview.scrollTop
+  const anchors: BlockAnchor[] = []
+  preview.querySelectorAll<HTMLElement>("[data-source-line]").forEach((marker) => {
+    const block = marker.nextElementSibling as HTMLElement | null
+    if (!block) return
+    anchors.push({ line: Number(marker.dataset.sourceLine), top: block.getBoundingClientRect().top - base })
+  })
+  return anchors
+}
+
+/** Move `offset` in `prev` to the matching place in `next` (single edited range). */
+function mapOffset(prev: string, next: string, offset: number): number {
+  let start = 0
+  const max = Math.min(prev.length, next.length)
+  while (start < max && prev[start] === next[start]) start++
+  let end = 0
+  while (end < max - start && prev[prev.length - 1 - end] === next[next.length - 1 - end]) end++
+  if (offset <= start) return offset
+  if (offset >= prev.length - end) return offset + next.length - prev.length
+  return next.length - end
+}
+
+/** Linear interpolation between the anchors either side of `value`. */
+function interpolate(anchors: BlockAnchor[], value: number, from: "line" | "top", to: "line" | "top"): number {
+  if (anchors.length === 0) return 0
+  let i = anchors.length - 1
+  while (i > 0 && anchors[i][from] > value) i--
+  const a = anchors[i]
+  const b = anchors[i + 1]
+  if (!b || b[from] === a[from]) return a[to] + (value - a[from]) * (to === "top" ? LINE_HEIGHT : 1 / LINE_HEIGHT)
+  const t = Math.max(0, Math.min(1, (value - a[from]) / (b[from] - a[from])))
+  return a[to] + t * (b[to] - a[to])
+}
+
+interface MarkdownEditorProps {
+  value: string
+  onChange: (value: string) => void
+  /** IndexedDB key for draft autosave (see lib/draft-store.ts) */
+  draftKey: string | null
+  /** Last saved content — drafts equal to it aren't kept */
+  savedContent: string
+  /** Carets of collaborators editing the same section */
+  remoteCursors?: RemoteCursor[]
+  onSelectionChange?: (start: number, end: number) => void
+}
+
+export function MarkdownEditor({
+  value,
+  onChange,
+  draftKey,
+  savedContent,
+  remoteCursors = [],
+  onSelectionChange,
+}: MarkdownEditorProps) {
+  const [layout, setLayout] = useState<EditorLayout>("split")
+  const [slash, setSlash] = useState<SlashState | null>(null)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const previewRef = useRef<HTMLDivElement>(null)
+  const syncingRef = useRef<"source" | "preview" | null>(null)
+  const pendingSelection = useRef<[number, number] | null>(null)
+  const charWidthRef = useRef(8)
+  // Last value typed here and the selection at the time, to tell outside edits apart
+  const localValueRef = useRef(value)
+  const selectionRef = useRef<[number, number]>([0, 0])
+  const prevValueRef = useRef(value)
+  const [scroll, setScroll] = useState({ top: 0, left: 0 })
+
+  const preview = useDeferredValue(value)
+  const { pendingDraft, lastSavedAt, restore, discard } = useDraftAutosave(draftKey, value, savedContent)
+
+  // Restore the caret after a programmatic edit, or carry it across an
+  // edit made elsewhere (collaborator, restored draft)
+  useLayoutEffect(() => {
+    const prev = prevValueRef.current
+    prevValueRef.current = value
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const sel = pendingSelection.current
+    if (sel) {
+      pendingSelection.current = null
+      localValueRef.current = value
+      textarea.focus()
+      textarea.setSelectionRange(sel[0], sel[1])
+      return
+    }
+    if (value === localValueRef.current || document.activeElement !== textarea) return
+    localValueRef.current = value
+    const [start, end] = selectionRef.current
+    textarea.setSelectionRange(mapOffset(prev, value, start), mapOffset(prev, value, end))
+  }, [value])
+
+  // Monospace glyph width, for positioning the slash menu at the caret
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    const ctx = document.createElement("canvas").getContext("2d")
+    if (!ctx) return
+    ctx.font = getComputedStyle(textarea).font
+    charWidthRef.current = ctx.measureText("M").width || 8
+  }, [layout])
+
+  // ── Editing helpers ────────────────────────────────────────────────────────
+
+  const replaceRange = useCallback(
+    (start: number, end: number, text: string, selStart: number, selEnd = selStart) => {
+      pendingSelection.current = [selStart, selEnd]
+      onChange(value.slice(0, start) + text + value.slice(end))
+    },
+    [value, onChange],
+  )
+
+  const insert = useCallback(
+    (prefix: string, suffix = "") => {
+      const textarea = textareaRef.current
+      if (!textarea) return
+      const { selectionStart: start, selectionEnd: end } = textarea
+      const selected = value.slice(start, end)
+      replaceRange(start, end, prefix + selected + suffix, start + prefix.length, end + prefix.length)
+    },
+    [value, replaceRange],
+  )
+
+  const slashCommands = useMemo(() => (slash ? filterSlashCommands(slash.query) : []), [slash])
+
+  const applySlash = (command: SlashCommand) => {
+    const textarea = textareaRef.current
+    if (!slash || !textarea) return
+    const caret = command.template.indexOf("$0")
+    const text = command.template.replace("$0", "")
+    const at = slash.start + (caret < 0 ? text.length : caret)
+    replaceRange(slash.start, textarea.selectionStart, text, at)
+    setSlash(null)
+  }
+
+  /** Open / update / close the slash menu from the text before the caret */
+  const updateSlash = (text: string, caret: number) => {
+    const lineStart = text.lastIndexOf("\n", caret - 1) + 1
+    const match = text.slice(lineStart, caret).match(/(?:^|\s)\/([\w-]*)$/)
+    if (!match) {
+      setSlash(null)
+      return
+    }
+    const query = match[1]
+    setSlash((prev) => ({ start: caret - query.length - 1, query, active: prev?.query === query ? prev.active : 0 }))
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slash && slashCommands.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault()
+        const delta = e.key === "ArrowDown" ? 1 : -1
+        setSlash({ ...slash, active: (slash.active + delta + slashCommands.length) % slashCommands.length })
+        return
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault()
+        applySlash(slashCommands[slash.active])
+        return
+      }
+    }
+    if (slash && e.key === "Escape") {
+      e.preventDefault()
+      setSlash(null)
+      return
+    }
+
+    const action = matchShortcut(e)
+    if (action) {
+      e.preventDefault()
+      insert(action.prefix, action.suffix)
+    }
+  }
+
+  // ── Scroll sync ────────────────────────────────────────────────────────────
+
+  const handleSourceScroll = () => {
+    const source = textareaRef.current
+    if (source) setScroll({ top: source.scrollTop, left: source.scrollLeft })
+    if (syncingRef.current === "preview") {
+      syncingRef.current = null
+      return
+    }
+    const textarea = textareaRef.current
+    const pane = previewRef.current
+    if (!textarea || !pane || layout !== "split") return
+    const line = textarea.scrollTop / LINE_HEIGHT + 1
+    const top = Math.max(0, interpolate(readAnchors(pane), line, "line", "top") - PADDING)
+    if (Math.abs(pane.scrollTop - top) < 1) return
+    syncingRef.current = "source"
+    pane.scrollTop = top
+  }
+
+  const handlePreviewScroll = () => {
+    if (syncingRef.current === "source") {
+      syncingRef.current = null
+      return
+    }
+    const textarea = textareaRef.current
+    const pane = previewRef.current
+    if (!textarea || !pane || layout !== "split") return
+    const line = interpolate(readAnchors(pane), pane.scrollTop + PADDING, "top", "line")
+    const top = Math.max(0, (line - 1) * LINE_HEIGHT)
+    if (Math.abs(textarea.scrollTop - top) < 1) return
+    syncingRef.current = "preview"
+    textarea.scrollTop = top
+  }
+
+  /** Top-left of the character at `offset` (textarea doesn't wrap, so line/column map directly) */
+  const caretPosition = (offset: number) => {
+    const before = value.slice(0, offset)
+    const line = before.split("\n").length - 1
+    const column = offset - (before.lastIndexOf("\n") + 1)
+    return {
+      top: PADDING + line * LINE_HEIGHT - scroll.top,
+      left: PADDING + column * charWidthRef.current - scroll.left,
+    }
+  }
+
+  const slashPosition = (() => {
+    if (!slash) return null
+    const { top, left } = caretPosition(slash.start)
+    return { top: top + LINE_HEIGHT + 4, left: Math.max(8, left) }
+  })()
+
+  const trackSelection = (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget
+    const [start, end] = selectionRef.current
+    if (start === selectionStart && end === selectionEnd) return
+    selectionRef.current = [selectionStart, selectionEnd]
+    onSelectionChange?.(selectionStart, selectionEnd)
+  }
+
+  const layoutToggle = (
+    <div className="flex rounded-md border border-border overflow-hidden">
+      {([
+        ["write", PencilLine, "Write"],
+        ["split", Columns2, "Split"],
+        ["preview", Eye, "Preview"],
+      ] as const).map(([mode, Icon, label]) => (
+        <button
+          key={mode}
+          type="button"
+          title={label}
+          onClick={() => setLayout(mode)}
+          className={cn(
+            "flex items-center gap-1 px-2 py-1 text-xs transition-colors",
+            layout === mode ? "bg-primary text-primary-foreground" : "hover:bg-muted text-muted-foreground",
+          )}
+        >
+          <Icon className="h-3 w-3" />
+          <span className="hidden lg:inline">{label}</span>
+        </button>
+      ))}
+    </div>
+  )
+
+  return (
+    <div className="flex flex-col h-full min-h-0">
+      <MarkdownToolbar
+        onInsert={insert}
+        trailing={
+          <>
+            {lastSavedAt && (
+              <span className="hidden md:inline text-[11px] text-muted-foreground mr-2">
+                Draft saved {formatDistanceToNow(lastSavedAt, { addSuffix: true })}
+              </span>
+            )}
+            {layoutToggle}
+          </>
+        }
+      />
+
+      {/* Unsaved draft from an earlier session */}
+      {pendingDraft && (
+        <div className="flex items-center gap-3 px-4 py-2 border-b border-border bg-primary/5 text-sm shrink-0">
+          <History className="h-4 w-4 text-primary shrink-0" />
+          <span className="flex-1 min-w-0 text-xs">
+            You have an unsaved draft from {formatDistanceToNow(pendingDraft.updatedAt, { addSuffix: true })}.
+            {pendingDraft.baseContent !== savedContent && " The section has changed since then."}
+          </span>
+          <Button
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => {
+              const content = restore()
+              if (content !== null) onChange(content)
+            }}
+          >
+            Restore draft
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={discard}>
+            Discard
+          </Button>
+        </div>
+      )}
+
+      <div className="flex flex-1 min-h-0">
+        {/* Source */}
+        {layout !== "preview" && (
+          <div className={cn("relative flex-1 min-w-0", layout === "split" && "border-r border-border")}>
+            <textarea
+              ref={textareaRef}
+              id="markdown-editor"
+              wrap="off"
+              spellCheck
+              className="absolute inset-0 w-full h-full p-6 font-mono text-sm bg-background border-0 focus:outline-none resize-none overflow-auto"
+              style={{ lineHeight: `${LINE_HEIGHT}px` }}
+              value={value}
+              placeholder="Write markdown… Type / for blocks"
+              onChange={(e) => {
+                localValueRef.current = e.target.value
+                onChange(e.target.value)
+                updateSlash(e.target.value, e.target.selectionStart)
+              }}
+              onSelect={trackSelection}
+              onKeyDown={handleKeyDown}
+              onClick={() => setSlash(null)}
+              onBlur={() => setSlash(null)}
+              onScroll={handleSourceScroll}
+            />
+
+            {/* Collaborators' carets */}
+            {remoteCursors.map((cursor) => {
+              const { top, left } = caretPosition(Math.min(cursor.offset, value.length))
+              if (top < 0 || left < 0) return null
+              return (
+                <div
+                  key={cursor.clientId}
+                  className="absolute z-10 pointer-events-none"
+                  style={{ top, left, height: LINE_HEIGHT }}
+                >
+                  <div className="w-0.5 h-full" style={{ backgroundColor: cursor.color }} />
+                  <span
+                    className="absolute bottom-full left-0 whitespace-nowrap rounded px-1 text-[10px] font-medium text-white"
+                    style={{ backgroundColor: cursor.color }}
+                  >
+                    {cursor.name}
+                  </span>
+                </div>
+              )
+            })}
+
+            {/* Slash command menu */}
+            {slash && slashPosition && slashCommands.length > 0 && (
+              <div
+                className="absolute z-20 w-56 max-h-64 overflow-y-auto rounded-lg border border-border bg-popover shadow-lg py-1"
+                style={slashPosition}
+              >
+                {slashCommands.map((command, i) => (
+                  <button
+                    key={command.id}
+                    type="button"
+                    onMouseDown={(e) => {
+                      e.preventDefault()
+                      applySlash(command)
+                    }}
+                    className={cn(
+                      "flex w-full items-center px-3 py-1.5 text-left text-sm",
+                      i === slash.active ? "bg-primary/10 text-primary" : "hover:bg-muted",
+                    )}
+                  >
+                    {command.label}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Preview */}
+        {layout !== "write" && (
+          <div ref={previewRef} className="flex-1 min-w-0 overflow-y-auto p-6" onScroll={handlePreviewScroll}>
+            {preview.trim() ? (
+              <div className="prose prose-slate dark:prose-invert max-w-none">
+                <DocRenderer content={preview} sourceLineMarkers />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Nothing to preview yet.</p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
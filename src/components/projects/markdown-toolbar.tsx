@@ -1,5 +1,5 @@
 import { useRef, useState } from "react"
-import { Bold, Italic, List, ListOrdered, Code, Link as LinkIcon, Heading1, Heading2, ImageIcon, Quote, MoreVertical } from "lucide-react"
+import { Bold, Italic, List, ListOrdered, Code, Link as LinkIcon, Heading1, Heading2, ImageIcon, Quote, MoreVertical, Info, Lightbulb, TriangleAlert, OctagonAlert } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import {
   DropdownMenu,
@@ -8,17 +8,38 @@ import {
   DropdownMenuTrigger,
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu"
+import { MARKDOWN_ACTIONS, formatShortcut, type MarkdownAction, type MarkdownActionId } from "@/lib/markdown-actions"
+
+const CALLOUT_ACTIONS: Array<[MarkdownActionId, React.ElementType]> = [
+  ["callout-note", Info],
+  ["callout-tip", Lightbulb],
+  ["callout-warning", TriangleAlert],
+  ["callout-danger", OctagonAlert],
+]
 
 export interface MarkdownToolbarProps {
   onInsert: (prefix: string, suffix?: string) => void
+  /** Extra controls rendered at the right end of the toolbar */
+  trailing?: React.ReactNode
+}
+
+/** "Bold (Ctrl+B)" */
+function titleFor(id: MarkdownActionId) {
+  const action = MARKDOWN_ACTIONS[id]
+  return `${action.label} (${formatShortcut(action.shortcut)})`
 }
 
-export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
+export function MarkdownToolbar({ onInsert, trailing }: MarkdownToolbarProps) {
   const [headingsOpen, setHeadingsOpen] = useState(false)
   const [moreOpen, setMoreOpen] = useState(false)
   const headingsRef = useRef<HTMLDivElement>(null)
   const moreRef = useRef<HTMLDivElement>(null)
 
+  const run = (id: MarkdownActionId) => {
+    const action: MarkdownAction = MARKDOWN_ACTIONS[id]
+    onInsert(action.prefix, action.suffix)
+  }
+
   return (
     <div className="flex items-center gap-1 p-2 border-b border-border bg-muted/30 flex-wrap">
       {/* Text Formatting */}
@@ -26,8 +47,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("**", "**")}
-        title="Bold (Ctrl+B)"
+        onClick={() => run("bold")}
+        title={titleFor("bold")}
       >
         <Bold className="h-4 w-4" />
       </Button>
@@ -35,8 +56,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("*", "*")}
-        title="Italic (Ctrl+I)"
+        onClick={() => run("italic")}
+        title={titleFor("italic")}
       >
         <Italic className="h-4 w-4" />
       </Button>
@@ -44,8 +65,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("~~", "~~")}
-        title="Strikethrough"
+        onClick={() => run("strike")}
+        title={titleFor("strike")}
       >
         <span className="text-sm font-bold">S</span>
       </Button>
@@ -66,19 +87,19 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="start" className="min-w-max">
-            <DropdownMenuItem onClick={() => { onInsert("# "); setHeadingsOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("h1"); setHeadingsOpen(false) }} title={titleFor("h1")}>
               <Heading1 className="h-4 w-4 mr-2" />
               Heading 1
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => { onInsert("## "); setHeadingsOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("h2"); setHeadingsOpen(false) }} title={titleFor("h2")}>
               <Heading2 className="h-4 w-4 mr-2" />
               Heading 2
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => { onInsert("### "); setHeadingsOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("h3"); setHeadingsOpen(false) }} title={titleFor("h3")}>
               <span className="text-xs font-bold mr-2">H3</span>
               Heading 3
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => { onInsert("#### "); setHeadingsOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("h4"); setHeadingsOpen(false) }} title={titleFor("h4")}>
               <span className="text-xs font-bold mr-2">H4</span>
               Heading 4
             </DropdownMenuItem>
@@ -93,8 +114,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("- ")}
-        title="Bullet List"
+        onClick={() => run("bullet")}
+        title={titleFor("bullet")}
       >
         <List className="h-4 w-4" />
       </Button>
@@ -102,8 +123,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("1. ")}
-        title="Numbered List"
+        onClick={() => run("numbered")}
+        title={titleFor("numbered")}
       >
         <ListOrdered className="h-4 w-4" />
       </Button>
@@ -115,8 +136,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("`", "`")}
-        title="Inline Code"
+        onClick={() => run("code")}
+        title={titleFor("code")}
       >
         <Code className="h-4 w-4" />
       </Button>
@@ -124,8 +145,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("```\n", "\n```")}
-        title="Code Block"
+        onClick={() => run("codeBlock")}
+        title={titleFor("codeBlock")}
       >
         <span className="text-xs font-bold">&lt;&gt;</span>
       </Button>
@@ -137,8 +158,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("[", "](url)")}
-        title="Link"
+        onClick={() => run("link")}
+        title={titleFor("link")}
       >
         <LinkIcon className="h-4 w-4" />
       </Button>
@@ -146,8 +167,8 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
         variant="ghost"
         size="icon"
         className="h-8 w-8"
-        onClick={() => onInsert("![alt text](", ")")}
-        title="Image"
+        onClick={() => run("image")}
+        title={titleFor("image")}
       >
         <ImageIcon className="h-4 w-4" />
       </Button>
@@ -168,31 +189,40 @@ export function MarkdownToolbar({ onInsert }: MarkdownToolbarProps) {
             </Button>
           </DropdownMenuTrigger>
           <DropdownMenuContent align="end" className="min-w-max">
-            <DropdownMenuItem onClick={() => { onInsert("> "); setMoreOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("quote"); setMoreOpen(false) }} title={titleFor("quote")}>
               <Quote className="h-4 w-4 mr-2" />
               Blockquote
             </DropdownMenuItem>
             <DropdownMenuSeparator />
-            <DropdownMenuItem onClick={() => { onInsert("---"); setMoreOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("hr"); setMoreOpen(false) }} title={titleFor("hr")}>
               <span className="text-xs mr-2">—</span>
               Horizontal Line
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => { onInsert("| ", " |"); setMoreOpen(false) }} title="Table Header">
+            <DropdownMenuItem onClick={() => { run("table"); setMoreOpen(false) }} title={titleFor("table")}>
               <span className="text-xs font-bold mr-2">⊞</span>
               Table
             </DropdownMenuItem>
             <DropdownMenuSeparator />
-            <DropdownMenuItem onClick={() => { onInsert("- [ ] "); setMoreOpen(false) }}>
+            <DropdownMenuItem onClick={() => { run("checkbox"); setMoreOpen(false) }} title={titleFor("checkbox")}>
               <span className="text-xs mr-2">☐</span>
               Checkbox
             </DropdownMenuItem>
-            <DropdownMenuItem onClick={() => { onInsert("::: note\n", "\n:::"); setMoreOpen(false) }} title="Callout/Note">
-              <span className="text-xs font-bold mr-2">!</span>
-              Note Block
-            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            {CALLOUT_ACTIONS.map(([id, Icon]) => (
+              <DropdownMenuItem
+                key={id}
+                onClick={() => { run(id); setMoreOpen(false) }}
+                title={titleFor(id)}
+              >
+                <Icon className="h-4 w-4 mr-2" />
+                {MARKDOWN_ACTIONS[id].label}
+              </DropdownMenuItem>
+            ))}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
+
+      {trailing && <div className="ml-auto flex items-center gap-1">{trailing}</div>}
     </div>
   )
 }
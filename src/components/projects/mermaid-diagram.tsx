@@ -0,0 +1,164 @@
+/**
+ * mermaid-diagram.tsx — SVG rendering of ```mermaid fences for DocRenderer.
+ *
+ * Shows the diagram with zoom (buttons or ctrl/⌘ + wheel) and drag-to-pan,
+ * plus a toggle back to the source. If mermaid cannot parse the source the
+ * `fallback` (the regular code block) is shown with the parse error.
+ */
+import { useEffect, useRef, useState } from "react"
+import { AlertTriangle, Code2, Network, RotateCcw, ZoomIn, ZoomOut } from "lucide-react"
+import { useTheme } from "@/providers/theme-provider"
+import { renderMermaid, type DiagramTheme } from "@/lib/mermaid"
+import { cn } from "@/lib/utils"
+
+const MIN_ZOOM = 0.25
+const MAX_ZOOM = 4
+
+function clampZoom(z: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z))
+}
+
+function resolveTheme(theme: "dark" | "light" | "system"): DiagramTheme {
+  if (theme === "system") {
+    return window.matchMedia("(prefers-color-scheme: dark)").matches ? "dark" : "default"
+  }
+  return theme === "dark" ? "dark" : "default"
+}
+
+interface MermaidDiagramProps {
+  code: string
+  /** Rendered for the source view and when the diagram fails to parse */
+  fallback: React.ReactNode
+}
+
+export function MermaidDiagram({ code, fallback }: MermaidDiagramProps) {
+  const { theme } = useTheme()
+  const [svg, setSvg] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [view, setView] = useState<"diagram" | "source">("diagram")
+  const [zoom, setZoom] = useState(1)
+  const [pan, setPan] = useState({ x: 0, y: 0 })
+  const dragRef = useRef<{ x: number; y: number; panX: number; panY: number } | null>(null)
+  const viewportRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setError(null)
+    renderMermaid(code, resolveTheme(theme))
+      .then((result) => {
+        if (!cancelled) setSvg(result)
+      })
+      .catch((err: any) => {
+        if (!cancelled) {
+          setSvg(null)
+          setError(err?.message ?? "Invalid diagram")
+        }
+      })
+    return () => { cancelled = true }
+  }, [code, theme])
+
+  // ctrl/⌘ + wheel zooms; a native listener so preventDefault() isn't passive
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+    const onWheel = (e: WheelEvent) => {
+      if (!e.ctrlKey && !e.metaKey) return
+      e.preventDefault()
+      setZoom((z) => clampZoom(z * (e.deltaY < 0 ? 1.1 : 1 / 1.1)))
+    }
+    viewport.addEventListener("wheel", onWheel, { passive: false })
+    return () => viewport.removeEventListener("wheel", onWheel)
+  }, [view, error])
+
+  const resetView = () => {
+    setZoom(1)
+    setPan({ x: 0, y: 0 })
+  }
+
+  if (error) {
+    return (
+      <div className="my-6">
+        <div className="flex items-start gap-2 text-xs text-amber-600 dark:text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+          <span className="line-clamp-2">Diagram could not be rendered: {error}</span>
+        </div>
+        <div className="[&>div]:mt-2 [&>div]:mb-0">{fallback}</div>
+      </div>
+    )
+  }
+
+  const toolButton = "flex items-center justify-center h-7 w-7 rounded-md text-muted-foreground hover:bg-muted hover:text-foreground transition-colors"
+
+  return (
+    <div className="my-6 rounded-xl border border-border overflow-hidden bg-card not-prose">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-border bg-muted/40">
+        <div className="flex rounded-md border border-border overflow-hidden">
+          {([
+            ["diagram", Network, "Diagram"],
+            ["source", Code2, "Source"],
+          ] as const).map(([v, Icon, label]) => (
+            <button
+              key={v}
+              type="button"
+              onClick={() => setView(v)}
+              className={cn(
+                "flex items-center gap-1 px-2 py-1 text-xs transition-colors",
+                view === v ? "bg-primary text-primary-foreground" : "hover:bg-muted text-muted-foreground",
+              )}
+            >
+              <Icon className="h-3 w-3" /> {label}
+            </button>
+          ))}
+        </div>
+        {view === "diagram" && (
+          <div className="flex items-center gap-0.5">
+            <button type="button" className={toolButton} title="Zoom out" onClick={() => setZoom((z) => clampZoom(z / 1.25))}>
+              <ZoomOut className="h-3.5 w-3.5" />
+            </button>
+            <span className="w-10 text-center text-[11px] font-mono text-muted-foreground">{Math.round(zoom * 100)}%</span>
+            <button type="button" className={toolButton} title="Zoom in" onClick={() => setZoom((z) => clampZoom(z * 1.25))}>
+              <ZoomIn className="h-3.5 w-3.5" />
+            </button>
+            <button type="button" className={toolButton} title="Reset view" onClick={resetView}>
+              <RotateCcw className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {view === "source" ? (
+        <div className="px-4 [&>div]:my-4">{fallback}</div>
+      ) : (
+        <div
+          ref={viewportRef}
+          className="relative h-[420px] overflow-hidden cursor-grab active:cursor-grabbing select-none"
+          onPointerDown={(e) => {
+            dragRef.current = { x: e.clientX, y: e.clientY, panX: pan.x, panY: pan.y }
+            e.currentTarget.setPointerCapture(e.pointerId)
+          }}
+          onPointerMove={(e) => {
+            const drag = dragRef.current
+            if (!drag) return
+            setPan({ x: drag.panX + e.clientX - drag.x, y: drag.panY + e.clientY - drag.y })
+          }}
+          onPointerUp={() => { dragRef.current = null }}
+          onDoubleClick={resetView}
+        >
+          {svg ? (
+            <div
+              className="absolute inset-0 flex items-center justify-center [&_svg]:max-w-none"
+              style={{ transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, transformOrigin: "center" }}
+              // mermaid output is sanitised (securityLevel: "strict")
+              dangerouslySetInnerHTML={{ __html: svg }}
+            />
+          ) : (
+            <div className="absolute inset-0 flex items-center justify-center text-xs text-muted-foreground">
+              Rendering diagram…
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -17,6 +17,7 @@ import {
     type PortalSectionKey,
     type PortalSectionVisibility,
     type PortalAccessMode,
+    PORTAL_SECTION_DEFAULT_VISIBILITY,
     PORTAL_SECTION_KEYS,
     PORTAL_SECTION_LABELS,
     type CustomTab,
@@ -51,7 +52,7 @@ function buildPortalUrl(slug: string): string {
 }
 
 function getEffectiveVisibility(sections: PortalSectionConfig[], key: PortalSectionKey): PortalSectionVisibility {
-    return sections.find((s) => s.sectionKey === key)?.visibility ?? "public"
+    return sections.find((s) => s.sectionKey === key)?.visibility ?? PORTAL_SECTION_DEFAULT_VISIBILITY[key] ?? "public"
 }
 
 // ── Component ──────────────────────────────────────────────────────────────
@@ -1,11 +1,23 @@
 import { useState, useEffect, useCallback } from "react"
-import { UserPlus, X, Mail, Shield, Eye, Pencil, RotateCcw, Ban, Check, AlertCircle, User } from "lucide-react"
+import { UserPlus, X, Mail, Shield, Eye, Pencil, RotateCcw, Ban, Check, AlertCircle, User, Layers, Plus, Trash2 } from "lucide-react"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Select } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
-import { sharingApi, ApiShare } from "@/lib/api"
+import {
+  sharingApi,
+  projectRolesApi,
+  customTabsApi,
+  PROJECT_CAPABILITIES,
+  PROJECT_CAPABILITY_LABELS,
+  type ApiShare,
+  type ApiProjectRole,
+  type ApiProjectRoleInput,
+  type SectionAccess,
+} from "@/lib/api"
+import { buildTabList, NATIVE_TABS, type TabDef } from "@/components/projects/documentation-tabs"
+import { cn } from "@/lib/utils"
 import { useSubscriptionStore, hasFeature, meetsMinPlan } from "@/store/subscription"
 import { UpgradeModal } from "@/components/billing/UpgradeModal"
 import { formatDistanceToNow } from "date-fns"
@@ -21,8 +33,20 @@ interface SharePanelProps {
   projectId: string
   projectName: string
   isOwner: boolean
+  /** Whether the user may invite and change access; defaults to `isOwner` */
+  canManageShares?: boolean
 }
 
+type SectionAccessMap = Record<string, SectionAccess>
+
+const SECTION_ACCESS_LABELS: Record<SectionAccess, string> = {
+  edit: "Can edit",
+  read: "Read only",
+  hidden: "Hidden",
+}
+
+const EMPTY_ROLE: ApiProjectRoleInput = { name: "", description: "", capabilities: [], sectionAccess: {} }
+
 // ─────────────────────────────────────────────────────────────
 // Helpers
 // ─────────────────────────────────────────────────────────────
@@ -55,18 +79,181 @@ function StatusBadge({ status }: { status: "pending" | "accepted" | "revoked" })
   return <span className="text-xs text-muted-foreground">Revoked</span>
 }
 
+/** One select per section; the empty option removes the override. */
+function SectionAccessList({
+  sections,
+  value,
+  defaultLabel,
+  disabled,
+  onChange,
+}: {
+  sections: TabDef[]
+  value: SectionAccessMap
+  defaultLabel: string
+  disabled?: boolean
+  onChange: (sectionKey: string, access: SectionAccess | "") => void
+}) {
+  return (
+    <div className="grid grid-cols-1 gap-1.5 sm:grid-cols-2">
+      {sections.map((section) => (
+        <label key={section.key} className="flex items-center justify-between gap-2 text-xs">
+          <span className="truncate">{section.label}</span>
+          <Select
+            value={value[section.key] ?? ""}
+            onChange={(e) => onChange(section.key, e.target.value as SectionAccess | "")}
+            className={cn("h-7 w-[110px] px-2 py-0 text-xs", value[section.key] === "hidden" && "text-muted-foreground")}
+            disabled={disabled}
+          >
+            <option value="">{defaultLabel}</option>
+            {(Object.keys(SECTION_ACCESS_LABELS) as SectionAccess[]).map((access) => (
+              <option key={access} value={access}>{SECTION_ACCESS_LABELS[access]}</option>
+            ))}
+          </Select>
+        </label>
+      ))}
+    </div>
+  )
+}
+
+function RoleEditor({
+  initial,
+  sections,
+  onSave,
+  onCancel,
+}: {
+  initial: ApiProjectRoleInput
+  sections: TabDef[]
+  onSave: (data: ApiProjectRoleInput) => Promise<void>
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState<ApiProjectRoleInput>(initial)
+  const [isSaving, setIsSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const toggleCapability = (capability: ApiProjectRoleInput["capabilities"][number]) =>
+    setDraft((d) => ({
+      ...d,
+      capabilities: d.capabilities.includes(capability)
+        ? d.capabilities.filter((c) => c !== capability)
+        : [...d.capabilities, capability],
+    }))
+
+  const setSection = (sectionKey: string, access: SectionAccess | "") =>
+    setDraft((d) => {
+      const next = { ...d.sectionAccess }
+      if (access) next[sectionKey] = access
+      else delete next[sectionKey]
+      return { ...d, sectionAccess: next }
+    })
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!draft.name.trim()) return
+    setIsSaving(true)
+    setError(null)
+    try {
+      await onSave({ ...draft, name: draft.name.trim(), description: draft.description.trim() })
+    } catch (err: any) {
+      setError(err?.message ?? "Failed to save role.")
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-border p-3">
+      <div className="grid grid-cols-1 gap-2 sm:grid-cols-2">
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-muted-foreground">Name</label>
+          <Input
+            value={draft.name}
+            onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))}
+            placeholder="Technical writer"
+            disabled={isSaving}
+            autoFocus
+          />
+        </div>
+        <div className="space-y-1">
+          <label className="text-xs font-medium text-muted-foreground">Description</label>
+          <Input
+            value={draft.description}
+            onChange={(e) => setDraft((d) => ({ ...d, description: e.target.value }))}
+            placeholder="Optional"
+            disabled={isSaving}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-muted-foreground">Capabilities</p>
+        {PROJECT_CAPABILITIES.map((capability) => (
+          <label key={capability} className="flex items-start gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="mt-0.5"
+              checked={draft.capabilities.includes(capability)}
+              onChange={() => toggleCapability(capability)}
+              disabled={isSaving}
+            />
+            <span>
+              {PROJECT_CAPABILITY_LABELS[capability].label}
+              <span className="block text-xs text-muted-foreground">{PROJECT_CAPABILITY_LABELS[capability].description}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1.5">
+        <p className="text-xs font-medium text-muted-foreground">Section access</p>
+        <SectionAccessList
+          sections={sections}
+          value={draft.sectionAccess}
+          defaultLabel={draft.capabilities.includes("sections.edit") ? "Default (edit)" : "Default (read)"}
+          disabled={isSaving}
+          onChange={setSection}
+        />
+      </div>
+
+      {error && (
+        <p className="flex items-center gap-1.5 text-xs text-destructive">
+          <AlertCircle className="h-3.5 w-3.5 shrink-0" />
+          {error}
+        </p>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={isSaving || !draft.name.trim()}>
+          {isSaving && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+          Save role
+        </Button>
+      </div>
+    </form>
+  )
+}
+
 // ─────────────────────────────────────────────────────────────
 // Main component
 // ─────────────────────────────────────────────────────────────
 
-export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner }: SharePanelProps) {
+export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner, canManageShares }: SharePanelProps) {
+  const canManage = canManageShares ?? isOwner
   const [shares, setShares] = useState<ApiShare[]>([])
   const [isLoadingShares, setIsLoadingShares] = useState(false)
   const [loadError, setLoadError] = useState<string | null>(null)
 
+  // Custom roles and the sections they can be scoped to
+  const [view, setView] = useState<"people" | "roles">("people")
+  const [roles, setRoles] = useState<ApiProjectRole[]>([])
+  const [sections, setSections] = useState<TabDef[]>(NATIVE_TABS)
+  const [expandedShareId, setExpandedShareId] = useState<string | null>(null)
+  const [editingRoleId, setEditingRoleId] = useState<string | "new" | null>(null)
+
   // Subscription gates
   const { subscription } = useSubscriptionStore()
   const canShareEdit = hasFeature(subscription, "shareEdit")
+  const canCustomRoles = meetsMinPlan(subscription, "team")
   const maxShares: number | null = subscription?.features?.maxShares ?? null
   const [upgradeOpen, setUpgradeOpen] = useState(false)
   const [upgradeFeature, setUpgradeFeature] = useState<{ name: string; plan: string; description?: string }>({ name: "", plan: "pro" })
@@ -82,7 +269,7 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
 
   // ── Fetch access list ──────────────────────────────────────
   const loadShares = useCallback(async () => {
-    if (!isOwner) return
+    if (!canManage) return
     setIsLoadingShares(true)
     setLoadError(null)
     try {
@@ -93,16 +280,31 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
     } finally {
       setIsLoadingShares(false)
     }
-  }, [projectId, isOwner])
+  }, [projectId, canManage])
+
+  // Roles and custom tabs only shape the access controls, so failures leave the defaults
+  const loadRolesAndSections = useCallback(async () => {
+    if (!canManage) return
+    const [rolesRes, tabsRes] = await Promise.allSettled([
+      projectRolesApi.list(projectId),
+      customTabsApi.list(projectId),
+    ])
+    if (rolesRes.status === "fulfilled") setRoles(rolesRes.value.roles)
+    if (tabsRes.status === "fulfilled") setSections(buildTabList(tabsRes.value.tabs))
+  }, [projectId, canManage])
 
   useEffect(() => {
     if (open) {
       loadShares()
+      loadRolesAndSections()
       setInviteResult(null)
       setInviteEmail("")
       setInviteRole("viewer")
+      setView("people")
+      setExpandedShareId(null)
+      setEditingRoleId(null)
     }
-  }, [open, loadShares])
+  }, [open, loadShares, loadRolesAndSections])
 
   // ── Invite ─────────────────────────────────────────────────
   const handleInvite = async (e: React.FormEvent) => {
@@ -148,16 +350,26 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
   }
 
   // ── Role change ────────────────────────────────────────────
-  const handleRoleChange = async (shareId: string, newRole: "viewer" | "editor") => {
-    if (newRole === "editor" && !canShareEdit) {
+  // Select values are "viewer", "editor" or "role:<id>" for a custom role
+  const handleRoleChange = async (share: ApiShare, value: string) => {
+    const roleId = value.startsWith("role:") ? value.slice("role:".length) : null
+    if (value === "editor" && !canShareEdit) {
       setUpgradeFeature({ name: "Editor Access", plan: "pro", description: "Upgrade to Pro to grant editor access to collaborators." })
       setUpgradeOpen(true)
       return
     }
-    setRowAction({ id: shareId, action: "role" })
+    setRowAction({ id: share._id, action: "role" })
     try {
-      const data = await sharingApi.changeRole(projectId, shareId, newRole)
-      setShares((s) => s.map((sh) => (sh._id === shareId ? { ...sh, role: data.share.role } : sh)))
+      let updated = share
+      if (roleId || share.roleId) {
+        const data = await sharingApi.updateAccess(projectId, share._id, { roleId })
+        updated = { ...updated, roleId: data.share.roleId ?? null }
+      }
+      if (!roleId && value !== share.role) {
+        const data = await sharingApi.changeRole(projectId, share._id, value as "viewer" | "editor")
+        updated = { ...updated, role: data.share.role }
+      }
+      setShares((s) => s.map((sh) => (sh._id === share._id ? updated : sh)))
     } catch (err: any) {
       alert(err?.message ?? "Failed to change role.")
     } finally {
@@ -165,6 +377,61 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
     }
   }
 
+  // ── Section access ─────────────────────────────────────────
+  const handleSectionAccess = async (share: ApiShare, sectionKey: string, access: SectionAccess | "") => {
+    const sectionAccess = { ...share.sectionAccess }
+    if (access) sectionAccess[sectionKey] = access
+    else delete sectionAccess[sectionKey]
+    setRowAction({ id: share._id, action: "sections" })
+    try {
+      const data = await sharingApi.updateAccess(projectId, share._id, { sectionAccess })
+      setShares((s) => s.map((sh) => (sh._id === share._id ? { ...sh, sectionAccess: data.share.sectionAccess ?? sectionAccess } : sh)))
+    } catch (err: any) {
+      alert(err?.message ?? "Failed to update section access.")
+    } finally {
+      setRowAction(null)
+    }
+  }
+
+  // ── Custom roles ───────────────────────────────────────────
+  const handleSaveRole = async (data: ApiProjectRoleInput) => {
+    if (editingRoleId === "new") {
+      const res = await projectRolesApi.create(projectId, data)
+      setRoles((r) => [...r, res.role])
+    } else if (editingRoleId) {
+      const res = await projectRolesApi.update(projectId, editingRoleId, data)
+      setRoles((r) => r.map((role) => (role._id === editingRoleId ? res.role : role)))
+    }
+    setEditingRoleId(null)
+  }
+
+  const handleDeleteRole = async (role: ApiProjectRole) => {
+    const inUse = shares.filter((sh) => sh.roleId === role._id).length
+    const warning = inUse
+      ? ` ${inUse} ${inUse === 1 ? "person" : "people"} will fall back to their viewer/editor role.`
+      : ""
+    if (!confirm(`Delete the "${role.name}" role?${warning}`)) return
+    try {
+      await projectRolesApi.delete(projectId, role._id)
+      setRoles((r) => r.filter((x) => x._id !== role._id))
+      setShares((s) => s.map((sh) => (sh.roleId === role._id ? { ...sh, roleId: null } : sh)))
+    } catch (err: any) {
+      alert(err?.message ?? "Failed to delete role.")
+    }
+  }
+
+  const openRoles = () => {
+    if (!canCustomRoles) {
+      setUpgradeFeature({ name: "Custom Roles", plan: "team", description: "Upgrade to Team to define roles with their own capabilities and section access." })
+      setUpgradeOpen(true)
+      return
+    }
+    setView("roles")
+  }
+
+  const roleName = (share: ApiShare) =>
+    roles.find((r) => r._id === share.roleId)?.name ?? (share.role === "editor" ? "Editor" : "Viewer")
+
   // ── Revoke ─────────────────────────────────────────────────
   const handleRevoke = async (shareId: string, email: string) => {
     if (!confirm(`Remove ${email}'s access?`)) return
@@ -234,14 +501,84 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
             </Button>
           </div>
           <DialogDescription>
-            {isOwner
+            {canManage
               ? "Invite collaborators to view or edit this project's documentation."
               : "People who have access to this project."}
           </DialogDescription>
+          {canManage && (
+            <div className="flex gap-1 pt-2">
+              {(["people", "roles"] as const).map((key) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => (key === "roles" ? openRoles() : setView("people"))}
+                  className={cn(
+                    "px-3 py-1 rounded-lg text-xs font-medium transition-colors border",
+                    view === key
+                      ? "bg-primary text-primary-foreground border-primary"
+                      : "border-border text-muted-foreground hover:text-foreground bg-card"
+                  )}
+                >
+                  {key === "people" ? "People" : canCustomRoles ? "Roles" : "Roles 🔒"}
+                </button>
+              ))}
+            </div>
+          )}
         </DialogHeader>
 
-        {/* Invite form (owner only) */}
-        {isOwner && (
+        {view === "roles" && (
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-2">
+            {editingRoleId === "new" ? (
+              <RoleEditor initial={EMPTY_ROLE} sections={sections} onSave={handleSaveRole} onCancel={() => setEditingRoleId(null)} />
+            ) : (
+              <Button variant="outline" size="sm" className="gap-1.5" onClick={() => setEditingRoleId("new")} disabled={!!editingRoleId}>
+                <Plus className="h-3.5 w-3.5" />
+                New role
+              </Button>
+            )}
+            {roles.length === 0 && editingRoleId !== "new" && (
+              <p className="py-6 text-center text-sm text-muted-foreground">
+                No custom roles yet. Create one to grant specific capabilities or hide sections.
+              </p>
+            )}
+            {roles.map((role) =>
+              editingRoleId === role._id ? (
+                <RoleEditor
+                  key={role._id}
+                  initial={{ name: role.name, description: role.description, capabilities: role.capabilities, sectionAccess: role.sectionAccess }}
+                  sections={sections}
+                  onSave={handleSaveRole}
+                  onCancel={() => setEditingRoleId(null)}
+                />
+              ) : (
+                <div key={role._id} className="flex items-start justify-between gap-3 rounded-lg px-3 py-2.5 hover:bg-muted/50 transition-colors">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{role.name}</p>
+                    {role.description && <p className="text-xs text-muted-foreground truncate">{role.description}</p>}
+                    <p className="mt-0.5 text-xs text-muted-foreground">
+                      {role.capabilities.length
+                        ? role.capabilities.map((c) => PROJECT_CAPABILITY_LABELS[c].label).join(", ")
+                        : "Read only"}
+                      {Object.keys(role.sectionAccess).length > 0 &&
+                        ` · ${Object.keys(role.sectionAccess).length} section override${Object.keys(role.sectionAccess).length === 1 ? "" : "s"}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-foreground" title="Edit role" onClick={() => setEditingRoleId(role._id)} disabled={!!editingRoleId}>
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button variant="ghost" size="icon" className="h-8 w-8 text-muted-foreground hover:text-destructive" title="Delete role" onClick={() => handleDeleteRole(role)} disabled={!!editingRoleId}>
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                </div>
+              ),
+            )}
+          </div>
+        )}
+
+        {/* Invite form */}
+        {view === "people" && canManage && (
           <form
             onSubmit={handleInvite}
             className="flex gap-2 items-end shrink-0 border-b border-border pb-4"
@@ -292,7 +629,7 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
         )}
 
         {/* Invite result banner */}
-        {inviteResult && (
+        {view === "people" && inviteResult && (
           <div
             className={`shrink-0 flex items-center gap-2 rounded-md px-3 py-2 text-sm ${
               inviteResult.type === "success"
@@ -310,132 +647,173 @@ export function SharePanel({ open, onOpenChange, projectId, projectName, isOwner
         )}
 
         {/* Access list */}
-        <div className="flex-1 overflow-y-auto min-h-0 space-y-1">
-          {isLoadingShares ? (
-            <div className="flex items-center justify-center py-8">
-              <Loader1 className="h-5 w-5  text-muted-foreground" />
-            </div>
-          ) : loadError ? (
-            <div className="rounded-md bg-destructive/10 text-destructive text-sm p-3 flex items-center gap-2">
-              <AlertCircle className="h-4 w-4 shrink-0" />
-              {loadError}
-            </div>
-          ) : shares.length === 0 ? (
-            <div className="flex flex-col items-center justify-center py-10 text-center">
-              <UserPlus className="h-8 w-8 text-muted-foreground mb-2" />
-              <p className="text-sm text-muted-foreground">
-                {isOwner ? "No one has been invited yet." : "No collaborators."}
-              </p>
-            </div>
-          ) : (
-            <>
-              <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide pb-1 px-1">
-                {shares.length} {shares.length === 1 ? "person" : "people"} with access
-              </p>
-              {shares.map((share) => {
-                const displayName =
-                  share.inviteeUser?.name || share.inviteeUser?.email || share.inviteeEmail
-                const busy = isRowBusy(share._id)
-
-                return (
-                  <div
-                    key={share._id}
-                    className="flex items-center justify-between gap-3 rounded-lg px-3 py-2.5 hover:bg-muted/50 transition-colors"
-                  >
-                    {/* Avatar + info */}
-                    <div className="flex items-center gap-3 min-w-0">
-                      <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary text-sm font-semibold uppercase">
-                        {displayName[0]}
-                      </div>
-                      <div className="min-w-0">
-                        <p className="text-sm font-medium truncate">{displayName}</p>
-                        {share.inviteeUser?.name && (
-                          <p className="text-xs text-muted-foreground truncate">
-                            {share.inviteeEmail}
-                          </p>
-                        )}
-                        <div className="flex items-center gap-2 mt-0.5">
-                          <StatusBadge status={share.status} />
-                          {share.status === "pending" && (
-                            <span className="text-xs text-muted-foreground">
-                              · expires {formatDistanceToNow(new Date(share.expiresAt), { addSuffix: true })}
-                            </span>
-                          )}
+        {view === "people" && (
+          <div className="flex-1 overflow-y-auto min-h-0 space-y-1">
+            {isLoadingShares ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader1 className="h-5 w-5  text-muted-foreground" />
+              </div>
+            ) : loadError ? (
+              <div className="rounded-md bg-destructive/10 text-destructive text-sm p-3 flex items-center gap-2">
+                <AlertCircle className="h-4 w-4 shrink-0" />
+                {loadError}
+              </div>
+            ) : shares.length === 0 ? (
+              <div className="flex flex-col items-center justify-center py-10 text-center">
+                <UserPlus className="h-8 w-8 text-muted-foreground mb-2" />
+                <p className="text-sm text-muted-foreground">
+                  {canManage ? "No one has been invited yet." : "No collaborators."}
+                </p>
+              </div>
+            ) : (
+              <>
+                <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide pb-1 px-1">
+                  {shares.length} {shares.length === 1 ? "person" : "people"} with access
+                </p>
+                {shares.map((share) => {
+                  const displayName =
+                    share.inviteeUser?.name || share.inviteeUser?.email || share.inviteeEmail
+                  const busy = isRowBusy(share._id)
+
+                  return (
+                    <div key={share._id} className="rounded-lg hover:bg-muted/50 transition-colors">
+                      <div className="flex items-center justify-between gap-3 px-3 py-2.5">
+                        {/* Avatar + info */}
+                        <div className="flex items-center gap-3 min-w-0">
+                          <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary text-sm font-semibold uppercase">
+                            {displayName[0]}
+                          </div>
+                          <div className="min-w-0">
+                            <p className="text-sm font-medium truncate">{displayName}</p>
+                            {share.inviteeUser?.name && (
+                              <p className="text-xs text-muted-foreground truncate">
+                                {share.inviteeEmail}
+                              </p>
+                            )}
+                            <div className="flex items-center gap-2 mt-0.5">
+                              <StatusBadge status={share.status} />
+                              {share.status === "pending" && (
+                                <span className="text-xs text-muted-foreground">
+                                  · expires {formatDistanceToNow(new Date(share.expiresAt), { addSuffix: true })}
+                                </span>
+                              )}
+                            </div>
+                          </div>
                         </div>
-                      </div>
-                    </div>
 
-                    {/* Actions */}
-                    <div className="flex items-center gap-2 shrink-0">
-                      {isOwner ? (
-                        <>
-                          {/* Role selector */}
-                          <Select
-                            value={share.role}
-                            onChange={(e) =>
-                              handleRoleChange(share._id, e.target.value as "viewer" | "editor")
-                            }
-                            className="h-8 w-[100px] text-xs"
-                            disabled={busy}
-                          >
-                            <option value="viewer">Viewer</option>
-                            <option value="editor">Editor</option>
-                          </Select>
-
-                          {/* Pending-only: resend + cancel */}
-                          {share.status === "pending" && (
-                            <Button
-                              variant="ghost"
-                              size="icon"
-                              className="h-8 w-8 text-muted-foreground hover:text-foreground"
-                              title="Resend invite"
-                              disabled={busy}
-                              onClick={() => handleResend(share._id)}
-                            >
-                              {busy && rowAction?.action === "resend" ? (
-                                <Loader1 className="h-3.5 w-3.5 " />
-                              ) : (
-                                <RotateCcw className="h-3.5 w-3.5" />
+                        {/* Actions */}
+                        <div className="flex items-center gap-2 shrink-0">
+                          {canManage ? (
+                            <>
+                              {/* Role selector */}
+                              <Select
+                                value={share.roleId ? `role:${share.roleId}` : share.role}
+                                onChange={(e) => handleRoleChange(share, e.target.value)}
+                                className="h-8 w-[120px] text-xs"
+                                disabled={busy}
+                              >
+                                <option value="viewer">Viewer</option>
+                                <option value="editor">Editor</option>
+                                {canCustomRoles && roles.length > 0 && (
+                                  <optgroup label="Custom roles">
+                                    {roles.map((role) => (
+                                      <option key={role._id} value={`role:${role._id}`}>{role.name}</option>
+                                    ))}
+                                  </optgroup>
+                                )}
+                              </Select>
+
+                              {/* Section access */}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className={cn(
+                                  "h-8 w-8 text-muted-foreground hover:text-foreground",
+                                  (expandedShareId === share._id || Object.keys(share.sectionAccess ?? {}).length > 0) && "text-primary",
+                                )}
+                                title="Section access"
+                                onClick={() => setExpandedShareId((id) => (id === share._id ? null : share._id))}
+                              >
+                                {busy && rowAction?.action === "sections" ? (
+                                  <Loader1 className="h-3.5 w-3.5 " />
+                                ) : (
+                                  <Layers className="h-3.5 w-3.5" />
+                                )}
+                              </Button>
+
+                              {/* Pending-only: resend + cancel */}
+                              {share.status === "pending" && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-8 w-8 text-muted-foreground hover:text-foreground"
+                                  title="Resend invite"
+                                  disabled={busy}
+                                  onClick={() => handleResend(share._id)}
+                                >
+                                  {busy && rowAction?.action === "resend" ? (
+                                    <Loader1 className="h-3.5 w-3.5 " />
+                                  ) : (
+                                    <RotateCcw className="h-3.5 w-3.5" />
+                                  )}
+                                </Button>
                               )}
-                            </Button>
+
+                              {/* Revoke / cancel */}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                title={share.status === "pending" ? "Cancel invite" : "Revoke access"}
+                                disabled={busy}
+                                onClick={() =>
+                                  share.status === "pending"
+                                    ? handleCancel(share._id, share.inviteeEmail)
+                                    : handleRevoke(share._id, share.inviteeEmail)
+                                }
+                              >
+                                {busy && (rowAction?.action === "revoke" || rowAction?.action === "cancel") ? (
+                                  <Loader1 className="h-3.5 w-3.5 " />
+                                ) : (
+                                  <Ban className="h-3.5 w-3.5" />
+                                )}
+                              </Button>
+                            </>
+                          ) : (
+                            <RoleBadge role={share.role} />
                           )}
+                        </div>
+                      </div>
 
-                          {/* Revoke / cancel */}
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-8 w-8 text-muted-foreground hover:text-destructive"
-                            title={share.status === "pending" ? "Cancel invite" : "Revoke access"}
+                      {/* Section overrides on top of the role */}
+                      {expandedShareId === share._id && (
+                        <div className="space-y-2 px-3 pb-3 pl-14">
+                          <p className="text-xs text-muted-foreground">
+                            Override what {displayName} can do in each section. Hidden sections are removed from their view.
+                          </p>
+                          <SectionAccessList
+                            sections={sections}
+                            value={share.sectionAccess ?? {}}
+                            defaultLabel={`${roleName(share)} default`}
                             disabled={busy}
-                            onClick={() =>
-                              share.status === "pending"
-                                ? handleCancel(share._id, share.inviteeEmail)
-                                : handleRevoke(share._id, share.inviteeEmail)
-                            }
-                          >
-                            {busy && (rowAction?.action === "revoke" || rowAction?.action === "cancel") ? (
-                              <Loader1 className="h-3.5 w-3.5 " />
-                            ) : (
-                              <Ban className="h-3.5 w-3.5" />
-                            )}
-                          </Button>
-                        </>
-                      ) : (
-                        <RoleBadge role={share.role} />
+                            onChange={(sectionKey, access) => handleSectionAccess(share, sectionKey, access)}
+                          />
+                        </div>
                       )}
                     </div>
-                  </div>
-                )
-              })}
-            </>
-          )}
-        </div>
+                  )
+                })}
+              </>
+            )}
+          </div>
+        )}
 
         {/* Footer note */}
         <div className="shrink-0 border-t border-border pt-3 text-xs text-muted-foreground">
           <p>
             <strong>Viewer</strong> — can read documentation and attachments.{" "}
             <strong>Editor</strong> — can also edit docs and upload files.{" "}
+            Custom roles and section overrides narrow or widen this per person.{" "}
             {!canShareEdit && <span className="text-primary font-medium cursor-pointer" onClick={() => { setUpgradeFeature({ name: "Editor Access", plan: "pro", description: "Upgrade to Pro to invite collaborators with editor access." }); setUpgradeOpen(true) }}>Upgrade to Pro for editor access.</span>}
           </p>
           {maxShares !== null && (
@@ -0,0 +1,213 @@
+import { useMemo, useRef, useState } from "react"
+import { AlertCircle, AlertTriangle, CheckCircle2, RefreshCw, Save, Wand2 } from "lucide-react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { apiSpecApi, type ApiSpec } from "@/lib/api"
+import { generateOpenApi, validateOpenApi } from "@/lib/spec-generate"
+import { SpecTextError, lineOf, parseSpecText, stringifySpec, type SpecFormat } from "@/lib/spec-text"
+import Loader1 from "../ui/loader1"
+
+interface Props {
+    projectId: string
+    /** The API Reference markdown the draft is generated from */
+    markdown: string
+    title: string
+    description?: string
+    /** Endpoint count reported by the documentation run */
+    detectedEndpoints: number
+    onClose: () => void
+    onSaved: (spec: ApiSpec) => void
+}
+
+interface Issue {
+    severity: "error" | "warning"
+    line: number
+    message: string
+}
+
+const LINE_HEIGHT = 20
+
+/** Draft an OpenAPI 3.1 spec from the API Reference, edit it, and save it as the project's spec. */
+export function SpecGeneratorModal({ projectId, markdown, title, description, detectedEndpoints, onClose, onSaved }: Props) {
+    const [format, setFormat] = useState<SpecFormat>("yaml")
+    const [generated, setGenerated] = useState(() => generateOpenApi(markdown, { title, description }))
+    const [text, setText] = useState(() => stringifySpec(generated.document, "yaml"))
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+    const textareaRef = useRef<HTMLTextAreaElement>(null)
+    const gutterRef = useRef<HTMLDivElement>(null)
+
+    const issues = useMemo<Issue[]>(() => {
+        try {
+            const { value, lines } = parseSpecText(text, format)
+            return validateOpenApi(value)
+                .map((p) => ({ severity: p.severity, line: lineOf(lines, p.pointer), message: p.message }))
+                .sort((a, b) => a.line - b.line)
+        } catch (err) {
+            if (err instanceof SpecTextError) return [{ severity: "error", line: err.line, message: err.message }]
+            throw err
+        }
+    }, [text, format])
+
+    const errorCount = issues.filter((i) => i.severity === "error").length
+    const issueLines = useMemo(() => {
+        const map = new Map<number, Issue["severity"]>()
+        for (const issue of issues) if (map.get(issue.line) !== "error") map.set(issue.line, issue.severity)
+        return map
+    }, [issues])
+    const lineCount = text.split("\n").length
+
+    const regenerate = () => {
+        const next = generateOpenApi(markdown, { title, description })
+        setGenerated(next)
+        setText(stringifySpec(next.document, format))
+        setError(null)
+    }
+
+    const switchFormat = (next: SpecFormat) => {
+        if (next === format) return
+        try {
+            setText(stringifySpec(parseSpecText(text, format).value, next))
+            setFormat(next)
+            setError(null)
+        } catch {
+            setError(`Fix the ${format.toUpperCase()} syntax errors before switching to ${next.toUpperCase()}.`)
+        }
+    }
+
+    const goToLine = (line: number) => {
+        const el = textareaRef.current
+        if (!el) return
+        const lines = text.split("\n")
+        const start = lines.slice(0, line - 1).reduce((n, l) => n + l.length + 1, 0)
+        el.focus()
+        el.setSelectionRange(start, start + (lines[line - 1]?.length ?? 0))
+        el.scrollTop = Math.max(0, (line - 4) * LINE_HEIGHT)
+    }
+
+    const handleSave = async () => {
+        setSaving(true)
+        setError(null)
+        try {
+            const data = await apiSpecApi.importRaw(projectId, text)
+            onSaved(data.spec)
+            onClose()
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Failed to save the spec.")
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open onOpenChange={(v) => !v && !saving && onClose()}>
+            <DialogContent className="max-w-4xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2 text-base">
+                        <Wand2 className="h-4 w-4" />
+                        Generate OpenAPI spec
+                    </DialogTitle>
+                </DialogHeader>
+
+                <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>
+                        Drafted <strong className="text-foreground">{generated.endpointCount}</strong> of {detectedEndpoints} detected endpoint{detectedEndpoints === 1 ? "" : "s"} from the API Reference.
+                        Review it before saving — descriptions and schemas are best guesses.
+                    </span>
+                    <div className="ml-auto flex items-center gap-2">
+                        <div className="flex gap-1 rounded-lg bg-muted p-1">
+                            {(["yaml", "json"] as const).map((f) => (
+                                <button
+                                    key={f}
+                                    onClick={() => switchFormat(f)}
+                                    className={cn(
+                                        "rounded-md px-2 py-0.5 text-xs font-medium transition-colors",
+                                        format === f ? "bg-background shadow-sm text-foreground" : "text-muted-foreground hover:text-foreground",
+                                    )}
+                                >
+                                    {f.toUpperCase()}
+                                </button>
+                            ))}
+                        </div>
+                        <Button variant="outline" size="sm" onClick={regenerate} disabled={saving}>
+                            <RefreshCw className="mr-1.5 h-3.5 w-3.5" />
+                            Regenerate
+                        </Button>
+                    </div>
+                </div>
+
+                {/* Editor */}
+                <div className="flex h-[50vh] overflow-hidden rounded-md border border-input bg-background font-mono text-xs">
+                    <div ref={gutterRef} className="select-none overflow-hidden border-r border-border bg-muted/40 py-2 text-right text-muted-foreground/60">
+                        {Array.from({ length: lineCount }, (_, i) => {
+                            const severity = issueLines.get(i + 1)
+                            return (
+                                <div
+                                    key={i}
+                                    style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}
+                                    className={cn(
+                                        "px-2",
+                                        severity === "error" && "bg-destructive/15 text-destructive",
+                                        severity === "warning" && "bg-amber-500/15 text-amber-600",
+                                    )}
+                                >
+                                    {i + 1}
+                                </div>
+                            )
+                        })}
+                    </div>
+                    <textarea
+                        ref={textareaRef}
+                        value={text}
+                        onChange={(e) => setText(e.target.value)}
+                        onScroll={(e) => { if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop }}
+                        spellCheck={false}
+                        wrap="off"
+                        style={{ lineHeight: `${LINE_HEIGHT}px` }}
+                        className="flex-1 resize-none bg-transparent px-3 py-2 focus:outline-none"
+                    />
+                </div>
+
+                {/* Issues */}
+                <div className="max-h-32 overflow-y-auto rounded-md border border-border text-xs">
+                    {issues.length === 0 ? (
+                        <div className="flex items-center gap-2 px-3 py-2 text-green-600">
+                            <CheckCircle2 className="h-3.5 w-3.5" />
+                            Valid OpenAPI document
+                        </div>
+                    ) : issues.map((issue, i) => (
+                        <button
+                            key={i}
+                            onClick={() => goToLine(issue.line)}
+                            className="flex w-full items-start gap-2 border-b border-border px-3 py-1.5 text-left last:border-b-0 hover:bg-muted/50"
+                        >
+                            {issue.severity === "error"
+                                ? <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-destructive" />
+                                : <AlertTriangle className="mt-0.5 h-3.5 w-3.5 shrink-0 text-amber-500" />}
+                            <span className="shrink-0 font-mono text-muted-foreground">Line {issue.line}</span>
+                            <span>{issue.message}</span>
+                        </button>
+                    ))}
+                </div>
+
+                {error && (
+                    <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                        <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                <DialogFooter>
+                    <Button variant="ghost" size="sm" onClick={onClose} disabled={saving}>
+                        Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleSave} disabled={saving || errorCount > 0} title={errorCount ? "Fix the errors first" : undefined}>
+                        {saving ? <Loader1 className="mr-1.5 h-3.5 w-3.5" /> : <Save className="mr-1.5 h-3.5 w-3.5" />}
+                        {saving ? "Saving…" : "Save as spec"}
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -1,6 +1,10 @@
+import { useMemo, useState } from "react"
 import { Button } from "@/components/ui/button"
 import { DocRenderer } from "@/components/projects/DocRenderer"
+import { DiffViewer } from "@/components/projects/diff-viewer"
 import Loader1 from "@/components/ui/loader1"
+import { computeLineDiff, applyChanges } from "@/lib/diff"
+import { cn } from "@/lib/utils"
 
 export interface StaleDiffModalProps {
     sectionLabel: string
@@ -9,8 +13,13 @@ export interface StaleDiffModalProps {
     onClose: () => void
     onAcceptAI: () => void
     accepting: boolean
+    /** Save the user's edit with the selected AI changes applied */
+    onApplyMerged: (merged: string) => void
+    applying: boolean
 }
 
+type ViewMode = "diff" | "rendered"
+
 export function StaleDiffModal({
     sectionLabel,
     userContent,
@@ -18,16 +27,72 @@ export function StaleDiffModal({
     onClose,
     onAcceptAI,
     accepting,
+    onApplyMerged,
+    applying,
 }: StaleDiffModalProps) {
+    const [view, setView] = useState<ViewMode>("diff")
+    const [selected, setSelected] = useState<Set<number>>(new Set())
+
+    const diff = useMemo(() => computeLineDiff(userContent, aiContent), [userContent, aiContent])
+
+    const toggleChange = (id: number) => {
+        setSelected((prev) => {
+            const next = new Set(prev)
+            if (next.has(id)) next.delete(id)
+            else next.add(id)
+            return next
+        })
+    }
+
+    const allSelected = diff.changes.length > 0 && selected.size === diff.changes.length
+
     return (
         <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col">
             <div className="flex items-center justify-between px-6 py-3 border-b border-border bg-card shrink-0">
                 <div>
                     <h2 className="font-semibold text-sm">Compare versions — {sectionLabel}</h2>
-                    <p className="text-xs text-muted-foreground">Left: your edit · Right: new AI version</p>
+                    <p className="text-xs text-muted-foreground">
+                        Left: your edit · Right: new AI version
+                        {view === "diff" && diff.changes.length > 0 && " · Tick the AI changes you want to keep"}
+                    </p>
                 </div>
                 <div className="flex items-center gap-2">
-                    <Button size="sm" disabled={accepting} onClick={onAcceptAI}>
+                    <div className="flex rounded-md border border-border overflow-hidden mr-2">
+                        {(["diff", "rendered"] as const).map((v) => (
+                            <button
+                                key={v}
+                                type="button"
+                                onClick={() => setView(v)}
+                                className={cn(
+                                    "px-2.5 py-1 text-xs capitalize transition-colors",
+                                    view === v ? "bg-primary text-primary-foreground" : "hover:bg-muted text-muted-foreground",
+                                )}
+                            >
+                                {v}
+                            </button>
+                        ))}
+                    </div>
+                    {view === "diff" && diff.changes.length > 0 && (
+                        <>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setSelected(allSelected ? new Set() : new Set(diff.changes.map((c) => c.id)))}
+                            >
+                                {allSelected ? "Clear selection" : "Select all"}
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={selected.size === 0 || applying || accepting}
+                                onClick={() => onApplyMerged(applyChanges(userContent, diff.changes, selected))}
+                            >
+                                {applying && <Loader1 className="mr-1.5 h-3 w-3 " />}
+                                Apply selected ({selected.size})
+                            </Button>
+                        </>
+                    )}
+                    <Button size="sm" disabled={accepting || applying} onClick={onAcceptAI}>
                         {accepting && <Loader1 className="mr-1.5 h-3 w-3 " />}
                         Accept AI version
                     </Button>
@@ -36,20 +101,34 @@ export function StaleDiffModal({
                     </Button>
                 </div>
             </div>
-            <div className="flex flex-1 overflow-hidden">
-                <div className="flex-1 overflow-y-auto border-r border-border p-6">
-                    <div className="mb-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Your Edit</div>
-                    <div className="prose prose-slate dark:prose-invert max-w-none">
-                        <DocRenderer content={userContent} />
+            {view === "diff" ? (
+                <DiffViewer
+                    className="flex-1 bg-card"
+                    oldText={userContent}
+                    newText={aiContent}
+                    oldLabel="Your Edit"
+                    newLabel="New AI Version"
+                    diff={diff}
+                    selectable
+                    selected={selected}
+                    onToggleChange={toggleChange}
+                />
+            ) : (
+                <div className="flex flex-1 overflow-hidden">
+                    <div className="flex-1 overflow-y-auto border-r border-border p-6">
+                        <div className="mb-3 text-xs font-semibold text-muted-foreground uppercase tracking-wider">Your Edit</div>
+                        <div className="prose prose-slate dark:prose-invert max-w-none">
+                            <DocRenderer content={userContent} />
+                        </div>
                     </div>
-                </div>
-                <div className="flex-1 overflow-y-auto p-6 bg-primary/2">
-                    <div className="mb-3 text-xs font-semibold text-primary uppercase tracking-wider">New AI Version</div>
-                    <div className="prose prose-slate dark:prose-invert max-w-none">
-                        <DocRenderer content={aiContent} />
+                    <div className="flex-1 overflow-y-auto p-6 bg-primary/2">
+                        <div className="mb-3 text-xs font-semibold text-primary uppercase tracking-wider">New AI Version</div>
+                        <div className="prose prose-slate dark:prose-invert max-w-none">
+                            <DocRenderer content={aiContent} />
+                        </div>
                     </div>
                 </div>
-            </div>
+            )}
         </div>
     )
 }
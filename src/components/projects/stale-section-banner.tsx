@@ -1,10 +1,12 @@
-import { AlertTriangle, Eye } from "lucide-react"
+import { AlertTriangle, Eye, GitMerge } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Loader1 from "@/components/ui/loader1"
 
 export interface StaleSectionBannerProps {
     changeSummary: string | null
     onViewDiff: () => void
+    /** Three-way merge of the user's edit with the AI update (native sections only) */
+    onMerge?: () => void
     onAcceptAI: () => void
     onDismiss: () => void
     accepting: boolean
@@ -13,6 +15,7 @@ export interface StaleSectionBannerProps {
 export function StaleSectionBanner({
     changeSummary,
     onViewDiff,
+    onMerge,
     onAcceptAI,
     onDismiss,
     accepting,
@@ -39,6 +42,16 @@ export function StaleSectionBanner({
                 >
                     <Eye className="mr-1.5 h-3 w-3" /> View AI version
                 </Button>
+                {onMerge && (
+                    <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-7 text-xs border-primary/30 hover:bg-primary/10"
+                        onClick={onMerge}
+                    >
+                        <GitMerge className="mr-1.5 h-3 w-3" /> Merge changes
+                    </Button>
+                )}
                 <Button size="sm" className="h-7 text-xs" disabled={accepting} onClick={onAcceptAI}>
                     {accepting && <Loader1 className="mr-1.5 h-3 w-3 " />}
                     Accept AI version
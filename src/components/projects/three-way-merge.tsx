@@ -0,0 +1,345 @@
+/**
+ * three-way-merge.tsx — Merge a user's edit with a newer AI regeneration.
+ *
+ * The base is the AI version the user started editing from (found in the
+ * section's version history), unless the caller already knows it — the save
+ * conflict dialog passes the content the editor started from and merges
+ * against another editor's save instead. Regions only one side changed are applied
+ * automatically; regions both changed are shown as conflicts with
+ * "keep mine / take AI / edit" controls. Saving writes the merged text as the
+ * user's edit.
+ */
+import { useEffect, useMemo, useState } from "react"
+import { AlertTriangle, Check, GitMerge, Pencil, Sparkles, User, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import Loader1 from "@/components/ui/loader1"
+import { versionsApi, type DocVersion } from "@/lib/api"
+import {
+  merge3,
+  resolveMerge,
+  type ConflictResolution,
+  type MergeConflictChunk,
+  type MergeStableChunk,
+} from "@/lib/diff"
+import { cn } from "@/lib/utils"
+
+/**
+ * The AI version the user's edit descends from. Versions are newest first:
+ * skip the latest AI run(s), then the user's edits — the next AI version
+ * before those edits is the base.
+ */
+function findMergeBase(versions: DocVersion[]): DocVersion | null {
+  const isAi = (v: DocVersion) => v.source === "ai_full" || v.source === "ai_incremental"
+  const firstUser = versions.findIndex((v) => v.source === "user")
+  if (firstUser < 0) return null
+  return versions.slice(firstUser + 1).find(isAi) ?? null
+}
+
+const ORIGIN_STYLE: Record<MergeStableChunk["origin"], { className: string; label: string | null }> = {
+  base: { className: "text-muted-foreground", label: null },
+  mine: { className: "bg-emerald-500/10 border-l-2 border-emerald-500/60", label: "Your edit" },
+  theirs: { className: "bg-blue-500/10 border-l-2 border-blue-500/60", label: "update" }, // prefixed with theirsLabel
+  both: { className: "bg-muted/50 border-l-2 border-border", label: "Both" },
+}
+
+// ── Conflict card ─────────────────────────────────────────────────────────────
+function ConflictCard({
+  chunk,
+  resolution,
+  theirsLabel,
+  onResolve,
+}: {
+  chunk: MergeConflictChunk
+  resolution: ConflictResolution | undefined
+  theirsLabel: string
+  onResolve: (r: ConflictResolution | undefined) => void
+}) {
+  const [editing, setEditing] = useState(false)
+  const [draft, setDraft] = useState(() => chunk.mine.join("\n"))
+
+  const choose = (r: ConflictResolution) => {
+    setEditing(false)
+    onResolve(r)
+  }
+
+  return (
+    <div
+      className={cn(
+        "my-3 rounded-lg border font-sans",
+        resolution ? "border-border" : "border-amber-500/50 bg-amber-500/5",
+      )}
+    >
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b border-border">
+        <div className="flex items-center gap-1.5 text-xs font-medium">
+          {resolution ? (
+            <>
+              <Check className="h-3.5 w-3.5 text-emerald-600" />
+              {resolution.choice === "mine" ? "Kept your edit" : resolution.choice === "theirs" ? `Took ${theirsLabel} version` : "Edited"}
+            </>
+          ) : (
+            <>
+              <AlertTriangle className="h-3.5 w-3.5 text-amber-600" /> Conflict #{chunk.id + 1}
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            size="sm"
+            variant={resolution?.choice === "mine" ? "default" : "outline"}
+            className="h-6 text-xs px-2"
+            onClick={() => choose({ choice: "mine" })}
+          >
+            <User className="mr-1 h-3 w-3" /> Keep mine
+          </Button>
+          <Button
+            size="sm"
+            variant={resolution?.choice === "theirs" ? "default" : "outline"}
+            className="h-6 text-xs px-2"
+            onClick={() => choose({ choice: "theirs" })}
+          >
+            <Sparkles className="mr-1 h-3 w-3" /> Take {theirsLabel}
+          </Button>
+          <Button
+            size="sm"
+            variant={resolution?.choice === "custom" || editing ? "default" : "outline"}
+            className="h-6 text-xs px-2"
+            onClick={() => setEditing(true)}
+          >
+            <Pencil className="mr-1 h-3 w-3" /> Edit
+          </Button>
+          {resolution && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              title="Undo resolution"
+              onClick={() => onResolve(undefined)}
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="p-3 space-y-2">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(16, Math.max(4, draft.split("\n").length + 1))}
+            className="w-full rounded-md border border-border bg-background p-2 font-mono text-xs resize-y focus:outline-none focus:ring-1 focus:ring-primary"
+          />
+          <div className="flex items-center gap-2">
+            <Button size="sm" className="h-6 text-xs px-2.5" onClick={() => choose({ choice: "custom", text: draft })}>
+              Use this text
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 text-xs px-2" onClick={() => setDraft(chunk.theirs.join("\n"))}>
+              Start from {theirsLabel}
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 text-xs px-2" onClick={() => setEditing(false)}>
+              Cancel
+            </Button>
+          </div>
+        </div>
+      ) : resolution?.choice === "custom" ? (
+        <pre className="p-3 font-mono text-xs whitespace-pre-wrap break-words">{resolution.text}</pre>
+      ) : (
+        <div className="grid grid-cols-2 divide-x divide-border">
+          {([
+            ["mine", "Your edit", chunk.mine],
+            ["theirs", `${theirsLabel} version`, chunk.theirs],
+          ] as const).map(([side, label, lines]) => (
+            <div
+              key={side}
+              className={cn(
+                "min-w-0",
+                resolution && resolution.choice !== side && "opacity-40",
+              )}
+            >
+              <div className="px-3 pt-2 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">
+                {label}
+              </div>
+              <pre className="px-3 pb-3 pt-1 font-mono text-xs whitespace-pre-wrap break-words">
+                {lines.join("\n") || <span className="italic text-muted-foreground">(removed)</span>}
+              </pre>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ── Main view ─────────────────────────────────────────────────────────────────
+interface ThreeWayMergeProps {
+  projectId: string
+  section: string // version-history section name, e.g. "readme"
+  sectionLabel: string
+  mine: string
+  theirs: string
+  saving: boolean
+  onSave: (merged: string) => void
+  onCancel: () => void
+  /** Common ancestor; looked up in version history when omitted */
+  base?: string
+  /** Who "theirs" is, in labels like "Take AI" */
+  theirsLabel?: string
+}
+
+export function ThreeWayMerge({
+  projectId,
+  section,
+  sectionLabel,
+  mine,
+  theirs,
+  saving,
+  onSave,
+  onCancel,
+  base: knownBase,
+  theirsLabel = "AI",
+}: ThreeWayMergeProps) {
+  const [base, setBase] = useState<string | null>(knownBase ?? null)
+  const [loading, setLoading] = useState(knownBase === undefined)
+  const [error, setError] = useState<string | null>(null)
+  const [resolutions, setResolutions] = useState<Record<number, ConflictResolution>>({})
+
+  // Load the common ancestor from version history
+  useEffect(() => {
+    if (knownBase !== undefined) {
+      setBase(knownBase)
+      setResolutions({})
+      return
+    }
+    let cancelled = false
+    setLoading(true)
+    setError(null)
+    setResolutions({})
+    versionsApi
+      .list(projectId, section)
+      .then(async (r) => {
+        const baseVersion = findMergeBase(r.versions)
+        if (!baseVersion) throw new Error("No AI version found before your edit — use Compare instead.")
+        const full = await versionsApi.get(projectId, section, baseVersion._id)
+        if (!cancelled) setBase(full.version.content)
+      })
+      .catch((err: any) => {
+        if (!cancelled) setError(err?.message ?? "Failed to load the base version.")
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+    return () => { cancelled = true }
+  }, [projectId, section, knownBase])
+
+  const result = useMemo(() => (base === null ? null : merge3(base, mine, theirs)), [base, mine, theirs])
+  const unresolved = result ? result.conflicts - Object.keys(resolutions).length : 0
+
+  const resolveAll = (choice: "mine" | "theirs") => {
+    if (!result) return
+    const next: Record<number, ConflictResolution> = {}
+    for (let i = 0; i < result.conflicts; i++) next[i] = { choice }
+    setResolutions(next)
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      {/* Header */}
+      <div className="flex items-center justify-between gap-3 px-6 py-3 border-b border-border bg-card shrink-0">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2">
+            <GitMerge className="h-4 w-4 text-primary" />
+            <h2 className="font-semibold text-sm">Merge {theirsLabel} update — {sectionLabel}</h2>
+          </div>
+          {result && (
+            <p className="text-xs text-muted-foreground mt-0.5">
+              {result.autoMerged.theirs} {theirsLabel} change{result.autoMerged.theirs !== 1 ? "s" : ""} applied automatically ·{" "}
+              {result.autoMerged.mine} of your change{result.autoMerged.mine !== 1 ? "s" : ""} kept ·{" "}
+              {result.conflicts === 0
+                ? "no conflicts"
+                : `${unresolved} of ${result.conflicts} conflict${result.conflicts !== 1 ? "s" : ""} unresolved`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {result && result.conflicts > 0 && (
+            <>
+              <Button size="sm" variant="ghost" className="text-xs" onClick={() => resolveAll("mine")}>
+                Keep all mine
+              </Button>
+              <Button size="sm" variant="ghost" className="text-xs" onClick={() => resolveAll("theirs")}>
+                Take all {theirsLabel}
+              </Button>
+            </>
+          )}
+          <Button
+            size="sm"
+            disabled={!result || unresolved > 0 || saving}
+            onClick={() => result && onSave(resolveMerge(result, resolutions))}
+          >
+            {saving && <Loader1 className="mr-1.5 h-3 w-3 " />}
+            Save merge
+          </Button>
+          <Button size="sm" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+        </div>
+      </div>
+
+      {/* Body */}
+      <div className="flex-1 overflow-y-auto px-6 py-4">
+        {loading && (
+          <div className="space-y-2">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-5 w-full" />
+            ))}
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="flex flex-col items-center justify-center py-14 text-center">
+            <AlertTriangle className="h-8 w-8 text-destructive mb-2 opacity-70" />
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        )}
+
+        {!loading && result && (
+          <div className="font-mono text-xs leading-[1.6]">
+            {result.chunks.map((chunk, i) => {
+              if (chunk.type === "conflict") {
+                return (
+                  <ConflictCard
+                    key={`c${chunk.id}`}
+                    chunk={chunk}
+                    resolution={resolutions[chunk.id]}
+                    theirsLabel={theirsLabel}
+                    onResolve={(r) =>
+                      setResolutions((prev) => {
+                        const next = { ...prev }
+                        if (r) next[chunk.id] = r
+                        else delete next[chunk.id]
+                        return next
+                      })
+                    }
+                  />
+                )
+              }
+              const style = ORIGIN_STYLE[chunk.origin]
+              const label = chunk.origin === "theirs" ? `${theirsLabel} ${style.label}` : style.label
+              return (
+                <div key={i} className={cn("relative px-3", style.className)} title={label ?? undefined}>
+                  {label && (
+                    <span className="absolute right-2 top-0.5 font-sans text-[10px] text-muted-foreground">
+                      {label}
+                    </span>
+                  )}
+                  <pre className="whitespace-pre-wrap break-words">{chunk.lines.join("\n")}</pre>
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,101 @@
+import { useState } from "react"
+import { Building2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+import Loader1 from "@/components/ui/loader1"
+import { organizationsApi, ORG_ROLE_LABELS, type ApiProject } from "@/lib/api"
+import { useWorkspaceStore, canAdministerOrg } from "@/store/workspace"
+
+export interface TransferProjectModalProps {
+    projectId: string
+    projectName: string
+    onClose: () => void
+    onTransferred: (project: ApiProject) => void
+}
+
+export function TransferProjectModal({ projectId, projectName, onClose, onTransferred }: TransferProjectModalProps) {
+    // Only organizations the user can administer accept projects
+    const organizations = useWorkspaceStore((s) => s.organizations).filter(canAdministerOrg)
+    const [orgId, setOrgId] = useState<string>(organizations[0]?._id ?? "")
+    const [isTransferring, setIsTransferring] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const selected = organizations.find((o) => o._id === orgId)
+
+    const handleTransfer = async () => {
+        if (!selected) return
+        setIsTransferring(true)
+        setError(null)
+        try {
+            const { project } = await organizationsApi.transferProject(projectId, selected._id)
+            onTransferred(project)
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to transfer project.")
+            setIsTransferring(false)
+        }
+    }
+
+    return (
+        <Dialog open onOpenChange={(o) => !o && !isTransferring && onClose()}>
+            <DialogContent className="max-w-md">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2">
+                        <Building2 className="h-4 w-4 shrink-0" />
+                        Move "{projectName}" to an organization
+                    </DialogTitle>
+                    <DialogDescription>
+                        The organization becomes the owner, so the project stays put when people leave. Existing shares
+                        are kept, its members get the organization's default access, and usage counts toward its plan.
+                        You can't move it back yourself.
+                    </DialogDescription>
+                </DialogHeader>
+
+                {organizations.length === 0 ? (
+                    <p className="py-2 text-sm text-muted-foreground">
+                        You need to be an owner or admin of an organization to move projects into it.
+                    </p>
+                ) : (
+                    <div className="space-y-1 py-2">
+                        {organizations.map((org) => (
+                            <label
+                                key={org._id}
+                                className={cn(
+                                    "flex items-center gap-2.5 rounded-md border px-3 py-2 text-sm cursor-pointer transition-colors",
+                                    orgId === org._id ? "border-primary bg-primary/5" : "border-border hover:bg-muted",
+                                )}
+                            >
+                                <input
+                                    type="radio"
+                                    name="transfer-org"
+                                    className="h-3.5 w-3.5 accent-primary"
+                                    checked={orgId === org._id}
+                                    onChange={() => setOrgId(org._id)}
+                                    disabled={isTransferring}
+                                />
+                                <div className="min-w-0">
+                                    <div className="font-medium truncate">{org.name}</div>
+                                    <div className="text-xs text-muted-foreground truncate">
+                                        {ORG_ROLE_LABELS[org.role].label} · {org.memberCount} {org.memberCount === 1 ? "member" : "members"}
+                                    </div>
+                                </div>
+                            </label>
+                        ))}
+                    </div>
+                )}
+
+                {error && <p className="text-sm text-destructive">{error}</p>}
+
+                <DialogFooter>
+                    <Button variant="outline" size="sm" onClick={onClose} disabled={isTransferring}>
+                        Cancel
+                    </Button>
+                    <Button size="sm" onClick={handleTransfer} disabled={!selected || isTransferring}>
+                        {isTransferring && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+                        Move project
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
@@ -0,0 +1,354 @@
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { CheckCircle2, KeyRound, Lock, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import Loader1 from "../ui/loader1"
+import { cn } from "@/lib/utils"
+import type { ApiOAuthFlow, ApiSecurityScheme, ApiSpec } from "@/lib/api"
+import {
+    authorizationUrl,
+    createPkcePair,
+    credentialKind,
+    describeScheme,
+    isExpired,
+    oauthRedirectUri,
+    randomToken,
+    requestToken,
+    waitForAuthorizationCode,
+    type ProjectCredentials,
+    type SchemeCredential,
+} from "@/lib/try-it-auth"
+import { useTryItAuthStore } from "@/store/try-it-auth"
+
+const EMPTY_CREDENTIALS: ProjectCredentials = {}
+
+/** Credentials for a project, loaded from sessionStorage on first use. */
+export function useTryItCredentials(projectId: string) {
+    const credentials = useTryItAuthStore((s) => s.credentials[projectId]) ?? EMPTY_CREDENTIALS
+    useEffect(() => {
+        useTryItAuthStore.getState().load(projectId)
+    }, [projectId])
+    return credentials
+}
+
+// ── Field ──────────────────────────────────────────────────────────────────
+
+function Field({ label, children }: { label: string; children: React.ReactNode }) {
+    return (
+        <div className="space-y-0.5">
+            <label className="text-[11px] text-muted-foreground">{label}</label>
+            {children}
+        </div>
+    )
+}
+
+// ── OAuth 2.0 flows ────────────────────────────────────────────────────────
+
+function ScopePicker({ flow, selected, onChange }: { flow: ApiOAuthFlow; selected: string[]; onChange: (s: string[]) => void }) {
+    const scopes = Object.entries(flow.scopes ?? {})
+    if (scopes.length === 0) return null
+    return (
+        <Field label="Scopes">
+            <div className="space-y-1 rounded-md border border-border p-2 max-h-32 overflow-y-auto">
+                {scopes.map(([scope, description]) => (
+                    <label key={scope} className="flex items-start gap-2 text-xs">
+                        <input
+                            type="checkbox"
+                            className="mt-0.5"
+                            checked={selected.includes(scope)}
+                            onChange={(e) => onChange(e.target.checked ? [...selected, scope] : selected.filter((s) => s !== scope))}
+                        />
+                        <span>
+                            <code className="font-mono">{scope}</code>
+                            {description && <span className="text-muted-foreground"> — {description}</span>}
+                        </span>
+                    </label>
+                ))}
+            </div>
+        </Field>
+    )
+}
+
+function OAuthForm({
+    projectId,
+    scheme,
+    current,
+    onToken,
+}: {
+    projectId: string
+    scheme: Extract<ApiSecurityScheme, { type: "oauth2" }>
+    current: SchemeCredential | undefined
+    onToken: (cred: SchemeCredential) => void
+}) {
+    const { authorizationCode, clientCredentials } = scheme.flows
+    const [flowName, setFlowName] = useState<"authorizationCode" | "clientCredentials">(
+        authorizationCode ? "authorizationCode" : "clientCredentials",
+    )
+    const flow = (flowName === "authorizationCode" ? authorizationCode : clientCredentials)!
+    const [clientId, setClientId] = useState(current?.kind === "oauth2" ? current.clientId : "")
+    const [clientSecret, setClientSecret] = useState("")
+    const [scopes, setScopes] = useState<string[]>(Object.keys(flow.scopes ?? {}))
+    const [busy, setBusy] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const run = async () => {
+        if (!flow.tokenUrl) {
+            setError("The spec does not declare a token URL for this flow.")
+            return
+        }
+        setBusy(true)
+        setError(null)
+        try {
+            if (flowName === "clientCredentials") {
+                onToken(await requestToken(projectId, flow.tokenUrl, {
+                    grant_type: "client_credentials",
+                    client_id: clientId,
+                    client_secret: clientSecret,
+                    ...(scopes.length ? { scope: scopes.join(" ") } : {}),
+                }, scopes))
+                return
+            }
+
+            const { verifier, challenge } = await createPkcePair()
+            const state = randomToken(16)
+            const popup = window.open(
+                authorizationUrl(flow, { clientId, scopes, state, challenge }),
+                "try-it-oauth",
+                "width=600,height=720",
+            )
+            if (!popup) throw new Error("The authorization popup was blocked by the browser.")
+            const code = await waitForAuthorizationCode(state, popup)
+            onToken(await requestToken(projectId, flow.tokenUrl, {
+                grant_type: "authorization_code",
+                code,
+                redirect_uri: oauthRedirectUri(),
+                client_id: clientId,
+                code_verifier: verifier,
+                ...(clientSecret ? { client_secret: clientSecret } : {}),
+            }, scopes))
+        } catch (err: unknown) {
+            setError(err instanceof Error ? err.message : "Authorization failed.")
+        } finally {
+            setBusy(false)
+        }
+    }
+
+    return (
+        <div className="space-y-2">
+            {authorizationCode && clientCredentials && (
+                <div className="flex gap-1">
+                    {(["authorizationCode", "clientCredentials"] as const).map((f) => (
+                        <button
+                            key={f}
+                            onClick={() => {
+                                setFlowName(f)
+                                setScopes(Object.keys((f === "authorizationCode" ? authorizationCode : clientCredentials)?.scopes ?? {}))
+                            }}
+                            className={cn(
+                                "rounded px-2 py-0.5 text-[11px] transition-colors",
+                                flowName === f ? "bg-primary/10 text-primary" : "text-muted-foreground hover:bg-muted",
+                            )}
+                        >
+                            {f === "authorizationCode" ? "Authorization code (PKCE)" : "Client credentials"}
+                        </button>
+                    ))}
+                </div>
+            )}
+            <Field label="Client ID">
+                <Input className="h-7 text-xs font-mono" value={clientId} onChange={(e) => setClientId(e.target.value)} />
+            </Field>
+            <Field label={flowName === "authorizationCode" ? "Client secret (confidential clients only)" : "Client secret"}>
+                <Input
+                    className="h-7 text-xs font-mono"
+                    type="password"
+                    value={clientSecret}
+                    onChange={(e) => setClientSecret(e.target.value)}
+                />
+            </Field>
+            <ScopePicker flow={flow} selected={scopes} onChange={setScopes} />
+            {flowName === "authorizationCode" && (
+                <p className="text-[11px] text-muted-foreground">
+                    Register <code className="font-mono">{oauthRedirectUri()}</code> as a redirect URI with the provider.
+                </p>
+            )}
+            {error && <p className="text-[11px] text-destructive">{error}</p>}
+            <Button size="sm" className="h-7 text-xs" disabled={busy || !clientId.trim()} onClick={run}>
+                {busy && <Loader1 className="mr-1.5 h-3 w-3" />}
+                {flowName === "authorizationCode" ? "Authorize" : "Get token"}
+            </Button>
+        </div>
+    )
+}
+
+// ── Scheme card ────────────────────────────────────────────────────────────
+
+function SchemeCard({
+    projectId,
+    name,
+    scheme,
+    current,
+    highlighted,
+}: {
+    projectId: string
+    name: string
+    scheme: ApiSecurityScheme
+    current: SchemeCredential | undefined
+    highlighted: boolean
+}) {
+    const setCredential = useTryItAuthStore((s) => s.setCredential)
+    const kind = credentialKind(scheme)
+    const [value, setValue] = useState(current?.kind === "apiKey" ? current.value : current?.kind === "bearer" ? current.token : "")
+    const [username, setUsername] = useState(current?.kind === "basic" ? current.username : "")
+    const [password, setPassword] = useState(current?.kind === "basic" ? current.password : "")
+
+    const save = () => {
+        if (kind === "apiKey") setCredential(projectId, name, { kind, value })
+        else if (kind === "basic") setCredential(projectId, name, { kind, username, password })
+        else setCredential(projectId, name, { kind: "bearer", token: value })
+    }
+
+    const expired = current ? isExpired(current) : false
+
+    return (
+        <div className={cn("rounded-lg border p-3 space-y-2", highlighted ? "border-primary/40" : "border-border")}>
+            <div className="flex items-start gap-2">
+                <Lock className="h-3.5 w-3.5 mt-0.5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium font-mono truncate">{name}</p>
+                    <p className="text-[11px] text-muted-foreground">{describeScheme(scheme)}</p>
+                    {scheme.description && <p className="text-[11px] text-muted-foreground/80 mt-0.5">{scheme.description}</p>}
+                </div>
+                {current && (
+                    <span
+                        className={cn(
+                            "flex items-center gap-1 rounded px-1.5 py-0.5 text-[10px] font-medium shrink-0",
+                            expired ? "bg-destructive/10 text-destructive" : "bg-green-500/10 text-green-600 dark:text-green-400",
+                        )}
+                    >
+                        {!expired && <CheckCircle2 className="h-3 w-3" />}
+                        {expired ? "Expired" : "Authorized"}
+                    </span>
+                )}
+            </div>
+
+            {current?.kind === "oauth2" && (
+                <p className="text-[11px] text-muted-foreground">
+                    Token {current.expiresAt ? `${expired ? "expired" : "expires"} ${formatDistanceToNow(current.expiresAt, { addSuffix: true })}` : "has no expiry"}
+                    {current.scopes.length > 0 && <> · {current.scopes.join(" ")}</>}
+                </p>
+            )}
+
+            {kind === "oauth2" && scheme.type === "oauth2" ? (
+                <OAuthForm
+                    projectId={projectId}
+                    scheme={scheme}
+                    current={current}
+                    onToken={(cred) => setCredential(projectId, name, cred)}
+                />
+            ) : (
+                <div className="space-y-2">
+                    {kind === "basic" ? (
+                        <>
+                            <Field label="Username">
+                                <Input className="h-7 text-xs font-mono" value={username} onChange={(e) => setUsername(e.target.value)} />
+                            </Field>
+                            <Field label="Password">
+                                <Input className="h-7 text-xs font-mono" type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+                            </Field>
+                        </>
+                    ) : (
+                        <Field label={kind === "apiKey" ? "Value" : "Token"}>
+                            <Input
+                                className="h-7 text-xs font-mono"
+                                type="password"
+                                placeholder={kind === "apiKey" ? "" : "eyJhbGci..."}
+                                value={value}
+                                onChange={(e) => setValue(e.target.value)}
+                            />
+                        </Field>
+                    )}
+                    <Button
+                        size="sm"
+                        className="h-7 text-xs"
+                        disabled={kind === "basic" ? !username : !value.trim()}
+                        onClick={save}
+                    >
+                        Save
+                    </Button>
+                </div>
+            )}
+
+            {current && (
+                <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 text-[11px] text-muted-foreground"
+                    onClick={() => setCredential(projectId, name, null)}
+                >
+                    Log out
+                </Button>
+            )}
+        </div>
+    )
+}
+
+// ── AuthorizePanel ─────────────────────────────────────────────────────────
+
+interface AuthorizePanelProps {
+    projectId: string
+    spec: ApiSpec
+    /** Schemes to list first, e.g. the ones the open endpoint needs */
+    highlight?: string[]
+    onClose: () => void
+}
+
+/**
+ * Enter credentials for the spec's security schemes. They apply to every
+ * Try-It request and are kept in sessionStorage for this project only.
+ */
+export function AuthorizePanel({ projectId, spec, highlight = [], onClose }: AuthorizePanelProps) {
+    const credentials = useTryItCredentials(projectId)
+    const clear = useTryItAuthStore((s) => s.clear)
+    const names = Object.keys(spec.securitySchemes ?? {}).sort(
+        (a, b) => Number(highlight.includes(b)) - Number(highlight.includes(a)),
+    )
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="w-full max-w-lg max-h-[85vh] flex flex-col rounded-xl border border-border bg-background shadow-xl">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
+                    <KeyRound className="h-4 w-4 text-primary" />
+                    <div className="flex-1">
+                        <h2 className="text-sm font-semibold">Authorize</h2>
+                        <p className="text-[11px] text-muted-foreground">Stored for this browser session only.</p>
+                    </div>
+                    {Object.keys(credentials).length > 0 && (
+                        <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => clear(projectId)}>
+                            Log out all
+                        </Button>
+                    )}
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+                        <X className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                    {names.length === 0 ? (
+                        <p className="text-xs text-muted-foreground text-center py-6">This spec declares no security schemes.</p>
+                    ) : (
+                        names.map((name) => (
+                            <SchemeCard
+                                key={name}
+                                projectId={projectId}
+                                name={name}
+                                scheme={spec.securitySchemes[name]}
+                                current={credentials[name]}
+                                highlighted={highlight.includes(name)}
+                            />
+                        ))
+                    )}
+                </div>
+            </div>
+        </div>
+    )
+}
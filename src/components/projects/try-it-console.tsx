@@ -1,13 +1,27 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { formatDistanceToNow } from "date-fns"
 import {
-  Play, ChevronDown, ChevronRight, X, Plus,
+  Play, ChevronDown, ChevronRight, X, Plus, KeyRound, Lock, CheckCircle2, AlertTriangle,
+  History, RotateCcw, BookmarkPlus, Check, Code2,
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 
 import { cn } from "@/lib/utils"
 import { apiSpecApi, type ApiSpec, type ApiSpecEndpoint, type TryItResult } from "@/lib/api"
+import {
+  applyCredentials, requiresAuth, satisfiedRequirement, securityRequirements,
+  stripCredentialPairs, stripCredentials, stripResponseCredentials,
+} from "@/lib/try-it-auth"
+import { interpolate, unresolvedVariables, variableMap } from "@/lib/environments"
+import { exampleRequestBody } from "@/lib/schema-example"
+import { validateResponse, type ValidationReport } from "@/lib/contract"
+import { useEnvironmentsStore, type EnvSelection } from "@/store/try-it-environments"
+import { useTryItRequestsStore, type TryItHistoryEntry, type TryItInputs } from "@/store/try-it-requests"
 import Loader1 from "../ui/loader1"
+import { useTryItCredentials } from "./try-it-authorize"
+import { CodeSnippets } from "./code-snippets"
+import { ValidationBadge, ValidationReportView } from "./contract-drift"
 
 // ── HTTP method colours ────────────────────────────────────────────────────
 
@@ -19,6 +33,13 @@ export const METHOD_COLORS: Record<string, string> = {
     DELETE: "bg-red-500/10 text-red-600 dark:text-red-400 border-red-500/20",
     OPTIONS: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400 border-cyan-500/20",
     HEAD: "bg-slate-500/10 text-slate-600 dark:text-slate-400 border-slate-500/20",
+    // AsyncAPI operations and gRPC methods
+    PUBLISH: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+    SEND: "bg-green-500/10 text-green-600 dark:text-green-400 border-green-500/20",
+    SUBSCRIBE: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+    RECEIVE: "bg-blue-500/10 text-blue-600 dark:text-blue-400 border-blue-500/20",
+    RPC: "bg-cyan-500/10 text-cyan-600 dark:text-cyan-400 border-cyan-500/20",
+    STREAM: "bg-purple-500/10 text-purple-600 dark:text-purple-400 border-purple-500/20",
 }
 
 function statusColor(code: number) {
@@ -30,9 +51,9 @@ function statusColor(code: number) {
 
 // ── Key-value row ──────────────────────────────────────────────────────────
 
-interface KVPair { key: string; value: string }
+export interface KVPair { key: string; value: string }
 
-function KVEditor({
+export function KVEditor({
     pairs,
     onChange,
     addLabel = "Add header",
@@ -95,6 +116,62 @@ function Section({ title, children, defaultOpen = true }: { title: string; child
     )
 }
 
+// ── History ────────────────────────────────────────────────────────────────
+
+function HistoryList({
+    entries,
+    onOpen,
+    onReplay,
+    onClear,
+}: {
+    entries: TryItHistoryEntry[]
+    onOpen: (entry: TryItHistoryEntry) => void
+    onReplay: (entry: TryItHistoryEntry) => void
+    onClear: () => void
+}) {
+    if (entries.length === 0) {
+        return (
+            <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                Requests you send to this endpoint are listed here
+            </div>
+        )
+    }
+    return (
+        <div className="space-y-1">
+            {entries.map((entry) => (
+                <div key={entry.id} className="group flex items-center gap-2 rounded-md px-2 py-1.5 hover:bg-muted/50">
+                    <button onClick={() => onOpen(entry)} className="flex flex-1 min-w-0 items-center gap-2 text-left">
+                        {entry.result ? (
+                            <span className={cn("rounded px-1.5 py-0.5 font-mono font-semibold text-[11px] shrink-0", statusColor(entry.result.status))}>
+                                {entry.result.status}
+                            </span>
+                        ) : (
+                            <span className="rounded px-1.5 py-0.5 font-mono font-semibold text-[11px] shrink-0 bg-destructive/10 text-destructive">ERR</span>
+                        )}
+                        <span className="flex-1 min-w-0">
+                            <span className="block truncate font-mono text-[11px]">{entry.url}</span>
+                            <span className="block text-[10px] text-muted-foreground">
+                                {formatDistanceToNow(entry.sentAt, { addSuffix: true })} · {entry.durationMs} ms · {entry.target}
+                            </span>
+                        </span>
+                    </button>
+                    <Button
+                        variant="ghost" size="icon"
+                        className="h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100"
+                        title="Send again"
+                        onClick={() => onReplay(entry)}
+                    >
+                        <RotateCcw className="h-3 w-3" />
+                    </Button>
+                </div>
+            ))}
+            <Button variant="ghost" size="sm" className="h-6 text-[11px] text-muted-foreground" onClick={onClear}>
+                Clear history
+            </Button>
+        </div>
+    )
+}
+
 // ── TryItConsole ───────────────────────────────────────────────────────────
 
 interface Props {
@@ -102,10 +179,27 @@ interface Props {
     endpoint: ApiSpecEndpoint
     spec: ApiSpec
     onClose: () => void
+    /** Open the Authorize panel */
+    onAuthorize: () => void
+    /** Open the environment manager */
+    onManageEnvironments: () => void
 }
 
-export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
-    const baseServer = spec.servers?.[0]?.url ?? ""
+const NO_ENVIRONMENTS: never[] = []
+const NO_HISTORY: TryItHistoryEntry[] = []
+const SPEC_SERVER: EnvSelection = { kind: "server", index: 0 }
+
+export function TryItConsole({ projectId, endpoint, spec, onClose, onAuthorize, onManageEnvironments }: Props) {
+    // Target: one of the spec's servers, or a named environment with variables
+    const environments = useEnvironmentsStore((s) => s.environments[projectId]) ?? NO_ENVIRONMENTS
+    const selection = useEnvironmentsStore((s) => s.selection[projectId]) ?? SPEC_SERVER
+    const selectEnvironment = useEnvironmentsStore((s) => s.select)
+    const activeEnv = selection.kind === "env" ? environments.find((e) => e._id === selection.id) ?? null : null
+    const vars = variableMap(activeEnv)
+    const rawBaseUrl = activeEnv
+        ? activeEnv.baseUrl
+        : spec.servers?.[selection.kind === "server" ? selection.index : 0]?.url ?? spec.servers?.[0]?.url ?? ""
+    const baseServer = interpolate(rawBaseUrl, vars)
 
     // Path param values
     const pathParams = endpoint.parameters.filter((p) => p.in === "path")
@@ -124,21 +218,18 @@ export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
         { key: "Accept", value: "application/json" },
     ])
 
-    // Auth bearer token
+    // Auth: credentials from the Authorize panel when the spec declares schemes,
+    // otherwise a plain bearer token
+    const credentials = useTryItCredentials(projectId)
+    const requirements = securityRequirements(spec, endpoint)
+    const authRequired = requiresAuth(spec, endpoint)
+    const activeRequirement = satisfiedRequirement(spec, endpoint, credentials)
+    const hasSchemes = Object.keys(spec.securitySchemes ?? {}).length > 0
     const [bearerToken, setBearerToken] = useState("")
 
     // Body
     const needsBody = ["POST", "PUT", "PATCH"].includes(endpoint.method)
-    const [bodyText, setBodyText] = useState(() => {
-        // Try to pre-fill with example from requestBody
-        const content = endpoint.requestBody?.content
-        if (content) {
-            const ct = content["application/json"] ?? Object.values(content)[0]
-            if (ct?.example && typeof ct.example === "string") return ct.example
-            if (ct?.example) return JSON.stringify(ct.example, null, 2)
-        }
-        return ""
-    })
+    const [bodyText, setBodyText] = useState(() => exampleRequestBody(spec, endpoint))
     const [selectedContentType, setSelectedContentType] = useState(() => {
         const content = endpoint.requestBody?.content
         return content ? Object.keys(content)[0] ?? "application/json" : "application/json"
@@ -149,42 +240,170 @@ export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
     const [sending, setSending] = useState(false)
     const [sendError, setSendError] = useState<string | null>(null)
     const [showResponseHeaders, setShowResponseHeaders] = useState(false)
+    const [durationMs, setDurationMs] = useState<number | null>(null)
+    // Response checked against the spec
+    const [validation, setValidation] = useState<ValidationReport | null>(null)
+    const [showValidation, setShowValidation] = useState(false)
+
+    // History and saved examples
+    const history = useTryItRequestsStore((s) => s.history[projectId]?.[endpoint.id]) ?? NO_HISTORY
+    const { loadHistory, record, clearHistory, saveExample, setDraft } = useTryItRequestsStore()
+    // Right pane: the response, past requests, or this request as code
+    const [pane, setPane] = useState<"response" | "history" | "code">("response")
+    const [exampleName, setExampleName] = useState<string | null>(null)
+    const [savingExample, setSavingExample] = useState(false)
+    const [savedExample, setSavedExample] = useState(false)
+
+    useEffect(() => {
+        loadHistory(projectId)
+    }, [projectId, loadHistory])
+
+    const inputs: TryItInputs = { pathValues, queryPairs, headerPairs, bodyText, contentType: selectedContentType }
+
+    // Share the fields with the reference page so its code snippets follow them
+    useEffect(() => {
+        setDraft(projectId, endpoint.id, { pathValues, queryPairs, headerPairs, bodyText, contentType: selectedContentType })
+    }, [projectId, endpoint.id, pathValues, queryPairs, headerPairs, bodyText, selectedContentType, setDraft])
+
+    const restoreInputs = (from: TryItInputs) => {
+        setPathValues(from.pathValues)
+        setQueryPairs(from.queryPairs)
+        setHeaderPairs(from.headerPairs)
+        setBodyText(from.bodyText)
+        setSelectedContentType(from.contentType)
+    }
 
-    // Build resolved path
-    const resolvedPath = endpoint.path.replace(/\{([^}]+)\}/g, (_, name) => {
-        return pathValues[name] ?? `{${name}}`
-    })
+    const pathFor = (values: Record<string, string>, resolve: boolean) =>
+        endpoint.path.replace(/\{([^}]+)\}/g, (_, name) => {
+            if (values[name] === undefined) return `{${name}}`
+            return resolve ? interpolate(values[name], vars) : values[name]
+        })
 
-    const handleSend = async () => {
+    // Build resolved path
+    const resolvedPath = pathFor(pathValues, true)
+
+    const missingVariables = unresolvedVariables([
+        rawBaseUrl,
+        ...Object.values(pathValues),
+        ...queryPairs.flatMap((p) => [p.key, p.value]),
+        ...headerPairs.flatMap((p) => [p.key, p.value]),
+        ...(activeEnv?.headers ?? []).map((h) => h.value),
+        needsBody ? bodyText : "",
+    ], vars)
+
+    const send = async (from: TryItInputs) => {
+        const { pathValues, queryPairs, headerPairs, bodyText, contentType } = from
+        const resolvedPath = pathFor(pathValues, true)
+        const target = activeEnv?.name ?? spec.servers?.[selection.kind === "server" ? selection.index : 0]?.description ?? (baseServer || "No server")
         setSending(true)
         setSendError(null)
         setResult(null)
+        setDurationMs(null)
+        setValidation(null)
+        setPane("response")
+        setSavedExample(false)
+        const startedAt = performance.now()
+        let response: TryItResult | null = null
+        let report: ValidationReport | null = null
+        let failure: string | null = null
         try {
             const headers: Record<string, string> = {}
+            const queryParams: Record<string, string> = {}
+
+            // Precedence: environment defaults < stored credentials < the console's own fields
+            for (const { key, value } of activeEnv?.headers ?? []) {
+                if (key.trim()) headers[key.trim()] = interpolate(value, vars)
+            }
+            if (activeRequirement) applyCredentials(spec, activeRequirement, credentials, { headers, queryParams })
             for (const { key, value } of headerPairs) {
-                if (key.trim()) headers[key.trim()] = value
+                if (key.trim()) headers[interpolate(key.trim(), vars)] = interpolate(value, vars)
             }
-            if (bearerToken.trim()) headers["Authorization"] = `Bearer ${bearerToken.trim()}`
-            if (needsBody) headers["Content-Type"] = selectedContentType
+            if (!hasSchemes && bearerToken.trim()) headers["Authorization"] = `Bearer ${interpolate(bearerToken.trim(), vars)}`
+            if (needsBody) headers["Content-Type"] = contentType
 
-            const queryParams: Record<string, string> = {}
             for (const { key, value } of queryPairs) {
-                if (key.trim()) queryParams[key.trim()] = value
+                if (key.trim()) queryParams[interpolate(key.trim(), vars)] = interpolate(value, vars)
             }
 
-            const r = await apiSpecApi.tryRequest(projectId, {
+            response = await apiSpecApi.tryRequest(projectId, {
                 method: endpoint.method,
                 baseUrl: baseServer,
                 path: resolvedPath,
                 headers,
                 queryParams,
-                body: needsBody && bodyText.trim() ? bodyText.trim() : undefined,
+                body: needsBody && bodyText.trim() ? interpolate(bodyText.trim(), vars) : undefined,
             })
-            setResult(r)
+            setResult(response)
+            report = validateResponse(spec, endpoint, response)
+            setValidation(report)
+            setShowValidation(report.issues.some((i) => i.severity === "error"))
         } catch (err: unknown) {
-            setSendError(err instanceof Error ? err.message : "Request failed.")
+            failure = err instanceof Error ? err.message : "Request failed."
+            setSendError(failure)
         } finally {
+            const elapsed = response?.durationMs ?? Math.round(performance.now() - startedAt)
+            setDurationMs(elapsed)
             setSending(false)
+            record(projectId, endpoint.id, {
+                sentAt: Date.now(),
+                durationMs: elapsed,
+                target,
+                url: `${baseServer.replace(/\/$/, "")}${resolvedPath}`,
+                // Typed-in auth headers and API keys are not kept in local history
+                inputs: stripCredentialPairs(spec, from),
+                result: response,
+                error: failure,
+                validation: report,
+            })
+        }
+    }
+
+    const handleSend = () => send(inputs)
+
+    const replay = (entry: TryItHistoryEntry) => {
+        restoreInputs(entry.inputs)
+        send(entry.inputs)
+    }
+
+    const openEntry = (entry: TryItHistoryEntry) => {
+        restoreInputs(entry.inputs)
+        setResult(entry.result)
+        setSendError(entry.error)
+        setValidation(entry.validation ?? null)
+        setShowValidation(false)
+        setDurationMs(entry.durationMs)
+        setPane("response")
+    }
+
+    // Saved examples keep {{variables}} and leave out the base URL and credentials
+    const handleSaveExample = async () => {
+        if (!exampleName?.trim()) return
+        const headers: Record<string, string> = {}
+        for (const { key, value } of headerPairs) {
+            if (key.trim()) headers[key.trim()] = value
+        }
+        if (needsBody) headers["Content-Type"] = selectedContentType
+        const queryParams: Record<string, string> = {}
+        for (const { key, value } of queryPairs) {
+            if (key.trim()) queryParams[key.trim()] = value
+        }
+        setSavingExample(true)
+        const saved = await saveExample(projectId, {
+            endpointId: endpoint.id,
+            name: exampleName.trim(),
+            request: {
+                method: endpoint.method,
+                path: pathFor(pathValues, false),
+                // Typed-in auth headers and API keys stay out of team-shared examples
+                ...stripCredentials(spec, { headers, queryParams }),
+                body: needsBody && bodyText.trim() ? bodyText.trim() : undefined,
+            },
+            response: result && stripResponseCredentials(result),
+        })
+        setSavingExample(false)
+        if (saved) {
+            setExampleName(null)
+            setSavedExample(true)
         }
     }
 
@@ -198,6 +417,31 @@ export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
                 <code className="flex-1 truncate font-mono text-xs text-muted-foreground">
                     {baseServer.replace(/\/$/, "")}{resolvedPath}
                 </code>
+                <select
+                    className="h-7 max-w-48 rounded-md border border-input bg-background px-2 text-xs focus:outline-none focus:ring-2 focus:ring-ring"
+                    title="Server or environment"
+                    value={selection.kind === "env" ? `env:${selection.id}` : `server:${selection.index}`}
+                    onChange={(e) => {
+                        const [kind, ref] = e.target.value.split(/:(.*)/s)
+                        if (kind === "manage") onManageEnvironments()
+                        else if (kind === "env") selectEnvironment(projectId, { kind: "env", id: ref })
+                        else selectEnvironment(projectId, { kind: "server", index: Number(ref) })
+                    }}
+                >
+                    <optgroup label="Spec servers">
+                        {(spec.servers?.length ? spec.servers : [{ url: "", description: "No server" }]).map((srv, i) => (
+                            <option key={i} value={`server:${i}`}>{srv.description || srv.url || "No server"}</option>
+                        ))}
+                    </optgroup>
+                    {environments.length > 0 && (
+                        <optgroup label="Environments">
+                            {environments.map((env) => (
+                                <option key={env._id} value={`env:${env._id}`}>{env.name}</option>
+                            ))}
+                        </optgroup>
+                    )}
+                    <option value="manage:">Manage environments…</option>
+                </select>
                 <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
                     <X className="h-3.5 w-3.5" />
                 </Button>
@@ -238,16 +482,44 @@ export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
 
                     {/* Auth */}
                     <Section title="Auth">
-                        <div className="space-y-1">
-                            <label className="text-[11px] text-muted-foreground">Bearer token</label>
-                            <Input
-                                className="h-7 text-xs font-mono"
-                                placeholder="eyJhbGci..."
-                                value={bearerToken}
-                                onChange={(e) => setBearerToken(e.target.value)}
-                                type="password"
-                            />
-                        </div>
+                        {hasSchemes ? (
+                            <div className="space-y-2">
+                                {requirements.length === 0 ? (
+                                    <p className="text-[11px] text-muted-foreground">This endpoint does not require authentication.</p>
+                                ) : (
+                                    <div className="space-y-1">
+                                        {requirements.map((req, i) => {
+                                            const names = Object.keys(req)
+                                            const active = req === activeRequirement
+                                            return (
+                                                <div key={i} className={cn("flex items-center gap-1.5 text-[11px]", active ? "text-green-600 dark:text-green-400" : "text-muted-foreground")}>
+                                                    {active ? <CheckCircle2 className="h-3 w-3 shrink-0" /> : <Lock className="h-3 w-3 shrink-0" />}
+                                                    <span className="font-mono truncate">{names.length ? names.join(" + ") : "anonymous"}</span>
+                                                </div>
+                                            )
+                                        })}
+                                    </div>
+                                )}
+                                {authRequired && !activeRequirement && (
+                                    <p className="text-[11px] text-primary">Not authorized — the request will be sent without credentials.</p>
+                                )}
+                                <Button variant="outline" size="sm" className="h-7 text-xs gap-1" onClick={onAuthorize}>
+                                    <KeyRound className="h-3 w-3" />
+                                    Authorize…
+                                </Button>
+                            </div>
+                        ) : (
+                            <div className="space-y-1">
+                                <label className="text-[11px] text-muted-foreground">Bearer token</label>
+                                <Input
+                                    className="h-7 text-xs font-mono"
+                                    placeholder="eyJhbGci..."
+                                    value={bearerToken}
+                                    onChange={(e) => setBearerToken(e.target.value)}
+                                    type="password"
+                                />
+                            </div>
+                        )}
                     </Section>
 
                     {/* Body */}
@@ -286,56 +558,136 @@ export function TryItConsole({ projectId, endpoint, spec, onClose }: Props) {
                                 : <Play className="h-3.5 w-3.5" />}
                             {sending ? "Sending…" : "Send"}
                         </Button>
+                        {missingVariables.length > 0 && (
+                            <span
+                                className="flex items-center gap-1 text-[11px] text-primary"
+                                title="These variables are not defined in the active environment and will be sent as-is"
+                            >
+                                <AlertTriangle className="h-3 w-3" />
+                                Undefined: {missingVariables.map((v) => `{{${v}}}`).join(", ")}
+                            </span>
+                        )}
                         {result && (
                             <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                                 <span className={cn("rounded px-1.5 py-0.5 font-mono font-semibold text-[11px]", statusColor(result.status))}>
                                     {result.status}
                                 </span>
+                                {durationMs !== null && <span className="text-[11px]">{durationMs} ms</span>}
+                                {validation && <ValidationBadge report={validation} onClick={() => setShowValidation((v) => !v)} />}
                             </div>
                         )}
+                        <div className="ml-auto flex items-center gap-1.5">
+                            {exampleName !== null ? (
+                                <>
+                                    <Input
+                                        autoFocus
+                                        className="h-7 w-44 text-xs"
+                                        placeholder="Example name"
+                                        value={exampleName}
+                                        onChange={(e) => setExampleName(e.target.value)}
+                                        onKeyDown={(e) => {
+                                            if (e.key === "Enter") handleSaveExample()
+                                            if (e.key === "Escape") setExampleName(null)
+                                        }}
+                                    />
+                                    <Button size="sm" className="h-7 text-xs" disabled={savingExample || !exampleName.trim()} onClick={handleSaveExample}>
+                                        {savingExample ? <Loader1 className="h-3 w-3" /> : "Save"}
+                                    </Button>
+                                    <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setExampleName(null)}>
+                                        <X className="h-3 w-3" />
+                                    </Button>
+                                </>
+                            ) : (
+                                <Button
+                                    variant="ghost" size="sm"
+                                    className="h-7 text-xs gap-1"
+                                    title="Save this request (and its response) as an example for your team"
+                                    onClick={() => setExampleName(endpoint.summary || `${endpoint.method} ${endpoint.path}`)}
+                                >
+                                    {savedExample ? <Check className="h-3 w-3 text-green-500" /> : <BookmarkPlus className="h-3 w-3" />}
+                                    {savedExample ? "Saved" : "Save as example"}
+                                </Button>
+                            )}
+                            <Button
+                                variant={pane === "history" ? "secondary" : "ghost"} size="sm"
+                                className="h-7 text-xs gap-1"
+                                onClick={() => setPane((p) => (p === "history" ? "response" : "history"))}
+                            >
+                                <History className="h-3 w-3" />
+                                History{history.length > 0 && ` (${history.length})`}
+                            </Button>
+                            <Button
+                                variant={pane === "code" ? "secondary" : "ghost"} size="sm"
+                                className="h-7 text-xs gap-1"
+                                title="This request as client code"
+                                onClick={() => setPane((p) => (p === "code" ? "response" : "code"))}
+                            >
+                                <Code2 className="h-3 w-3" />
+                                Code
+                            </Button>
+                        </div>
                     </div>
 
                     {/* Response body */}
                     <div className="flex-1 overflow-y-auto p-4">
-                        {sendError && (
-                            <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
-                                {sendError}
-                            </div>
-                        )}
+                        {pane === "history" ? (
+                            <HistoryList
+                                entries={history}
+                                onOpen={openEntry}
+                                onReplay={replay}
+                                onClear={() => clearHistory(projectId, endpoint.id)}
+                            />
+                        ) : pane === "code" ? (
+                            <CodeSnippets projectId={projectId} spec={spec} endpoint={endpoint} />
+                        ) : (
+                            <>
+                                {sendError && (
+                                    <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                                        {sendError}
+                                    </div>
+                                )}
 
-                        {!result && !sendError && (
-                            <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
-                                Press Send to execute the request
-                            </div>
-                        )}
+                                {!result && !sendError && (
+                                    <div className="flex h-full items-center justify-center text-xs text-muted-foreground">
+                                        Press Send to execute the request
+                                    </div>
+                                )}
 
-                        {result && (
-                            <div className="space-y-3">
-                                {/* Response headers collapsible */}
-                                <button
-                                    onClick={() => setShowResponseHeaders((v) => !v)}
-                                    className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
-                                >
-                                    {showResponseHeaders ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
-                                    Response headers
-                                </button>
-                                {showResponseHeaders && (
-                                    <div className="rounded-md border border-border bg-muted/30 p-2 font-mono text-[11px] space-y-0.5">
-                                        {Object.entries(result.headers).map(([k, v]) => (
-                                            <div key={k}>
-                                                <span className="text-primary">{k}</span>: {String(v)}
+                                {result && (
+                                    <div className="space-y-3">
+                                        {validation && showValidation && (
+                                            <div className="rounded-md border border-border p-3">
+                                                <p className="mb-2 text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">Checked against the spec</p>
+                                                <ValidationReportView report={validation} />
                                             </div>
-                                        ))}
+                                        )}
+                                        {/* Response headers collapsible */}
+                                        <button
+                                            onClick={() => setShowResponseHeaders((v) => !v)}
+                                            className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground hover:text-foreground"
+                                        >
+                                            {showResponseHeaders ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                                            Response headers
+                                        </button>
+                                        {showResponseHeaders && (
+                                            <div className="rounded-md border border-border bg-muted/30 p-2 font-mono text-[11px] space-y-0.5">
+                                                {Object.entries(result.headers).map(([k, v]) => (
+                                                    <div key={k}>
+                                                        <span className="text-primary">{k}</span>: {String(v)}
+                                                    </div>
+                                                ))}
+                                            </div>
+                                        )}
+
+                                        {/* Response body */}
+                                        <div className="rounded-md border border-border bg-muted/30 overflow-x-auto">
+                                            <pre className="p-3 font-mono text-[11px] leading-relaxed whitespace-pre-wrap wrap-break-word">
+                                                {tryPrettyJson(result.body)}
+                                            </pre>
+                                        </div>
                                     </div>
                                 )}
-
-                                {/* Response body */}
-                                <div className="rounded-md border border-border bg-muted/30 overflow-x-auto">
-                                    <pre className="p-3 font-mono text-[11px] leading-relaxed whitespace-pre-wrap wrap-break-word">
-                                        {tryPrettyJson(result.body)}
-                                    </pre>
-                                </div>
-                            </div>
+                            </>
                         )}
                     </div>
                 </div>
@@ -0,0 +1,272 @@
+import { useEffect, useRef, useState } from "react"
+import { Eye, EyeOff, Globe, Plus, Trash2, Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import Loader1 from "../ui/loader1"
+import { cn } from "@/lib/utils"
+import type { ApiEnvironment, ApiEnvironmentInput, ApiEnvironmentVariable } from "@/lib/api"
+import { useEnvironmentsStore } from "@/store/try-it-environments"
+import { KVEditor } from "./try-it-console"
+
+const BLANK: ApiEnvironmentInput = { name: "", baseUrl: "", headers: [], variables: [] }
+
+function toInput(env: ApiEnvironment): ApiEnvironmentInput {
+    return { name: env.name, baseUrl: env.baseUrl, headers: env.headers, variables: env.variables }
+}
+
+// ── Variable rows ──────────────────────────────────────────────────────────
+
+function VariablesEditor({ vars, onChange }: { vars: ApiEnvironmentVariable[]; onChange: (v: ApiEnvironmentVariable[]) => void }) {
+    const [revealed, setRevealed] = useState<Set<number>>(new Set())
+    const update = (i: number, patch: Partial<ApiEnvironmentVariable>) => {
+        const next = [...vars]; next[i] = { ...next[i], ...patch }; onChange(next)
+    }
+
+    return (
+        <div className="space-y-1.5">
+            {vars.map((v, i) => (
+                <div key={i} className="flex items-center gap-1.5">
+                    <input
+                        type="checkbox"
+                        title="Enabled"
+                        checked={v.enabled !== false}
+                        onChange={(e) => update(i, { enabled: e.target.checked })}
+                    />
+                    <Input
+                        className="h-7 text-xs font-mono"
+                        placeholder="name"
+                        value={v.key}
+                        onChange={(e) => update(i, { key: e.target.value })}
+                    />
+                    <Input
+                        className="h-7 text-xs font-mono"
+                        placeholder="value"
+                        type={v.secret && !revealed.has(i) ? "password" : "text"}
+                        value={v.value}
+                        onChange={(e) => update(i, { value: e.target.value })}
+                    />
+                    <Button
+                        variant="ghost" size="icon"
+                        className={cn("h-7 w-7 shrink-0", v.secret && "text-primary")}
+                        title={v.secret ? "Secret — click to show or hide the value" : "Mark as secret"}
+                        onClick={() => {
+                            if (!v.secret) update(i, { secret: true })
+                            else setRevealed((r) => {
+                                const next = new Set(r)
+                                next.has(i) ? next.delete(i) : next.add(i)
+                                return next
+                            })
+                        }}
+                    >
+                        {v.secret && revealed.has(i) ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                    </Button>
+                    <Button
+                        variant="ghost" size="icon"
+                        className="h-7 w-7 shrink-0"
+                        onClick={() => onChange(vars.filter((_, j) => j !== i))}
+                    >
+                        <X className="h-3 w-3" />
+                    </Button>
+                </div>
+            ))}
+            <Button
+                variant="ghost" size="sm"
+                className="h-6 text-xs text-muted-foreground"
+                onClick={() => onChange([...vars, { key: "", value: "", enabled: true }])}
+            >
+                <Plus className="h-3 w-3 mr-1" />Add variable
+            </Button>
+        </div>
+    )
+}
+
+// ── EnvironmentManager ─────────────────────────────────────────────────────
+
+interface EnvironmentManagerProps {
+    projectId: string
+    onClose: () => void
+}
+
+/**
+ * Create and edit the project's Try-It environments: a base URL, default
+ * headers and `{{variables}}` usable in every request field.
+ */
+export function EnvironmentManager({ projectId, onClose }: EnvironmentManagerProps) {
+    const environments = useEnvironmentsStore((s) => s.environments[projectId]) ?? []
+    const { save, remove, select, importPostman, error } = useEnvironmentsStore()
+    const [editingId, setEditingId] = useState<string | null>(environments[0]?._id ?? null)
+    const [draft, setDraft] = useState<ApiEnvironmentInput>(environments[0] ? toInput(environments[0]) : BLANK)
+    const [busy, setBusy] = useState<"save" | "delete" | "import" | null>(null)
+    const [importError, setImportError] = useState<string | null>(null)
+    const fileRef = useRef<HTMLInputElement>(null)
+
+    const editing = editingId ? environments.find((e) => e._id === editingId) ?? null : null
+
+    useEffect(() => {
+        setDraft(editing ? toInput(editing) : BLANK)
+    }, [editingId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+    const handleSave = async () => {
+        setBusy("save")
+        const saved = await save(projectId, {
+            ...draft,
+            name: draft.name.trim(),
+            headers: draft.headers.filter((h) => h.key.trim()),
+            variables: draft.variables.filter((v) => v.key.trim()),
+        }, editingId ?? undefined)
+        setBusy(null)
+        if (saved) setEditingId(saved._id)
+    }
+
+    const handleDelete = async () => {
+        if (!editingId || !window.confirm(`Delete the environment "${editing?.name}"?`)) return
+        setBusy("delete")
+        await remove(projectId, editingId)
+        setBusy(null)
+        setEditingId(null)
+    }
+
+    const handleImport = async (file: File) => {
+        setImportError(null)
+        setBusy("import")
+        try {
+            const created = await importPostman(projectId, await file.text())
+            if (created) setEditingId(created._id)
+        } catch (err: unknown) {
+            setImportError(err instanceof Error ? err.message : "Import failed.")
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    return (
+        <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex items-center justify-center p-4" onMouseDown={(e) => e.target === e.currentTarget && onClose()}>
+            <div className="w-full max-w-3xl h-[80vh] flex flex-col rounded-xl border border-border bg-background shadow-xl">
+                <div className="flex items-center gap-2 px-4 py-3 border-b border-border shrink-0">
+                    <Globe className="h-4 w-4 text-primary" />
+                    <div className="flex-1">
+                        <h2 className="text-sm font-semibold">Environments</h2>
+                        <p className="text-[11px] text-muted-foreground">
+                            Shared with everyone on this project. Use <code className="font-mono">{"{{name}}"}</code> in the URL, params, headers and body.
+                        </p>
+                    </div>
+                    <Button variant="ghost" size="icon" className="h-6 w-6" onClick={onClose}>
+                        <X className="h-3.5 w-3.5" />
+                    </Button>
+                </div>
+
+                <div className="flex flex-1 overflow-hidden">
+                    {/* List */}
+                    <div className="w-52 border-r border-border flex flex-col shrink-0">
+                        <div className="flex-1 overflow-y-auto py-1">
+                            {environments.map((env) => (
+                                <button
+                                    key={env._id}
+                                    onClick={() => setEditingId(env._id)}
+                                    className={cn(
+                                        "w-full px-3 py-1.5 text-left text-xs truncate transition-colors hover:bg-muted",
+                                        env._id === editingId && "bg-primary/10 text-primary",
+                                    )}
+                                >
+                                    {env.name}
+                                </button>
+                            ))}
+                            {editingId === null && (
+                                <div className="px-3 py-1.5 text-xs bg-primary/10 text-primary italic">New environment</div>
+                            )}
+                        </div>
+                        <div className="border-t border-border p-2 space-y-1">
+                            <Button variant="ghost" size="sm" className="h-7 w-full justify-start text-xs" onClick={() => setEditingId(null)}>
+                                <Plus className="h-3 w-3 mr-1.5" />New
+                            </Button>
+                            <Button
+                                variant="ghost" size="sm"
+                                className="h-7 w-full justify-start text-xs"
+                                disabled={busy !== null}
+                                onClick={() => fileRef.current?.click()}
+                            >
+                                {busy === "import" ? <Loader1 className="h-3 w-3 mr-1.5" /> : <Upload className="h-3 w-3 mr-1.5" />}
+                                Import Postman…
+                            </Button>
+                            <input
+                                ref={fileRef}
+                                type="file"
+                                accept=".json,application/json"
+                                className="hidden"
+                                onChange={(e) => {
+                                    const file = e.target.files?.[0]
+                                    e.target.value = ""
+                                    if (file) handleImport(file)
+                                }}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Editor */}
+                    <div className="flex-1 overflow-y-auto p-4 space-y-4 text-sm">
+                        {(importError || error) && (
+                            <div className="rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                                {importError || error}
+                            </div>
+                        )}
+                        <div className="space-y-1">
+                            <label className="text-[11px] text-muted-foreground">Name</label>
+                            <Input
+                                className="h-8 text-sm"
+                                placeholder="Staging"
+                                value={draft.name}
+                                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <label className="text-[11px] text-muted-foreground">Base URL</label>
+                            <Input
+                                className="h-8 text-xs font-mono"
+                                placeholder="https://staging.api.example.com or {{baseUrl}}"
+                                value={draft.baseUrl}
+                                onChange={(e) => setDraft({ ...draft, baseUrl: e.target.value })}
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">Variables</p>
+                            <VariablesEditor vars={draft.variables} onChange={(variables) => setDraft({ ...draft, variables })} />
+                        </div>
+                        <div className="space-y-1">
+                            <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">Default headers</p>
+                            <KVEditor pairs={draft.headers} onChange={(headers) => setDraft({ ...draft, headers })} />
+                        </div>
+                        <div className="flex items-center gap-2 pt-2 border-t border-border">
+                            <Button size="sm" disabled={busy !== null || !draft.name.trim()} onClick={handleSave}>
+                                {busy === "save" && <Loader1 className="h-3 w-3 mr-1.5" />}
+                                {editingId ? "Save" : "Create"}
+                            </Button>
+                            {editing && (
+                                <Button
+                                    size="sm"
+                                    variant="outline"
+                                    onClick={() => {
+                                        select(projectId, { kind: "env", id: editing._id })
+                                        onClose()
+                                    }}
+                                >
+                                    Use in console
+                                </Button>
+                            )}
+                            {editing && (
+                                <Button
+                                    size="sm"
+                                    variant="ghost"
+                                    className="ml-auto text-destructive hover:text-destructive hover:bg-destructive/10"
+                                    disabled={busy !== null}
+                                    onClick={handleDelete}
+                                >
+                                    {busy === "delete" ? <Loader1 className="h-3 w-3" /> : <Trash2 className="h-3 w-3" />}
+                                </Button>
+                            )}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,46 @@
+import { useEffect } from "react"
+import { useSearchParams } from "react-router-dom"
+import Loader1 from "../ui/loader1"
+import { OAUTH_RESULT_KEY } from "@/lib/try-it-auth"
+
+/**
+ * Redirect target of the Try-It console's OAuth 2.0 authorization-code popup.
+ *
+ * Same hand-off as GithubOAuthCompletePage: the result goes to localStorage
+ * (the Authorize panel polls it, since the provider may sever
+ * window.opener) and, when possible, to the opener via postMessage. The
+ * code is exchanged by the panel, which holds the PKCE verifier.
+ */
+export function TryItOAuthCompletePage() {
+    const [searchParams] = useSearchParams()
+
+    useEffect(() => {
+        const result = {
+            code: searchParams.get("code"),
+            state: searchParams.get("state"),
+            error: searchParams.get("error_description") ?? searchParams.get("error"),
+            ts: Date.now(),
+        }
+
+        try {
+            localStorage.setItem(OAUTH_RESULT_KEY, JSON.stringify(result))
+        } catch { /* private-browsing storage quota — best-effort */ }
+
+        if (window.opener && !window.opener.closed) {
+            try {
+                window.opener.postMessage({ type: "try-it-oauth-complete", ...result }, window.location.origin)
+            } catch { /* ignore */ }
+        }
+
+        if (window.opener) window.close()
+    }, []) // eslint-disable-line react-hooks/exhaustive-deps
+
+    return (
+        <div className="flex min-h-screen items-center justify-center bg-background">
+            <div className="flex flex-col items-center gap-4 text-center">
+                <Loader1 className="h-8 w-8 text-primary" />
+                <p className="text-sm text-muted-foreground">Completing authorization… you can close this window.</p>
+            </div>
+        </div>
+    )
+}
@@ -13,9 +13,12 @@ import {
   AlertTriangle,
   Eye,
   CheckCircle2,
+  GitCompareArrows,
+  FileDiff,
 } from "lucide-react"
 import { versionsApi, type DocVersion } from "@/lib/api"
 import { DocRenderer } from "@/components/projects/DocRenderer"
+import { DiffViewer } from "@/components/projects/diff-viewer"
 import { cn } from "@/lib/utils"
 
 // ── Date helper (avoid dependency on date-fns format) ────────────────────────
@@ -101,19 +104,69 @@ function VersionPreviewModal({
   )
 }
 
+// ── Version diff modal ────────────────────────────────────────────────────────
+interface DiffSide {
+  label: string
+  content: string
+}
+
+function VersionDiffModal({
+  sectionLabel,
+  base,
+  target,
+  onClose,
+}: {
+  sectionLabel: string
+  base: DiffSide
+  target: DiffSide
+  onClose: () => void
+}) {
+  return (
+    <div className="fixed inset-0 z-50 bg-background/80 backdrop-blur-sm flex flex-col">
+      <div className="flex items-center justify-between px-6 py-3 border-b border-border bg-card shrink-0">
+        <div>
+          <h2 className="font-semibold text-sm">Compare versions — {sectionLabel}</h2>
+          <p className="text-xs text-muted-foreground">
+            {base.label} → {target.label}
+          </p>
+        </div>
+        <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+      <DiffViewer
+        className="flex-1 bg-card"
+        oldText={base.content}
+        newText={target.content}
+        oldLabel={base.label}
+        newLabel={target.label}
+      />
+    </div>
+  )
+}
+
+function versionLabel(v: DocVersion): string {
+  const cfg = SOURCE_CONFIG[v.source] ?? SOURCE_CONFIG.user
+  return `${cfg.label} · ${timeAgo(v.createdAt)}`
+}
+
 // ── Main Panel ────────────────────────────────────────────────────────────────
 interface VersionHistoryPanelProps {
   projectId: string
   section: string      // e.g. "apiReference"
   sectionLabel: string // e.g. "API Reference"
+  /** Content currently shown in the viewer/editor, for "compare with current" */
+  currentContent: string
   onClose: () => void
-  onRestored: (effectiveOutput: Record<string, string>, editedSections: any[]) => void
+  /** Omitted for people who can't edit the section, which hides Restore */
+  onRestored?: (effectiveOutput: Record<string, string>, editedSections: any[]) => void
 }
 
 export function VersionHistoryPanel({
   projectId,
   section,
   sectionLabel,
+  currentContent,
   onClose,
   onRestored,
 }: VersionHistoryPanelProps) {
@@ -129,6 +182,11 @@ export function VersionHistoryPanel({
   const [loadingPreviewId, setLoadingPreviewId] = useState<string | null>(null)
   const [previewVersion, setPreviewVersion] = useState<(DocVersion & { content: string }) | null>(null)
 
+  // Compare state — up to two versions picked from the timeline
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [comparing, setComparing] = useState(false)
+  const [diffSides, setDiffSides] = useState<{ base: DiffSide; target: DiffSide } | null>(null)
+
   // Load versions
   useEffect(() => {
     let cancelled = false
@@ -167,9 +225,41 @@ export function VersionHistoryPanel({
     [projectId, section],
   )
 
+  const toggleCompare = (versionId: string) => {
+    setCompareIds((prev) =>
+      prev.includes(versionId)
+        ? prev.filter((x) => x !== versionId)
+        : [...prev.slice(-1), versionId],
+    )
+  }
+
+  // Diff two versions (older → newer), or one version against the current content
+  const handleCompare = useCallback(
+    async (picked: DocVersion[], withCurrent: boolean) => {
+      setComparing(true)
+      try {
+        const sorted = [...picked].sort(
+          (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime(),
+        )
+        const loaded = await Promise.all(
+          sorted.map((v) => versionsApi.get(projectId, section, v._id).then((r) => r.version)),
+        )
+        const sides: DiffSide[] = loaded.map((v) => ({ label: versionLabel(v), content: v.content }))
+        if (withCurrent) sides.push({ label: "Current", content: currentContent })
+        setDiffSides({ base: sides[0], target: sides[1] })
+      } catch {
+        // ignore — comparison is optional
+      } finally {
+        setComparing(false)
+      }
+    },
+    [projectId, section, currentContent],
+  )
+
   // Restore a version
   const handleRestore = useCallback(
     async (versionId: string) => {
+      if (!onRestored) return
       setRestoringId(versionId)
       try {
         const r = await versionsApi.restore(projectId, section, versionId)
@@ -195,6 +285,14 @@ export function VersionHistoryPanel({
       {previewVersion && (
         <VersionPreviewModal version={previewVersion} onClose={() => setPreviewVersion(null)} />
       )}
+      {diffSides && (
+        <VersionDiffModal
+          sectionLabel={sectionLabel}
+          base={diffSides.base}
+          target={diffSides.target}
+          onClose={() => setDiffSides(null)}
+        />
+      )}
 
       <div className="flex flex-col h-full bg-card border-l border-border">
         {/* Header */}
@@ -216,6 +314,31 @@ export function VersionHistoryPanel({
           </div>
         </div>
 
+        {/* Compare bar */}
+        {compareIds.length > 0 && (
+          <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-border bg-muted/30 shrink-0">
+            <span className="text-xs text-muted-foreground">
+              {compareIds.length === 1 ? "Pick one more version" : "2 versions selected"}
+            </span>
+            <div className="flex items-center gap-1">
+              <Button
+                size="sm"
+                className="h-6 text-xs px-2.5"
+                disabled={compareIds.length !== 2 || comparing}
+                onClick={() => handleCompare(versions.filter((v) => compareIds.includes(v._id)), false)}
+              >
+                {comparing && (
+                  <span className="mr-1 h-3 w-3 rounded-full border-2 border-white border-t-transparent " />
+                )}
+                Compare
+              </Button>
+              <Button variant="ghost" size="sm" className="h-6 text-xs px-2" onClick={() => setCompareIds([])}>
+                Clear
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Body */}
         <div className="flex-1 overflow-y-auto">
           {/* Loading */}
@@ -261,6 +384,7 @@ export function VersionHistoryPanel({
                   const isRestoring = restoringId === v._id
                   const isRestored = restoredId === v._id
                   const isLoadingPreview = loadingPreviewId === v._id
+                  const isPicked = compareIds.includes(v._id)
 
                   return (
                     <div key={v._id} className="relative flex gap-3 pb-2">
@@ -280,9 +404,11 @@ export function VersionHistoryPanel({
                       <div
                         className={cn(
                           "flex-1 rounded-lg border p-3 mt-1 transition-colors",
-                          isFirst
-                            ? "border-border bg-muted/30"
-                            : "border-border/50 hover:border-border bg-background",
+                          isPicked
+                            ? "border-primary/50 bg-primary/5"
+                            : isFirst
+                              ? "border-border bg-muted/30"
+                              : "border-border/50 hover:border-border bg-background",
                         )}
                       >
                         {/* Top row — badge + timestamp + actions */}
@@ -346,7 +472,26 @@ export function VersionHistoryPanel({
                                 <Eye className="h-3 w-3" />
                               )}
                             </Button>
-                            {!isFirst && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6"
+                              title="Compare with current content"
+                              disabled={comparing}
+                              onClick={() => handleCompare([v], true)}
+                            >
+                              <FileDiff className="h-3 w-3" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={cn("h-6 w-6", isPicked && "text-primary bg-primary/10")}
+                              title={isPicked ? "Remove from comparison" : "Select for comparison"}
+                              onClick={() => toggleCompare(v._id)}
+                            >
+                              <GitCompareArrows className="h-3 w-3" />
+                            </Button>
+                            {!isFirst && onRestored && (
                               <Button
                                 variant="ghost"
                                 size="icon"
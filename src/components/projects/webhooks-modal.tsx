@@ -0,0 +1,571 @@
+import { useState, useEffect, useCallback } from "react"
+import {
+    Webhook, Plus, ArrowLeft, Trash2, RefreshCw, Send, RotateCcw,
+    ChevronDown, ChevronRight, AlertCircle, KeyRound,
+} from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { CopyButton } from "@/components/common"
+import {
+    webhooksApi,
+    WEBHOOK_EVENT_LABELS,
+    WEBHOOK_EVENT_TYPES,
+    type ProjectWebhook,
+    type ProjectWebhookInput,
+    type WebhookDelivery,
+    type WebhookDeliveryStatus,
+    type WebhookEventType,
+} from "@/lib/api"
+import { cn } from "@/lib/utils"
+import Loader1 from "../ui/loader1"
+
+// ── Constants ──────────────────────────────────────────────────────────────
+
+const STATUS_BADGE: Record<WebhookDeliveryStatus, "success" | "destructive" | "warning" | "secondary"> = {
+    success: "success",
+    failed: "destructive",
+    retrying: "warning",
+    pending: "secondary",
+}
+
+const DELIVERIES_PAGE_SIZE = 20
+
+const EMPTY_FORM: ProjectWebhookInput = { url: "", description: "", events: [...WEBHOOK_EVENT_TYPES], enabled: true }
+
+function eventLabel(event: WebhookDelivery["event"]): string {
+    return event === "webhook.test" ? "Test event" : WEBHOOK_EVENT_LABELS[event].label
+}
+
+// ── Component ──────────────────────────────────────────────────────────────
+
+interface WebhooksModalProps {
+    projectId: string
+    onClose: () => void
+}
+
+type View = { kind: "list" } | { kind: "new" } | { kind: "detail"; webhookId: string }
+
+/** Outbound webhooks for a project: event subscriptions, signing secrets and the delivery log. */
+export function WebhooksModal({ projectId, onClose }: WebhooksModalProps) {
+    const [webhooks, setWebhooks] = useState<ProjectWebhook[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<string | null>(null)
+    const [view, setView] = useState<View>({ kind: "list" })
+    // Shown once after create/rotate — the server never returns it again
+    const [revealedSecret, setRevealedSecret] = useState<{ webhookId: string; secret: string } | null>(null)
+
+    const load = useCallback(async () => {
+        setIsLoading(true)
+        try {
+            const data = await webhooksApi.list(projectId)
+            setWebhooks(data.webhooks)
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to load webhooks")
+        } finally {
+            setIsLoading(false)
+        }
+    }, [projectId])
+
+    useEffect(() => { load() }, [load])
+
+    const upsert = (webhook: ProjectWebhook) =>
+        setWebhooks((prev) => prev.some((w) => w._id === webhook._id)
+            ? prev.map((w) => (w._id === webhook._id ? webhook : w))
+            : [...prev, webhook])
+
+    const current = view.kind === "detail" ? webhooks.find((w) => w._id === view.webhookId) : undefined
+
+    return (
+        <Dialog open onOpenChange={(v) => !v && onClose()}>
+            <DialogContent className="max-w-3xl">
+                <DialogHeader>
+                    <DialogTitle className="flex items-center gap-2 text-base">
+                        {view.kind !== "list" && (
+                            <button onClick={() => setView({ kind: "list" })} className="text-muted-foreground hover:text-foreground">
+                                <ArrowLeft className="h-4 w-4" />
+                            </button>
+                        )}
+                        <Webhook className="h-4 w-4" />
+                        {view.kind === "new" ? "New webhook" : current ? current.url : "Webhooks"}
+                    </DialogTitle>
+                </DialogHeader>
+
+                {error && (
+                    <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive">
+                        <AlertCircle className="mt-0.5 h-3.5 w-3.5 shrink-0" />
+                        <span>{error}</span>
+                    </div>
+                )}
+
+                {view.kind === "list" && (
+                    <WebhookList
+                        webhooks={webhooks}
+                        isLoading={isLoading}
+                        onOpen={(webhookId) => { setError(null); setView({ kind: "detail", webhookId }) }}
+                        onNew={() => { setError(null); setView({ kind: "new" }) }}
+                    />
+                )}
+
+                {view.kind === "new" && (
+                    <WebhookForm
+                        initial={EMPTY_FORM}
+                        submitLabel="Create webhook"
+                        onSubmit={async (data) => {
+                            const res = await webhooksApi.create(projectId, data)
+                            upsert(res.webhook)
+                            setRevealedSecret({ webhookId: res.webhook._id, secret: res.secret })
+                            setView({ kind: "detail", webhookId: res.webhook._id })
+                        }}
+                    />
+                )}
+
+                {view.kind === "detail" && current && (
+                    <WebhookDetail
+                        projectId={projectId}
+                        webhook={current}
+                        secret={revealedSecret?.webhookId === current._id ? revealedSecret.secret : null}
+                        onUpdated={upsert}
+                        onSecret={(secret) => setRevealedSecret({ webhookId: current._id, secret })}
+                        onDeleted={() => {
+                            setWebhooks((prev) => prev.filter((w) => w._id !== current._id))
+                            setView({ kind: "list" })
+                        }}
+                    />
+                )}
+            </DialogContent>
+        </Dialog>
+    )
+}
+
+// ── List ───────────────────────────────────────────────────────────────────
+
+function WebhookList({ webhooks, isLoading, onOpen, onNew }: {
+    webhooks: ProjectWebhook[]
+    isLoading: boolean
+    onOpen: (webhookId: string) => void
+    onNew: () => void
+}) {
+    if (isLoading) {
+        return (
+            <div className="flex items-center gap-2 py-6">
+                <Loader1 className="h-4 w-4" />
+                <span className="text-sm text-muted-foreground">Loading webhooks...</span>
+            </div>
+        )
+    }
+
+    return (
+        <div className="space-y-3">
+            <p className="text-xs text-muted-foreground">
+                Notify your own systems when this project's documentation changes. Each delivery is a signed JSON <code>POST</code>.
+            </p>
+            {webhooks.length === 0 ? (
+                <div className="rounded-lg border border-dashed border-border py-8 text-center text-sm text-muted-foreground">
+                    No webhooks yet.
+                </div>
+            ) : (
+                <div className="divide-y divide-border rounded-lg border border-border">
+                    {webhooks.map((w) => (
+                        <button
+                            key={w._id}
+                            onClick={() => onOpen(w._id)}
+                            className="flex w-full items-center gap-3 px-4 py-3 text-left transition-colors hover:bg-muted/50"
+                        >
+                            <div className="min-w-0 flex-1">
+                                <p className="truncate font-mono text-xs">{w.url}</p>
+                                <p className="mt-0.5 text-xs text-muted-foreground">
+                                    {w.events.length === WEBHOOK_EVENT_TYPES.length ? "All events" : `${w.events.length} event${w.events.length === 1 ? "" : "s"}`}
+                                    {w.description && ` · ${w.description}`}
+                                    {w.lastDeliveryAt && ` · last delivery ${formatDistanceToNow(new Date(w.lastDeliveryAt), { addSuffix: true })}`}
+                                </p>
+                            </div>
+                            {!w.enabled && <Badge variant="secondary">Disabled</Badge>}
+                            {w.enabled && w.lastDeliveryStatus && <Badge variant={STATUS_BADGE[w.lastDeliveryStatus]}>{w.lastDeliveryStatus}</Badge>}
+                            <ChevronRight className="h-4 w-4 text-muted-foreground" />
+                        </button>
+                    ))}
+                </div>
+            )}
+            <Button size="sm" onClick={onNew} className="gap-1.5">
+                <Plus className="h-3.5 w-3.5" />
+                Add webhook
+            </Button>
+        </div>
+    )
+}
+
+// ── Create / edit form ─────────────────────────────────────────────────────
+
+function WebhookForm({ initial, submitLabel, onSubmit }: {
+    initial: ProjectWebhookInput
+    submitLabel: string
+    onSubmit: (data: ProjectWebhookInput) => Promise<void>
+}) {
+    const [form, setForm] = useState(initial)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    const toggleEvent = (event: WebhookEventType) =>
+        setForm((f) => ({ ...f, events: f.events.includes(event) ? f.events.filter((e) => e !== event) : [...f.events, event] }))
+
+    const submit = async () => {
+        const url = form.url.trim()
+        if (!/^https?:\/\/\S+$/.test(url)) { setError("Enter an http(s) URL."); return }
+        if (!form.events.length) { setError("Subscribe to at least one event."); return }
+        setSaving(true)
+        setError(null)
+        try {
+            await onSubmit({ ...form, url, description: form.description.trim() })
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to save webhook")
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const allSelected = form.events.length === WEBHOOK_EVENT_TYPES.length
+
+    return (
+        <div className="space-y-4">
+            <div className="space-y-1.5">
+                <Label className="text-xs">Payload URL</Label>
+                <Input placeholder="https://example.com/hooks/docnine" value={form.url} onChange={(e) => setForm({ ...form, url: e.target.value })} />
+            </div>
+            <div className="space-y-1.5">
+                <Label className="text-xs">Description <span className="text-muted-foreground">(optional)</span></Label>
+                <Input placeholder="Rebuild the developer site" value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+            </div>
+            <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                    <Label className="text-xs">Events</Label>
+                    <button
+                        type="button"
+                        onClick={() => setForm({ ...form, events: allSelected ? [] : [...WEBHOOK_EVENT_TYPES] })}
+                        className="text-xs text-primary hover:underline"
+                    >
+                        {allSelected ? "Clear all" : "Select all"}
+                    </button>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                    {WEBHOOK_EVENT_TYPES.map((event) => (
+                        <label key={event} className="flex cursor-pointer items-start gap-2 rounded-md border border-border px-3 py-2 hover:bg-muted/40">
+                            <input type="checkbox" className="mt-0.5" checked={form.events.includes(event)} onChange={() => toggleEvent(event)} />
+                            <span>
+                                <span className="block text-sm">{WEBHOOK_EVENT_LABELS[event].label}</span>
+                                <span className="block text-xs text-muted-foreground">{WEBHOOK_EVENT_LABELS[event].description}</span>
+                            </span>
+                        </label>
+                    ))}
+                </div>
+            </div>
+            <label className="flex cursor-pointer items-center gap-2 text-sm">
+                <input type="checkbox" checked={form.enabled} onChange={(e) => setForm({ ...form, enabled: e.target.checked })} />
+                Active — deliver events to this URL
+            </label>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            <div className="flex justify-end">
+                <Button size="sm" onClick={submit} disabled={saving}>
+                    {saving && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+                    {submitLabel}
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+// ── Detail (settings + deliveries) ─────────────────────────────────────────
+
+function WebhookDetail({ projectId, webhook, secret, onUpdated, onSecret, onDeleted }: {
+    projectId: string
+    webhook: ProjectWebhook
+    secret: string | null
+    onUpdated: (webhook: ProjectWebhook) => void
+    onSecret: (secret: string) => void
+    onDeleted: () => void
+}) {
+    const [tab, setTab] = useState<"deliveries" | "settings">(secret ? "settings" : "deliveries")
+    const [busy, setBusy] = useState<"rotate" | "delete" | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const rotate = async () => {
+        if (!confirm("Rotate the signing secret? Deliveries are signed with the new secret immediately.")) return
+        setBusy("rotate")
+        try {
+            const res = await webhooksApi.rotateSecret(projectId, webhook._id)
+            onUpdated(res.webhook)
+            onSecret(res.secret)
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to rotate secret")
+        } finally {
+            setBusy(null)
+        }
+    }
+
+    const remove = async () => {
+        if (!confirm("Delete this webhook and its delivery log?")) return
+        setBusy("delete")
+        try {
+            await webhooksApi.delete(projectId, webhook._id)
+            onDeleted()
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to delete webhook")
+            setBusy(null)
+        }
+    }
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-1 rounded-lg bg-muted p-1">
+                {(["deliveries", "settings"] as const).map((t) => (
+                    <button
+                        key={t}
+                        onClick={() => setTab(t)}
+                        className={cn(
+                            "flex-1 rounded-md px-2 py-1.5 text-xs font-medium capitalize transition-colors",
+                            tab === t ? "bg-background shadow-sm text-foreground" : "text-muted-foreground hover:text-foreground",
+                        )}
+                    >
+                        {t}
+                    </button>
+                ))}
+            </div>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {tab === "deliveries" ? (
+                <DeliveryLog projectId={projectId} webhook={webhook} />
+            ) : (
+                <div className="space-y-5">
+                    {/* Signing secret */}
+                    <div className="space-y-2 rounded-lg border border-border p-4">
+                        <div className="flex items-center justify-between">
+                            <p className="flex items-center gap-2 text-sm font-medium">
+                                <KeyRound className="h-4 w-4" />
+                                Signing secret
+                            </p>
+                            <Button variant="outline" size="sm" onClick={rotate} disabled={!!busy} className="gap-1.5">
+                                {busy === "rotate" ? <Loader1 className="h-3.5 w-3.5" /> : <RefreshCw className="h-3.5 w-3.5" />}
+                                Rotate
+                            </Button>
+                        </div>
+                        {secret ? (
+                            <>
+                                <div className="flex items-center gap-2">
+                                    <code className="flex-1 select-all break-all rounded-md border border-border bg-muted px-3 py-2 font-mono text-xs">{secret}</code>
+                                    <CopyButton text={secret} />
+                                </div>
+                                <p className="text-xs text-amber-600">Copy it now — it won't be shown again.</p>
+                            </>
+                        ) : (
+                            <code className="block rounded-md border border-border bg-muted px-3 py-2 font-mono text-xs">
+                                {"•".repeat(28)}{webhook.secretHint}
+                            </code>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            Each request carries <code>X-Docnine-Signature: t=&lt;timestamp&gt;,v1=&lt;signature&gt;</code>, where the signature is the
+                            hex HMAC-SHA256 of <code>&lt;timestamp&gt;.&lt;raw body&gt;</code> keyed with this secret.
+                            Compare it in constant time and reject timestamps older than five minutes.
+                        </p>
+                    </div>
+
+                    <WebhookForm
+                        key={webhook.updatedAt}
+                        initial={{ url: webhook.url, description: webhook.description, events: webhook.events, enabled: webhook.enabled }}
+                        submitLabel="Save changes"
+                        onSubmit={async (data) => {
+                            const res = await webhooksApi.update(projectId, webhook._id, data)
+                            onUpdated(res.webhook)
+                        }}
+                    />
+
+                    <div className="flex items-center justify-between rounded-lg border border-destructive/30 px-4 py-3">
+                        <p className="text-xs text-muted-foreground">Deleting stops all deliveries and removes the log.</p>
+                        <Button variant="destructive" size="sm" onClick={remove} disabled={!!busy} className="gap-1.5">
+                            {busy === "delete" ? <Loader1 className="h-3.5 w-3.5" /> : <Trash2 className="h-3.5 w-3.5" />}
+                            Delete
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
+
+// ── Delivery log ───────────────────────────────────────────────────────────
+
+function DeliveryLog({ projectId, webhook }: { projectId: string; webhook: ProjectWebhook }) {
+    const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+    const [total, setTotal] = useState(0)
+    const [page, setPage] = useState(1)
+    const [isLoading, setIsLoading] = useState(true)
+    const [testEvent, setTestEvent] = useState<WebhookEventType | "">("")
+    const [sending, setSending] = useState<string | null>(null)
+    const [expanded, setExpanded] = useState<string | null>(null)
+    const [error, setError] = useState<string | null>(null)
+
+    const load = useCallback(async (nextPage: number) => {
+        setIsLoading(true)
+        try {
+            const data = await webhooksApi.listDeliveries(projectId, webhook._id, { page: nextPage, limit: DELIVERIES_PAGE_SIZE })
+            // Deliveries prepended since the last page shift the offsets; skip the overlap
+            setDeliveries((prev) => {
+                if (nextPage === 1) return data.deliveries
+                const ids = new Set(prev.map((d) => d._id))
+                return [...prev, ...data.deliveries.filter((d) => !ids.has(d._id))]
+            })
+            setTotal(data.total)
+            setPage(nextPage)
+        } catch (err: any) {
+            setError(err?.message ?? "Failed to load deliveries")
+        } finally {
+            setIsLoading(false)
+        }
+    }, [projectId, webhook._id])
+
+    useEffect(() => { load(1) }, [load])
+
+    // Prepend the new delivery; the server keeps retrying it in the background
+    const run = async (key: string, action: () => Promise<{ delivery: WebhookDelivery }>) => {
+        setSending(key)
+        setError(null)
+        try {
+            const { delivery } = await action()
+            setDeliveries((prev) => [delivery, ...prev])
+            setTotal((t) => t + 1)
+            setExpanded(delivery._id)
+        } catch (err: any) {
+            setError(err?.message ?? "Delivery failed")
+        } finally {
+            setSending(null)
+        }
+    }
+
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+                <select
+                    value={testEvent}
+                    onChange={(e) => setTestEvent(e.target.value as WebhookEventType | "")}
+                    className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+                >
+                    <option value="">Ping (webhook.test)</option>
+                    {WEBHOOK_EVENT_TYPES.map((event) => (
+                        <option key={event} value={event}>Sample: {WEBHOOK_EVENT_LABELS[event].label}</option>
+                    ))}
+                </select>
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="gap-1.5"
+                    disabled={!!sending}
+                    onClick={() => run("test", () => webhooksApi.sendTest(projectId, webhook._id, testEvent || undefined))}
+                >
+                    {sending === "test" ? <Loader1 className="h-3.5 w-3.5" /> : <Send className="h-3.5 w-3.5" />}
+                    Send test event
+                </Button>
+                <Button size="sm" variant="ghost" className="ml-auto gap-1.5" onClick={() => load(1)} disabled={isLoading}>
+                    <RefreshCw className={cn("h-3.5 w-3.5", isLoading && "animate-spin")} />
+                    Refresh
+                </Button>
+            </div>
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+
+            {!isLoading && deliveries.length === 0 ? (
+                <div className="rounded-lg border border-dashed border-border py-8 text-center text-sm text-muted-foreground">
+                    No deliveries yet. Send a test event to check your endpoint.
+                </div>
+            ) : (
+                <div className="divide-y divide-border rounded-lg border border-border">
+                    {deliveries.map((d) => (
+                        <div key={d._id}>
+                            <button
+                                onClick={() => setExpanded(expanded === d._id ? null : d._id)}
+                                className="flex w-full items-center gap-3 px-3 py-2 text-left text-xs hover:bg-muted/50"
+                            >
+                                {expanded === d._id ? <ChevronDown className="h-3.5 w-3.5 shrink-0" /> : <ChevronRight className="h-3.5 w-3.5 shrink-0" />}
+                                <Badge variant={STATUS_BADGE[d.status]} className="w-16 justify-center">{d.status}</Badge>
+                                <span className="flex-1 truncate font-medium">
+                                    {eventLabel(d.event)}
+                                    {d.redeliveryOf && <span className="ml-1.5 text-muted-foreground">(redelivery)</span>}
+                                </span>
+                                <span className="font-mono text-muted-foreground">
+                                    {d.response ? `HTTP ${d.response.status} · ${d.response.durationMs} ms` : d.error ? "No response" : "—"}
+                                </span>
+                                <span className="w-28 text-right text-muted-foreground">{formatDistanceToNow(new Date(d.createdAt), { addSuffix: true })}</span>
+                            </button>
+                            {expanded === d._id && (
+                                <DeliveryDetail
+                                    delivery={d}
+                                    redelivering={sending === d._id}
+                                    onRedeliver={() => run(d._id, () => webhooksApi.redeliver(projectId, webhook._id, d._id))}
+                                />
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {deliveries.length < total && (
+                <div className="flex justify-center">
+                    <Button size="sm" variant="ghost" onClick={() => load(page + 1)} disabled={isLoading}>
+                        {isLoading && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+                        Load more
+                    </Button>
+                </div>
+            )}
+        </div>
+    )
+}
+
+function DeliveryDetail({ delivery, redelivering, onRedeliver }: {
+    delivery: WebhookDelivery
+    redelivering: boolean
+    onRedeliver: () => void
+}) {
+    return (
+        <div className="space-y-3 bg-muted/20 px-4 py-3 text-xs">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
+                <span>Attempt {delivery.attempt} of {delivery.maxAttempts}</span>
+                {delivery.status === "retrying" && delivery.nextRetryAt && (
+                    <span>Next retry {formatDistanceToNow(new Date(delivery.nextRetryAt), { addSuffix: true })}</span>
+                )}
+                <span className="font-mono">{delivery._id}</span>
+                <Button size="sm" variant="outline" className="ml-auto h-7 gap-1.5" onClick={onRedeliver} disabled={redelivering}>
+                    {redelivering ? <Loader1 className="h-3 w-3" /> : <RotateCcw className="h-3 w-3" />}
+                    Redeliver
+                </Button>
+            </div>
+            {delivery.error && <p className="text-destructive">{delivery.error}</p>}
+            <HttpMessage title={`Request · POST ${delivery.request.url}`} headers={delivery.request.headers} body={delivery.request.body} />
+            {delivery.response && (
+                <HttpMessage title={`Response · HTTP ${delivery.response.status}`} headers={delivery.response.headers} body={delivery.response.body} />
+            )}
+        </div>
+    )
+}
+
+function HttpMessage({ title, headers, body }: { title: string; headers: Record<string, string>; body: string }) {
+    let pretty = body
+    try {
+        pretty = JSON.stringify(JSON.parse(body), null, 2)
+    } catch {
+        // Not JSON — show as sent
+    }
+    return (
+        <div className="space-y-1">
+            <p className="truncate font-medium">{title}</p>
+            <pre className="max-h-60 overflow-auto rounded-md border border-border bg-background p-2 font-mono text-[11px] leading-relaxed">
+                {Object.entries(headers).map(([k, v]) => `${k}: ${v}`).join("\n")}
+                {"\n\n"}
+                {pretty || <span className="text-muted-foreground">(empty body)</span>}
+            </pre>
+        </div>
+    )
+}
@@ -0,0 +1,418 @@
+/**
+ * Chat Notifications Card Component
+ * Posts documentation events to Slack or Microsoft Teams incoming webhooks,
+ * with the events to send and a channel per project.
+ * In development, messages sent to the local mock receiver are listed here too.
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import Loader1 from "@/components/ui/loader1"
+import { MessageSquare, Check, AlertTriangle, Plus, Trash2, Send, RefreshCw, Star } from "lucide-react"
+import { formatDistanceToNow } from "date-fns"
+import {
+    chatNotificationsApi,
+    projectsApi,
+    CHAT_NOTIFICATION_EVENTS,
+    CHAT_NOTIFICATION_EVENT_LABELS,
+    type ApiProject,
+    type ChatNotificationEvent,
+    type ChatNotificationSettings,
+    type ChatProvider,
+} from "@/lib/api"
+import { cn } from "@/lib/utils"
+
+const PROVIDER_LABELS: Record<ChatProvider, string> = { slack: "Slack", teams: "Teams" }
+
+const PROVIDER_URL_HINTS: Record<ChatProvider, string> = {
+    slack: "https://hooks.slack.com/services/…",
+    teams: "https://…webhook.office.com/webhookb2/…",
+}
+
+// Route select values that aren't channel ids
+const ROUTE_DEFAULT = "__default"
+const ROUTE_MUTED = "__muted"
+
+export function ChatNotificationsCard() {
+    const [settings, setSettings] = useState<ChatNotificationSettings | null>(null)
+    const [projects, setProjects] = useState<ApiProject[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [testing, setTesting] = useState<string | null>(null)
+    const [testEvent, setTestEvent] = useState<ChatNotificationEvent>("review.requested")
+    const [feedback, setFeedback] = useState<{ type: "success" | "error"; message: string } | null>(null)
+
+    // Add-channel form
+    const [provider, setProvider] = useState<ChatProvider>("slack")
+    const [channelName, setChannelName] = useState("")
+    const [webhookUrl, setWebhookUrl] = useState("")
+
+    useEffect(() => {
+        const load = async () => {
+            setIsLoading(true)
+            try {
+                const [data, list] = await Promise.all([
+                    chatNotificationsApi.get(),
+                    projectsApi.list({ limit: 100, sort: "-updatedAt" }),
+                ])
+                setSettings(data)
+                setProjects(list.projects)
+            } catch (err: any) {
+                setFeedback({ type: "error", message: err?.message ?? "Failed to load notification settings" })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+        load()
+    }, [])
+
+    const save = async (action: () => Promise<ChatNotificationSettings>, success?: string) => {
+        setSaving(true)
+        try {
+            setSettings(await action())
+            setFeedback(success ? { type: "success", message: success } : null)
+            return true
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to update notification settings" })
+            return false
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleAddChannel = async () => {
+        const url = webhookUrl.trim()
+        if (!channelName.trim() || !/^https?:\/\/\S+$/.test(url)) {
+            setFeedback({ type: "error", message: "Enter a channel name and the incoming-webhook URL." })
+            return
+        }
+        const added = await save(
+            () => chatNotificationsApi.addChannel({ provider, name: channelName.trim(), webhookUrl: url }),
+            `${PROVIDER_LABELS[provider]} channel added.`,
+        )
+        if (added) {
+            setChannelName("")
+            setWebhookUrl("")
+        }
+    }
+
+    const handleTest = async (channelId: string) => {
+        setTesting(channelId)
+        try {
+            const res = await chatNotificationsApi.sendTest(channelId, testEvent)
+            setFeedback(res.ok
+                ? { type: "success", message: "Test message delivered." }
+                : { type: "error", message: res.error ?? `The channel answered HTTP ${res.status}.` })
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to send test message" })
+        } finally {
+            setTesting(null)
+        }
+    }
+
+    const toggleEvent = (event: ChatNotificationEvent) => {
+        if (!settings) return
+        const events = settings.events.includes(event)
+            ? settings.events.filter((e) => e !== event)
+            : [...settings.events, event]
+        save(() => chatNotificationsApi.update({ events }))
+    }
+
+    const setRoute = (projectId: string, value: string) => {
+        if (!settings) return
+        const routes = settings.routes.filter((r) => r.projectId !== projectId)
+        if (value !== ROUTE_DEFAULT) routes.push({ projectId, channelId: value === ROUTE_MUTED ? null : value })
+        save(() => chatNotificationsApi.update({ routes }))
+    }
+
+    const routeValue = (projectId: string) => {
+        const route = settings?.routes.find((r) => r.projectId === projectId)
+        if (!route) return ROUTE_DEFAULT
+        return route.channelId ?? ROUTE_MUTED
+    }
+
+    const defaultChannel = settings?.channels.find((c) => c._id === settings.defaultChannelId)
+
+    return (
+        <Card className="shadow-none">
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <div className="flex-1">
+                        <CardTitle className="flex items-center gap-2">
+                            <MessageSquare className="h-5 w-5" />
+                            Slack & Teams Notifications
+                        </CardTitle>
+                        <CardDescription>
+                            Post review requests, regenerated docs and security changes to your team's channels.
+                        </CardDescription>
+                    </div>
+                    {settings && !isLoading && (
+                        <Button
+                            variant={settings.enabled ? "default" : "secondary"}
+                            size="sm"
+                            onClick={() => save(() => chatNotificationsApi.update({ enabled: !settings.enabled }))}
+                            disabled={saving || settings.channels.length === 0}
+                            className="gap-2"
+                        >
+                            {settings.enabled ? <Check className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+                            {settings.enabled ? "Enabled" : "Disabled"}
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+
+            <CardContent className="space-y-6">
+                {feedback && (
+                    <div
+                        className={`rounded-lg border px-4 py-3 text-sm ${feedback.type === "success"
+                            ? "border-green-200 bg-green-50 text-green-800"
+                            : "border-red-200 bg-red-50 text-red-800"
+                            }`}
+                    >
+                        {feedback.message}
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="flex items-center gap-2">
+                        <Loader1 className="h-4 w-4" />
+                        <span className="text-sm text-muted-foreground">Loading notification settings...</span>
+                    </div>
+                ) : settings ? (
+                    <>
+                        {/* Channels */}
+                        <div className="space-y-3">
+                            <div className="flex items-center justify-between">
+                                <p className="text-sm font-medium">Channels</p>
+                                {settings.channels.length > 0 && (
+                                    <select
+                                        value={testEvent}
+                                        onChange={(e) => setTestEvent(e.target.value as ChatNotificationEvent)}
+                                        className="h-7 rounded-md border border-input bg-background px-2 text-xs"
+                                        title="Event used for test messages"
+                                    >
+                                        {CHAT_NOTIFICATION_EVENTS.map((event) => (
+                                            <option key={event} value={event}>Test: {CHAT_NOTIFICATION_EVENT_LABELS[event].label}</option>
+                                        ))}
+                                    </select>
+                                )}
+                            </div>
+                            {settings.channels.length === 0 ? (
+                                <p className="text-xs text-muted-foreground">
+                                    No channels yet. Create an incoming webhook in Slack or Teams and add it below.
+                                </p>
+                            ) : (
+                                <div className="divide-y divide-border rounded-lg border border-border">
+                                    {settings.channels.map((channel) => {
+                                        const isDefault = channel._id === settings.defaultChannelId
+                                        return (
+                                            <div key={channel._id} className="flex items-center gap-3 px-4 py-2.5">
+                                                <Badge variant="outline">{PROVIDER_LABELS[channel.provider]}</Badge>
+                                                <div className="min-w-0 flex-1">
+                                                    <p className="truncate text-sm font-medium">{channel.name}</p>
+                                                    <p className="truncate font-mono text-xs text-muted-foreground">{channel.webhookUrlHint}</p>
+                                                </div>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => !isDefault && save(() => chatNotificationsApi.update({ defaultChannelId: channel._id }))}
+                                                    disabled={saving}
+                                                    title={isDefault ? "Default channel" : "Make default"}
+                                                    className={cn("rounded p-1 transition-colors", isDefault ? "text-amber-500" : "text-muted-foreground hover:text-foreground")}
+                                                >
+                                                    <Star className={cn("h-4 w-4", isDefault && "fill-current")} />
+                                                </button>
+                                                <Button variant="outline" size="sm" onClick={() => handleTest(channel._id)} disabled={!!testing} className="gap-1.5">
+                                                    {testing === channel._id ? <Loader1 className="h-3.5 w-3.5" /> : <Send className="h-3.5 w-3.5" />}
+                                                    Test
+                                                </Button>
+                                                <button
+                                                    type="button"
+                                                    onClick={() => confirm(`Remove ${channel.name}? Projects routed to it fall back to the default channel.`) && save(() => chatNotificationsApi.removeChannel(channel._id))}
+                                                    disabled={saving}
+                                                    className="rounded p-1 text-muted-foreground transition-colors hover:text-destructive"
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </button>
+                                            </div>
+                                        )
+                                    })}
+                                </div>
+                            )}
+
+                            {/* Add channel */}
+                            <div className="space-y-2 rounded-lg border border-dashed border-border p-3">
+                                <div className="grid gap-2 sm:grid-cols-[auto_1fr]">
+                                    <select
+                                        value={provider}
+                                        onChange={(e) => setProvider(e.target.value as ChatProvider)}
+                                        className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+                                    >
+                                        <option value="slack">Slack</option>
+                                        <option value="teams">Microsoft Teams</option>
+                                    </select>
+                                    <Input placeholder="#docs-updates" value={channelName} onChange={(e) => setChannelName(e.target.value)} />
+                                </div>
+                                <Input
+                                    placeholder={PROVIDER_URL_HINTS[provider]}
+                                    value={webhookUrl}
+                                    onChange={(e) => setWebhookUrl(e.target.value)}
+                                    className="font-mono text-xs"
+                                />
+                                <div className="flex items-center justify-between">
+                                    {import.meta.env.DEV ? (
+                                        <button
+                                            type="button"
+                                            onClick={() => setWebhookUrl(`${window.location.origin}/__mock-chat/${provider}`)}
+                                            className="text-xs text-primary hover:underline"
+                                        >
+                                            Use local mock receiver
+                                        </button>
+                                    ) : <span />}
+                                    <Button size="sm" onClick={handleAddChannel} disabled={saving} className="gap-1.5">
+                                        <Plus className="h-3.5 w-3.5" />
+                                        Add channel
+                                    </Button>
+                                </div>
+                            </div>
+                        </div>
+
+                        {/* Events */}
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium">Events</p>
+                            <div className="grid gap-2 sm:grid-cols-2">
+                                {CHAT_NOTIFICATION_EVENTS.map((event) => (
+                                    <label key={event} className="flex cursor-pointer items-start gap-2 rounded-md border border-border px-3 py-2 hover:bg-muted/40">
+                                        <input
+                                            type="checkbox"
+                                            className="mt-0.5"
+                                            checked={settings.events.includes(event)}
+                                            onChange={() => toggleEvent(event)}
+                                            disabled={saving}
+                                        />
+                                        <span>
+                                            <span className="block text-sm">{CHAT_NOTIFICATION_EVENT_LABELS[event].label}</span>
+                                            <span className="block text-xs text-muted-foreground">{CHAT_NOTIFICATION_EVENT_LABELS[event].description}</span>
+                                        </span>
+                                    </label>
+                                ))}
+                            </div>
+                            <p className="text-xs text-muted-foreground">
+                                Messages name the project, section and who acted, with a link to the project's docs.
+                            </p>
+                        </div>
+
+                        {/* Per-project routing */}
+                        {settings.channels.length > 0 && projects.length > 0 && (
+                            <div className="space-y-2">
+                                <p className="text-sm font-medium">Project routing</p>
+                                <div className="divide-y divide-border rounded-lg border border-border">
+                                    {projects.map((p) => (
+                                        <div key={p._id} className="flex items-center gap-3 px-4 py-2">
+                                            <span className="flex-1 truncate text-sm">{p.meta?.name || p.repoName}</span>
+                                            <select
+                                                value={routeValue(p._id)}
+                                                onChange={(e) => setRoute(p._id, e.target.value)}
+                                                disabled={saving}
+                                                className="h-8 max-w-56 rounded-md border border-input bg-background px-2 text-xs"
+                                            >
+                                                <option value={ROUTE_DEFAULT}>Default{defaultChannel ? ` (${defaultChannel.name})` : ""}</option>
+                                                {settings.channels.map((c) => (
+                                                    <option key={c._id} value={c._id}>{PROVIDER_LABELS[c.provider]} · {c.name}</option>
+                                                ))}
+                                                <option value={ROUTE_MUTED}>Muted</option>
+                                            </select>
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
+                        {import.meta.env.DEV && <MockReceiverPanel />}
+                    </>
+                ) : null}
+            </CardContent>
+        </Card>
+    )
+}
+
+// ── Local mock receiver (dev only, see vite.config.ts) ──────────────────────
+
+interface MockMessage {
+    id: number
+    provider: string
+    receivedAt: string
+    payload: any
+}
+
+/** The headline of a Slack or Teams (Adaptive Card / MessageCard) payload. */
+function summarize(payload: any): string {
+    if (typeof payload?.text === "string" && payload.text) return payload.text
+    const block = payload?.blocks?.find((b: any) => b?.text?.text)
+    if (block) return block.text.text
+    const card = payload?.attachments?.[0]?.content
+    const textBlock = card?.body?.find((b: any) => b?.type === "TextBlock" && b.text)
+    if (textBlock) return textBlock.text
+    return payload?.summary ?? payload?.title ?? "(no text)"
+}
+
+function MockReceiverPanel() {
+    const [messages, setMessages] = useState<MockMessage[]>([])
+    const [expanded, setExpanded] = useState<number | null>(null)
+
+    const load = useCallback(async (method: "GET" | "DELETE" = "GET") => {
+        try {
+            const res = await fetch("/__mock-chat/messages", { method })
+            if (res.ok) setMessages((await res.json()).messages)
+        } catch {
+            // The receiver only exists on the Vite dev server
+        }
+    }, [])
+
+    useEffect(() => { load() }, [load])
+
+    return (
+        <div className="space-y-2 rounded-lg border border-border bg-muted/30 p-3">
+            <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Local mock receiver</p>
+                <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => load()} className="h-7 gap-1.5">
+                        <RefreshCw className="h-3.5 w-3.5" />
+                        Refresh
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => load("DELETE")} disabled={!messages.length} className="h-7">
+                        Clear
+                    </Button>
+                </div>
+            </div>
+            {messages.length === 0 ? (
+                <p className="text-xs text-muted-foreground">
+                    Nothing received yet. Add a channel with the mock receiver URL and send a test message.
+                </p>
+            ) : (
+                <div className="space-y-1">
+                    {messages.map((m) => (
+                        <div key={m.id} className="rounded-md border border-border bg-background text-xs">
+                            <button
+                                type="button"
+                                onClick={() => setExpanded(expanded === m.id ? null : m.id)}
+                                className="flex w-full items-center gap-2 px-3 py-2 text-left"
+                            >
+                                <Badge variant="outline">{PROVIDER_LABELS[m.provider as ChatProvider] ?? m.provider}</Badge>
+                                <span className="flex-1 truncate">{summarize(m.payload)}</span>
+                                <span className="shrink-0 text-muted-foreground">{formatDistanceToNow(new Date(m.receivedAt), { addSuffix: true })}</span>
+                            </button>
+                            {expanded === m.id && (
+                                <pre className="max-h-64 overflow-auto border-t border-border p-3 font-mono text-[11px]">
+                                    {JSON.stringify(m.payload, null, 2)}
+                                </pre>
+                            )}
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
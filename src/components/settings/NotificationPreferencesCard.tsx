@@ -0,0 +1,115 @@
+/**
+ * Notification Preferences Card Component
+ * Chooses, per notification type, whether it shows up in the in-app inbox
+ * and whether it is also sent by email.
+ */
+
+import { useState, useEffect } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import Loader1 from "@/components/ui/loader1"
+import { Bell } from "lucide-react"
+import {
+    notificationsApi,
+    NOTIFICATION_TYPES,
+    NOTIFICATION_TYPE_LABELS,
+    type NotificationPreferences,
+    type NotificationType,
+} from "@/lib/api"
+
+type Channel = "inApp" | "email"
+
+export function NotificationPreferencesCard() {
+    const [preferences, setPreferences] = useState<NotificationPreferences | null>(null)
+    const [isLoading, setIsLoading] = useState(true)
+    const [saving, setSaving] = useState<string | null>(null)
+    const [feedback, setFeedback] = useState<{ type: "success" | "error"; message: string } | null>(null)
+
+    useEffect(() => {
+        notificationsApi.getPreferences()
+            .then((data) => setPreferences(data.preferences))
+            .catch((err: any) => setFeedback({ type: "error", message: err?.message ?? "Failed to load notification preferences" }))
+            .finally(() => setIsLoading(false))
+    }, [])
+
+    const toggle = async (type: NotificationType, channel: Channel) => {
+        if (!preferences) return
+        const previous = preferences
+        const next = { ...preferences[type], [channel]: !preferences[type][channel] }
+        setPreferences({ ...preferences, [type]: next })
+        setSaving(`${type}:${channel}`)
+        try {
+            const data = await notificationsApi.updatePreferences({ [type]: next })
+            setPreferences(data.preferences)
+            setFeedback(null)
+        } catch (err: any) {
+            setPreferences(previous)
+            setFeedback({ type: "error", message: err?.message ?? "Failed to update notification preferences" })
+        } finally {
+            setSaving(null)
+        }
+    }
+
+    return (
+        <Card className="shadow-none">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Bell className="h-5 w-5" />
+                    Notifications
+                </CardTitle>
+                <CardDescription>
+                    Choose what appears in your inbox and what is also emailed to you.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {feedback && (
+                    <div
+                        className={`rounded-lg border px-4 py-3 text-sm ${feedback.type === "success"
+                            ? "border-green-200 bg-green-50 text-green-800"
+                            : "border-red-200 bg-red-50 text-red-800"
+                            }`}
+                    >
+                        {feedback.message}
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="flex items-center gap-2">
+                        <Loader1 className="h-4 w-4" />
+                        <span className="text-sm text-muted-foreground">Loading notification preferences...</span>
+                    </div>
+                ) : preferences ? (
+                    <div className="rounded-lg border border-border">
+                        <div className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center border-b border-border bg-muted/30 px-4 py-2 text-xs font-medium text-muted-foreground">
+                            <span>Type</span>
+                            <span className="text-center">In-app</span>
+                            <span className="text-center">Email</span>
+                        </div>
+                        {NOTIFICATION_TYPES.map((type) => (
+                            <div key={type} className="grid grid-cols-[1fr_4.5rem_4.5rem] items-center border-b border-border px-4 py-3 last:border-b-0">
+                                <div>
+                                    <p className="text-sm font-medium">{NOTIFICATION_TYPE_LABELS[type].label}</p>
+                                    <p className="text-xs text-muted-foreground">{NOTIFICATION_TYPE_LABELS[type].description}</p>
+                                </div>
+                                {(["inApp", "email"] as const).map((channel) => (
+                                    <div key={channel} className="flex justify-center">
+                                        {saving === `${type}:${channel}` ? (
+                                            <Loader1 className="h-4 w-4" />
+                                        ) : (
+                                            <input
+                                                type="checkbox"
+                                                checked={preferences[type]?.[channel] ?? false}
+                                                onChange={() => toggle(type, channel)}
+                                                disabled={!!saving}
+                                                aria-label={`${NOTIFICATION_TYPE_LABELS[type].label} (${channel === "inApp" ? "in-app" : "email"})`}
+                                            />
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
+                        ))}
+                    </div>
+                ) : null}
+            </CardContent>
+        </Card>
+    )
+}
@@ -0,0 +1,166 @@
+/**
+ * Organization Card Component
+ * Renames the active organization, sets the access every member gets to its
+ * projects by default, and lets members leave or the owner delete it.
+ */
+
+import { useState, useEffect } from "react"
+import { useNavigate } from "react-router-dom"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select } from "@/components/ui/select"
+import Loader1 from "@/components/ui/loader1"
+import { Building2, LogOut, Trash2 } from "lucide-react"
+import {
+    organizationsApi,
+    ORG_ROLE_LABELS,
+    type ApiOrganization,
+    type OrgDefaultShareRole,
+} from "@/lib/api"
+import { useWorkspaceStore, canAdministerOrg } from "@/store/workspace"
+
+const DEFAULT_SHARE_OPTIONS: Record<OrgDefaultShareRole, string> = {
+    none: "No access — invite per project",
+    viewer: "Viewer — every member can read",
+    editor: "Editor — every member can edit",
+}
+
+export function OrganizationCard({ org }: { org: ApiOrganization }) {
+    const navigate = useNavigate()
+    const { upsertOrganization, removeOrganization } = useWorkspaceStore()
+    const canAdminister = canAdministerOrg(org)
+
+    const [name, setName] = useState(org.name)
+    const [saving, setSaving] = useState<"name" | "defaultShareRole" | "danger" | null>(null)
+    const [feedback, setFeedback] = useState<{ type: "success" | "error"; message: string } | null>(null)
+
+    useEffect(() => {
+        setName(org.name)
+    }, [org.name])
+
+    const update = async (field: "name" | "defaultShareRole", data: Partial<Pick<ApiOrganization, "name" | "defaultShareRole">>) => {
+        setSaving(field)
+        setFeedback(null)
+        try {
+            const res = await organizationsApi.update(org._id, data)
+            upsertOrganization(res.organization)
+            setFeedback({ type: "success", message: field === "name" ? "Organization renamed." : "Default sharing updated." })
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to update organization" })
+        } finally {
+            setSaving(null)
+        }
+    }
+
+    const handleLeave = async () => {
+        if (!confirm(`Leave ${org.name}? You will lose access to its projects unless they are shared with you directly.`)) return
+        setSaving("danger")
+        try {
+            await organizationsApi.leave(org._id)
+            removeOrganization(org._id)
+            navigate("/projects")
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to leave organization" })
+            setSaving(null)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!confirm(`Delete ${org.name}? Members lose access and its subscription is cancelled. Delete or move its projects first.`)) return
+        setSaving("danger")
+        try {
+            await organizationsApi.delete(org._id)
+            removeOrganization(org._id)
+            navigate("/projects")
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to delete organization" })
+            setSaving(null)
+        }
+    }
+
+    return (
+        <Card className="shadow-none">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Building2 className="h-5 w-5" />
+                    Organization
+                </CardTitle>
+                <CardDescription>
+                    Projects owned by {org.name} stay with the organization when people come and go. Your role: {ORG_ROLE_LABELS[org.role].label}.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {feedback && (
+                    <div
+                        className={`rounded-lg border px-4 py-3 text-sm ${feedback.type === "success"
+                            ? "border-green-200 bg-green-50 text-green-800"
+                            : "border-red-200 bg-red-50 text-red-800"
+                            }`}
+                    >
+                        {feedback.message}
+                    </div>
+                )}
+
+                <form
+                    className="space-y-2"
+                    onSubmit={(e) => {
+                        e.preventDefault()
+                        if (name.trim() && name.trim() !== org.name) update("name", { name: name.trim() })
+                    }}
+                >
+                    <Label htmlFor="org-name" className="text-sm font-medium">Name</Label>
+                    <div className="flex gap-2">
+                        <Input
+                            id="org-name"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            disabled={!canAdminister || !!saving}
+                        />
+                        {canAdminister && (
+                            <Button type="submit" variant="outline" disabled={!!saving || !name.trim() || name.trim() === org.name}>
+                                {saving === "name" && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+                                Save
+                            </Button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="space-y-2">
+                    <Label htmlFor="org-default-share" className="text-sm font-medium">Default project access</Label>
+                    <div className="flex items-center gap-2">
+                        <Select
+                            id="org-default-share"
+                            value={org.defaultShareRole}
+                            onChange={(e) => update("defaultShareRole", { defaultShareRole: e.target.value as OrgDefaultShareRole })}
+                            disabled={!canAdminister || !!saving}
+                        >
+                            {(Object.keys(DEFAULT_SHARE_OPTIONS) as OrgDefaultShareRole[]).map((role) => (
+                                <option key={role} value={role}>{DEFAULT_SHARE_OPTIONS[role]}</option>
+                            ))}
+                        </Select>
+                        {saving === "defaultShareRole" && <Loader1 className="h-4 w-4 shrink-0" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                        Applies to every project the organization owns. Project shares and custom roles can still grant more.
+                    </p>
+                </div>
+
+                <div className="border-t border-border pt-4">
+                    {org.role === "owner" ? (
+                        <Button variant="destructive" size="sm" onClick={handleDelete} disabled={!!saving}>
+                            {saving === "danger" ? <Loader1 className="mr-1.5 h-3.5 w-3.5" /> : <Trash2 className="mr-1.5 h-3.5 w-3.5" />}
+                            Delete organization
+                        </Button>
+                    ) : (
+                        <Button variant="outline" size="sm" onClick={handleLeave} disabled={!!saving}>
+                            {saving === "danger" ? <Loader1 className="mr-1.5 h-3.5 w-3.5" /> : <LogOut className="mr-1.5 h-3.5 w-3.5" />}
+                            Leave organization
+                        </Button>
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
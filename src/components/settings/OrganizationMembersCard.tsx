@@ -0,0 +1,253 @@
+/**
+ * Organization Members Card Component
+ * Lists the active organization's members and pending invites, invites new
+ * people with an org role, and shows how many of the organization's billing
+ * seats are in use.
+ */
+
+import { useState, useEffect, useCallback } from "react"
+import { useNavigate } from "react-router-dom"
+import { formatDistanceToNow } from "date-fns"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select } from "@/components/ui/select"
+import { Badge } from "@/components/ui/badge"
+import Loader1 from "@/components/ui/loader1"
+import { Users, UserPlus, Mail, Ban } from "lucide-react"
+import {
+    organizationsApi,
+    ORG_ROLES,
+    ORG_ROLE_LABELS,
+    type ApiOrganization,
+    type ApiOrgMember,
+    type OrgRole,
+} from "@/lib/api"
+import { useAuthStore } from "@/store/auth"
+import { useWorkspaceStore, canAdministerOrg } from "@/store/workspace"
+
+export function OrganizationMembersCard({ org }: { org: ApiOrganization }) {
+    const navigate = useNavigate()
+    const currentUser = useAuthStore((s) => s.user)
+    const reloadOrganizations = useWorkspaceStore((s) => s.load)
+    const canAdminister = canAdministerOrg(org)
+    // Admins manage everyone but owners; only owners hand out ownership
+    const assignableRoles = org.role === "owner" ? ORG_ROLES : ORG_ROLES.filter((r) => r !== "owner")
+    const seatsFull = org.seats.used >= org.seats.total
+
+    const [members, setMembers] = useState<ApiOrgMember[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [busyId, setBusyId] = useState<string | null>(null)
+    const [feedback, setFeedback] = useState<{ type: "success" | "error"; message: string } | null>(null)
+
+    const [inviteEmail, setInviteEmail] = useState("")
+    const [inviteRole, setInviteRole] = useState<OrgRole>("member")
+    const [isInviting, setIsInviting] = useState(false)
+
+    const loadMembers = useCallback(async () => {
+        setIsLoading(true)
+        try {
+            const data = await organizationsApi.listMembers(org._id)
+            setMembers(data.members)
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to load members" })
+        } finally {
+            setIsLoading(false)
+        }
+    }, [org._id])
+
+    useEffect(() => {
+        loadMembers()
+    }, [loadMembers])
+
+    const handleInvite = async (e: React.FormEvent) => {
+        e.preventDefault()
+        const email = inviteEmail.trim()
+        if (!email) return
+        if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+            setFeedback({ type: "error", message: "Please enter a valid email address." })
+            return
+        }
+        setIsInviting(true)
+        setFeedback(null)
+        try {
+            const data = await organizationsApi.inviteMembers(org._id, [{ email, role: inviteRole }])
+            const result = data.results[0]
+            if (result?.status === "skipped") {
+                setFeedback({ type: "error", message: result.reason ?? "Could not invite." })
+            } else {
+                setFeedback({ type: "success", message: `Invite sent to ${email}.` })
+                setInviteEmail("")
+                if (result?.member) setMembers((m) => [...m, result.member!])
+                // Seat usage changed
+                reloadOrganizations()
+            }
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to send invite" })
+        } finally {
+            setIsInviting(false)
+        }
+    }
+
+    const handleRoleChange = async (member: ApiOrgMember, role: OrgRole) => {
+        setBusyId(member._id)
+        setFeedback(null)
+        try {
+            const data = await organizationsApi.updateMemberRole(org._id, member._id, role)
+            setMembers((m) => m.map((x) => (x._id === member._id ? data.member : x)))
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to change role" })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleRemove = async (member: ApiOrgMember) => {
+        const prompt = member.status === "pending"
+            ? `Cancel the invite for ${member.email}?`
+            : `Remove ${member.user?.name || member.email} from ${org.name}? Projects shared with them directly stay shared.`
+        if (!confirm(prompt)) return
+        setBusyId(member._id)
+        setFeedback(null)
+        try {
+            await organizationsApi.removeMember(org._id, member._id)
+            setMembers((m) => m.filter((x) => x._id !== member._id))
+            reloadOrganizations()
+        } catch (err: any) {
+            setFeedback({ type: "error", message: err?.message ?? "Failed to remove member" })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    return (
+        <Card className="shadow-none">
+            <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                    <Users className="h-5 w-5" />
+                    Members
+                </CardTitle>
+                <CardDescription>
+                    {org.seats.used} of {org.seats.total} seats in use. Pending invites hold a seat until they are accepted or cancelled.
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                {feedback && (
+                    <div
+                        className={`rounded-lg border px-4 py-3 text-sm ${feedback.type === "success"
+                            ? "border-green-200 bg-green-50 text-green-800"
+                            : "border-red-200 bg-red-50 text-red-800"
+                            }`}
+                    >
+                        {feedback.message}
+                    </div>
+                )}
+
+                {canAdminister && (
+                    seatsFull ? (
+                        <div className="flex items-center justify-between gap-3 rounded-lg border border-border bg-muted/30 px-4 py-3 text-sm">
+                            <span className="text-muted-foreground">All seats are taken. Add seats to invite more people.</span>
+                            {org.role === "owner" && (
+                                <Button size="sm" variant="outline" className="shrink-0" onClick={() => navigate("/settings?tab=billing")}>
+                                    Add seats
+                                </Button>
+                            )}
+                        </div>
+                    ) : (
+                        <form onSubmit={handleInvite} className="flex items-end gap-2">
+                            <div className="relative flex-1">
+                                <Mail className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    type="email"
+                                    placeholder="colleague@example.com"
+                                    className="pl-9"
+                                    value={inviteEmail}
+                                    onChange={(e) => setInviteEmail(e.target.value)}
+                                    disabled={isInviting}
+                                />
+                            </div>
+                            <Select
+                                value={inviteRole}
+                                onChange={(e) => setInviteRole(e.target.value as OrgRole)}
+                                className="w-[110px]"
+                                disabled={isInviting}
+                            >
+                                {assignableRoles.map((role) => (
+                                    <option key={role} value={role}>{ORG_ROLE_LABELS[role].label}</option>
+                                ))}
+                            </Select>
+                            <Button type="submit" disabled={isInviting || !inviteEmail.trim()} className="shrink-0">
+                                {isInviting ? <Loader1 className="h-4 w-4" /> : <UserPlus className="h-4 w-4" />}
+                                <span className="ml-1.5 hidden sm:inline">Invite</span>
+                            </Button>
+                        </form>
+                    )
+                )}
+
+                {isLoading ? (
+                    <div className="flex items-center gap-2">
+                        <Loader1 className="h-4 w-4" />
+                        <span className="text-sm text-muted-foreground">Loading members...</span>
+                    </div>
+                ) : (
+                    <div className="divide-y divide-border rounded-lg border border-border">
+                        {members.map((member) => {
+                            const displayName = member.user?.name || member.user?.email || member.email
+                            const isSelf = !!currentUser && member.user?._id === currentUser.id
+                            const canManage = canAdminister && !isSelf && (org.role === "owner" || member.role !== "owner")
+                            return (
+                                <div key={member._id} className="flex items-center justify-between gap-3 px-4 py-3">
+                                    <div className="flex items-center gap-3 min-w-0">
+                                        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-full bg-primary/10 text-primary text-sm font-semibold uppercase">
+                                            {displayName[0]}
+                                        </div>
+                                        <div className="min-w-0">
+                                            <p className="text-sm font-medium truncate">
+                                                {displayName}
+                                                {isSelf && <span className="ml-1.5 text-xs font-normal text-muted-foreground">(you)</span>}
+                                            </p>
+                                            <p className="text-xs text-muted-foreground truncate">
+                                                {member.status === "pending"
+                                                    ? `Invited ${formatDistanceToNow(new Date(member.invitedAt), { addSuffix: true })}`
+                                                    : member.user?.name ? member.email : ORG_ROLE_LABELS[member.role].description}
+                                            </p>
+                                        </div>
+                                    </div>
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {member.status === "pending" && <Badge variant="warning">Pending</Badge>}
+                                        {canManage ? (
+                                            <>
+                                                <Select
+                                                    value={member.role}
+                                                    onChange={(e) => handleRoleChange(member, e.target.value as OrgRole)}
+                                                    className="h-8 w-[100px] text-xs"
+                                                    disabled={busyId === member._id}
+                                                >
+                                                    {assignableRoles.map((role) => (
+                                                        <option key={role} value={role}>{ORG_ROLE_LABELS[role].label}</option>
+                                                    ))}
+                                                </Select>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                                                    title={member.status === "pending" ? "Cancel invite" : "Remove member"}
+                                                    disabled={busyId === member._id}
+                                                    onClick={() => handleRemove(member)}
+                                                >
+                                                    {busyId === member._id ? <Loader1 className="h-3.5 w-3.5" /> : <Ban className="h-3.5 w-3.5" />}
+                                                </Button>
+                                            </>
+                                        ) : (
+                                            <Badge variant="secondary">{ORG_ROLE_LABELS[member.role].label}</Badge>
+                                        )}
+                                    </div>
+                                </div>
+                            )
+                        })}
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
@@ -14,3 +14,11 @@ export { useSearchAndFilter } from "./useSearchAndFilter";
 export { usePagination } from "./usePagination";
 export { useNotification } from "./useNotification";
 export { useGeneralSettings } from "./useGeneralSettings";
+
+// Documentation review comments
+export { useTextSelectionAnchor } from "./useTextSelectionAnchor";
+export { useCommentHighlights } from "./useCommentHighlights";
+
+// Markdown editor
+export { useDraftAutosave } from "./useDraftAutosave";
+export { useCollabSection } from "./useCollabSection";
@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { useCollabStore } from "@/store/collab"
+import { peerColor, type RemoteCursor } from "@/lib/collab"
+import type { TextCrdt } from "@/lib/crdt"
+
+/**
+ * Binds an editor to the realtime replica of `section` while `enabled`.
+ * Remote edits are pushed through `setText`; local edits go through the
+ * returned `onChange`. `live` is false when realtime is unavailable — the
+ * editor then works on its own copy and saves with a version precondition.
+ */
+export function useCollabSection(
+  section: string | null,
+  enabled: boolean,
+  savedContent: string,
+  setText: (text: string) => void,
+) {
+  const status = useCollabStore((s) => s.status)
+  const peers = useCollabStore((s) => s.peers)
+  const [doc, setDoc] = useState<TextCrdt | null>(null)
+
+  useEffect(() => {
+    if (!section || !enabled || status !== "live") return
+    const { openSection, closeSection, subscribe } = useCollabStore.getState()
+    let cancelled = false
+    const unsubscribe = subscribe(section, setText)
+    openSection(section, savedContent).then((d) => {
+      if (cancelled || !d) return
+      setDoc(d)
+      setText(d.text)
+    })
+    return () => {
+      cancelled = true
+      unsubscribe()
+      closeSection(section)
+      setDoc(null)
+    }
+    // savedContent only seeds a brand-new replica
+  }, [section, enabled, status]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const onChange = useCallback(
+    (text: string) => {
+      setText(text)
+      if (doc && section) useCollabStore.getState().editSection(section, text)
+    },
+    [doc, section, setText],
+  )
+
+  const onSelectionChange = useCallback(
+    (start: number, end: number) => {
+      if (!doc) return
+      useCollabStore.getState().setPresence({
+        cursor: { anchor: doc.idBefore(start), head: doc.idBefore(end) },
+      })
+    },
+    [doc],
+  )
+
+  // Peers editing the same section, with carets mapped into the local text
+  const remoteCursors: RemoteCursor[] = useMemo(() => {
+    if (!doc || !section) return []
+    return Object.values(peers)
+      .filter((p) => p.presence.tab === section && p.presence.editing && p.presence.cursor)
+      .map((p) => ({
+        clientId: p.clientId,
+        name: p.user.name,
+        color: peerColor(p.clientId),
+        offset: doc.indexAfter(p.presence.cursor!.head),
+      }))
+    // doc mutates in place; re-map whenever peers move or the text changes
+  }, [doc, section, peers, doc?.text]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  return { live: !!doc, onChange, onSelectionChange, remoteCursors }
+}
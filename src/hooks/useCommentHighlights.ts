@@ -0,0 +1,83 @@
+import { useEffect, type RefObject } from "react"
+
+const HIGHLIGHT_NAME = "doc-comment"
+
+/** Collapse whitespace so rendered text and stored quotes compare equal. */
+function normalise(text: string) {
+  return text.replace(/\s+/g, " ").toLowerCase()
+}
+
+/**
+ * Build DOM ranges for each quote inside `container`. Text is concatenated
+ * across nodes so quotes spanning bold/code/link boundaries still match.
+ */
+function findRanges(container: HTMLElement, quotes: string[]): Range[] {
+  const nodes: Text[] = []
+  const starts: number[] = []
+  let text = ""
+  const walker = document.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  let node: Node | null
+  while ((node = walker.nextNode())) {
+    const value = (node.textContent ?? "").replace(/\s+/g, " ")
+    nodes.push(node as Text)
+    starts.push(text.length)
+    text += value
+  }
+  const haystack = text.toLowerCase()
+
+  // Map an offset in the concatenated string back to (node, offset)
+  const locate = (pos: number): [Text, number] | null => {
+    for (let i = nodes.length - 1; i >= 0; i--) {
+      if (starts[i] <= pos) {
+        return [nodes[i], Math.min(pos - starts[i], nodes[i].length)]
+      }
+    }
+    return null
+  }
+
+  const ranges: Range[] = []
+  for (const quote of quotes) {
+    const needle = normalise(quote.trim())
+    if (!needle) continue
+    const idx = haystack.indexOf(needle)
+    if (idx < 0) continue
+    const start = locate(idx)
+    const end = locate(idx + needle.length)
+    if (!start || !end) continue
+    const range = document.createRange()
+    range.setStart(start[0], start[1])
+    range.setEnd(end[0], end[1])
+    ranges.push(range)
+  }
+  return ranges
+}
+
+/**
+ * Highlight commented quotes in the rendered documentation using the CSS
+ * Custom Highlight API (no DOM mutation, so React's tree stays untouched).
+ * Browsers without the API simply show no highlight.
+ */
+export function useCommentHighlights(
+  containerRef: RefObject<HTMLElement | null>,
+  quotes: string[],
+  deps: unknown[] = [],
+) {
+  const key = quotes.join("\u0000")
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container || typeof CSS === "undefined" || !("highlights" in CSS)) return
+
+    // Wait a frame so freshly rendered markdown is in the DOM
+    const frame = requestAnimationFrame(() => {
+      const ranges = findRanges(container, quotes)
+      if (ranges.length > 0) CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(...ranges))
+      else CSS.highlights.delete(HIGHLIGHT_NAME)
+    })
+
+    return () => {
+      cancelAnimationFrame(frame)
+      CSS.highlights.delete(HIGHLIGHT_NAME)
+    }
+  }, [containerRef, key, ...deps]) // eslint-disable-line react-hooks/exhaustive-deps
+}
@@ -0,0 +1,60 @@
+import { useState, useEffect, useCallback } from "react"
+import { loadDraft, saveDraft, deleteDraft, type DocDraft } from "@/lib/draft-store"
+
+const SAVE_DELAY_MS = 800
+
+/**
+ * Autosaves `content` to IndexedDB under `key` while it differs from
+ * `baseContent`. On mount, a stored draft that differs from the base is
+ * exposed as `pendingDraft` so the user can restore or discard it; autosave
+ * waits for that decision so the old draft isn't overwritten.
+ */
+export function useDraftAutosave(key: string | null, content: string, baseContent: string) {
+  const [pendingDraft, setPendingDraft] = useState<DocDraft | null>(null)
+  const [checked, setChecked] = useState(false)
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null)
+
+  // Look for a draft left over from an earlier session
+  useEffect(() => {
+    let cancelled = false
+    setChecked(false)
+    setPendingDraft(null)
+    if (!key) return
+    loadDraft(key).then((draft) => {
+      if (cancelled) return
+      if (draft && draft.content !== baseContent) setPendingDraft(draft)
+      setChecked(true)
+    })
+    return () => { cancelled = true }
+    // baseContent is only read when the key changes
+  }, [key]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Debounced save
+  useEffect(() => {
+    if (!key || !checked || pendingDraft) return
+    const timer = setTimeout(() => {
+      if (content === baseContent) {
+        deleteDraft(key)
+        setLastSavedAt(null)
+        return
+      }
+      const updatedAt = Date.now()
+      saveDraft({ key, content, baseContent, updatedAt }).then(() => setLastSavedAt(updatedAt))
+    }, SAVE_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [key, checked, pendingDraft, content, baseContent])
+
+  /** Accept the stored draft; returns its content for the editor */
+  const restore = useCallback(() => {
+    const draft = pendingDraft
+    setPendingDraft(null)
+    return draft?.content ?? null
+  }, [pendingDraft])
+
+  const discard = useCallback(() => {
+    if (key) deleteDraft(key)
+    setPendingDraft(null)
+  }, [key])
+
+  return { pendingDraft, lastSavedAt, restore, discard }
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useCallback, type RefObject } from "react"
+
+export interface TextSelectionAnchor {
+  quote: string
+  /** id of the closest h1–h3 above the selection, if any */
+  headingSlug: string | null
+  headingText: string | null
+  /** Viewport rect of the selection, for positioning a floating action */
+  rect: DOMRect
+}
+
+/** The last heading with an id that precedes `node` in document order. */
+function headingBefore(container: HTMLElement, node: Node): HTMLElement | null {
+  let found: HTMLElement | null = null
+  container.querySelectorAll<HTMLElement>("h1[id], h2[id], h3[id]").forEach((h) => {
+    if (h.compareDocumentPosition(node) & Node.DOCUMENT_POSITION_FOLLOWING) found = h
+  })
+  return found
+}
+
+/**
+ * Tracks a non-empty text selection inside `containerRef` so the user can
+ * anchor a comment to it. Cleared when the selection collapses.
+ */
+export function useTextSelectionAnchor(containerRef: RefObject<HTMLElement | null>, enabled = true) {
+  const [selection, setSelection] = useState<TextSelectionAnchor | null>(null)
+
+  const clear = useCallback(() => setSelection(null), [])
+
+  useEffect(() => {
+    if (!enabled) {
+      setSelection(null)
+      return
+    }
+
+    const handleMouseUp = () => {
+      const container = containerRef.current
+      const sel = window.getSelection()
+      if (!container || !sel || sel.isCollapsed || sel.rangeCount === 0) {
+        setSelection(null)
+        return
+      }
+      const range = sel.getRangeAt(0)
+      if (!container.contains(range.commonAncestorContainer)) {
+        setSelection(null)
+        return
+      }
+      const quote = sel.toString().trim()
+      if (!quote) {
+        setSelection(null)
+        return
+      }
+      const heading = headingBefore(container, range.startContainer)
+      setSelection({
+        quote,
+        headingSlug: heading?.id ?? null,
+        headingText: heading?.textContent?.trim() ?? null,
+        rect: range.getBoundingClientRect(),
+      })
+    }
+
+    document.addEventListener("mouseup", handleMouseUp)
+    return () => document.removeEventListener("mouseup", handleMouseUp)
+  }, [containerRef, enabled])
+
+  return { selection, clear }
+}
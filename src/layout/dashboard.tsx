@@ -10,6 +10,9 @@ import { ThemeToggle } from "@/components/theme-toggle"
 import { useTheme } from "../providers/theme-provider"
 import ApplicationLogo from "../components/application-logo"
 import { PlanBadge } from "@/components/billing/PlanBadge"
+import { CommandPalette, NotificationBell, WorkspaceSwitcher } from "@/components/common"
+import { useCommandPaletteStore } from "@/store/command-palette"
+import { useWorkspaceStore } from "@/store/workspace"
 
 export function DashboardLayout() {
   const location = useLocation()
@@ -17,11 +20,14 @@ export function DashboardLayout() {
   const [searchParams, setSearchParams] = useSearchParams()
   const { user, clearAuth } = useAuthStore()
   const { load: loadSubscription, reset: resetSubscription } = useSubscriptionStore()
+  const openPalette = useCommandPaletteStore((s) => s.openPalette)
+  const { currentOrgId, reset: resetWorkspace } = useWorkspaceStore()
 
-  // Load subscription once when the layout mounts (user is authenticated)
+  // Load the subscription when the layout mounts and again per workspace —
+  // an organization's plan and seats replace the personal subscription
   useEffect(() => {
     loadSubscription()
-  }, [loadSubscription])
+  }, [loadSubscription, currentOrgId])
 
   const searchValue = searchParams.get("q") ?? ""
 
@@ -50,6 +56,17 @@ export function DashboardLayout() {
     setMobileMenuOpen(false)
   }, [location.pathname])
 
+  // Ctrl/⌘+K opens the documentation search, unless a focused editor claimed it
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || !(e.metaKey || e.ctrlKey) || e.key.toLowerCase() !== "k") return
+      e.preventDefault()
+      openPalette()
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [openPalette])
+
   useEffect(() => {
     const handleClickOutside = (e: MouseEvent) => {
       if (dropdownRef.current && !dropdownRef.current.contains(e.target as Node)) {
@@ -83,6 +100,7 @@ export function DashboardLayout() {
     } finally {
       clearAuth()
       resetSubscription()
+      resetWorkspace()
       navigate("/login", { replace: true })
     }
   }
@@ -106,6 +124,10 @@ export function DashboardLayout() {
 
             <ApplicationLogo link="/projects" className="!h-7" />
 
+            <div className="h-4 w-px bg-border" />
+
+            <WorkspaceSwitcher />
+
             <div className="h-4 w-px bg-border hidden md:block" />
 
             <a
@@ -121,6 +143,16 @@ export function DashboardLayout() {
 
           {/* Right: search (desktop) + avatar */}
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => openPalette()}
+              className="hidden md:flex items-center gap-2 h-9 rounded-2xl border border-border bg-muted/50 px-3 text-sm text-muted-foreground hover:text-foreground transition-colors"
+              title="Search all documentation (Ctrl+K)"
+            >
+              <BookOpen className="h-4 w-4" />
+              <span>Search docs</span>
+              <kbd className="rounded border border-border bg-background px-1.5 text-[10px] font-medium">⌘K</kbd>
+            </button>
+
             <div className="relative w-56 hidden md:block">
               <Search className="absolute left-3.5 top-3 h-4 w-4 text-muted-foreground" />
               <Input
@@ -132,6 +164,8 @@ export function DashboardLayout() {
               />
             </div>
 
+            <NotificationBell />
+
             {/* Avatar dropdown */}
             <div className="relative" ref={dropdownRef}>
               <button
@@ -243,6 +277,17 @@ export function DashboardLayout() {
               />
             </div>
 
+            <button
+              onClick={() => {
+                setMobileMenuOpen(false)
+                openPalette()
+              }}
+              className="flex w-full items-center gap-3 rounded-md px-3 py-2 mb-4 text-sm font-medium text-muted-foreground bg-muted/50 hover:text-foreground transition-colors"
+            >
+              <BookOpen className="h-4 w-4" />
+              Search documentation
+            </button>
+
             {/* Primary nav */}
             <p className="text-xs font-semibold text-muted-foreground uppercase tracking-wider mb-2">Navigation</p>
             <nav className="flex flex-col gap-1 mb-4">
@@ -306,7 +351,8 @@ export function DashboardLayout() {
       </header>
 
       <main className="container mx-auto max-w-7xl px-4 sm:px-6 py-4 sm:py-6">
-        <Outlet />
+        {/* Remount pages on workspace switch so they refetch in the new scope */}
+        <Outlet key={currentOrgId ?? "personal"} />
       </main>
 
       <footer className="relative z-10 border-t border-border">
@@ -321,6 +367,8 @@ export function DashboardLayout() {
           </div>
         </div>
       </footer>
+
+      <CommandPalette />
     </div>
   )
 }
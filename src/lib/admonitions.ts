@@ -0,0 +1,175 @@
+/**
+ * admonitions.ts — Callout blocks shared by the renderer and the exporters.
+ *
+ * Two source syntaxes are supported:
+ *
+ *   ::: warning Optional title        > [!WARNING]
+ *   Body markdown                     > Body markdown
+ *   :::
+ *
+ * `remarkAdmonitions` turns both into `<aside data-admonition="…">` for
+ * DocRenderer. Exporters work on text, so `normalizeAdmonitions` rewrites the
+ * GitHub form into the `:::` form that markdown-converter.ts already parses.
+ */
+import type { Root, Parent, Paragraph, Text, Blockquote, RootContent } from "mdast";
+
+export type AdmonitionType = "note" | "tip" | "warning" | "danger";
+
+export const ADMONITION_TYPES: AdmonitionType[] = ["note", "tip", "warning", "danger"];
+
+export const ADMONITION_META: Record<AdmonitionType, { label: string; emoji: string }> = {
+  note: { label: "Note", emoji: "📝" },
+  tip: { label: "Tip", emoji: "💡" },
+  warning: { label: "Warning", emoji: "⚠️" },
+  danger: { label: "Danger", emoji: "⛔" },
+};
+
+/** Aliases (incl. GitHub's alert names) → our four callout types */
+const TYPE_ALIASES: Record<string, AdmonitionType> = {
+  note: "note",
+  info: "note",
+  important: "note",
+  tip: "tip",
+  hint: "tip",
+  warning: "warning",
+  caution: "danger",
+  danger: "danger",
+  error: "danger",
+};
+
+export function toAdmonitionType(name: string): AdmonitionType | null {
+  return TYPE_ALIASES[name.toLowerCase()] ?? null;
+}
+
+// ── Text normalisation (exports) ────────────────────────────────────────────
+
+/**
+ * Rewrite `> [!TYPE]` blockquotes as `::: type` blocks and canonicalise type
+ * aliases, leaving fenced code untouched.
+ */
+export function normalizeAdmonitions(markdown: string): string {
+  const lines = markdown.split("\n");
+  const out: string[] = [];
+  let inFence = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    if (inFence) {
+      out.push(line);
+      continue;
+    }
+
+    const container = line.match(/^:::\s*(\w+)(.*)$/);
+    if (container) {
+      const type = toAdmonitionType(container[1]);
+      out.push(type ? `::: ${type}${container[2].trimEnd() ? ` ${container[2].trim()}` : ""}` : line);
+      continue;
+    }
+
+    const alert = line.match(/^>\s*\[!(\w+)\]\s*(.*)$/);
+    const alertType = alert && toAdmonitionType(alert[1]);
+    if (alert && alertType) {
+      out.push(`::: ${alertType}${alert[2] ? ` ${alert[2]}` : ""}`);
+      while (i + 1 < lines.length && /^>/.test(lines[i + 1])) {
+        out.push(lines[++i].replace(/^>\s?/, ""));
+      }
+      out.push(":::");
+      continue;
+    }
+    out.push(line);
+  }
+  return out.join("\n");
+}
+
+// ── remark plugin (viewer / portal) ─────────────────────────────────────────
+
+const OPEN_RE = /^:::[ \t]*(\w+)[ \t]*([^\n]*)(?:\n|$)/;
+const CLOSE_RE = /(?:^|\n)[ \t]*:::[ \t]*$/;
+const ALERT_RE = /^\[!(\w+)\][ \t]*([^\n]*)(?:\n|$)/;
+
+function firstText(node: RootContent | undefined): Text | null {
+  if (node?.type !== "paragraph") return null;
+  const first = node.children[0];
+  return first?.type === "text" ? first : null;
+}
+
+function lastText(node: RootContent | undefined): Text | null {
+  if (node?.type !== "paragraph") return null;
+  const last = node.children[node.children.length - 1];
+  return last?.type === "text" ? last : null;
+}
+
+function isEmptyParagraph(node: Paragraph): boolean {
+  return node.children.every((c) => c.type === "text" && !c.value.trim());
+}
+
+function markAdmonition(node: Blockquote, type: AdmonitionType, title: string) {
+  node.data = {
+    ...node.data,
+    hName: "aside",
+    hProperties: { dataAdmonition: type, dataTitle: title || ADMONITION_META[type].label },
+  } as Blockquote["data"];
+}
+
+/** `::: type` … `:::` spread over sibling paragraphs/blocks → callout blockquote */
+function transformContainers(parent: Parent) {
+  const children = parent.children as RootContent[];
+  for (let i = 0; i < children.length; i++) {
+    const open = firstText(children[i]);
+    const match = open?.value.match(OPEN_RE);
+    const type = match && toAdmonitionType(match[1]);
+    if (!open || !match || !type) continue;
+
+    // Find the paragraph that closes the block (may be the opening one)
+    let end = -1;
+    for (let j = i; j < children.length; j++) {
+      const closing = lastText(children[j]);
+      if (!closing) continue;
+      const value = closing === open ? open.value.slice(match[0].length) : closing.value;
+      if (CLOSE_RE.test(value)) {
+        end = j;
+        break;
+      }
+    }
+    if (end < 0) continue;
+
+    open.value = open.value.slice(match[0].length);
+    const closing = lastText(children[end])!;
+    closing.value = closing.value.replace(CLOSE_RE, "");
+
+    const body = children
+      .slice(i, end + 1)
+      .filter((c) => c.type !== "paragraph" || !isEmptyParagraph(c)) as Blockquote["children"];
+    const callout: Blockquote = { type: "blockquote", children: body };
+    const startPos = children[i].position;
+    const endPos = children[end].position;
+    if (startPos && endPos) callout.position = { start: startPos.start, end: endPos.end };
+    markAdmonition(callout, type, match[2].trim());
+    children.splice(i, end - i + 1, callout);
+  }
+}
+
+/** `> [!TYPE] title` → callout blockquote */
+function transformAlert(node: Blockquote) {
+  const text = firstText(node.children[0] as RootContent);
+  const match = text?.value.match(ALERT_RE);
+  const type = match && toAdmonitionType(match[1]);
+  if (!text || !match || !type) return;
+  text.value = text.value.slice(match[0].length);
+  const first = node.children[0] as Paragraph;
+  if (isEmptyParagraph(first)) node.children.shift();
+  markAdmonition(node, type, match[2].trim());
+}
+
+function walk(node: Parent) {
+  transformContainers(node);
+  for (const child of node.children as RootContent[]) {
+    if (child.type === "blockquote" && !child.data?.hName) transformAlert(child);
+    if ("children" in child) walk(child as Parent);
+  }
+}
+
+export function remarkAdmonitions() {
+  return (tree: Root) => walk(tree);
+}
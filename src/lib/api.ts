@@ -6,7 +6,10 @@
  *   2. On a 401 response, automatically attempts a silent token refresh via
  *      POST /auth/refresh (relies on the httpOnly refreshToken cookie).
  *   3. Retries the original request once with the new token.
- *   4. Throws a structured ApiError on failure.
+ *   4. Throws a structured ApiError on failure. A 409 from a conditional
+ *      save also carries what the server currently holds (`conflict`).
+ *   5. Sends the active workspace (X-Workspace-Id) so project lists, new
+ *      projects and billing are scoped to the selected organization.
  */
 import { fetchEventSource } from "@microsoft/fetch-event-source";
 import { useAuthStore } from "@/store/auth";
@@ -16,16 +19,35 @@ import { useSessionStore } from "@/store/session";
 // Types
 // ---------------------------------------------------------------------------
 
+/**
+ * The saved state an edit started from. Sent with saves so the server can
+ * reject the write with 409 when someone else saved in the meantime.
+ */
+export interface EditPrecondition {
+  versionId?: string | null;
+  updatedAt: string | null;
+}
+
+/** What the server holds when a conditional save is rejected (409). */
+export interface ApiConflict {
+  content: string;
+  versionId?: string | null;
+  updatedAt: string | null;
+  updatedBy?: { name: string; email: string } | null;
+}
+
 export interface ApiError {
   code: string;
   message: string;
   fields?: Array<{ field: string; message: string }>;
+  conflict?: ApiConflict;
 }
 
 export class ApiException extends Error {
   status: number;
   code: string;
   fields?: ApiError["fields"];
+  conflict?: ApiConflict;
 
   constructor(status: number, error: ApiError) {
     super(error.message);
@@ -33,9 +55,15 @@ export class ApiException extends Error {
     this.status = status;
     this.code = error.code;
     this.fields = error.fields;
+    this.conflict = error.conflict;
   }
 }
 
+/** A save lost the race against another editor's save. */
+export function isEditConflict(err: unknown): err is ApiException {
+  return err instanceof ApiException && err.status === 409;
+}
+
 // ---------------------------------------------------------------------------
 // Configuration
 // ---------------------------------------------------------------------------
@@ -56,6 +84,17 @@ export function setAccessToken(token: string | null) {
   _accessToken = token;
 }
 
+// Active organization id; null is the user's personal workspace.
+let _workspaceId: string | null = null;
+
+export function getWorkspaceId() {
+  return _workspaceId;
+}
+
+export function setWorkspaceId(id: string | null) {
+  _workspaceId = id;
+}
+
 // ---------------------------------------------------------------------------
 // Core fetch wrapper
 // ---------------------------------------------------------------------------
@@ -63,7 +102,7 @@ let _isRefreshing = false;
 let _refreshPromise: Promise<string | null> | null = null;
 
 /** Attempt a silent token refresh via the httpOnly refresh-token cookie. */
-async function refreshToken(): Promise<string | null> {
+export async function refreshToken(): Promise<string | null> {
   if (_isRefreshing && _refreshPromise) return _refreshPromise;
 
   _isRefreshing = true;
@@ -113,6 +152,10 @@ export async function apiFetch<T = unknown>(
     headers.set("Authorization", `Bearer ${token}`);
   }
 
+  if (_workspaceId && !skipAuth && !headers.has("X-Workspace-Id")) {
+    headers.set("X-Workspace-Id", _workspaceId);
+  }
+
   const doFetch = (t: string | null) =>
     fetch(`${API_BASE}${path}`, {
       ...fetchOptions,
@@ -156,6 +199,12 @@ export async function apiFetch<T = unknown>(
       code: "UNKNOWN_ERROR",
       message: "An unexpected error occurred.",
     };
+
+    // Stale conditional save — keep the server's copy for the conflict dialog
+    if (res.status === 409) {
+      if (!body?.error) err.code = "EDIT_CONFLICT";
+      err.conflict ??= body?.conflict ?? body?.data?.conflict;
+    }
     
     // Handle session expiration (401 error after refresh attempt failed)
     if (res.status === 401) {
@@ -683,6 +732,8 @@ export interface ApiProject {
   meta: ApiProjectMeta;
   _id: string;
   userId: string;
+  /** Owning organization; null or absent for personal projects */
+  orgId?: string | null;
   repoUrl: string;
   repoOwner: string;
   repoName: string;
@@ -707,6 +758,8 @@ export interface ProjectGetResponse {
   editedSections: ApiProjectEditedSection[];
   lastSyncedCommit: string;
   shareRole: "owner" | "editor" | "viewer";
+  /** Effective access; older servers omit it and the share role decides (see lib/permissions) */
+  permissions?: ProjectPermissions;
 }
 
 export interface PipelineEvent {
@@ -877,15 +930,19 @@ export const projectsApi = {
       `/projects/${id}/events`,
     ),
 
-  /** Save a user edit for one documentation section. */
-  saveEdit: (id: string, section: string, content: string) =>
+  /**
+   * Save a user edit for one documentation section.
+   * With `base`, the server answers 409 (ApiException.conflict) if the
+   * section was saved by someone else since; omit it to save unconditionally.
+   */
+  saveEdit: (id: string, section: string, content: string, base?: EditPrecondition) =>
     apiFetch<{
       project: ApiProject;
       effectiveOutput: ApiProjectOutput;
       editedSections: ApiProjectEditedSection[];
     }>(`/projects/${id}/docs/${section}`, {
       method: "PATCH",
-      body: JSON.stringify({ content }),
+      body: JSON.stringify(base ? { content, base } : { content }),
     }),
 
   /** Accept the latest AI-generated content for a stale section (clears the user edit). */
@@ -938,6 +995,19 @@ export const versionsApi = {
       `/projects/${projectId}/docs/${section}/versions/${versionId}`,
     ),
 
+  /**
+   * Keep `content` as a user version in the section's history without making
+   * it current — used to set a conflicting draft aside.
+   */
+  fork: (projectId: string, section: string, content: string) =>
+    apiFetch<{ version: DocVersion }>(
+      `/projects/${projectId}/docs/${section}/versions`,
+      {
+        method: "POST",
+        body: JSON.stringify({ content }),
+      },
+    ),
+
   restore: (projectId: string, section: string, versionId: string) =>
     apiFetch<{
       project: ApiProject;
@@ -948,6 +1018,179 @@ export const versionsApi = {
     }),
 };
 
+// ── Section review workflow ───────────────────────────────────────────────
+
+export type ReviewStatus =
+  | "draft"
+  | "in_review"
+  | "changes_requested"
+  | "approved"
+  | "published"
+  | "outdated"
+  | "archived";
+
+export interface ApiReviewLogEntry {
+  status: ReviewStatus;
+  changedAt: string; // ISO
+  changedBy?: string; // display name or email
+  note?: string;
+}
+
+export interface ApiSectionReview {
+  projectId: string;
+  section: string;
+  status: ReviewStatus;
+  assignee?: string | null; // invitee email from sharingApi.listAccess
+  dueDate?: string | null; // ISO date (date-only part)
+  log: ApiReviewLogEntry[];
+  updatedAt: string;
+}
+
+export const reviewApi = {
+  /** List the review state of every tracked section in a project. */
+  list: (projectId: string) =>
+    apiFetch<{ reviews: ApiSectionReview[] }>(`/projects/${projectId}/reviews`),
+
+  /** List review states for several projects at once (dashboard summaries). */
+  listMany: (projectIds: string[]) => {
+    const qs = new URLSearchParams({ projectIds: projectIds.join(",") });
+    return apiFetch<{ reviews: ApiSectionReview[] }>(`/projects/reviews?${qs}`);
+  },
+
+  /** Change a section's status. The server appends the audit log entry. */
+  setStatus: (
+    projectId: string,
+    section: string,
+    body: { status: ReviewStatus; note?: string },
+  ) =>
+    apiFetch<{ review: ApiSectionReview }>(
+      `/projects/${projectId}/reviews/${section}/status`,
+      { method: "POST", body: JSON.stringify(body) },
+    ),
+
+  /** Update the assignee and/or due date. Pass null to clear a field. */
+  update: (
+    projectId: string,
+    section: string,
+    body: { assignee?: string | null; dueDate?: string | null },
+  ) =>
+    apiFetch<{ review: ApiSectionReview }>(
+      `/projects/${projectId}/reviews/${section}`,
+      { method: "PATCH", body: JSON.stringify(body) },
+    ),
+
+  /**
+   * One-time import of tracker entries that were previously kept only in
+   * localStorage. Existing server entries win over imported ones.
+   */
+  importLegacy: (
+    projectId: string,
+    reviews: Array<Omit<ApiSectionReview, "projectId" | "updatedAt">>,
+  ) =>
+    apiFetch<{ reviews: ApiSectionReview[] }>(
+      `/projects/${projectId}/reviews/import`,
+      { method: "POST", body: JSON.stringify({ reviews }) },
+    ),
+};
+
+// ── Review comments ───────────────────────────────────────────────────────
+
+/**
+ * Where a comment thread is attached inside a section's markdown.
+ * `quote` is null for heading-level comments; `offset` is the character
+ * offset in the source when the anchor was last resolved.
+ */
+export interface ApiCommentAnchor {
+  headingSlug: string | null;
+  headingText: string | null;
+  quote: string | null;
+  offset: number;
+}
+
+export interface ApiCommentAuthor {
+  _id: string;
+  name?: string;
+  email?: string;
+}
+
+export interface ApiCommentReply {
+  _id: string;
+  author: ApiCommentAuthor;
+  body: string;
+  mentions: string[]; // member emails
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ApiCommentThread {
+  _id: string;
+  projectId: string;
+  section: string;
+  anchor: ApiCommentAnchor;
+  author: ApiCommentAuthor;
+  body: string;
+  mentions: string[];
+  replies: ApiCommentReply[];
+  resolved: boolean;
+  resolvedBy?: ApiCommentAuthor | null;
+  resolvedAt?: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const commentsApi = {
+  /** List all threads (open and resolved) for one section. */
+  list: (projectId: string, section: string) =>
+    apiFetch<{ threads: ApiCommentThread[] }>(
+      `/projects/${projectId}/comments?section=${encodeURIComponent(section)}`,
+    ),
+
+  /** Open thread counts per section, for sidebar badges. */
+  counts: (projectId: string) =>
+    apiFetch<{ counts: Record<string, number> }>(
+      `/projects/${projectId}/comments/counts`,
+    ),
+
+  /** Start a new thread. Mentioned members are notified by the server. */
+  create: (
+    projectId: string,
+    section: string,
+    body: { anchor: ApiCommentAnchor; body: string; mentions: string[] },
+  ) =>
+    apiFetch<{ thread: ApiCommentThread }>(`/projects/${projectId}/comments`, {
+      method: "POST",
+      body: JSON.stringify({ section, ...body }),
+    }),
+
+  /** Reply to an existing thread. */
+  reply: (
+    projectId: string,
+    threadId: string,
+    body: { body: string; mentions: string[] },
+  ) =>
+    apiFetch<{ thread: ApiCommentThread }>(
+      `/projects/${projectId}/comments/${threadId}/replies`,
+      { method: "POST", body: JSON.stringify(body) },
+    ),
+
+  /** Resolve / unresolve a thread, or move its anchor after an edit. */
+  update: (
+    projectId: string,
+    threadId: string,
+    body: { resolved?: boolean; anchor?: ApiCommentAnchor },
+  ) =>
+    apiFetch<{ thread: ApiCommentThread }>(
+      `/projects/${projectId}/comments/${threadId}`,
+      { method: "PATCH", body: JSON.stringify(body) },
+    ),
+
+  /** Delete a thread (author or project owner only). */
+  delete: (projectId: string, threadId: string) =>
+    apiFetch<void>(`/projects/${projectId}/comments/${threadId}`, {
+      method: "DELETE",
+    }),
+};
+
 // ── Attachments (Other Docs) ──────────────────────────────────────────────
 
 export interface ApiAttachment {
@@ -1017,12 +1260,67 @@ export interface ApiShare {
   inviteeEmail: string;
   inviteeUser: { _id: string; name?: string; email?: string } | null;
   role: "viewer" | "editor";
+  /** Custom role; when set it replaces the built-in role's capabilities */
+  roleId?: string | null;
+  /** Per-person overrides of the role's section access, keyed by tab key */
+  sectionAccess?: Record<string, SectionAccess>;
   status: ShareStatus;
   createdAt: string;
   updatedAt: string;
   expiresAt: string;
 }
 
+/** Project actions a role can be allowed to take. */
+export type ProjectCapability =
+  | "sections.edit"
+  | "customTabs.manage"
+  | "apispec.import"
+  | "portal.publish"
+  | "export"
+  | "shares.manage";
+
+export const PROJECT_CAPABILITIES: ProjectCapability[] = [
+  "sections.edit",
+  "customTabs.manage",
+  "apispec.import",
+  "portal.publish",
+  "export",
+  "shares.manage",
+];
+
+export const PROJECT_CAPABILITY_LABELS: Record<ProjectCapability, { label: string; description: string }> = {
+  "sections.edit": { label: "Edit sections", description: "Edit documentation unless a section says otherwise" },
+  "customTabs.manage": { label: "Manage custom tabs", description: "Create, rename and delete custom tabs" },
+  "apispec.import": { label: "Import specs", description: "Import, generate and sync the API spec" },
+  "portal.publish": { label: "Publish portal", description: "Change portal settings and publish" },
+  export: { label: "Export", description: "Export to PDF, Notion, Google Docs and more" },
+  "shares.manage": { label: "Manage sharing", description: "Invite people and change their access" },
+};
+
+/** What a person can do with one documentation section (tab). */
+export type SectionAccess = "edit" | "read" | "hidden";
+
+/** A project-specific role owners define on top of viewer/editor. */
+export interface ApiProjectRole {
+  _id: string;
+  projectId: string;
+  name: string;
+  description: string;
+  capabilities: ProjectCapability[];
+  /** Section overrides keyed by tab key; unlisted sections follow `sections.edit` */
+  sectionAccess: Record<string, SectionAccess>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ApiProjectRoleInput = Pick<ApiProjectRole, "name" | "description" | "capabilities" | "sectionAccess">;
+
+/** The current user's effective access to a project (role and share overrides merged). */
+export interface ProjectPermissions {
+  capabilities: ProjectCapability[];
+  sectionAccess: Record<string, SectionAccess>;
+}
+
 export interface ApiSharedProject {
   _id: string;
   repoUrl: string;
@@ -1093,6 +1391,183 @@ export const sharingApi = {
   /** Get all projects shared with the current user. */
   getSharedProjects: () =>
     apiFetch<{ projects: ApiSharedProject[] }>("/projects/shared"),
+
+  /** Assign a custom role (or clear it with `null`) and/or per-section overrides. */
+  updateAccess: (
+    projectId: string,
+    shareId: string,
+    data: { roleId?: string | null; sectionAccess?: Record<string, SectionAccess> },
+  ) =>
+    apiFetch<{ share: ApiShare }>(`/projects/${projectId}/share/${shareId}/access`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+};
+
+export const projectRolesApi = {
+  list: (projectId: string) =>
+    apiFetch<{ roles: ApiProjectRole[] }>(`/projects/${projectId}/roles`),
+
+  create: (projectId: string, data: ApiProjectRoleInput) =>
+    apiFetch<{ role: ApiProjectRole }>(`/projects/${projectId}/roles`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  update: (projectId: string, roleId: string, data: Partial<ApiProjectRoleInput>) =>
+    apiFetch<{ role: ApiProjectRole }>(`/projects/${projectId}/roles/${roleId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  /** Shares using the role fall back to their built-in viewer/editor role. */
+  delete: (projectId: string, roleId: string) =>
+    apiFetch<null>(`/projects/${projectId}/roles/${roleId}`, { method: "DELETE" }),
+};
+
+// ── Organizations ─────────────────────────────────────────────────────────
+
+export type OrgRole = "owner" | "admin" | "member";
+
+export const ORG_ROLES: OrgRole[] = ["owner", "admin", "member"];
+
+export const ORG_ROLE_LABELS: Record<OrgRole, { label: string; description: string }> = {
+  owner: { label: "Owner", description: "Manages billing and can delete the organization" },
+  admin: { label: "Admin", description: "Invites members, moves projects in and sets default sharing" },
+  member: { label: "Member", description: "Works on the organization's projects" },
+};
+
+/** Access every member gets to the organization's projects without an invite. */
+export type OrgDefaultShareRole = "none" | "viewer" | "editor";
+
+export interface ApiOrganization {
+  _id: string;
+  name: string;
+  slug: string;
+  /** The current user's role in the organization */
+  role: OrgRole;
+  defaultShareRole: OrgDefaultShareRole;
+  memberCount: number;
+  /** From the organization's subscription; pending invites hold a seat */
+  seats: { used: number; total: number };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type OrgMemberStatus = "active" | "pending";
+
+export interface ApiOrgMember {
+  _id: string;
+  email: string;
+  user: { _id: string; name?: string; email?: string } | null;
+  role: OrgRole;
+  status: OrgMemberStatus;
+  invitedAt: string;
+  joinedAt: string | null;
+}
+
+export const organizationsApi = {
+  /** Organizations the current user belongs to. */
+  list: () => apiFetch<{ organizations: ApiOrganization[] }>("/orgs"),
+
+  /** Create an organization; the creator becomes its owner. */
+  create: (data: { name: string }) =>
+    apiFetch<{ organization: ApiOrganization }>("/orgs", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  update: (orgId: string, data: Partial<Pick<ApiOrganization, "name" | "defaultShareRole">>) =>
+    apiFetch<{ organization: ApiOrganization }>(`/orgs/${orgId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  /** Owner only. Rejected while the organization still owns projects. */
+  delete: (orgId: string) => apiFetch<null>(`/orgs/${orgId}`, { method: "DELETE" }),
+
+  listMembers: (orgId: string) =>
+    apiFetch<{ members: ApiOrgMember[] }>(`/orgs/${orgId}/members`),
+
+  /** Invite by email. Each invite takes a seat until it is cancelled. */
+  inviteMembers: (orgId: string, invites: { email: string; role: OrgRole }[]) =>
+    apiFetch<{
+      results: Array<{
+        email: string;
+        status: string;
+        reason?: string;
+        member?: ApiOrgMember;
+      }>;
+    }>(`/orgs/${orgId}/members`, {
+      method: "POST",
+      body: JSON.stringify({ invites }),
+    }),
+
+  updateMemberRole: (orgId: string, memberId: string, role: OrgRole) =>
+    apiFetch<{ member: ApiOrgMember }>(`/orgs/${orgId}/members/${memberId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ role }),
+    }),
+
+  /** Remove a member or cancel a pending invite; frees the seat. */
+  removeMember: (orgId: string, memberId: string) =>
+    apiFetch<null>(`/orgs/${orgId}/members/${memberId}`, { method: "DELETE" }),
+
+  /** Leave an organization (not allowed for its last owner). */
+  leave: (orgId: string) =>
+    apiFetch<null>(`/orgs/${orgId}/leave`, { method: "POST" }),
+
+  /** Accept an invite from an email link (`/orgs/accept/:token`). */
+  acceptInvite: (token: string) =>
+    apiFetch<{ organization: ApiOrganization }>(`/orgs/accept/${token}`, {
+      method: "POST",
+    }),
+
+  /**
+   * Move a personal project into an organization. The organization becomes
+   * the owner; existing shares are kept.
+   */
+  transferProject: (projectId: string, orgId: string) =>
+    apiFetch<{ project: ApiProject }>(`/projects/${projectId}/transfer`, {
+      method: "POST",
+      body: JSON.stringify({ orgId }),
+    }),
+};
+
+// ── Search ────────────────────────────────────────────────────────────────
+
+export type SearchResultKind = "section" | "custom_tab" | "endpoint" | "attachment";
+
+export interface ApiSearchResult {
+  kind: SearchResultKind;
+  projectId: string;
+  projectName: string;
+  /** Documentation tab the hit lives in, e.g. "readme", "custom_<id>", "other_docs" */
+  tab: string;
+  /** Section / tab label, "GET /users/{id}", or attachment file name */
+  title: string;
+  /** Nearest heading above the match, for jump-to-heading */
+  heading: { slug: string; text: string } | null;
+  /** Plain-text excerpt around the best match */
+  snippet: string;
+  score: number;
+  endpointId?: string;
+  attachmentId?: string;
+}
+
+export const searchApi = {
+  /**
+   * Ranked full-text search across every project the user owns or has been
+   * shared — sections, custom tabs, API spec endpoints and attachment
+   * descriptions. Optionally scoped to one project.
+   */
+  query: (q: string, opts: { limit?: number; projectId?: string } = {}) => {
+    const params = new URLSearchParams({ q, limit: String(opts.limit ?? 20) });
+    if (opts.projectId) params.set("projectId", opts.projectId);
+    return apiFetch<{ results: ApiSearchResult[]; total: number }>(
+      `/search?${params}`,
+    );
+  },
 };
 
 // ── Chat ──────────────────────────────────────────────────────────────────
@@ -1162,7 +1637,8 @@ export type PortalSectionKey =
   | "internalDocs"
   | "apiReference"
   | "schemaDocs"
-  | "securityReport";
+  | "securityReport"
+  | "apiChangelog";
 
 export interface PortalSectionConfig {
   sectionKey: PortalSectionKey;
@@ -1221,6 +1697,13 @@ export const PORTAL_SECTION_LABELS: Record<PortalSectionKey, string> = {
   apiReference: "API Reference",
   schemaDocs: "Schema Docs",
   securityReport: "Security Report",
+  apiChangelog: "API Changelog",
+};
+
+/** Visibility of a section the owner has not configured yet */
+export const PORTAL_SECTION_DEFAULT_VISIBILITY: Partial<Record<PortalSectionKey, PortalSectionVisibility>> = {
+  // Changelogs are opt-in: existing portals should not start publishing one
+  apiChangelog: "internal",
 };
 
 export const PORTAL_SECTION_KEYS: PortalSectionKey[] = [
@@ -1229,6 +1712,7 @@ export const PORTAL_SECTION_KEYS: PortalSectionKey[] = [
   "apiReference",
   "schemaDocs",
   "securityReport",
+  "apiChangelog",
 ];
 
 // ── Owner portal API ──────────────────────────────────────────
@@ -1291,7 +1775,25 @@ export const publicPortalApi = {
 // ── API Spec (OpenAPI / Postman importer) ─────────────────────
 
 export type ApiSpecSource = "file" | "url" | "raw";
-export type ApiSpecVersion = "2.0" | "3.0" | "3.1" | "postman" | "unknown";
+export type ApiSpecVersion =
+  | "2.0" | "3.0" | "3.1" | "postman" | "graphql"
+  | "asyncapi-2" | "asyncapi-3" | "protobuf"
+  | "unknown";
+
+/**
+ * Message-based specs reuse the endpoint model:
+ * - AsyncAPI: one endpoint per operation. `method` is PUBLISH / SUBSCRIBE (2.x)
+ *   or SEND / RECEIVE (3.x), `path` is the channel address, channel parameters
+ *   are "path" parameters, message headers are "header" parameters and the
+ *   message payloads form the request body (several messages are a oneOf).
+ *   A 3.x reply is the "reply" response.
+ * - Protobuf: one endpoint per RPC. `method` is RPC, or STREAM when either
+ *   side streams, `path` is "/package.Service/Method", the tag is the service,
+ *   and the input and output messages are the request body and "OK" response.
+ */
+export function isHttpSpec(spec: Pick<ApiSpec, "specVersion">): boolean {
+  return !["graphql", "asyncapi-2", "asyncapi-3", "protobuf"].includes(spec.specVersion);
+}
 
 export interface ApiSpecParameter {
   in: "path" | "query" | "header" | "cookie" | "body";
@@ -1323,6 +1825,31 @@ export interface ApiSpecResponse {
   content: Record<string, ApiSpecResponseContent>;
 }
 
+/** Scheme name → required scopes; `{}` inside a list makes auth optional. */
+export type ApiSecurityRequirement = Record<string, string[]>;
+
+export interface ApiOAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+  refreshUrl?: string;
+  scopes: Record<string, string>;
+}
+
+export type ApiSecurityScheme =
+  | { type: "apiKey"; name: string; in: "header" | "query" | "cookie"; description?: string }
+  | { type: "http"; scheme: string; bearerFormat?: string; description?: string }
+  | {
+      type: "oauth2";
+      flows: {
+        clientCredentials?: ApiOAuthFlow;
+        authorizationCode?: ApiOAuthFlow;
+        implicit?: ApiOAuthFlow;
+        password?: ApiOAuthFlow;
+      };
+      description?: string;
+    }
+  | { type: "openIdConnect"; openIdConnectUrl: string; description?: string };
+
 export interface ApiSpecEndpoint {
   id: string; // "GET /users/{id}"
   method: string; // uppercase
@@ -1334,7 +1861,8 @@ export interface ApiSpecEndpoint {
   parameters: ApiSpecParameter[];
   requestBody: ApiSpecRequestBody | null;
   responses: Record<string, ApiSpecResponse>;
-  security: unknown;
+  /** Alternatives, any one of which authorizes the call; null inherits `ApiSpec.security` */
+  security: ApiSecurityRequirement[] | null;
   deprecated: boolean;
   customNote: string;
 }
@@ -1369,29 +1897,189 @@ export interface ApiSpec {
   tags: ApiSpecTag[];
   endpoints: ApiSpecEndpoint[];
   schemas: Record<string, unknown>;
-  securitySchemes: Record<string, unknown>;
+  securitySchemes: Record<string, ApiSecurityScheme>;
+  /** Spec-wide default requirements */
+  security?: ApiSecurityRequirement[];
+  /** GraphQL specs only; `endpoints` is empty and `servers[0]` is the GraphQL endpoint */
+  graphql?: GraphQLSchemaModel;
   autoSync: boolean;
   lastSyncedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+// GraphQL schemas are stored in the shape of an introspection result, with
+// type references written as in SDL ("[User!]!").
+
+export type GraphQLTypeKind = "OBJECT" | "INTERFACE" | "UNION" | "ENUM" | "INPUT_OBJECT" | "SCALAR";
+
+export interface GraphQLInputValue {
+  name: string;
+  description: string;
+  type: string;
+  defaultValue: string | null;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface GraphQLField {
+  name: string;
+  description: string;
+  args: GraphQLInputValue[];
+  type: string;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface GraphQLEnumValue {
+  name: string;
+  description: string;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface GraphQLNamedType {
+  kind: GraphQLTypeKind;
+  name: string;
+  description: string;
+  fields: GraphQLField[];
+  inputFields: GraphQLInputValue[];
+  enumValues: GraphQLEnumValue[];
+  /** Union members and interface implementations */
+  possibleTypes: string[];
+  interfaces: string[];
+}
+
+export interface GraphQLSchemaModel {
+  queryType: string | null;
+  mutationType: string | null;
+  subscriptionType: string | null;
+  types: GraphQLNamedType[];
+}
+
+export interface GraphQLImportInput {
+  schema: GraphQLSchemaModel;
+  /** Where the schema came from; "url" imports can auto-sync by re-running introspection */
+  source: ApiSpecSource;
+  /** The GraphQL endpoint, when known */
+  url?: string;
+  autoSync?: boolean;
+  title?: string;
+}
+
+/** An AsyncAPI document already converted to the endpoint model (see lib/asyncapi). */
+export interface AsyncApiImportInput {
+  source: ApiSpecSource;
+  /** Where the document was fetched from; sync re-fetches and converts it on the client */
+  url?: string;
+  specVersion: "asyncapi-2" | "asyncapi-3";
+  info: ApiSpecInfo;
+  servers: ApiSpecServer[];
+  tags: ApiSpecTag[];
+  endpoints: Omit<ApiSpecEndpoint, "customNote">[];
+  schemas: Record<string, unknown>;
+}
+
+/** A .proto file already converted to the endpoint model (see lib/protobuf). */
+export interface ProtobufImportInput {
+  source: ApiSpecSource;
+  info: ApiSpecInfo;
+  tags: ApiSpecTag[];
+  endpoints: Omit<ApiSpecEndpoint, "customNote">[];
+  schemas: Record<string, unknown>;
+}
+
+export interface TryItRequest {
+  method: string;
+  baseUrl: string;
+  path: string;
+  headers?: Record<string, string>;
+  queryParams?: Record<string, string>;
+  body?: string;
+}
+
 export interface TryItResult {
   status: number;
   headers: Record<string, string>;
   body: string;
+  /** Round-trip time measured by the proxy, when it reports one */
+  durationMs?: number;
+}
+
+/**
+ * A Try-It request saved as a named example for the team. The request is
+ * stored without the base URL or credentials; `{{variables}}` are kept.
+ */
+export interface ApiSavedExample {
+  _id: string;
+  projectId: string;
+  endpointId: string;
+  name: string;
+  request: Omit<TryItRequest, "baseUrl">;
+  response: TryItResult | null;
+  createdBy?: { id: string; name: string };
+  createdAt: string;
 }
 
 // ── apiSpecApi ────────────────────────────────────────────────
 
+export type SpecChangeKind =
+  | "endpoint-added"
+  | "endpoint-removed"
+  | "endpoint-deprecated"
+  | "parameter-added"
+  | "parameter-removed"
+  | "parameter-changed"
+  | "request-body-changed"
+  | "response-added"
+  | "response-removed"
+  | "response-changed"
+  | "security-changed";
+
+export interface SpecChange {
+  kind: SpecChangeKind;
+  breaking: boolean;
+  /** `ApiSpecEndpoint.id`, e.g. "GET /users/{id}" */
+  endpointId: string;
+  message: string;
+}
+
+/**
+ * The diff the server records whenever it replaces a project's spec — an
+ * import or sync from the app, a scheduled auto-sync, or a CLI/API import.
+ * `markdown` is what the public portal shows.
+ */
+export interface ApiSpecChangelogEntry {
+  _id: string;
+  projectId: string;
+  /** Scheduled auto-syncs are "sync" entries without `createdBy` */
+  trigger: "import" | "sync";
+  fromVersion: string;
+  toVersion: string;
+  changes: SpecChange[];
+  markdown: string;
+  createdBy?: { id: string; name: string };
+  createdAt: string;
+}
+
+/** What an import or sync returns; `changelog` is null when nothing changed or there was no previous spec. */
+export interface ApiSpecImportResult {
+  spec: ApiSpec;
+  changelog?: ApiSpecChangelogEntry | null;
+}
+
 export const apiSpecApi = {
   /** Get the imported spec for a project (null if none). */
   get: (projectId: string) =>
     apiFetch<{ spec: ApiSpec | null }>(`/projects/${projectId}/apispec`),
 
-  /** Import via file (pass FormData), URL, or raw text. */
+  /**
+   * Import via file (pass FormData), URL, or raw text. The server parses
+   * OpenAPI and Postman documents, in JSON or YAML. Replacing an existing
+   * spec records a changelog entry, which is returned.
+   */
   importFile: (projectId: string, formData: FormData) =>
-    apiFetch<{ spec: ApiSpec }>(`/projects/${projectId}/apispec/import`, {
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
       method: "POST",
       body: formData,
       // Let browser set Content-Type with boundary
@@ -1399,20 +2087,41 @@ export const apiSpecApi = {
     }),
 
   importUrl: (projectId: string, url: string, autoSync = false) =>
-    apiFetch<{ spec: ApiSpec }>(`/projects/${projectId}/apispec/import`, {
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
       method: "POST",
       body: JSON.stringify({ method: "url", url, autoSync }),
     }),
 
   importRaw: (projectId: string, raw: string) =>
-    apiFetch<{ spec: ApiSpec }>(`/projects/${projectId}/apispec/import`, {
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
       method: "POST",
       body: JSON.stringify({ method: "raw", raw }),
     }),
 
+  /** Import a GraphQL schema already parsed from SDL or introspection (see lib/graphql). */
+  importGraphql: (projectId: string, data: GraphQLImportInput) =>
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
+      method: "POST",
+      body: JSON.stringify({ method: "graphql", ...data }),
+    }),
+
+  /** Import an AsyncAPI document converted on the client (see lib/asyncapi). */
+  importAsyncapi: (projectId: string, data: AsyncApiImportInput) =>
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
+      method: "POST",
+      body: JSON.stringify({ method: "asyncapi", ...data }),
+    }),
+
+  /** Import a .proto file converted on the client (see lib/protobuf). */
+  importProtobuf: (projectId: string, data: ProtobufImportInput) =>
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/import`, {
+      method: "POST",
+      body: JSON.stringify({ method: "protobuf", ...data }),
+    }),
+
   /** Re-fetch from the original URL source. */
   sync: (projectId: string) =>
-    apiFetch<{ spec: ApiSpec }>(`/projects/${projectId}/apispec/sync`, {
+    apiFetch<ApiSpecImportResult>(`/projects/${projectId}/apispec/sync`, {
       method: "POST",
     }),
 
@@ -1428,21 +2137,352 @@ export const apiSpecApi = {
     }),
 
   /** Proxy a Try-It request through the server. */
-  tryRequest: (
-    projectId: string,
-    opts: {
-      method: string;
-      baseUrl: string;
-      path: string;
-      headers?: Record<string, string>;
-      queryParams?: Record<string, string>;
-      body?: string;
-    },
-  ) =>
+  tryRequest: (projectId: string, opts: TryItRequest) =>
     apiFetch<TryItResult>(`/projects/${projectId}/apispec/try`, {
       method: "POST",
       body: JSON.stringify(opts),
     }),
+
+  /** Saved request examples, for every endpoint of the spec. */
+  listExamples: (projectId: string) =>
+    apiFetch<{ examples: ApiSavedExample[] }>(`/projects/${projectId}/apispec/examples`),
+
+  saveExample: (projectId: string, data: Pick<ApiSavedExample, "endpointId" | "name" | "request" | "response">) =>
+    apiFetch<{ example: ApiSavedExample }>(`/projects/${projectId}/apispec/examples`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  deleteExample: (projectId: string, exampleId: string) =>
+    apiFetch<null>(`/projects/${projectId}/apispec/examples/${exampleId}`, { method: "DELETE" }),
+
+  /** What changed between imported versions of the spec, newest first. */
+  listChangelog: (projectId: string) =>
+    apiFetch<{ entries: ApiSpecChangelogEntry[] }>(`/projects/${projectId}/apispec/changelog`),
+};
+
+// ── Try-It environments ───────────────────────────────────────
+
+export interface ApiEnvironmentVariable {
+  key: string;
+  value: string;
+  /** Masked in the UI */
+  secret?: boolean;
+  enabled?: boolean;
+}
+
+export interface ApiEnvironment {
+  _id: string;
+  projectId: string;
+  name: string;
+  /** Replaces the spec server URL; may itself contain {{variables}} */
+  baseUrl: string;
+  /** Sent with every request, before the console's own headers */
+  headers: { key: string; value: string }[];
+  variables: ApiEnvironmentVariable[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ApiEnvironmentInput = Pick<ApiEnvironment, "name" | "baseUrl" | "headers" | "variables">;
+
+export const environmentsApi = {
+  list: (projectId: string) =>
+    apiFetch<{ environments: ApiEnvironment[] }>(`/projects/${projectId}/apispec/environments`),
+
+  create: (projectId: string, data: ApiEnvironmentInput) =>
+    apiFetch<{ environment: ApiEnvironment }>(`/projects/${projectId}/apispec/environments`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  update: (projectId: string, envId: string, data: Partial<ApiEnvironmentInput>) =>
+    apiFetch<{ environment: ApiEnvironment }>(`/projects/${projectId}/apispec/environments/${envId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  delete: (projectId: string, envId: string) =>
+    apiFetch<null>(`/projects/${projectId}/apispec/environments/${envId}`, { method: "DELETE" }),
+};
+
+// ── Outbound webhooks ─────────────────────────────────────────────────────
+
+/** Events a project webhook can subscribe to. */
+export type WebhookEventType =
+  | "pipeline.completed"
+  | "pipeline.failed"
+  | "section.edited"
+  | "section.stale"
+  | "apispec.synced"
+  | "portal.published"
+  | "share.accepted";
+
+export const WEBHOOK_EVENT_TYPES: WebhookEventType[] = [
+  "pipeline.completed",
+  "pipeline.failed",
+  "section.edited",
+  "section.stale",
+  "apispec.synced",
+  "portal.published",
+  "share.accepted",
+];
+
+export const WEBHOOK_EVENT_LABELS: Record<WebhookEventType, { label: string; description: string }> = {
+  "pipeline.completed": { label: "Pipeline done", description: "Documentation finished generating or syncing" },
+  "pipeline.failed": { label: "Pipeline error", description: "A documentation run failed" },
+  "section.edited": { label: "Section edited", description: "Someone saved changes to a section" },
+  "section.stale": { label: "AI version stale", description: "A newer AI version exists for an edited section" },
+  "apispec.synced": { label: "Spec synced", description: "The API spec was re-imported from its URL" },
+  "portal.published": { label: "Portal published", description: "The public portal was published or updated" },
+  "share.accepted": { label: "Share accepted", description: "An invitee accepted access to the project" },
+};
+
+export interface ProjectWebhook {
+  _id: string;
+  projectId: string;
+  url: string;
+  description: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  /** Last four characters of the signing secret; the full secret is only returned on create/rotate */
+  secretHint: string;
+  lastDeliveryAt: string | null;
+  lastDeliveryStatus: WebhookDeliveryStatus | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectWebhookInput = Pick<ProjectWebhook, "url" | "description" | "events" | "enabled">;
+
+/**
+ * `retrying` deliveries are re-sent by the server with exponential backoff
+ * (up to `maxAttempts`) until one gets a 2xx response.
+ */
+export type WebhookDeliveryStatus = "pending" | "success" | "retrying" | "failed";
+
+export interface WebhookDelivery {
+  _id: string;
+  webhookId: string;
+  event: WebhookEventType | "webhook.test";
+  status: WebhookDeliveryStatus;
+  attempt: number;
+  maxAttempts: number;
+  nextRetryAt: string | null;
+  /** Set when this delivery is a manual redelivery of another one */
+  redeliveryOf: string | null;
+  request: { url: string; headers: Record<string, string>; body: string };
+  response: { status: number; headers: Record<string, string>; body: string; durationMs: number } | null;
+  /** Network-level failure (DNS, TLS, timeout) when there is no response */
+  error: string | null;
+  createdAt: string;
+}
+
+export const webhooksApi = {
+  list: (projectId: string) =>
+    apiFetch<{ webhooks: ProjectWebhook[] }>(`/projects/${projectId}/webhooks`),
+
+  /** The signing secret is returned once, here and from `rotateSecret`. */
+  create: (projectId: string, data: ProjectWebhookInput) =>
+    apiFetch<{ webhook: ProjectWebhook; secret: string }>(`/projects/${projectId}/webhooks`, {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  update: (projectId: string, webhookId: string, data: Partial<ProjectWebhookInput>) =>
+    apiFetch<{ webhook: ProjectWebhook }>(`/projects/${projectId}/webhooks/${webhookId}`, {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  delete: (projectId: string, webhookId: string) =>
+    apiFetch<null>(`/projects/${projectId}/webhooks/${webhookId}`, { method: "DELETE" }),
+
+  rotateSecret: (projectId: string, webhookId: string) =>
+    apiFetch<{ webhook: ProjectWebhook; secret: string }>(
+      `/projects/${projectId}/webhooks/${webhookId}/rotate`,
+      { method: "POST" },
+    ),
+
+  /** Newest first. */
+  listDeliveries: (projectId: string, webhookId: string, params: { page?: number; limit?: number } = {}) => {
+    const qs = new URLSearchParams();
+    if (params.page) qs.set("page", String(params.page));
+    if (params.limit) qs.set("limit", String(params.limit));
+    return apiFetch<{ deliveries: WebhookDelivery[]; total: number }>(
+      `/projects/${projectId}/webhooks/${webhookId}/deliveries?${qs}`,
+    );
+  },
+
+  /** Send the same payload again as a new delivery. */
+  redeliver: (projectId: string, webhookId: string, deliveryId: string) =>
+    apiFetch<{ delivery: WebhookDelivery }>(
+      `/projects/${projectId}/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`,
+      { method: "POST" },
+    ),
+
+  /** Deliver a sample payload for `event` right away (no retries). */
+  sendTest: (projectId: string, webhookId: string, event?: WebhookEventType) =>
+    apiFetch<{ delivery: WebhookDelivery }>(`/projects/${projectId}/webhooks/${webhookId}/test`, {
+      method: "POST",
+      body: JSON.stringify({ event }),
+    }),
+};
+
+// ── Chat notifications (Slack / Microsoft Teams) ─────────────────────────
+
+export type ChatProvider = "slack" | "teams";
+
+export type ChatNotificationEvent =
+  | "review.requested"
+  | "review.changes_requested"
+  | "docs.regenerated"
+  | "security.grade_dropped";
+
+export const CHAT_NOTIFICATION_EVENTS: ChatNotificationEvent[] = [
+  "review.requested",
+  "review.changes_requested",
+  "docs.regenerated",
+  "security.grade_dropped",
+];
+
+export const CHAT_NOTIFICATION_EVENT_LABELS: Record<ChatNotificationEvent, { label: string; description: string }> = {
+  "review.requested": { label: "Review requested", description: "A section was sent for review" },
+  "review.changes_requested": { label: "Changes requested", description: "A reviewer asked for changes" },
+  "docs.regenerated": { label: "Docs regenerated", description: "A pipeline run or sync updated the documentation" },
+  "security.grade_dropped": { label: "Security grade dropped", description: "A run lowered the project's security grade" },
+};
+
+/** An incoming-webhook destination in a Slack or Teams workspace. */
+export interface ChatChannel {
+  _id: string;
+  provider: ChatProvider;
+  /** Display name, e.g. "#docs-updates" */
+  name: string;
+  /** Host and last characters of the incoming-webhook URL; the full URL is write-only */
+  webhookUrlHint: string;
+  createdAt: string;
+}
+
+/**
+ * Where a project's notifications go. Projects without a route use
+ * `defaultChannelId`; `channelId: null` mutes the project.
+ */
+export interface ChatProjectRoute {
+  projectId: string;
+  channelId: string | null;
+}
+
+export interface ChatNotificationSettings {
+  enabled: boolean;
+  events: ChatNotificationEvent[];
+  channels: ChatChannel[];
+  defaultChannelId: string | null;
+  routes: ChatProjectRoute[];
+}
+
+export const chatNotificationsApi = {
+  get: () => apiFetch<ChatNotificationSettings>("/auth/chat-notifications"),
+
+  update: (data: Partial<Pick<ChatNotificationSettings, "enabled" | "events" | "defaultChannelId" | "routes">>) =>
+    apiFetch<ChatNotificationSettings>("/auth/chat-notifications", {
+      method: "PATCH",
+      body: JSON.stringify(data),
+    }),
+
+  addChannel: (data: { provider: ChatProvider; name: string; webhookUrl: string }) =>
+    apiFetch<ChatNotificationSettings>("/auth/chat-notifications/channels", {
+      method: "POST",
+      body: JSON.stringify(data),
+    }),
+
+  /** Also removes the channel from every project route. */
+  removeChannel: (channelId: string) =>
+    apiFetch<ChatNotificationSettings>(`/auth/chat-notifications/channels/${channelId}`, { method: "DELETE" }),
+
+  /** Post a sample message for `event` to the channel and report what it answered. */
+  sendTest: (channelId: string, event: ChatNotificationEvent) =>
+    apiFetch<{ ok: boolean; status: number | null; error?: string }>(
+      `/auth/chat-notifications/channels/${channelId}/test`,
+      { method: "POST", body: JSON.stringify({ event }) },
+    ),
+};
+
+// ── In-app notifications ──────────────────────────────────────────────────
+
+export type NotificationType =
+  | "share.invited"
+  | "tracker.assigned"
+  | "comment.mentioned"
+  | "pipeline.failed";
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  "share.invited",
+  "tracker.assigned",
+  "comment.mentioned",
+  "pipeline.failed",
+];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, { label: string; description: string }> = {
+  "share.invited": { label: "Invitations", description: "Someone shared a project with you" },
+  "tracker.assigned": { label: "Assignments", description: "You were assigned a section in the doc tracker" },
+  "comment.mentioned": { label: "Mentions", description: "Someone @mentioned you in a comment" },
+  "pipeline.failed": { label: "Pipeline failures", description: "A documentation run on your project failed" },
+};
+
+export interface ApiNotification {
+  _id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  projectId: string | null;
+  projectName: string | null;
+  /** In-app path to open, e.g. /projects/:id/docs?tab=api */
+  link: string | null;
+  actor: { name?: string; email?: string } | null;
+  read: boolean;
+  createdAt: string;
+}
+
+export type NotificationPreferences = Record<NotificationType, { inApp: boolean; email: boolean }>;
+
+export const notificationsApi = {
+  /** Newest first; `unreadCount` covers all notifications, not just this page. */
+  list: (params: { page?: number; limit?: number; unread?: boolean; type?: NotificationType; projectId?: string } = {}) => {
+    const qs = new URLSearchParams();
+    if (params.page) qs.set("page", String(params.page));
+    if (params.limit) qs.set("limit", String(params.limit));
+    if (params.unread) qs.set("unread", "true");
+    if (params.type) qs.set("type", params.type);
+    if (params.projectId) qs.set("projectId", params.projectId);
+    return apiFetch<{ notifications: ApiNotification[]; total: number; unreadCount: number }>(`/notifications?${qs}`);
+  },
+
+  /** Mark the given notifications read (or unread with `read: false`). */
+  markRead: (ids: string[], read = true) =>
+    apiFetch<{ unreadCount: number }>("/notifications/read", {
+      method: "POST",
+      body: JSON.stringify({ ids, read }),
+    }),
+
+  markAllRead: () =>
+    apiFetch<{ unreadCount: number }>("/notifications/read-all", { method: "POST" }),
+
+  getPreferences: () =>
+    apiFetch<{ preferences: NotificationPreferences }>("/notifications/preferences"),
+
+  updatePreferences: (preferences: Partial<NotificationPreferences>) =>
+    apiFetch<{ preferences: NotificationPreferences }>("/notifications/preferences", {
+      method: "PATCH",
+      body: JSON.stringify({ preferences }),
+    }),
+
+  /**
+   * Server-sent events: `{ type: "notification", notification }` for each new
+   * in-app notification, `{ type: "unread", unreadCount }` when the count
+   * changes elsewhere (another tab), and `{ type: "ping" }` heartbeats.
+   */
+  streamUrl: () => `${API_BASE}/notifications/stream`,
 };
 
 // ── Custom Tabs ───────────────────────────────────────────────────────────
@@ -1474,11 +2514,14 @@ export const customTabsApi = {
       body: JSON.stringify(data),
     }),
 
-  /** Update a custom tab (name, description, content). */
+  /**
+   * Update a custom tab (name, description, content). With `base`, the
+   * server answers 409 if the tab was saved by someone else since.
+   */
   update: (
     projectId: string,
     tabId: string,
-    data: { name?: string; description?: string; content?: string },
+    data: { name?: string; description?: string; content?: string; base?: EditPrecondition },
   ) =>
     apiFetch<{ project: ApiProject }>(
       `/projects/${projectId}/custom-tabs/${tabId}`,
@@ -1631,7 +2674,10 @@ export const billingApi = {
   getPlans: () =>
     apiFetch<{ plans: BillingPlan[] }>("/billing/plans", { skipAuth: true }),
 
-  /** Returns current subscription state + usage counters for the authed user. */
+  /**
+   * Returns current subscription state + usage counters for the authed user,
+   * or for the organization when an organization workspace is active.
+   */
   getSubscription: () =>
     apiFetch<{ subscription: SubscriptionData; usage: UsageData }>(
       "/billing/subscription",
@@ -1689,7 +2735,10 @@ export const billingApi = {
       body: JSON.stringify({ months }),
     }),
 
-  /** Add extra seats (Pro/Team only). Prorated charge applied immediately or returns payment link. */
+  /**
+   * Add extra seats (Pro/Team only). Prorated charge applied immediately or returns payment link.
+   * In an organization workspace the seats go to the organization (owners only).
+   */
   addSeats: (seats: number) =>
     apiFetch<
       | { type: "immediate"; extraSeats: number; totalSeats: number }
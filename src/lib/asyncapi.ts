@@ -0,0 +1,284 @@
+/**
+ * asyncapi.ts — AsyncAPI 2.x and 3.x documents as an API reference.
+ *
+ * Converts the document to the endpoint model the reference viewer already
+ * renders (see isHttpSpec in ./api): one endpoint per operation, with the
+ * channel address as the path, channel parameters as path parameters,
+ * message headers as header parameters and the message payloads as the
+ * request body. A 3.x reply becomes the "reply" response.
+ * Bindings, traits and security schemes are not shown.
+ *
+ * The server does not parse AsyncAPI, so documents behind a URL are fetched
+ * through the Try-It proxy and converted here, on import and on every sync.
+ */
+import {
+  apiSpecApi,
+  type ApiSpecEndpoint,
+  type ApiSpecImportResult,
+  type ApiSpecParameter,
+  type ApiSpecRequestBodyContent,
+  type ApiSpecServer,
+  type ApiSpecTag,
+  type AsyncApiImportInput,
+} from "./api";
+import { parseSpecText, SpecTextError } from "./spec-text";
+
+export class AsyncApiParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "AsyncApiParseError";
+  }
+}
+
+type Node = Record<string, any>;
+
+const SCHEMA_REF = "#/components/schemas/";
+
+/** Whether `text` is an AsyncAPI document (JSON or YAML). */
+export function looksLikeAsyncApi(text: string): boolean {
+  return /(^|[{,])\s*["']?asyncapi["']?\s*:/m.test(text.trim());
+}
+
+function isObject(value: unknown): value is Node {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** Follow local `$ref`s (`#/components/messages/Foo`) until a plain object. */
+function deref(root: Node, node: unknown): Node {
+  let current = node;
+  for (let hops = 0; isObject(current) && typeof current.$ref === "string"; hops++) {
+    const ref: string = current.$ref;
+    if (!ref.startsWith("#/") || hops > 32) throw new AsyncApiParseError(`Cannot resolve $ref "${ref}"`);
+    current = ref
+      .slice(2)
+      .split("/")
+      .map((t) => decodeURIComponent(t).replace(/~1/g, "/").replace(/~0/g, "~"))
+      .reduce<unknown>((acc, key) => (isObject(acc) || Array.isArray(acc) ? (acc as Node)[key] : undefined), root);
+    if (current === undefined) throw new AsyncApiParseError(`Cannot resolve $ref "${ref}"`);
+  }
+  return isObject(current) ? current : {};
+}
+
+/**
+ * A payload or header schema. Named component schemas stay references, so the
+ * viewer resolves them against `schemas`; anything else is inlined.
+ */
+function schemaOf(root: Node, schema: unknown): Record<string, unknown> {
+  if (!isObject(schema)) return {};
+  if (typeof schema.$ref === "string") {
+    if (schema.$ref.startsWith(SCHEMA_REF)) return { $ref: schema.$ref };
+    return schemaOf(root, deref(root, schema));
+  }
+  // 3.x multi-format schema: { schemaFormat, schema }
+  if (typeof schema.schemaFormat === "string" && schema.schema !== undefined) return schemaOf(root, schema.schema);
+  return schema;
+}
+
+interface Message {
+  name: string;
+  summary: string;
+  description: string;
+  contentType: string;
+  payload: Record<string, unknown>;
+  headers: Record<string, unknown> | null;
+  deprecated: boolean;
+}
+
+function message(root: Node, node: unknown, name: string): Message {
+  const m = deref(root, node);
+  return {
+    name: m.name ?? m.title ?? name,
+    summary: m.summary ?? "",
+    description: m.description ?? "",
+    contentType: m.contentType ?? root.defaultContentType ?? "application/json",
+    payload: schemaOf(root, m.payload),
+    headers: m.headers ? schemaOf(root, m.headers) : null,
+    deprecated: !!m.deprecated,
+  };
+}
+
+/** Payloads grouped by content type; several messages of one type become a oneOf. */
+function payloadContent(messages: Message[]): Record<string, ApiSpecRequestBodyContent> {
+  const byType = new Map<string, Record<string, unknown>[]>();
+  for (const m of messages) byType.set(m.contentType, [...(byType.get(m.contentType) ?? []), m.payload]);
+  return Object.fromEntries(
+    [...byType].map(([type, payloads]) => [type, { schema: payloads.length === 1 ? payloads[0] : { oneOf: payloads } }]),
+  );
+}
+
+function headerParameters(root: Node, messages: Message[]): ApiSpecParameter[] {
+  const out = new Map<string, ApiSpecParameter>();
+  for (const m of messages) {
+    if (!m.headers) continue;
+    const headers = m.headers.$ref ? deref(root, m.headers) : m.headers;
+    const required = new Set<string>(Array.isArray(headers.required) ? headers.required : []);
+    for (const [name, schema] of Object.entries((headers.properties ?? {}) as Node)) {
+      if (out.has(name)) continue;
+      const s = schemaOf(root, schema);
+      out.set(name, { in: "header", name, required: required.has(name), description: String(s.description ?? ""), schema: s });
+    }
+  }
+  return [...out.values()];
+}
+
+function channelParameters(root: Node, channel: Node): ApiSpecParameter[] {
+  return Object.entries((channel.parameters ?? {}) as Node).map(([name, node]) => {
+    const p = deref(root, node);
+    // 2.x parameters carry a schema; 3.x ones are always strings
+    const schema = p.schema
+      ? schemaOf(root, p.schema)
+      : { type: "string", ...(p.enum ? { enum: p.enum } : {}), ...(p.default !== undefined ? { default: p.default } : {}) };
+    return { in: "path" as const, name, required: true, description: p.description ?? "", schema };
+  });
+}
+
+function servers(root: Node, v3: boolean): ApiSpecServer[] {
+  return Object.entries((root.servers ?? {}) as Node).map(([name, node]) => {
+    const s = deref(root, node);
+    const url = v3
+      ? `${s.protocol ? `${s.protocol}://` : ""}${s.host ?? ""}${s.pathname ?? ""}`
+      : String(s.url ?? "").includes("://") || !s.protocol ? String(s.url ?? "") : `${s.protocol}://${s.url}`;
+    return { url, description: s.description ?? s.title ?? name };
+  });
+}
+
+function tagNames(tags: unknown): string[] {
+  return Array.isArray(tags) ? tags.map((t) => (isObject(t) ? String(t.name ?? "") : "")).filter(Boolean) : [];
+}
+
+type Endpoint = Omit<ApiSpecEndpoint, "customNote">;
+
+function endpoint(
+  root: Node,
+  op: { method: string; path: string; node: Node; channel: Node; messages: Message[]; reply?: Message[] },
+): Endpoint {
+  const { method, path, node, channel, messages, reply } = op;
+  const first = messages.length === 1 ? messages[0] : null;
+  return {
+    id: `${method} ${path}`,
+    method,
+    path,
+    summary: node.summary ?? node.title ?? first?.summary ?? "",
+    description: node.description ?? channel.description ?? first?.description ?? "",
+    tags: tagNames(node.tags),
+    operationId: node.operationId ?? "",
+    parameters: [...channelParameters(root, channel), ...headerParameters(root, messages)],
+    requestBody: messages.length
+      ? {
+          required: true,
+          description: messages.length > 1 ? `One of: ${messages.map((m) => m.name).join(", ")}.` : "",
+          content: payloadContent(messages),
+        }
+      : null,
+    responses: reply?.length ? { reply: { description: "", content: payloadContent(reply) } } : {},
+    security: null,
+    deprecated: !!node.deprecated || (messages.length > 0 && messages.every((m) => m.deprecated)),
+  };
+}
+
+function endpointsV2(root: Node): Endpoint[] {
+  const out: Endpoint[] = [];
+  for (const [address, channelNode] of Object.entries((root.channels ?? {}) as Node)) {
+    const channel = deref(root, channelNode);
+    for (const action of ["publish", "subscribe"] as const) {
+      if (!channel[action]) continue;
+      const node = deref(root, channel[action]);
+      const m = deref(root, node.message);
+      const messages = Array.isArray(m.oneOf)
+        ? m.oneOf.map((x: unknown, i: number) => message(root, x, `Message ${i + 1}`))
+        : node.message ? [message(root, m, node.operationId ?? action)] : [];
+      out.push(endpoint(root, { method: action.toUpperCase(), path: address, node, channel, messages }));
+    }
+  }
+  return out;
+}
+
+function endpointsV3(root: Node): Endpoint[] {
+  const channelMessages = (channel: Node) =>
+    Object.entries((channel.messages ?? {}) as Node).map(([name, m]) => message(root, m, name));
+  const listed = (refs: unknown, channel: Node) =>
+    Array.isArray(refs) ? refs.map((r, i) => message(root, r, `Message ${i + 1}`)) : channelMessages(channel);
+
+  return Object.entries((root.operations ?? {}) as Node).map(([operationId, opNode]) => {
+    const node = deref(root, opNode);
+    if (!node.channel) throw new AsyncApiParseError(`Operation "${operationId}" has no channel`);
+    // A null address means the channel is only known by its key
+    const channelKey = typeof node.channel.$ref === "string" ? decodeURIComponent(node.channel.$ref.split("/").pop()) : "";
+    const channel = deref(root, node.channel);
+    const path = typeof channel.address === "string" ? channel.address : channelKey || operationId;
+    const reply = node.reply ? deref(root, node.reply) : null;
+    const replyChannel = reply?.channel ? deref(root, reply.channel) : channel;
+    return endpoint(root, {
+      method: String(node.action ?? "send").toUpperCase(),
+      path,
+      node: { operationId, ...node },
+      channel,
+      messages: listed(node.messages, channel),
+      reply: reply ? listed(reply.messages, replyChannel) : undefined,
+    });
+  });
+}
+
+/** Endpoint ids must be unique; operations sharing a channel and action get their operationId appended. */
+function uniqueIds(endpoints: Endpoint[]): Endpoint[] {
+  const seen = new Set<string>();
+  return endpoints.map((e) => {
+    const id = seen.has(e.id) ? `${e.id} ${e.operationId || seen.size}` : e.id;
+    seen.add(id);
+    return { ...e, id };
+  });
+}
+
+/** Parse an AsyncAPI document (JSON or YAML) into the input for apiSpecApi.importAsyncapi. */
+export function asyncApiToSpec(text: string, title?: string): Omit<AsyncApiImportInput, "source"> {
+  let root: unknown;
+  try {
+    root = parseSpecText(text).value;
+  } catch (err) {
+    if (err instanceof SpecTextError) throw new AsyncApiParseError(err.message, err.line);
+    throw err;
+  }
+  if (!isObject(root) || typeof root.asyncapi !== "string") throw new AsyncApiParseError("Not an AsyncAPI document: missing `asyncapi` version");
+  const major = root.asyncapi.split(".")[0];
+  if (major !== "2" && major !== "3") throw new AsyncApiParseError(`AsyncAPI ${root.asyncapi} is not supported; use 2.x or 3.x`);
+  const v3 = major === "3";
+
+  const info = isObject(root.info) ? root.info : {};
+  const tags: ApiSpecTag[] = (Array.isArray(root.tags) ? root.tags : Array.isArray(info.tags) ? info.tags : [])
+    .filter(isObject)
+    .map((t: Node) => ({ name: String(t.name ?? ""), description: t.description ?? "" }));
+
+  return {
+    specVersion: v3 ? "asyncapi-3" : "asyncapi-2",
+    info: {
+      title: info.title || title || "AsyncAPI",
+      version: info.version ?? "",
+      description: info.description ?? "",
+      ...(info.contact ? { contact: info.contact } : {}),
+      ...(info.license ? { license: info.license } : {}),
+      ...(info.termsOfService ? { termsOfService: info.termsOfService } : {}),
+    },
+    servers: servers(root, v3),
+    tags,
+    endpoints: uniqueIds(v3 ? endpointsV3(root) : endpointsV2(root)),
+    schemas: isObject(root.components?.schemas) ? root.components.schemas : {},
+  };
+}
+
+/** Fetch a document through the Try-It proxy, which avoids CORS. */
+export async function fetchDocument(projectId: string, url: string): Promise<string> {
+  const res = await apiSpecApi.tryRequest(projectId, {
+    method: "GET",
+    baseUrl: url,
+    path: "",
+    headers: { Accept: "application/json, application/yaml, text/yaml, */*" },
+  });
+  if (res.status >= 400) throw new Error(`Fetching ${url} failed with HTTP ${res.status}.`);
+  return res.body;
+}
+
+/** Import (or re-import, for sync) the AsyncAPI document at `url`. */
+export async function importAsyncApiUrl(projectId: string, url: string): Promise<ApiSpecImportResult> {
+  const text = await fetchDocument(projectId, url);
+  return apiSpecApi.importAsyncapi(projectId, { ...asyncApiToSpec(text), source: "url", url });
+}
@@ -0,0 +1,273 @@
+/**
+ * collab.ts — Realtime collaboration protocol and transports.
+ *
+ * Editors of a project join a room (the project id). The server relays
+ * presence (which tab each peer has open, whether they are editing, where
+ * their cursor is) and CRDT ops for the sections being edited, and hands the
+ * current op log of a section to peers that open it later.
+ *
+ * Two transports speak the protocol:
+ *
+ *   websocket — the backend's /collab endpoint (default)
+ *   local     — a BroadcastChannel stand-in for development and tests
+ *               (VITE_COLLAB_URL=local). Tabs of the same browser act as
+ *               each other's server: ops are broadcast, and section logs are
+ *               served by whichever tab already has the section open.
+ *
+ * When neither connects the editor falls back to optimistic locking on save.
+ */
+import { API_BASE, getAccessToken } from "./api";
+import type { CrdtOp } from "./crdt";
+
+// ── Protocol ──────────────────────────────────────────────────────────────
+
+export interface CollabUser {
+  id: string;
+  name: string;
+  email: string;
+}
+
+/** Cursor as CRDT ids so it stays put while others type (see crdt.ts) */
+export interface CollabCursor {
+  anchor: string | null;
+  head: string | null;
+}
+
+export interface CollabPresence {
+  tab: string | null;
+  editing: boolean;
+  cursor: CollabCursor | null;
+}
+
+export interface CollabPeer {
+  clientId: string;
+  user: CollabUser;
+  presence: CollabPresence;
+}
+
+/** Another editor's caret, resolved to an offset in the local text */
+export interface RemoteCursor {
+  clientId: string;
+  name: string;
+  color: string;
+  offset: number;
+}
+
+export type CollabClientMessage =
+  | { type: "join"; room: string; user: CollabUser }
+  | { type: "presence"; presence: CollabPresence }
+  | { type: "ops"; section: string; ops: CrdtOp[] }
+  | { type: "sync"; section: string }
+  | { type: "leave" };
+
+export type CollabServerMessage =
+  | { type: "welcome"; clientId: string; peers: CollabPeer[] }
+  | { type: "presence"; peer: CollabPeer }
+  | { type: "left"; clientId: string }
+  | { type: "ops"; section: string; ops: CrdtOp[]; from: string }
+  /** Reply to "sync": the section's op log (empty = nobody has it open) */
+  | { type: "snapshot"; section: string; ops: CrdtOp[] };
+
+export interface CollabTransport {
+  send: (msg: CollabClientMessage) => void;
+  close: () => void;
+}
+
+export interface CollabHandlers {
+  onMessage: (msg: CollabServerMessage) => void;
+  /** Connection lost after it was established */
+  onClose: () => void;
+  /** Local transport only: this tab's op log for a section, if it has one */
+  getSnapshot: (section: string) => CrdtOp[] | null;
+}
+
+const CONNECT_TIMEOUT_MS = 5000;
+
+const PEER_COLORS = [
+  "#e11d48", "#2563eb", "#16a34a", "#d97706",
+  "#7c3aed", "#0891b2", "#db2777", "#65a30d",
+];
+
+/** Stable colour for a peer's avatar and cursor. */
+export function peerColor(clientId: string): string {
+  let h = 0;
+  for (let i = 0; i < clientId.length; i++) h = (h * 31 + clientId.charCodeAt(i)) | 0;
+  return PEER_COLORS[Math.abs(h) % PEER_COLORS.length];
+}
+
+/**
+ * Open a transport for `room`. Resolves once connected; rejects when the
+ * collaboration server can't be reached so callers can fall back.
+ */
+export function connectCollab(room: string, handlers: CollabHandlers): Promise<CollabTransport> {
+  const target = import.meta.env.VITE_COLLAB_URL as string | undefined;
+  if (target === "local") return Promise.resolve(localTransport(room, handlers));
+  if (typeof WebSocket === "undefined") return Promise.reject(new Error("WebSocket unavailable"));
+  return webSocketTransport(target || defaultCollabUrl(), handlers);
+}
+
+function defaultCollabUrl(): string {
+  const base = API_BASE || window.location.origin;
+  return `${base.replace(/^http/, "ws")}/collab`;
+}
+
+// ── WebSocket ─────────────────────────────────────────────────────────────
+
+function webSocketTransport(url: string, handlers: CollabHandlers): Promise<CollabTransport> {
+  return new Promise((resolve, reject) => {
+    const token = getAccessToken();
+    const ws = new WebSocket(token ? `${url}?token=${encodeURIComponent(token)}` : url);
+    let open = false;
+
+    const timer = setTimeout(() => {
+      if (!open) ws.close();
+    }, CONNECT_TIMEOUT_MS);
+
+    ws.onopen = () => {
+      open = true;
+      clearTimeout(timer);
+      resolve({
+        send: (msg) => {
+          if (ws.readyState === WebSocket.OPEN) ws.send(JSON.stringify(msg));
+        },
+        close: () => {
+          ws.onclose = null;
+          ws.close();
+        },
+      });
+    };
+    ws.onmessage = (e) => {
+      try {
+        handlers.onMessage(JSON.parse(e.data));
+      } catch {
+        // ignore malformed frames
+      }
+    };
+    ws.onclose = () => {
+      clearTimeout(timer);
+      if (open) handlers.onClose();
+      else reject(new Error("Collaboration server unavailable"));
+    };
+  });
+}
+
+// ── Local stand-in ────────────────────────────────────────────────────────
+
+type LocalFrame =
+  | { kind: "presence"; peer: CollabPeer }
+  | { kind: "hello"; peer: CollabPeer }
+  | { kind: "left"; clientId: string }
+  | { kind: "ops"; section: string; ops: CrdtOp[]; from: string }
+  | { kind: "sync"; section: string; from: string }
+  | { kind: "snapshot"; section: string; ops: CrdtOp[]; to: string };
+
+const HEARTBEAT_MS = 5000;
+const PEER_TIMEOUT_MS = 15000;
+/** How long a "sync" waits for another tab before assuming nobody has the section */
+const SYNC_WAIT_MS = 300;
+
+function localTransport(room: string, handlers: CollabHandlers): CollabTransport {
+  const channel = new BroadcastChannel(`docnine-collab:${room}`);
+  const clientId = crypto.randomUUID();
+  const lastSeen = new Map<string, number>();
+  const syncWaits = new Map<string, ReturnType<typeof setTimeout>>();
+  let self: CollabPeer | null = null;
+  let closed = false;
+
+  const post = (frame: LocalFrame) => {
+    if (!closed) channel.postMessage(frame);
+  };
+  const emit = (msg: CollabServerMessage) => queueMicrotask(() => handlers.onMessage(msg));
+
+  const seen = (peer: CollabPeer) => {
+    lastSeen.set(peer.clientId, Date.now());
+    emit({ type: "presence", peer });
+  };
+
+  channel.onmessage = (e: MessageEvent<LocalFrame>) => {
+    const frame = e.data;
+    switch (frame.kind) {
+      case "hello":
+        seen(frame.peer);
+        if (self) post({ kind: "presence", peer: self });
+        break;
+      case "presence":
+        seen(frame.peer);
+        break;
+      case "left":
+        lastSeen.delete(frame.clientId);
+        emit({ type: "left", clientId: frame.clientId });
+        break;
+      case "ops":
+        emit({ type: "ops", section: frame.section, ops: frame.ops, from: frame.from });
+        break;
+      case "sync": {
+        const ops = handlers.getSnapshot(frame.section);
+        if (ops) post({ kind: "snapshot", section: frame.section, ops, to: frame.from });
+        break;
+      }
+      case "snapshot": {
+        const wait = syncWaits.get(frame.section);
+        if (frame.to !== clientId || !wait) break;
+        clearTimeout(wait);
+        syncWaits.delete(frame.section);
+        emit({ type: "snapshot", section: frame.section, ops: frame.ops });
+        break;
+      }
+    }
+  };
+
+  const heartbeat = setInterval(() => {
+    if (self) post({ kind: "presence", peer: self });
+    const cutoff = Date.now() - PEER_TIMEOUT_MS;
+    for (const [id, at] of lastSeen) {
+      if (at >= cutoff) continue;
+      lastSeen.delete(id);
+      emit({ type: "left", clientId: id });
+    }
+  }, HEARTBEAT_MS);
+
+  const close = () => {
+    if (closed) return;
+    clearInterval(heartbeat);
+    syncWaits.forEach(clearTimeout);
+    post({ kind: "left", clientId });
+    closed = true;
+    channel.close();
+  };
+
+  return {
+    send: (msg) => {
+      switch (msg.type) {
+        case "join":
+          self = { clientId, user: msg.user, presence: { tab: null, editing: false, cursor: null } };
+          emit({ type: "welcome", clientId, peers: [] });
+          post({ kind: "hello", peer: self });
+          break;
+        case "presence":
+          if (!self) break;
+          self = { ...self, presence: msg.presence };
+          post({ kind: "presence", peer: self });
+          break;
+        case "ops":
+          post({ kind: "ops", section: msg.section, ops: msg.ops, from: clientId });
+          break;
+        case "sync":
+          clearTimeout(syncWaits.get(msg.section));
+          syncWaits.set(
+            msg.section,
+            setTimeout(() => {
+              syncWaits.delete(msg.section);
+              emit({ type: "snapshot", section: msg.section, ops: [] });
+            }, SYNC_WAIT_MS),
+          );
+          post({ kind: "sync", section: msg.section, from: clientId });
+          break;
+        case "leave":
+          close();
+          break;
+      }
+    },
+    close,
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * comment-anchors.ts — Locate review comments inside a section's markdown.
+ *
+ * A comment is anchored to a heading and, optionally, a quoted text range.
+ * When the section is edited the quote may move or disappear, so anchors are
+ * re-resolved against the current source:
+ *
+ *   exact    — the quoted text was found (closest occurrence to the old offset)
+ *   heading  — the quote is gone but its heading still exists
+ *   nearest  — the heading is gone too; attach to the heading that now sits
+ *              closest before the old offset
+ *   document — the section has no headings left
+ */
+import type { ApiCommentAnchor } from "@/lib/api";
+
+export interface MarkdownHeading {
+  slug: string;
+  text: string;
+  level: number;
+  offset: number;
+}
+
+export type AnchorResolutionKind = "exact" | "heading" | "nearest" | "document";
+
+export interface AnchorResolution {
+  anchor: ApiCommentAnchor;
+  kind: AnchorResolutionKind;
+}
+
+/** Same slug rules as the heading ids rendered by DocRenderer. */
+export function slugifyHeading(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .replace(/[^\w\s-]/g, "")
+      .replace(/\s+/g, "-")
+      .replace(/-+/g, "-")
+      .trim() || "section"
+  );
+}
+
+/** Strip inline markdown so heading text matches what DocRenderer displays. */
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+    .replace(/[*_`~]/g, "")
+    .replace(/\s+#+\s*$/, "")
+    .trim();
+}
+
+/** ATX headings (levels 1–3, the ones DocRenderer gives ids) outside code fences. */
+export function extractHeadings(markdown: string): MarkdownHeading[] {
+  const headings: MarkdownHeading[] = [];
+  let offset = 0;
+  let inFence = false;
+  for (const line of markdown.split("\n")) {
+    if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+    const m = !inFence && /^(#{1,3})\s+(.+)$/.exec(line);
+    if (m) {
+      const text = stripInlineMarkdown(m[2]);
+      headings.push({ slug: slugifyHeading(text), text, level: m[1].length, offset });
+    }
+    offset += line.length + 1;
+  }
+  return headings;
+}
+
+function escapeRegExp(ch: string): string {
+  return ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find a quote taken from rendered text inside the markdown source. Inline
+ * markers (`**`, `_`, `` ` ``, `~`) may sit between characters and whitespace
+ * may differ. Returns the match start closest to `near`, or -1.
+ */
+export function findQuote(markdown: string, quote: string, near = 0): number {
+  const trimmed = quote.trim().replace(/\s+/g, " ").slice(0, 500);
+  if (!trimmed) return -1;
+  const pattern = Array.from(trimmed)
+    .map((ch) => (ch === " " ? "\\s+" : escapeRegExp(ch)))
+    .join("[*_`~]*");
+  let best = -1;
+  for (const m of markdown.matchAll(new RegExp(pattern, "g"))) {
+    const idx = m.index ?? 0;
+    if (best === -1 || Math.abs(idx - near) < Math.abs(best - near)) best = idx;
+  }
+  return best;
+}
+
+/** The last heading that starts at or before `offset`. */
+function headingBefore(headings: MarkdownHeading[], offset: number): MarkdownHeading | null {
+  let found: MarkdownHeading | null = null;
+  for (const h of headings) {
+    if (h.offset > offset) break;
+    found = h;
+  }
+  return found ?? headings[0] ?? null;
+}
+
+/** Build an anchor for a new comment on a heading or a selected quote. */
+export function createAnchor(
+  markdown: string,
+  headingSlug: string | null,
+  quote: string | null,
+): ApiCommentAnchor {
+  const headings = extractHeadings(markdown);
+  const heading = headingSlug ? headings.find((h) => h.slug === headingSlug) ?? null : null;
+  const quoteOffset = quote ? findQuote(markdown, quote, heading?.offset ?? 0) : -1;
+  const owner = quoteOffset >= 0 ? headingBefore(headings, quoteOffset) : heading;
+  return {
+    headingSlug: owner?.slug ?? null,
+    headingText: owner?.text ?? null,
+    quote: quote?.trim() || null,
+    offset: quoteOffset >= 0 ? quoteOffset : heading?.offset ?? 0,
+  };
+}
+
+/** Re-resolve a stored anchor against the current markdown. */
+export function resolveAnchor(markdown: string, anchor: ApiCommentAnchor): AnchorResolution {
+  const headings = extractHeadings(markdown);
+
+  if (anchor.quote) {
+    const idx = findQuote(markdown, anchor.quote, anchor.offset);
+    if (idx >= 0) {
+      const owner = headingBefore(headings, idx);
+      return {
+        kind: "exact",
+        anchor: { ...anchor, headingSlug: owner?.slug ?? null, headingText: owner?.text ?? null, offset: idx },
+      };
+    }
+  }
+
+  const heading = anchor.headingSlug ? headings.find((h) => h.slug === anchor.headingSlug) : undefined;
+  if (heading) {
+    return {
+      kind: anchor.quote ? "heading" : "exact",
+      anchor: { ...anchor, headingText: heading.text, offset: heading.offset },
+    };
+  }
+
+  const nearest = headingBefore(headings, anchor.offset);
+  if (nearest) {
+    return {
+      kind: "nearest",
+      anchor: { ...anchor, headingSlug: nearest.slug, headingText: nearest.text, offset: nearest.offset },
+    };
+  }
+
+  return { kind: "document", anchor: { ...anchor, headingSlug: null, headingText: null, offset: 0 } };
+}
+
+/** True when re-resolution moved the anchor and the change should be persisted. */
+export function anchorChanged(a: ApiCommentAnchor, b: ApiCommentAnchor): boolean {
+  return a.headingSlug !== b.headingSlug || a.offset !== b.offset;
+}
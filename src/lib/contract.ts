@@ -0,0 +1,286 @@
+/**
+ * contract.ts — Check Try-It responses against the imported spec.
+ *
+ * A response is matched to its documented status code and media type, then
+ * the body is validated against that schema. Errors are real contract breaks
+ * (missing required fields, wrong types, undocumented status codes); warnings
+ * are softer drift such as extra fields or unexpected formats.
+ */
+import type { ApiSpec, ApiSpecEndpoint, ApiSpecResponse, TryItResult } from "./api";
+import { mergeAllOf, resolveRef } from "./schema-example";
+
+type Schema = Record<string, unknown>;
+
+export type ContractIssueKind =
+  | "undocumented-status"
+  | "content-type"
+  | "invalid-body"
+  | "missing"
+  | "type"
+  | "enum"
+  | "format"
+  | "undocumented-field";
+
+export interface ContractIssue {
+  kind: ContractIssueKind;
+  severity: "error" | "warning";
+  /** JSON path inside the body, e.g. `$.items[0].id`; empty for response-level issues */
+  path: string;
+  message: string;
+}
+
+export interface ValidationReport {
+  status: number;
+  /** The `responses` key the status matched ("200", "2XX", "default"), if any */
+  matched: string | null;
+  /** False when the spec documents no schema to check the body against */
+  schemaChecked: boolean;
+  issues: ContractIssue[];
+}
+
+export const ISSUE_LABELS: Record<ContractIssueKind, string> = {
+  "undocumented-status": "Undocumented status",
+  "content-type": "Unexpected content type",
+  "invalid-body": "Unparseable body",
+  missing: "Missing required field",
+  type: "Type mismatch",
+  enum: "Value not in enum",
+  format: "Format mismatch",
+  "undocumented-field": "Undocumented field",
+};
+
+const MAX_ISSUES = 50;
+
+const FORMAT_CHECKS: Record<string, (v: string) => boolean> = {
+  "date-time": (v) => /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?$/i.test(v) && !Number.isNaN(Date.parse(v)),
+  date: (v) => /^\d{4}-\d{2}-\d{2}$/.test(v),
+  uuid: (v) => /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(v),
+  email: (v) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(v),
+  uri: (v) => URL.canParse(v),
+  ipv4: (v) => /^(\d{1,3}\.){3}\d{1,3}$/.test(v),
+};
+
+// ── Schema validation ────────────────────────────────────────────────────
+
+function jsonType(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  if (typeof value === "number") return Number.isInteger(value) ? "integer" : "number";
+  return typeof value;
+}
+
+function allowedTypes(schema: Schema): string[] | null {
+  const types = Array.isArray(schema.type) ? (schema.type as string[]) : typeof schema.type === "string" ? [schema.type] : null;
+  if (!types) return schema.properties ? ["object"] : schema.items ? ["array"] : null;
+  return schema.nullable ? [...types, "null"] : types;
+}
+
+function typeMatches(actual: string, allowed: string[]): boolean {
+  return allowed.includes(actual) || (actual === "integer" && allowed.includes("number"));
+}
+
+function childPath(path: string, key: string | number): string {
+  if (typeof key === "number") return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * `refs` holds the $refs followed to reach `schema` without descending into
+ * the value; meeting one again is a cycle (A → B → A) and checks nothing more.
+ */
+function validate(
+  value: unknown,
+  schema: unknown,
+  schemas: Record<string, unknown>,
+  path: string,
+  out: ContractIssue[],
+  refs: Set<string> = new Set(),
+) {
+  if (!schema || typeof schema !== "object" || out.length >= MAX_ISSUES) return;
+  let s = schema as Schema;
+
+  if (typeof s.$ref === "string") {
+    if (refs.has(s.$ref)) return;
+    const resolved = resolveRef(schemas, s.$ref);
+    if (resolved) validate(value, resolved, schemas, path, out, new Set(refs).add(s.$ref));
+    return;
+  }
+  if (Array.isArray(s.allOf)) s = mergeAllOf([...(s.allOf as Schema[]), { ...s, allOf: undefined }], schemas, new Set());
+
+  for (const key of ["oneOf", "anyOf"] as const) {
+    const options = s[key];
+    if (!Array.isArray(options) || !options.length) continue;
+    // Valid when any alternative has no errors; otherwise report the closest one
+    let best: ContractIssue[] | null = null;
+    for (const option of options) {
+      const attempt: ContractIssue[] = [];
+      validate(value, option, schemas, path, attempt, refs);
+      const errors = attempt.filter((i) => i.severity === "error").length;
+      if (errors === 0) {
+        best = [];
+        break;
+      }
+      if (!best || errors < best.filter((i) => i.severity === "error").length) best = attempt;
+    }
+    out.push(...(best ?? []));
+    if (best?.length) return;
+  }
+
+  const actual = jsonType(value);
+  const types = allowedTypes(s);
+  if (types && !typeMatches(actual, types)) {
+    out.push({ kind: "type", severity: "error", path, message: `Expected ${types.join(" | ")}, got ${actual}` });
+    return;
+  }
+
+  if (Array.isArray(s.enum) && !s.enum.some((e) => JSON.stringify(e) === JSON.stringify(value))) {
+    out.push({
+      kind: "enum",
+      severity: "error",
+      path,
+      message: `${JSON.stringify(value)} is not one of ${s.enum.map((e) => JSON.stringify(e)).join(", ")}`,
+    });
+  }
+
+  if (actual === "string" && typeof s.format === "string") {
+    const check = FORMAT_CHECKS[s.format];
+    if (check && !check(value as string)) {
+      out.push({ kind: "format", severity: "warning", path, message: `Not a valid ${s.format}: ${JSON.stringify(value)}` });
+    }
+  }
+
+  if (actual === "object") {
+    const obj = value as Record<string, unknown>;
+    const props = (s.properties ?? {}) as Record<string, Schema>;
+    for (const name of (s.required as string[] | undefined) ?? []) {
+      if (!Object.hasOwn(obj, name) && !props[name]?.writeOnly) {
+        out.push({ kind: "missing", severity: "error", path: childPath(path, name), message: `Required field "${name}" is missing` });
+      }
+    }
+    for (const [name, child] of Object.entries(obj)) {
+      if (Object.hasOwn(props, name)) {
+        validate(child, props[name], schemas, childPath(path, name), out);
+      } else if (s.additionalProperties && typeof s.additionalProperties === "object") {
+        validate(child, s.additionalProperties, schemas, childPath(path, name), out);
+      } else if (Object.keys(props).length && s.additionalProperties !== true) {
+        out.push({
+          kind: "undocumented-field",
+          severity: s.additionalProperties === false ? "error" : "warning",
+          path: childPath(path, name),
+          message: `Field "${name}" is not in the spec`,
+        });
+      }
+    }
+  }
+
+  if (actual === "array" && s.items) {
+    (value as unknown[]).forEach((item, i) => validate(item, s.items, schemas, childPath(path, i), out));
+  }
+}
+
+/** Issues found validating `value` against `schema`; `$ref`s resolve into `schemas`. */
+export function validateAgainstSchema(value: unknown, schema: unknown, schemas: Record<string, unknown> = {}): ContractIssue[] {
+  const out: ContractIssue[] = [];
+  validate(value, schema, schemas, "$", out);
+  return out.slice(0, MAX_ISSUES);
+}
+
+// ── Responses ────────────────────────────────────────────────────────────
+
+/** The documented response for a status: exact code, then `2XX`-style ranges, then `default`. */
+export function matchResponse(endpoint: ApiSpecEndpoint, status: number): [string, ApiSpecResponse] | null {
+  const entries = Object.entries(endpoint.responses ?? {});
+  return (
+    entries.find(([code]) => code === String(status)) ??
+    entries.find(([code]) => code.toUpperCase() === `${String(status)[0]}XX`) ??
+    entries.find(([code]) => code === "default") ??
+    null
+  );
+}
+
+export function validateResponse(spec: Pick<ApiSpec, "schemas">, endpoint: ApiSpecEndpoint, result: TryItResult): ValidationReport {
+  const report: ValidationReport = { status: result.status, matched: null, schemaChecked: false, issues: [] };
+  const match = matchResponse(endpoint, result.status);
+  if (!match) {
+    const documented = Object.keys(endpoint.responses ?? {});
+    report.issues.push({
+      kind: "undocumented-status",
+      severity: "error",
+      path: "",
+      message: `Status ${result.status} is not documented${documented.length ? ` (documented: ${documented.join(", ")})` : ""}`,
+    });
+    return report;
+  }
+  report.matched = match[0];
+
+  const content = match[1].content ?? {};
+  const mediaTypes = Object.keys(content);
+  if (!mediaTypes.length) return report;
+
+  const headerKey = Object.keys(result.headers).find((k) => k.toLowerCase() === "content-type");
+  const contentType = (headerKey ? result.headers[headerKey] : "").split(";")[0].trim().toLowerCase();
+  const mediaType =
+    mediaTypes.find((m) => m.toLowerCase() === contentType) ??
+    mediaTypes.find((m) => m.endsWith("/*") && contentType.startsWith(m.slice(0, -1))) ??
+    mediaTypes.find((m) => m === "*/*");
+  if (!mediaType) {
+    report.issues.push({
+      kind: "content-type",
+      severity: "warning",
+      path: "",
+      message: `Content type "${contentType || "none"}" is not documented (expected ${mediaTypes.join(", ")})`,
+    });
+  }
+
+  const media = content[mediaType ?? mediaTypes[0]];
+  const isJson = /json/i.test(mediaType ?? contentType);
+  if (!media?.schema || !Object.keys(media.schema).length || !isJson) return report;
+
+  let body: unknown;
+  try {
+    body = JSON.parse(result.body);
+  } catch {
+    report.issues.push({ kind: "invalid-body", severity: "error", path: "", message: "The body is not valid JSON" });
+    return report;
+  }
+  report.schemaChecked = true;
+  report.issues.push(...validateAgainstSchema(body, media.schema, spec.schemas ?? {}));
+  return report;
+}
+
+export const hasErrors = (report: ValidationReport) => report.issues.some((i) => i.severity === "error");
+
+// ── Drift summary ────────────────────────────────────────────────────────
+
+export interface EndpointDrift {
+  endpoint: ApiSpecEndpoint;
+  report: ValidationReport;
+  checkedAt: number;
+}
+
+export interface ContractDrift {
+  /** Endpoints with at least one validated response, newest report each */
+  checked: EndpointDrift[];
+  failing: EndpointDrift[];
+  /** Issue counts across the newest report of every endpoint */
+  byKind: Partial<Record<ContractIssueKind, number>>;
+}
+
+/**
+ * Aggregate the newest validation report of each endpoint. `history` maps
+ * endpoint ids to newest-first entries.
+ */
+export function contractDrift(
+  spec: Pick<ApiSpec, "endpoints">,
+  history: Record<string, { sentAt: number; validation?: ValidationReport | null }[]>,
+): ContractDrift {
+  const checked: EndpointDrift[] = [];
+  const byKind: ContractDrift["byKind"] = {};
+  for (const endpoint of spec.endpoints) {
+    const latest = history[endpoint.id]?.find((e) => e.validation);
+    if (!latest?.validation) continue;
+    checked.push({ endpoint, report: latest.validation, checkedAt: latest.sentAt });
+    for (const issue of latest.validation.issues) byKind[issue.kind] = (byKind[issue.kind] ?? 0) + 1;
+  }
+  return { checked, failing: checked.filter((d) => hasErrors(d.report)), byKind };
+}
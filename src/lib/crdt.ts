@@ -0,0 +1,190 @@
+/**
+ * crdt.ts — Replicated text for concurrent section editing.
+ *
+ * An RGA (replicated growable array): every character gets a unique id
+ * `clock@site` and remembers the character it was typed after. Replicas that
+ * have seen the same set of ops hold the same text regardless of the order
+ * the ops arrived in. Deleted characters stay as tombstones so later ops can
+ * still reference them.
+ *
+ * Inserts are run-length encoded: `{ id: "5@a", text: "abc" }` stands for
+ * `5@a`, `6@a`, `7@a`, each placed after the previous one.
+ */
+
+export type CrdtOp =
+  | { t: "ins"; id: string; after: string | null; text: string }
+  | { t: "del"; id: string };
+
+interface Atom {
+  id: string;
+  clock: number;
+  site: string;
+  ch: string;
+  deleted: boolean;
+}
+
+/** Site of the deterministic seed, so replicas seeding the same text agree. */
+const SEED_SITE = "0";
+
+function parseId(id: string): [number, string] {
+  const at = id.indexOf("@");
+  return [Number(id.slice(0, at)), id.slice(at + 1)];
+}
+
+/** Later clocks sort first; ties broken by site. */
+function precedes(a: Atom, clock: number, site: string): boolean {
+  return a.clock > clock || (a.clock === clock && a.site > site);
+}
+
+export class TextCrdt {
+  private atoms: Atom[] = [];
+  private byId = new Map<string, Atom>();
+  private clock = 0;
+  /** Ops whose dependencies haven't arrived yet */
+  private pending: CrdtOp[] = [];
+
+  constructor(readonly site: string) {}
+
+  get text(): string {
+    let out = "";
+    for (const a of this.atoms) if (!a.deleted) out += a.ch;
+    return out;
+  }
+
+  /** Every op needed to rebuild this replica from scratch. */
+  snapshot(): CrdtOp[] {
+    const ops: CrdtOp[] = [];
+    let run: { t: "ins"; id: string; after: string | null; text: string } | null = null;
+    let prev: Atom | null = null;
+    for (const a of this.atoms) {
+      // Extend the run while ids are consecutive on the same site
+      if (run && prev && a.site === prev.site && a.clock === prev.clock + 1) {
+        run.text += a.ch;
+      } else {
+        run = { t: "ins", id: a.id, after: prev?.id ?? null, text: a.ch };
+        ops.push(run);
+      }
+      prev = a;
+    }
+    for (const a of this.atoms) if (a.deleted) ops.push({ t: "del", id: a.id });
+    return ops.concat(this.pending);
+  }
+
+  /** Initialise an empty replica with `text` using ids every replica agrees on. */
+  seed(text: string): CrdtOp[] {
+    if (!text) return [];
+    const op: CrdtOp = { t: "ins", id: `1@${SEED_SITE}`, after: null, text };
+    this.apply([op]);
+    return [op];
+  }
+
+  /** Record a local edit that turned the current text into `next`. */
+  applyText(next: string): CrdtOp[] {
+    const visible = this.atoms.filter((a) => !a.deleted);
+    const prev = visible.map((a) => a.ch).join("");
+    if (prev === next) return [];
+
+    let start = 0;
+    const max = Math.min(prev.length, next.length);
+    while (start < max && prev[start] === next[start]) start++;
+    let end = 0;
+    while (
+      end < max - start &&
+      prev[prev.length - 1 - end] === next[next.length - 1 - end]
+    ) end++;
+
+    const ops: CrdtOp[] = [];
+    for (let i = start; i < prev.length - end; i++) {
+      ops.push({ t: "del", id: visible[i].id });
+    }
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) {
+      ops.push({
+        t: "ins",
+        id: `${this.clock + 1}@${this.site}`,
+        after: start > 0 ? visible[start - 1].id : null,
+        text: inserted,
+      });
+    }
+    this.apply(ops);
+    return ops;
+  }
+
+  /** Integrate ops (local or remote). Returns true if the text changed. */
+  apply(ops: CrdtOp[]): boolean {
+    let changed = false;
+    let queue = [...this.pending, ...ops];
+    this.pending = [];
+    // Retry deferred ops until a pass makes no progress
+    for (;;) {
+      const deferred: CrdtOp[] = [];
+      for (const op of queue) {
+        const result = op.t === "ins" ? this.insert(op) : this.remove(op.id);
+        if (result === null) deferred.push(op);
+        else changed ||= result;
+      }
+      if (deferred.length === 0 || deferred.length === queue.length) {
+        this.pending = deferred;
+        return changed;
+      }
+      queue = deferred;
+    }
+  }
+
+  /** Id of the character before visible offset `index` (null = start). */
+  idBefore(index: number): string | null {
+    if (index <= 0) return null;
+    let seen = 0;
+    for (const a of this.atoms) {
+      if (a.deleted) continue;
+      if (++seen === index) return a.id;
+    }
+    return this.atoms.length ? this.atoms[this.atoms.length - 1].id : null;
+  }
+
+  /** Visible offset just after the character `id` (deleted or not). */
+  indexAfter(id: string | null): number {
+    if (!id) return 0;
+    let seen = 0;
+    for (const a of this.atoms) {
+      if (!a.deleted) seen++;
+      if (a.id === id) return seen;
+    }
+    return seen;
+  }
+
+  /** null = dependency missing, retry later */
+  private insert(op: Extract<CrdtOp, { t: "ins" }>): boolean | null {
+    let after = op.after;
+    if (after !== null && !this.byId.has(after)) return null;
+    const [clock0, site] = parseId(op.id);
+    let changed = false;
+
+    for (let k = 0; k < op.text.length; k++) {
+      const clock = clock0 + k;
+      const id = `${clock}@${site}`;
+      this.clock = Math.max(this.clock, clock);
+      if (this.byId.has(id)) {
+        after = id; // already integrated (duplicate delivery / same seed)
+        continue;
+      }
+      let i = after === null ? 0 : this.atoms.indexOf(this.byId.get(after)!) + 1;
+      // Concurrent inserts at the same spot: later ids go first
+      while (i < this.atoms.length && precedes(this.atoms[i], clock, site)) i++;
+      const atom: Atom = { id, clock, site, ch: op.text[k], deleted: false };
+      this.atoms.splice(i, 0, atom);
+      this.byId.set(id, atom);
+      after = id;
+      changed = true;
+    }
+    return changed;
+  }
+
+  private remove(id: string): boolean | null {
+    const atom = this.byId.get(id);
+    if (!atom) return null;
+    if (atom.deleted) return false;
+    atom.deleted = true;
+    return true;
+  }
+}
@@ -0,0 +1,388 @@
+/**
+ * diff.ts — Line- and word-level diffing for documentation markdown.
+ *
+ * Implements Myers' O(ND) algorithm over arbitrary token sequences, then
+ * builds on it:
+ *   - computeLineDiff — numbered diff lines plus discrete "changes" (runs of
+ *                       deleted/inserted lines) that can be cherry-picked
+ *   - buildHunks      — changes grouped with surrounding context for display
+ *   - diffWords       — intra-line word diff used to highlight edits
+ *   - applyChanges    — rebuild the old text with a chosen subset of changes
+ *   - merge3          — three-way merge of two edits of a common base
+ */
+
+export type DiffOpType = "equal" | "insert" | "delete";
+
+export interface DiffOp<T> {
+  type: DiffOpType;
+  items: T[];
+}
+
+/**
+ * Past this many edits the search gives up and the differing middle becomes
+ * one delete plus one insert. The trace grows with the square of the edit
+ * count, so this bounds memory (about 16 MB) for full rewrites of long docs.
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/** Shortest edit script between two sequences (Myers, with a per-step trace for backtracking). */
+export function diffSequences<T>(a: T[], b: T[]): DiffOp<T>[] {
+  // A shared prefix and suffix never need the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const middle: DiffOp<T>[] = myers(midA, midB) ?? [
+    ...(midA.length ? [{ type: "delete" as const, items: midA }] : []),
+    ...(midB.length ? [{ type: "insert" as const, items: midB }] : []),
+  ];
+  return [
+    ...(start > 0 ? [{ type: "equal" as const, items: a.slice(0, start) }] : []),
+    ...middle,
+    ...(endA < a.length ? [{ type: "equal" as const, items: a.slice(endA) }] : []),
+  ];
+}
+
+/** Myers' search; null when the sequences differ by more than MAX_EDIT_DISTANCE. */
+function myers<T>(a: T[], b: T[]): DiffOp<T>[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // trace[d] holds V before step d, for diagonals -d-1..d+1 only (index k + d + 1)
+  const trace: Int32Array[] = [];
+
+  // Forward pass: record V for each D so the path can be backtracked
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if (d > MAX_EDIT_DISTANCE) return null;
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Backtrack from (n, m) to (0, 0)
+  const ops: DiffOp<T>[] = [];
+  const push = (type: DiffOpType, item: T) => {
+    const last = ops[0];
+    if (last && last.type === type) last.items.unshift(item);
+    else ops.unshift({ type, items: [item] });
+  };
+
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0 && (x > 0 || y > 0); d--) {
+    const vd = trace[d];
+    const at = (diagonal: number) => vd[diagonal + d + 1];
+    const k = x - y;
+    const prevK =
+      k === -d || (k !== d && at(k - 1) < at(k + 1))
+        ? k + 1
+        : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+    while (x > prevX && y > prevY) {
+      push("equal", a[--x]);
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) push("insert", b[--y]);
+      else push("delete", a[--x]);
+    }
+  }
+  return ops;
+}
+
+// ── Line diff ────────────────────────────────────────────────────────────────
+
+export interface DiffLine {
+  type: "context" | "add" | "del";
+  text: string;
+  oldNo: number | null; // 1-based
+  newNo: number | null; // 1-based
+  /** Index into `changes` for add/del lines */
+  changeId: number | null;
+}
+
+/** A contiguous run of removed and/or added lines. Line indexes are 0-based. */
+export interface DiffChange {
+  id: number;
+  oldStart: number;
+  oldLines: string[];
+  newStart: number;
+  newLines: string[];
+}
+
+export interface LineDiff {
+  lines: DiffLine[];
+  changes: DiffChange[];
+  stats: { added: number; removed: number };
+}
+
+export function splitLines(text: string): string[] {
+  return text.replace(/\r\n/g, "\n").split("\n");
+}
+
+export function computeLineDiff(oldText: string, newText: string): LineDiff {
+  const ops = diffSequences(splitLines(oldText), splitLines(newText));
+  const lines: DiffLine[] = [];
+  const changes: DiffChange[] = [];
+  let oldNo = 0;
+  let newNo = 0;
+  let current: DiffChange | null = null;
+
+  for (const op of ops) {
+    if (op.type === "equal") {
+      current = null;
+      for (const text of op.items) {
+        lines.push({ type: "context", text, oldNo: ++oldNo, newNo: ++newNo, changeId: null });
+      }
+      continue;
+    }
+    if (!current) {
+      current = { id: changes.length, oldStart: oldNo, oldLines: [], newStart: newNo, newLines: [] };
+      changes.push(current);
+    }
+    for (const text of op.items) {
+      if (op.type === "delete") {
+        current.oldLines.push(text);
+        lines.push({ type: "del", text, oldNo: ++oldNo, newNo: null, changeId: current.id });
+      } else {
+        current.newLines.push(text);
+        lines.push({ type: "add", text, oldNo: null, newNo: ++newNo, changeId: current.id });
+      }
+    }
+  }
+
+  return {
+    lines,
+    changes,
+    stats: {
+      added: lines.filter((l) => l.type === "add").length,
+      removed: lines.filter((l) => l.type === "del").length,
+    },
+  };
+}
+
+// ── Hunks ────────────────────────────────────────────────────────────────────
+
+export interface DiffHunk {
+  header: string; // "@@ -a,b +c,d @@"
+  lines: DiffLine[];
+  changeIds: number[];
+}
+
+/** Group diff lines into hunks with `context` unchanged lines around each change. */
+export function buildHunks(diff: LineDiff, context = 3): DiffHunk[] {
+  const { lines } = diff;
+
+  // Line ranges [start, end) around every changed line, merged when they touch
+  const ranges: Array<[number, number]> = [];
+  lines.forEach((line, i) => {
+    if (line.type === "context") return;
+    const start = Math.max(0, i - context);
+    const end = Math.min(lines.length, i + context + 1);
+    const last = ranges[ranges.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else ranges.push([start, end]);
+  });
+
+  return ranges.map(([start, end]) => {
+    const hunkLines = lines.slice(start, end);
+    const firstOld = hunkLines.find((l) => l.oldNo !== null)?.oldNo ?? 0;
+    const firstNew = hunkLines.find((l) => l.newNo !== null)?.newNo ?? 0;
+    const oldCount = hunkLines.filter((l) => l.type !== "add").length;
+    const newCount = hunkLines.filter((l) => l.type !== "del").length;
+    return {
+      header: `@@ -${firstOld},${oldCount} +${firstNew},${newCount} @@`,
+      lines: hunkLines,
+      changeIds: [...new Set(hunkLines.map((l) => l.changeId).filter((c): c is number => c !== null))],
+    };
+  });
+}
+
+// ── Word diff ────────────────────────────────────────────────────────────────
+
+export interface WordSegment {
+  type: DiffOpType;
+  text: string;
+}
+
+/** Diff two lines word-by-word (whitespace and punctuation are their own tokens). */
+export function diffWords(oldLine: string, newLine: string): WordSegment[] {
+  const tokenize = (s: string) => s.match(/\w+|\s+|[^\w\s]/g) ?? [];
+  return diffSequences(tokenize(oldLine), tokenize(newLine)).map((op) => ({
+    type: op.type,
+    text: op.items.join(""),
+  }));
+}
+
+// ── Applying changes ─────────────────────────────────────────────────────────
+
+/**
+ * Rebuild `oldText`, replacing the old side of each accepted change with its
+ * new side. Changes not in `accepted` keep the old lines.
+ */
+export function applyChanges(oldText: string, changes: DiffChange[], accepted: Set<number>): string {
+  const oldLines = splitLines(oldText);
+  const out: string[] = [];
+  let cursor = 0;
+  for (const change of changes) {
+    out.push(...oldLines.slice(cursor, change.oldStart));
+    out.push(...(accepted.has(change.id) ? change.newLines : change.oldLines));
+    cursor = change.oldStart + change.oldLines.length;
+  }
+  out.push(...oldLines.slice(cursor));
+  return out.join("\n");
+}
+
+// ── Three-way merge ──────────────────────────────────────────────────────────
+
+/** Lines every side agrees on, or a region only one side (or both, identically) changed. */
+export interface MergeStableChunk {
+  type: "stable";
+  lines: string[];
+  /** Which side the lines came from when they differ from the base */
+  origin: "base" | "mine" | "theirs" | "both";
+}
+
+/** A base region both sides changed differently. */
+export interface MergeConflictChunk {
+  type: "conflict";
+  id: number;
+  base: string[];
+  mine: string[];
+  theirs: string[];
+}
+
+export type MergeChunk = MergeStableChunk | MergeConflictChunk;
+
+export interface MergeResult {
+  chunks: MergeChunk[];
+  conflicts: number;
+  /** Regions taken automatically from one side */
+  autoMerged: { mine: number; theirs: number };
+}
+
+export type ConflictResolution =
+  | { choice: "mine" }
+  | { choice: "theirs" }
+  | { choice: "custom"; text: string };
+
+/** Apply the changes of one side that fall inside base[lo, hi). */
+function sideLines(base: string[], changes: DiffChange[], lo: number, hi: number): string[] {
+  const out: string[] = [];
+  let cursor = lo;
+  for (const c of changes) {
+    out.push(...base.slice(cursor, c.oldStart), ...c.newLines);
+    cursor = c.oldStart + c.oldLines.length;
+  }
+  out.push(...base.slice(cursor, hi));
+  return out;
+}
+
+/**
+ * diff3-style merge of two descendants of `base`. Changes from each side are
+ * located in base coordinates; regions touched by only one side are applied
+ * automatically and regions both sides changed differently become conflicts.
+ */
+export function merge3(baseText: string, mineText: string, theirsText: string): MergeResult {
+  const base = splitLines(baseText);
+  const tagged = [
+    ...computeLineDiff(baseText, mineText).changes.map((c) => ({ side: "mine" as const, c })),
+    ...computeLineDiff(baseText, theirsText).changes.map((c) => ({ side: "theirs" as const, c })),
+  ].sort((a, b) => a.c.oldStart - b.c.oldStart || a.c.oldLines.length - b.c.oldLines.length);
+
+  const chunks: MergeChunk[] = [];
+  const autoMerged = { mine: 0, theirs: 0 };
+  let conflicts = 0;
+  let cursor = 0;
+
+  const pushStable = (lines: string[], origin: MergeStableChunk["origin"]) => {
+    if (lines.length === 0) return;
+    const last = chunks[chunks.length - 1];
+    if (last?.type === "stable" && last.origin === origin) last.lines.push(...lines);
+    else chunks.push({ type: "stable", lines: [...lines], origin });
+  };
+
+  let i = 0;
+  while (i < tagged.length) {
+    // Grow a group of overlapping or touching changes (as git's diff3 does)
+    const group = [tagged[i]];
+    let lo = tagged[i].c.oldStart;
+    let hi = lo + tagged[i].c.oldLines.length;
+    i++;
+    while (i < tagged.length) {
+      const next = tagged[i].c;
+      if (next.oldStart <= hi) {
+        group.push(tagged[i]);
+        hi = Math.max(hi, next.oldStart + next.oldLines.length);
+        i++;
+      } else break;
+    }
+
+    pushStable(base.slice(cursor, lo), "base");
+    cursor = hi;
+
+    const mineChanges = group.filter((g) => g.side === "mine").map((g) => g.c);
+    const theirsChanges = group.filter((g) => g.side === "theirs").map((g) => g.c);
+    const mine = sideLines(base, mineChanges, lo, hi);
+    const theirs = sideLines(base, theirsChanges, lo, hi);
+
+    if (theirsChanges.length === 0) {
+      autoMerged.mine++;
+      pushStable(mine, "mine");
+    } else if (mineChanges.length === 0) {
+      autoMerged.theirs++;
+      pushStable(theirs, "theirs");
+    } else if (mine.join("\n") === theirs.join("\n")) {
+      pushStable(mine, "both");
+    } else {
+      chunks.push({ type: "conflict", id: conflicts++, base: base.slice(lo, hi), mine, theirs });
+    }
+  }
+  pushStable(base.slice(cursor), "base");
+
+  return { chunks, conflicts, autoMerged };
+}
+
+/** Build the merged text; unresolved conflicts fall back to `fallback` (default: mine). */
+export function resolveMerge(
+  result: MergeResult,
+  resolutions: Record<number, ConflictResolution>,
+  fallback: "mine" | "theirs" = "mine",
+): string {
+  const out: string[] = [];
+  for (const chunk of result.chunks) {
+    if (chunk.type === "stable") {
+      out.push(...chunk.lines);
+      continue;
+    }
+    const r = resolutions[chunk.id];
+    if (r?.choice === "custom") out.push(...splitLines(r.text));
+    else out.push(...((r?.choice ?? fallback) === "theirs" ? chunk.theirs : chunk.mine));
+  }
+  return out.join("\n");
+}
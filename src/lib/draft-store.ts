@@ -0,0 +1,65 @@
+/**
+ * draft-store.ts — Unsaved editor drafts in IndexedDB.
+ *
+ * Drafts survive reloads and tab crashes until the edit is saved through the
+ * API or explicitly discarded. Every call resolves even when IndexedDB is
+ * unavailable (private mode, old browsers) — drafts are best-effort.
+ */
+
+const DB_NAME = "docnine-drafts";
+const STORE = "drafts";
+
+export interface DocDraft {
+  key: string;
+  content: string;
+  /** Content the draft was started from, to detect upstream changes */
+  baseContent: string;
+  updatedAt: number;
+}
+
+/** Drafts are keyed per project and documentation tab. */
+export function draftKey(projectId: string, tab: string): string {
+  return `${projectId}:${tab}`;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") return resolve(null);
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => resolve(null);
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest,
+): Promise<T | null> {
+  const db = await openDb();
+  if (!db) return null;
+  return new Promise((resolve) => {
+    const req = run(db.transaction(STORE, mode).objectStore(STORE));
+    req.onsuccess = () => resolve((req.result as T) ?? null);
+    req.onerror = () => resolve(null);
+  });
+}
+
+export function loadDraft(key: string): Promise<DocDraft | null> {
+  return withStore<DocDraft>("readonly", (s) => s.get(key));
+}
+
+export async function saveDraft(draft: DocDraft): Promise<void> {
+  await withStore("readwrite", (s) => s.put(draft));
+}
+
+export async function deleteDraft(key: string): Promise<void> {
+  await withStore("readwrite", (s) => s.delete(key));
+}
@@ -0,0 +1,98 @@
+/**
+ * environments.ts — Variable interpolation and Postman environment import
+ * for the Try-It console.
+ *
+ * Variables use Postman's `{{name}}` syntax so imported collections and
+ * environments work unchanged. Unknown variables are left in place.
+ */
+import type { ApiEnvironment, ApiEnvironmentInput, ApiEnvironmentVariable } from "./api";
+
+const VARIABLE_RE = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const HAS_VARIABLE_RE = /\{\{\s*[\w.-]+\s*\}\}/;
+
+export type VariableMap = Record<string, string>;
+
+/**
+ * Enabled variables of an environment as a lookup map. Pass
+ * `includeSecrets: false` for text shown to others, e.g. code snippets.
+ */
+export function variableMap(env: Pick<ApiEnvironment, "variables"> | null, includeSecrets = true): VariableMap {
+  const map: VariableMap = {};
+  for (const v of env?.variables ?? []) {
+    if (!includeSecrets && v.secret) continue;
+    if (v.key.trim() && v.enabled !== false) map[v.key.trim()] = v.value;
+  }
+  return map;
+}
+
+/** Replace `{{name}}` with its value; variables may reference each other. */
+export function interpolate(text: string, vars: VariableMap, depth = 0): string {
+  const out = text.replace(VARIABLE_RE, (match, name: string) => (Object.hasOwn(vars, name) ? vars[name] : match));
+  // Resolve nested references a few levels deep, without looping forever
+  return depth < 3 && out !== text && HAS_VARIABLE_RE.test(out) ? interpolate(out, vars, depth + 1) : out;
+}
+
+/** Names still unresolved in `texts` after interpolation. */
+export function unresolvedVariables(texts: string[], vars: VariableMap): string[] {
+  const missing = new Set<string>();
+  for (const text of texts) {
+    for (const m of interpolate(text, vars).matchAll(VARIABLE_RE)) missing.add(m[1]);
+  }
+  return [...missing];
+}
+
+// ── Postman import ───────────────────────────────────────────────────────
+
+interface PostmanVariable {
+  key?: string;
+  value?: unknown;
+  enabled?: boolean;
+  disabled?: boolean;
+  type?: string;
+}
+
+/** An environment export, or a collection export carrying collection variables. */
+interface PostmanEnvironment {
+  name?: string;
+  values?: PostmanVariable[];
+  info?: { name?: string };
+  variable?: PostmanVariable[];
+}
+
+const BASE_URL_KEYS = ["baseUrl", "base_url", "baseURL", "url", "host"];
+
+/**
+ * Convert a Postman environment export (`values`) — or the collection
+ * variables of a v2.1 collection export (`variable`) — into an environment.
+ * A `baseUrl`-like variable becomes the base URL as a reference, so editing
+ * the variable keeps working.
+ */
+export function parsePostmanEnvironment(raw: string): ApiEnvironmentInput {
+  let data: PostmanEnvironment;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const source = data?.values ?? data?.variable;
+  if (!Array.isArray(source)) {
+    throw new Error("Not a Postman environment or collection export (no variables found).");
+  }
+
+  const variables: ApiEnvironmentVariable[] = source
+    .filter((v) => typeof v.key === "string" && v.key.trim())
+    .map((v) => ({
+      key: v.key!.trim(),
+      value: v.value == null ? "" : String(v.value),
+      secret: v.type === "secret",
+      enabled: v.enabled !== false && v.disabled !== true,
+    }));
+
+  const baseKey = BASE_URL_KEYS.find((k) => variables.some((v) => v.key === k));
+  return {
+    name: (data.name ?? data.info?.name)?.trim() || "Imported environment",
+    baseUrl: baseKey ? `{{${baseKey}}}` : "",
+    headers: [],
+    variables,
+  };
+}
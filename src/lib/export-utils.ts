@@ -6,7 +6,9 @@
 import {
   markdownToFormattedText,
   markdownToStructuredContent,
+  type FormattedContentBlock,
 } from "./markdown-converter";
+import { ADMONITION_META, normalizeAdmonitions, type AdmonitionType } from "./admonitions";
 import type { CustomTab } from "@/lib/api";
 
 export interface ExportTabContent {
@@ -15,6 +17,8 @@ export interface ExportTabContent {
   content: string;
   isCustom?: boolean;
   order?: number;
+  /** Structured blocks for integrations that have native callouts, code blocks etc. */
+  blocks?: FormattedContentBlock[];
 }
 
 export interface ExportDocumentData {
@@ -84,7 +88,14 @@ export function formatTabContentForExport(
  * Remove markdown formatting while preserving structure
  */
 function markdownToPlainText(markdown: string): string {
-  let text = markdown;
+  let text = normalizeAdmonitions(markdown);
+
+  // Callouts → "Warning: body"
+  text = text.replace(
+    /^::: (note|tip|warning|danger)(?: (.*))?\n([\s\S]*?)\n:::$/gm,
+    (_, type: AdmonitionType, title: string | undefined, body: string) =>
+      `${title || ADMONITION_META[type].label}: ${body}`,
+  );
 
   // Remove headings
   text = text.replace(/^#+\s+/gm, "");
@@ -139,6 +150,21 @@ export function getFormattedTabContent(
   }));
 }
 
+/**
+ * Like getFormattedTabContent, but also attaches structured blocks parsed from
+ * the original markdown so Notion / Google Docs can emit native callouts.
+ */
+export function getStructuredTabContent(
+  tabs: ExportTabContent[],
+  format: "formatted" | "plain" = "plain",
+): ExportTabContent[] {
+  return tabs.map((tab) => ({
+    ...tab,
+    content: formatTabContentForExport(tab.content, format),
+    blocks: markdownToStructuredContent(tab.content),
+  }));
+}
+
 /**
  * Generate plain text export content
  * Useful for previewing what will be exported
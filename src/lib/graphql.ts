@@ -0,0 +1,616 @@
+/**
+ * graphql.ts — GraphQL schema import and operation helpers.
+ *
+ * Schemas arrive either as SDL or as an introspection result and are both
+ * turned into a GraphQLSchemaModel. The SDL parser covers the type system
+ * (types, interfaces, unions, enums, inputs, scalars, `schema`, `extend`
+ * and `@deprecated`); executable documents are rejected.
+ */
+import type {
+  GraphQLEnumValue,
+  GraphQLField,
+  GraphQLInputValue,
+  GraphQLNamedType,
+  GraphQLSchemaModel,
+  GraphQLTypeKind,
+} from "./api";
+
+export const BUILTIN_SCALARS = ["String", "Int", "Float", "Boolean", "ID"];
+
+export const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      kind name description
+      fields(includeDeprecated: true) {
+        name description
+        args { name description type { ...TypeRef } defaultValue }
+        type { ...TypeRef }
+        isDeprecated deprecationReason
+      }
+      inputFields { name description type { ...TypeRef } defaultValue }
+      interfaces { name }
+      enumValues(includeDeprecated: true) { name description isDeprecated deprecationReason }
+      possibleTypes { name }
+    }
+  }
+}
+
+fragment TypeRef on __Type {
+  kind name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } }
+}`;
+
+export class GraphQLParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "GraphQLParseError";
+  }
+}
+
+// ── Introspection ────────────────────────────────────────────────────────
+
+interface IntrospectionTypeRef {
+  kind: string;
+  name?: string | null;
+  ofType?: IntrospectionTypeRef | null;
+}
+
+function typeRefString(ref: IntrospectionTypeRef | null | undefined): string {
+  if (!ref) return "Unknown";
+  if (ref.kind === "NON_NULL") return `${typeRefString(ref.ofType)}!`;
+  if (ref.kind === "LIST") return `[${typeRefString(ref.ofType)}]`;
+  return ref.name ?? "Unknown";
+}
+
+function inputValue(v: any): GraphQLInputValue {
+  return {
+    name: v.name,
+    description: v.description ?? "",
+    type: typeRefString(v.type),
+    defaultValue: v.defaultValue ?? null,
+    isDeprecated: !!v.isDeprecated,
+    deprecationReason: v.deprecationReason ?? null,
+  };
+}
+
+/** `{ data: { __schema } }` or `{ __schema }` → model. */
+export function parseIntrospection(json: unknown): GraphQLSchemaModel {
+  const root = json as any;
+  const schema = root?.data?.__schema ?? root?.__schema;
+  if (!schema || !Array.isArray(schema.types)) {
+    throw new GraphQLParseError("Not an introspection result: missing __schema.types");
+  }
+  return {
+    queryType: schema.queryType?.name ?? null,
+    mutationType: schema.mutationType?.name ?? null,
+    subscriptionType: schema.subscriptionType?.name ?? null,
+    types: (schema.types as any[])
+      .filter((t) => t?.name && !t.name.startsWith("__"))
+      .map((t): GraphQLNamedType => ({
+        kind: t.kind,
+        name: t.name,
+        description: t.description ?? "",
+        fields: (t.fields ?? []).map((f: any): GraphQLField => ({
+          name: f.name,
+          description: f.description ?? "",
+          args: (f.args ?? []).map(inputValue),
+          type: typeRefString(f.type),
+          isDeprecated: !!f.isDeprecated,
+          deprecationReason: f.deprecationReason ?? null,
+        })),
+        inputFields: (t.inputFields ?? []).map(inputValue),
+        enumValues: (t.enumValues ?? []).map((e: any): GraphQLEnumValue => ({
+          name: e.name,
+          description: e.description ?? "",
+          isDeprecated: !!e.isDeprecated,
+          deprecationReason: e.deprecationReason ?? null,
+        })),
+        possibleTypes: (t.possibleTypes ?? []).map((p: any) => p.name),
+        interfaces: (t.interfaces ?? []).map((i: any) => i.name),
+      })),
+  };
+}
+
+// ── SDL lexer ────────────────────────────────────────────────────────────
+
+interface Token {
+  kind: "name" | "punct" | "string" | "number" | "eof";
+  value: string;
+  line: number;
+  /** Block strings are dedented per the spec */
+  block?: boolean;
+}
+
+function dedentBlockString(raw: string): string {
+  const lines = raw.split(/\r\n|\r|\n/);
+  let indent = Infinity;
+  for (const line of lines.slice(1)) {
+    const match = /^[ \t]*/.exec(line)![0].length;
+    if (match < line.length) indent = Math.min(indent, match);
+  }
+  const out = lines.map((l, i) => (i === 0 || indent === Infinity ? l : l.slice(indent)));
+  while (out.length && !out[0].trim()) out.shift();
+  while (out.length && !out[out.length - 1].trim()) out.pop();
+  return out.join("\n");
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  while (i < src.length) {
+    const c = src[i];
+    if (c === "\n") {
+      line++;
+      i++;
+    } else if (c === " " || c === "\t" || c === "\r" || c === "," || c === "﻿") {
+      i++;
+    } else if (c === "#") {
+      while (i < src.length && src[i] !== "\n") i++;
+    } else if (src.startsWith('"""', i)) {
+      // `\"""` is an escaped triple quote inside the block, not its end
+      let end = i + 3;
+      while (end < src.length && !src.startsWith('"""', end)) end += src.startsWith('\\"""', end) ? 4 : 1;
+      if (end >= src.length) throw new GraphQLParseError("Unterminated block string", line);
+      const raw = src.slice(i + 3, end);
+      tokens.push({ kind: "string", value: dedentBlockString(raw.replace(/\\"""/g, '"""')), line, block: true });
+      line += raw.split("\n").length - 1;
+      i = end + 3;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < src.length && src[j] !== '"' && src[j] !== "\n") j += src[j] === "\\" ? 2 : 1;
+      if (src[j] !== '"') throw new GraphQLParseError("Unterminated string", line);
+      let value: string;
+      try {
+        value = JSON.parse(src.slice(i, j + 1));
+      } catch {
+        value = src.slice(i + 1, j);
+      }
+      tokens.push({ kind: "string", value, line });
+      i = j + 1;
+    } else if (src.startsWith("...", i)) {
+      tokens.push({ kind: "punct", value: "...", line });
+      i += 3;
+    } else if ("!$&()=:@[]{}|".includes(c)) {
+      tokens.push({ kind: "punct", value: c, line });
+      i++;
+    } else if (/[_A-Za-z]/.test(c)) {
+      const match = /^[_A-Za-z][_0-9A-Za-z]*/.exec(src.slice(i, i + 256))![0];
+      tokens.push({ kind: "name", value: match, line });
+      i += match.length;
+    } else if (/[-0-9]/.test(c)) {
+      const match = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(src.slice(i, i + 64));
+      if (!match) throw new GraphQLParseError(`Unexpected character "${c}"`, line);
+      tokens.push({ kind: "number", value: match[0], line });
+      i += match[0].length;
+    } else {
+      throw new GraphQLParseError(`Unexpected character "${c}"`, line);
+    }
+  }
+  tokens.push({ kind: "eof", value: "", line });
+  return tokens;
+}
+
+// ── SDL parser ───────────────────────────────────────────────────────────
+
+interface Directive {
+  name: string;
+  args: Record<string, string>;
+}
+
+class SdlParser {
+  private pos = 0;
+  private types = new Map<string, GraphQLNamedType>();
+  /** `extend` blocks, merged once every base definition is known */
+  private extensions: { type: GraphQLNamedType; line: number }[] = [];
+  private roots: Partial<Record<"query" | "mutation" | "subscription", string>> = {};
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(offset = 0): Token {
+    return this.tokens[Math.min(this.pos + offset, this.tokens.length - 1)];
+  }
+
+  private next(): Token {
+    const token = this.peek();
+    this.pos++;
+    return token;
+  }
+
+  private is(value: string): boolean {
+    const t = this.peek();
+    return t.kind !== "string" && t.value === value;
+  }
+
+  private skip(value: string): boolean {
+    if (!this.is(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value || token.kind === "string") {
+      throw new GraphQLParseError(`Expected "${value}" but found "${token.value || "end of input"}"`, token.line);
+    }
+    return token;
+  }
+
+  private name(): string {
+    const token = this.next();
+    if (token.kind !== "name") throw new GraphQLParseError(`Expected a name but found "${token.value || "end of input"}"`, token.line);
+    return token.value;
+  }
+
+  private description(): string {
+    return this.peek().kind === "string" ? this.next().value : "";
+  }
+
+  /** A type reference as written, e.g. `[User!]!`. */
+  private typeRef(): string {
+    let type: string;
+    if (this.skip("[")) {
+      type = `[${this.typeRef()}]`;
+      this.expect("]");
+    } else {
+      type = this.name();
+    }
+    return this.skip("!") ? `${type}!` : type;
+  }
+
+  /** A constant value, returned as source text. */
+  private value(): string {
+    const token = this.next();
+    if (token.kind === "string") return JSON.stringify(token.value);
+    if (token.value === "$") return `$${this.name()}`;
+    if (token.value === "[") {
+      const items: string[] = [];
+      while (!this.skip("]")) items.push(this.value());
+      return `[${items.join(", ")}]`;
+    }
+    if (token.value === "{") {
+      const fields: string[] = [];
+      while (!this.skip("}")) {
+        const key = this.name();
+        this.expect(":");
+        fields.push(`${key}: ${this.value()}`);
+      }
+      return `{${fields.join(", ")}}`;
+    }
+    if (token.kind === "name" || token.kind === "number") return token.value;
+    throw new GraphQLParseError(`Unexpected "${token.value || "end of input"}" in a value`, token.line);
+  }
+
+  private directives(): Directive[] {
+    const out: Directive[] = [];
+    while (this.skip("@")) {
+      const directive: Directive = { name: this.name(), args: {} };
+      if (this.skip("(")) {
+        while (!this.skip(")")) {
+          const key = this.name();
+          this.expect(":");
+          directive.args[key] = this.value();
+        }
+      }
+      out.push(directive);
+    }
+    return out;
+  }
+
+  private deprecation(directives: Directive[]) {
+    const d = directives.find((x) => x.name === "deprecated");
+    if (!d) return { isDeprecated: false, deprecationReason: null };
+    const reason = d.args.reason;
+    return { isDeprecated: true, deprecationReason: reason ? JSON.parse(reason) : "No longer supported" };
+  }
+
+  private inputValues(close: string): GraphQLInputValue[] {
+    const out: GraphQLInputValue[] = [];
+    while (!this.skip(close)) {
+      const description = this.description();
+      const name = this.name();
+      this.expect(":");
+      const type = this.typeRef();
+      const defaultValue = this.skip("=") ? this.value() : null;
+      out.push({ name, description, type, defaultValue, ...this.deprecation(this.directives()) });
+    }
+    return out;
+  }
+
+  private fields(): GraphQLField[] {
+    const out: GraphQLField[] = [];
+    this.expect("{");
+    while (!this.skip("}")) {
+      const description = this.description();
+      const name = this.name();
+      const args = this.skip("(") ? this.inputValues(")") : [];
+      this.expect(":");
+      const type = this.typeRef();
+      out.push({ name, description, args, type, ...this.deprecation(this.directives()) });
+    }
+    return out;
+  }
+
+  private implementsList(): string[] {
+    if (!this.skip("implements")) return [];
+    const out: string[] = [];
+    this.skip("&");
+    do {
+      out.push(this.name());
+    } while (this.skip("&"));
+    return out;
+  }
+
+  private type(kind: GraphQLTypeKind, name: string, description: string, extend: boolean): GraphQLNamedType {
+    const type: GraphQLNamedType = {
+      kind, name, description, fields: [], inputFields: [], enumValues: [], possibleTypes: [], interfaces: [],
+    };
+    // An extension may come before the type it extends
+    if (extend) {
+      this.extensions.push({ type, line: this.peek().line });
+      return type;
+    }
+    if (this.types.has(name)) throw new GraphQLParseError(`Type "${name}" is defined more than once`, this.peek().line);
+    this.types.set(name, type);
+    return type;
+  }
+
+  private applyExtensions() {
+    for (const { type: ext, line } of this.extensions) {
+      const base = this.types.get(ext.name);
+      if (!base) throw new GraphQLParseError(`Cannot extend unknown type "${ext.name}"`, line);
+      base.fields.push(...ext.fields);
+      base.inputFields.push(...ext.inputFields);
+      base.enumValues.push(...ext.enumValues);
+      base.possibleTypes.push(...ext.possibleTypes);
+      base.interfaces.push(...ext.interfaces);
+    }
+  }
+
+  private definition() {
+    const description = this.description();
+    const extend = this.skip("extend");
+    const keywordToken = this.peek();
+    const keyword = this.name();
+
+    switch (keyword) {
+      case "schema": {
+        this.directives();
+        this.expect("{");
+        while (!this.skip("}")) {
+          const op = this.name();
+          this.expect(":");
+          const type = this.name();
+          if (op === "query" || op === "mutation" || op === "subscription") this.roots[op] = type;
+        }
+        return;
+      }
+      case "scalar": {
+        const name = this.name();
+        this.directives();
+        this.type("SCALAR", name, description, extend);
+        return;
+      }
+      case "type":
+      case "interface": {
+        const name = this.name();
+        const type = this.type(keyword === "type" ? "OBJECT" : "INTERFACE", name, description, extend);
+        type.interfaces.push(...this.implementsList());
+        this.directives();
+        if (this.is("{")) type.fields.push(...this.fields());
+        return;
+      }
+      case "union": {
+        const name = this.name();
+        const type = this.type("UNION", name, description, extend);
+        this.directives();
+        if (this.skip("=")) {
+          this.skip("|");
+          do {
+            type.possibleTypes.push(this.name());
+          } while (this.skip("|"));
+        }
+        return;
+      }
+      case "enum": {
+        const name = this.name();
+        const type = this.type("ENUM", name, description, extend);
+        this.directives();
+        if (this.skip("{")) {
+          while (!this.skip("}")) {
+            const valueDescription = this.description();
+            const valueName = this.name();
+            type.enumValues.push({ name: valueName, description: valueDescription, ...this.deprecation(this.directives()) });
+          }
+        }
+        return;
+      }
+      case "input": {
+        const name = this.name();
+        const type = this.type("INPUT_OBJECT", name, description, extend);
+        this.directives();
+        if (this.skip("{")) type.inputFields.push(...this.inputValues("}"));
+        return;
+      }
+      case "directive": {
+        // Directive definitions are not shown; skip to the locations list
+        this.expect("@");
+        this.name();
+        if (this.skip("(")) this.inputValues(")");
+        this.skip("repeatable");
+        this.expect("on");
+        this.skip("|");
+        do {
+          this.name();
+        } while (this.skip("|"));
+        return;
+      }
+      case "query":
+      case "mutation":
+      case "subscription":
+      case "fragment":
+        throw new GraphQLParseError("This is a GraphQL operation, not a schema", keywordToken.line);
+      default:
+        throw new GraphQLParseError(`Unexpected "${keyword}"`, keywordToken.line);
+    }
+  }
+
+  parse(): GraphQLSchemaModel {
+    if (this.is("{")) throw new GraphQLParseError("This is a GraphQL operation, not a schema", this.peek().line);
+    while (this.peek().kind !== "eof") this.definition();
+
+    // Built-in scalars are implicit in SDL
+    for (const name of BUILTIN_SCALARS) {
+      if (!this.types.has(name)) this.type("SCALAR", name, "", false);
+    }
+    this.applyExtensions();
+    // Interfaces list the object types that implement them
+    for (const type of this.types.values()) {
+      for (const iface of type.interfaces) this.types.get(iface)?.possibleTypes.push(type.name);
+    }
+
+    const root = (op: "query" | "mutation" | "subscription", fallback: string) =>
+      this.roots[op] ?? (this.types.has(fallback) ? fallback : null);
+    return {
+      queryType: root("query", "Query"),
+      mutationType: root("mutation", "Mutation"),
+      subscriptionType: root("subscription", "Subscription"),
+      types: [...this.types.values()],
+    };
+  }
+}
+
+export function parseSdl(sdl: string): GraphQLSchemaModel {
+  const model = new SdlParser(tokenize(sdl)).parse();
+  if (!model.types.some((t) => !BUILTIN_SCALARS.includes(t.name))) {
+    throw new GraphQLParseError("No type definitions found");
+  }
+  return model;
+}
+
+/**
+ * Parse `text` as a GraphQL schema when it looks like one (SDL or an
+ * introspection result). Returns null for anything else, e.g. OpenAPI.
+ */
+export function detectGraphQLSchema(text: string): GraphQLSchemaModel | null {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{")) {
+    if (!trimmed.includes("__schema")) return null;
+    // OpenAPI or Postman JSON can mention `__schema` in a description or example
+    let root: any;
+    try {
+      root = JSON.parse(trimmed);
+    } catch {
+      return null;
+    }
+    return Array.isArray(root?.data?.__schema?.types ?? root?.__schema?.types) ? parseIntrospection(root) : null;
+  }
+  // `type Query {`, but not a YAML key such as `type: object`
+  const looksLikeSdl = /^\s*(extend\s+)?((type|interface|union|enum|input|scalar)\s+[_A-Za-z]|schema\s*[{@]|directive\s+@)/m.test(trimmed);
+  if (!looksLikeSdl || /^\s*(openapi|swagger|asyncapi)\s*:/m.test(trimmed)) return null;
+  return parseSdl(trimmed);
+}
+
+// ── Model helpers ────────────────────────────────────────────────────────
+
+/** `[User!]!` → `User` */
+export function namedType(type: string): string {
+  return type.replace(/[[\]!]/g, "");
+}
+
+export function findType(model: GraphQLSchemaModel, name: string): GraphQLNamedType | undefined {
+  return model.types.find((t) => t.name === name);
+}
+
+export type RootOperation = "query" | "mutation" | "subscription";
+
+export function rootFields(model: GraphQLSchemaModel, op: RootOperation): GraphQLField[] {
+  const name = op === "query" ? model.queryType : op === "mutation" ? model.mutationType : model.subscriptionType;
+  return name ? findType(model, name)?.fields ?? [] : [];
+}
+
+// ── Operation builder ────────────────────────────────────────────────────
+
+const MAX_SELECTION_DEPTH = 2;
+const MAX_FIELDS = 12;
+
+function selection(model: GraphQLSchemaModel, typeName: string, depth: number, indent: string): string[] {
+  const type = findType(model, typeName);
+  if (!type || type.kind === "SCALAR" || type.kind === "ENUM") return [];
+
+  if (type.kind === "UNION") {
+    return [
+      `${indent}__typename`,
+      ...type.possibleTypes.slice(0, 3).flatMap((member) => {
+        const inner = selection(model, member, depth + 1, `${indent}  `);
+        return inner.length ? [`${indent}... on ${member} {`, ...inner, `${indent}}`] : [];
+      }),
+    ];
+  }
+
+  const lines: string[] = [];
+  for (const field of type.fields) {
+    if (lines.length >= MAX_FIELDS) break;
+    if (field.isDeprecated || field.args.some((a) => a.type.endsWith("!") && a.defaultValue === null)) continue;
+    const target = findType(model, namedType(field.type));
+    if (!target || target.kind === "SCALAR" || target.kind === "ENUM") {
+      lines.push(`${indent}${field.name}`);
+    } else if (depth < MAX_SELECTION_DEPTH) {
+      const inner = selection(model, target.name, depth + 1, `${indent}  `);
+      if (inner.length) lines.push(`${indent}${field.name} {`, ...inner, `${indent}}`);
+    }
+  }
+  // Objects need at least one field selected
+  return lines.length ? lines : [`${indent}__typename`];
+}
+
+function sampleValue(model: GraphQLSchemaModel, type: string, depth = 0): unknown {
+  if (type.endsWith("!")) return sampleValue(model, type.slice(0, -1), depth);
+  if (type.startsWith("[")) return [sampleValue(model, type.slice(1, -1), depth + 1)];
+  switch (type) {
+    case "Int":
+    case "Float":
+      return 0;
+    case "Boolean":
+      return false;
+    case "ID":
+      return "1";
+    case "String":
+      return "";
+  }
+  const named = findType(model, type);
+  if (named?.kind === "ENUM") return named.enumValues[0]?.name ?? null;
+  if (named?.kind === "INPUT_OBJECT" && depth < 3) {
+    const out: Record<string, unknown> = {};
+    for (const f of named.inputFields) {
+      if (f.type.endsWith("!") && f.defaultValue === null) out[f.name] = sampleValue(model, f.type, depth + 1);
+    }
+    return out;
+  }
+  return null;
+}
+
+/**
+ * A ready-to-send operation for a root field: required arguments become
+ * variables, and the result selects scalar fields a couple of levels deep.
+ */
+export function buildOperation(model: GraphQLSchemaModel, op: RootOperation, field: GraphQLField): { query: string; variables: Record<string, unknown> } {
+  const args = field.args.filter((a) => a.type.endsWith("!") && a.defaultValue === null);
+  const operationName = field.name.charAt(0).toUpperCase() + field.name.slice(1);
+  const varDefs = args.length ? `(${args.map((a) => `$${a.name}: ${a.type}`).join(", ")})` : "";
+  const callArgs = args.length ? `(${args.map((a) => `${a.name}: $${a.name}`).join(", ")})` : "";
+  const inner = selection(model, namedType(field.type), 0, "    ");
+  const body = inner.length ? [`  ${field.name}${callArgs} {`, ...inner, "  }"] : [`  ${field.name}${callArgs}`];
+  return {
+    query: [`${op} ${operationName}${varDefs} {`, ...body, "}"].join("\n"),
+    variables: Object.fromEntries(args.map((a) => [a.name, sampleValue(model, a.type)])),
+  };
+}
+
+/** The operation name of a document, if it declares one. */
+export function operationName(query: string): string | undefined {
+  return /^\s*(?:query|mutation|subscription)\s+([_A-Za-z][_0-9A-Za-z]*)/m.exec(query)?.[1];
+}
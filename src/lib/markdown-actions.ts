@@ -0,0 +1,118 @@
+/**
+ * markdown-actions.ts — Insert actions shared by the toolbar, keyboard
+ * shortcuts and slash commands of the markdown editor.
+ *
+ * An action wraps the selection in `prefix` … `suffix`. Shortcuts match on
+ * `KeyboardEvent.code` so they survive Option/AltGr remapping the key.
+ */
+import { ADMONITION_META, ADMONITION_TYPES, type AdmonitionType } from "./admonitions";
+
+export interface Shortcut {
+  code: string; // KeyboardEvent.code, e.g. "KeyB"
+  shift?: boolean;
+  alt?: boolean;
+}
+
+export interface MarkdownAction {
+  id: string;
+  label: string;
+  prefix: string;
+  suffix?: string;
+  shortcut: Shortcut;
+}
+
+function calloutAction(type: AdmonitionType, code: string): MarkdownAction {
+  return {
+    id: `callout-${type}`,
+    label: `${ADMONITION_META[type].label} Callout`,
+    prefix: `::: ${type}\n`,
+    suffix: "\n:::",
+    shortcut: { code, alt: true },
+  };
+}
+
+export const MARKDOWN_ACTIONS = {
+  bold: { id: "bold", label: "Bold", prefix: "**", suffix: "**", shortcut: { code: "KeyB" } },
+  italic: { id: "italic", label: "Italic", prefix: "*", suffix: "*", shortcut: { code: "KeyI" } },
+  strike: { id: "strike", label: "Strikethrough", prefix: "~~", suffix: "~~", shortcut: { code: "KeyX", shift: true } },
+  h1: { id: "h1", label: "Heading 1", prefix: "# ", shortcut: { code: "Digit1", alt: true } },
+  h2: { id: "h2", label: "Heading 2", prefix: "## ", shortcut: { code: "Digit2", alt: true } },
+  h3: { id: "h3", label: "Heading 3", prefix: "### ", shortcut: { code: "Digit3", alt: true } },
+  h4: { id: "h4", label: "Heading 4", prefix: "#### ", shortcut: { code: "Digit4", alt: true } },
+  bullet: { id: "bullet", label: "Bullet List", prefix: "- ", shortcut: { code: "Digit8", shift: true } },
+  numbered: { id: "numbered", label: "Numbered List", prefix: "1. ", shortcut: { code: "Digit7", shift: true } },
+  code: { id: "code", label: "Inline Code", prefix: "`", suffix: "`", shortcut: { code: "KeyE" } },
+  codeBlock: { id: "codeBlock", label: "Code Block", prefix: "```\n", suffix: "\n```", shortcut: { code: "KeyE", shift: true } },
+  link: { id: "link", label: "Link", prefix: "[", suffix: "](url)", shortcut: { code: "KeyK" } },
+  image: { id: "image", label: "Image", prefix: "![alt text](", suffix: ")", shortcut: { code: "KeyI", alt: true } },
+  quote: { id: "quote", label: "Blockquote", prefix: "> ", shortcut: { code: "KeyQ", alt: true } },
+  hr: { id: "hr", label: "Horizontal Line", prefix: "---", shortcut: { code: "KeyH", alt: true } },
+  table: { id: "table", label: "Table", prefix: "| ", suffix: " |", shortcut: { code: "KeyT", alt: true } },
+  checkbox: { id: "checkbox", label: "Checkbox", prefix: "- [ ] ", shortcut: { code: "KeyC", alt: true } },
+  "callout-note": calloutAction("note", "KeyN"),
+  "callout-tip": calloutAction("tip", "KeyP"),
+  "callout-warning": calloutAction("warning", "KeyW"),
+  "callout-danger": calloutAction("danger", "KeyD"),
+} satisfies Record<string, MarkdownAction>;
+
+export type MarkdownActionId = keyof typeof MARKDOWN_ACTIONS;
+
+const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+/** Human-readable shortcut, e.g. "Ctrl+Shift+E" / "⌘⇧E" */
+export function formatShortcut({ code, shift, alt }: Shortcut): string {
+  const key = code.replace(/^Key|^Digit/, "");
+  if (isMac) return `⌘${alt ? "⌥" : ""}${shift ? "⇧" : ""}${key}`;
+  return ["Ctrl", alt && "Alt", shift && "Shift", key].filter(Boolean).join("+");
+}
+
+/** The action whose shortcut matches a keydown event, if any. */
+export function matchShortcut(e: KeyboardEvent | React.KeyboardEvent): MarkdownAction | null {
+  if (!(e.ctrlKey || e.metaKey)) return null;
+  for (const action of Object.values(MARKDOWN_ACTIONS) as MarkdownAction[]) {
+    const s = action.shortcut;
+    if (s.code === e.code && !!s.shift === e.shiftKey && !!s.alt === e.altKey) return action;
+  }
+  return null;
+}
+
+// ── Slash commands ──────────────────────────────────────────────────────────
+
+export interface SlashCommand {
+  id: string;
+  label: string;
+  keywords: string;
+  /** Text inserted in place of "/query"; `$0` marks the caret position */
+  template: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { id: "h1", label: "Heading 1", keywords: "title h1", template: "# $0" },
+  { id: "h2", label: "Heading 2", keywords: "subtitle h2", template: "## $0" },
+  { id: "h3", label: "Heading 3", keywords: "h3", template: "### $0" },
+  {
+    id: "table",
+    label: "Table",
+    keywords: "grid columns rows",
+    template: "| $0Column | Column |\n| ------ | ------ |\n| | |",
+  },
+  { id: "code", label: "Code block", keywords: "snippet fence pre", template: "```$0\n\n```" },
+  { id: "mermaid", label: "Mermaid diagram", keywords: "diagram flowchart graph", template: "```mermaid\nflowchart LR\n  A[$0Start] --> B[End]\n```" },
+  ...ADMONITION_TYPES.map((type) => ({
+    id: `callout-${type}`,
+    label: `${ADMONITION_META[type].label} callout`,
+    keywords: `callout admonition ${type}`,
+    template: `::: ${type}\n$0\n:::`,
+  })),
+  { id: "checklist", label: "Checklist", keywords: "todo task checkbox", template: "- [ ] $0" },
+  { id: "quote", label: "Quote", keywords: "blockquote", template: "> $0" },
+  { id: "divider", label: "Divider", keywords: "hr rule line", template: "---\n$0" },
+];
+
+export function filterSlashCommands(query: string): SlashCommand[] {
+  const q = query.toLowerCase();
+  if (!q) return SLASH_COMMANDS;
+  return SLASH_COMMANDS.filter(
+    (c) => c.label.toLowerCase().includes(q) || c.keywords.includes(q),
+  );
+}
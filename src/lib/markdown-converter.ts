@@ -3,12 +3,21 @@
  * Converts markdown syntax to clean, formatted plain text preserving structure and emphasis
  */
 
+import {
+  ADMONITION_META,
+  normalizeAdmonitions,
+  type AdmonitionType,
+} from "./admonitions";
+
+/** `::: type [title]` … `:::` (after normalizeAdmonitions) */
+const CALLOUT_BLOCK_RE = /^::: (note|tip|warning|danger)(?: (.*))?\n([\s\S]*?)\n:::$/gm;
+
 /**
  * Convert markdown content to formatted plain text
  * Preserves hierarchy, emphasis, and structure without markdown syntax
  */
 export function markdownToFormattedText(markdown: string): string {
-  let text = markdown;
+  let text = normalizeAdmonitions(markdown);
 
   // Headings: Convert to uppercase with spacing
   text = text.replace(/^### (.*?)$/gm, "\n$1\n" + "─".repeat(40) + "\n");
@@ -62,13 +71,10 @@ export function markdownToFormattedText(markdown: string): string {
   text = text.replace(/^(-{3}|_{3}|\*{3})$/gm, "─".repeat(40));
 
   // Note blocks / callouts
-  text = text.replace(/^::: note\n([\s\S]*?)\n:::$/gm, "\n📝 Note:\n$1\n");
-  text = text.replace(
-    /^::: warning\n([\s\S]*?)\n:::$/gm,
-    "\n⚠️  Warning:\n$1\n",
-  );
-  text = text.replace(/^::: tip\n([\s\S]*?)\n:::$/gm, "\n💡 Tip:\n$1\n");
-  text = text.replace(/^::: danger\n([\s\S]*?)\n:::$/gm, "\n⛔ Danger:\n$1\n");
+  text = text.replace(CALLOUT_BLOCK_RE, (_, type: AdmonitionType, title: string | undefined, body: string) => {
+    const meta = ADMONITION_META[type];
+    return `\n${meta.emoji} ${title || meta.label}:\n${body}\n`;
+  });
 
   // Remove extra blank lines (more than 2 consecutive)
   text = text.replace(/\n\n\n+/g, "\n\n");
@@ -83,7 +89,7 @@ export function markdownToFormattedText(markdown: string): string {
  * Extract plain text from markdown (removes ALL formatting)
  */
 export function markdownToPlainText(markdown: string): string {
-  let text = markdown;
+  let text = normalizeAdmonitions(markdown);
 
   // Remove headings
   text = text.replace(/^#+\s+/gm, "");
@@ -119,7 +125,9 @@ export function markdownToPlainText(markdown: string): string {
   text = text.replace(/^(-{3}|_{3}|\*{3})$/gm, "");
 
   // Remove callout blocks
-  text = text.replace(/^:::\s*\w+\n([\s\S]*?)\n:::$/gm, "$1");
+  text = text.replace(CALLOUT_BLOCK_RE, (_, type: AdmonitionType, title: string | undefined, body: string) =>
+    `${title || ADMONITION_META[type].label}: ${body}`,
+  );
 
   // Clean up whitespace
   text = text.replace(/\n\n\n+/g, "\n\n");
@@ -133,8 +141,10 @@ export function markdownToPlainText(markdown: string): string {
  * Used for Google Docs, Notion, etc. export
  */
 export interface FormattedContentBlock {
-  type: "heading" | "paragraph" | "list-item" | "code" | "quote" | "divider";
+  type: "heading" | "paragraph" | "list-item" | "code" | "quote" | "divider" | "callout";
   level?: 1 | 2 | 3 | 4; // For headings
+  calloutType?: AdmonitionType; // For callouts (Notion callout / Google Docs shaded box)
+  title?: string; // For callouts
   content: string;
   children?: FormattedContentBlock[]; // For nested lists
 }
@@ -143,13 +153,39 @@ export function markdownToStructuredContent(
   markdown: string,
 ): FormattedContentBlock[] {
   const blocks: FormattedContentBlock[] = [];
-  const lines = markdown.split("\n");
+  const lines = normalizeAdmonitions(markdown).split("\n");
   let currentList: FormattedContentBlock[] = [];
   let listLevel = 0;
+  let callout: FormattedContentBlock | null = null;
+  let calloutLines: string[] = [];
 
   for (const line of lines) {
     const trimmed = line.trim();
 
+    // Callout body — collected until the closing fence
+    if (callout) {
+      if (trimmed === ":::") {
+        callout.content = cleanFormatting(calloutLines.join("\n"));
+        blocks.push(callout);
+        callout = null;
+        calloutLines = [];
+      } else {
+        calloutLines.push(line);
+      }
+      continue;
+    }
+    const calloutMatch = trimmed.match(/^::: (note|tip|warning|danger)(?: (.*))?$/);
+    if (calloutMatch) {
+      const calloutType = calloutMatch[1] as AdmonitionType;
+      callout = {
+        type: "callout",
+        calloutType,
+        title: calloutMatch[2] || ADMONITION_META[calloutType].label,
+        content: "",
+      };
+      continue;
+    }
+
     // Skip empty lines
     if (!trimmed) {
       if (currentList.length > 0) {
@@ -222,6 +258,12 @@ export function markdownToStructuredContent(
     });
   }
 
+  // Unclosed callout — keep its body rather than dropping it
+  if (callout) {
+    callout.content = cleanFormatting(calloutLines.join("\n"));
+    blocks.push(callout);
+  }
+
   if (currentList.length > 0) {
     blocks.push({
       type: "list-item",
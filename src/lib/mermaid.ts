@@ -0,0 +1,64 @@
+/**
+ * mermaid.ts — Lazy mermaid rendering shared by the viewer and exports.
+ *
+ * mermaid is large, so it is only loaded the first time a diagram fence is
+ * rendered. Rendered SVG is cached per (theme, source).
+ */
+
+/** Fence languages rendered as diagrams */
+export const DIAGRAM_LANGS = new Set(["mermaid", "mmd"]);
+
+export type DiagramTheme = "default" | "dark";
+
+type MermaidApi = typeof import("mermaid")["default"];
+
+let mermaidPromise: Promise<MermaidApi> | null = null;
+let currentTheme: DiagramTheme | null = null;
+let renderCounter = 0;
+const svgCache = new Map<string, string>();
+
+function loadMermaid(): Promise<MermaidApi> {
+  if (!mermaidPromise) {
+    mermaidPromise = import("mermaid").then((m) => m.default);
+  }
+  return mermaidPromise;
+}
+
+/** Current app theme, read from the `dark` class on <html>. */
+export function currentDiagramTheme(): DiagramTheme {
+  return typeof document !== "undefined" && document.documentElement.classList.contains("dark")
+    ? "dark"
+    : "default";
+}
+
+/**
+ * Render mermaid source to an SVG string. Throws the mermaid parse error when
+ * the source is invalid so callers can fall back to showing the code.
+ */
+export async function renderMermaid(code: string, theme: DiagramTheme = currentDiagramTheme()): Promise<string> {
+  const key = `${theme}\u0000${code}`;
+  const cached = svgCache.get(key);
+  if (cached) return cached;
+
+  const mermaid = await loadMermaid();
+  if (currentTheme !== theme) {
+    mermaid.initialize({ startOnLoad: false, securityLevel: "strict", theme });
+    currentTheme = theme;
+  }
+  // parse() first so invalid diagrams throw instead of rendering an error SVG
+  await mermaid.parse(code);
+  const { svg } = await mermaid.render(`doc-diagram-${++renderCounter}`, code);
+  svgCache.set(key, svg);
+  return svg;
+}
+
+/** Source of every diagram fence in a markdown document. */
+export function extractDiagramSources(markdown: string): string[] {
+  const sources: string[] = [];
+  const fence = /^```(\w+)[^\n]*\n([\s\S]*?)\n```/gm;
+  let match: RegExpExecArray | null;
+  while ((match = fence.exec(markdown))) {
+    if (DIAGRAM_LANGS.has(match[1].toLowerCase())) sources.push(match[2]);
+  }
+  return sources;
+}
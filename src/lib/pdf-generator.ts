@@ -5,12 +5,35 @@
 
 import type { ExportDocumentData, ExportTabContent } from "./export-utils";
 import { markdownToFormattedText } from "./markdown-converter";
+import { DIAGRAM_LANGS, extractDiagramSources, renderMermaid } from "./mermaid";
+import { ADMONITION_META, normalizeAdmonitions, type AdmonitionType } from "./admonitions";
 
 export interface PDFExportOptions {
   includeTableOfContents?: boolean;
   includeTimestamp?: boolean;
   pageNumbers?: boolean;
   headerFooter?: boolean;
+  /** Pre-rendered diagram SVG keyed by fence source (see renderExportDiagrams) */
+  diagrams?: Record<string, string>;
+}
+
+/**
+ * Render every mermaid fence in the export to SVG. Diagrams that fail to parse
+ * are left out, so they fall back to a plain code block in the PDF.
+ */
+export async function renderExportDiagrams(
+  data: ExportDocumentData,
+): Promise<Record<string, string>> {
+  const sources = new Set(data.tabs.flatMap((tab) => extractDiagramSources(tab.content)));
+  const diagrams: Record<string, string> = {};
+  for (const source of sources) {
+    try {
+      diagrams[source] = await renderMermaid(source, "default");
+    } catch {
+      // invalid diagram — exported as code
+    }
+  }
+  return diagrams;
 }
 
 /**
@@ -25,6 +48,7 @@ export function generatePDFHTML(
     includeTimestamp = true,
     pageNumbers = true,
     headerFooter = true,
+    diagrams = {},
   } = options;
 
   const tabs = data.tabs;
@@ -287,6 +311,35 @@ export function generatePDFHTML(
         page-break-inside: avoid;
       }
       
+      .callout {
+        margin: 1.2em 0;
+        padding: 0.8em 1em;
+        border-left: 4px solid;
+        border-radius: 4px;
+        page-break-inside: avoid;
+      }
+
+      .callout-title {
+        font-weight: 700;
+        margin-bottom: 0.3em;
+      }
+
+      .callout-note { border-color: #3b82f6; background: #eff6ff; }
+      .callout-tip { border-color: #10b981; background: #ecfdf5; }
+      .callout-warning { border-color: #f59e0b; background: #fffbeb; }
+      .callout-danger { border-color: #ef4444; background: #fef2f2; }
+
+      .diagram {
+        margin: 1.5em 0;
+        text-align: center;
+        page-break-inside: avoid;
+      }
+
+      .diagram svg {
+        max-width: 100%;
+        height: auto;
+      }
+
       .page-break {
         page-break-after: always;
       }
@@ -359,7 +412,7 @@ export function generatePDFHTML(
         ${tab.isCustom ? `<div class="section-badge">Custom</div>` : ""}
       </div>
       <div class="section-content">
-        ${markdownToHtml(tab.content)}
+        ${markdownToHtml(tab.content, diagrams)}
       </div>
     </div>
 `;
@@ -385,8 +438,26 @@ export function generatePDFHTML(
 /**
  * Convert markdown to HTML for PDF embedding
  */
-function markdownToHtml(markdown: string): string {
-  let html = escapeHtml(markdown);
+function markdownToHtml(markdown: string, diagrams: Record<string, string> = {}): string {
+  // Swap rendered diagram fences for placeholders so escaping leaves the SVG intact
+  const figures: string[] = [];
+  markdown = markdown.replace(/^```(\w+)[^\n]*\n([\s\S]*?)\n```/gm, (fence, lang: string, source: string) => {
+    const svg = DIAGRAM_LANGS.has(lang.toLowerCase()) ? diagrams[source] : undefined;
+    if (!svg) return fence;
+    figures.push(`<figure class="diagram">${svg}</figure>`);
+    return `\u0000DIAGRAM${figures.length - 1}\u0000`;
+  });
+
+  let html = escapeHtml(normalizeAdmonitions(markdown));
+
+  // Callouts
+  html = html.replace(
+    /^::: (note|tip|warning|danger)(?: (.*))?\n([\s\S]*?)\n:::$/gm,
+    (_, type: AdmonitionType, title: string | undefined, body: string) => {
+      const meta = ADMONITION_META[type];
+      return `<div class="callout callout-${type}"><div class="callout-title">${meta.emoji} ${title || meta.label}</div>\n${body}\n</div>`;
+    },
+  );
 
   // Headers
   html = html.replace(/^### (.+)$/gm, "<h3>$1</h3>");
@@ -426,6 +497,8 @@ function markdownToHtml(markdown: string): string {
   if (!html.startsWith("<p>")) html = "<p>" + html;
   if (!html.endsWith("</p>")) html = html + "</p>";
 
+  html = html.replace(/\u0000DIAGRAM(\d+)\u0000/g, (_, i: string) => figures[Number(i)]);
+
   return html;
 }
 
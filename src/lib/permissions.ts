@@ -0,0 +1,44 @@
+/**
+ * permissions.ts — What the current user may do in a project.
+ *
+ * The server sends the effective permissions with the project (custom role
+ * and per-share section overrides already merged). These helpers answer
+ * "can I…?" questions from them, and reproduce the built-in owner / editor /
+ * viewer behaviour when a server doesn't send any.
+ */
+import {
+  PROJECT_CAPABILITIES,
+  type ProjectCapability,
+  type ProjectPermissions,
+  type SectionAccess,
+  type ShareRole,
+} from "./api";
+
+export const BUILTIN_ROLE_PERMISSIONS: Record<ShareRole, ProjectPermissions> = {
+  owner: { capabilities: [...PROJECT_CAPABILITIES], sectionAccess: {} },
+  editor: { capabilities: ["sections.edit", "apispec.import", "export"], sectionAccess: {} },
+  viewer: { capabilities: ["export"], sectionAccess: {} },
+};
+
+export function resolvePermissions(shareRole: ShareRole, permissions?: ProjectPermissions): ProjectPermissions {
+  // Owners can always do everything, whatever a stale role says
+  if (shareRole === "owner" || !permissions) return BUILTIN_ROLE_PERMISSIONS[shareRole];
+  return permissions;
+}
+
+export function can(permissions: ProjectPermissions, capability: ProjectCapability): boolean {
+  return permissions.capabilities.includes(capability);
+}
+
+/** Access to one section (tab key); unlisted sections follow `sections.edit`. */
+export function sectionAccess(permissions: ProjectPermissions, sectionKey: string): SectionAccess {
+  return permissions.sectionAccess[sectionKey] ?? (can(permissions, "sections.edit") ? "edit" : "read");
+}
+
+export function canViewSection(permissions: ProjectPermissions, sectionKey: string): boolean {
+  return sectionAccess(permissions, sectionKey) !== "hidden";
+}
+
+export function canEditSection(permissions: ProjectPermissions, sectionKey: string): boolean {
+  return sectionAccess(permissions, sectionKey) === "edit";
+}
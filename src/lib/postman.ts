@@ -0,0 +1,128 @@
+/**
+ * postman.ts — Export saved Try-It examples as a Postman v2.1 collection.
+ *
+ * One folder per tag, one request per saved example, with the saved
+ * response attached. The base URL is the `{{baseUrl}}` collection variable
+ * (defaulting to the spec's first server), so the same collection runs
+ * against any Postman environment.
+ */
+import type { ApiSavedExample, ApiSpec } from "./api";
+import { stripCredentials, stripResponseCredentials } from "./try-it-auth";
+
+const SCHEMA = "https://schema.getpostman.com/json/collection/v2.1.0/collection.json";
+
+const REASON_PHRASES: Record<number, string> = {
+  100: "Continue",
+  101: "Switching Protocols",
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  204: "No Content",
+  206: "Partial Content",
+  301: "Moved Permanently",
+  302: "Found",
+  303: "See Other",
+  304: "Not Modified",
+  307: "Temporary Redirect",
+  308: "Permanent Redirect",
+  400: "Bad Request",
+  401: "Unauthorized",
+  402: "Payment Required",
+  403: "Forbidden",
+  404: "Not Found",
+  405: "Method Not Allowed",
+  406: "Not Acceptable",
+  408: "Request Timeout",
+  409: "Conflict",
+  410: "Gone",
+  412: "Precondition Failed",
+  413: "Payload Too Large",
+  415: "Unsupported Media Type",
+  422: "Unprocessable Entity",
+  429: "Too Many Requests",
+  500: "Internal Server Error",
+  501: "Not Implemented",
+  502: "Bad Gateway",
+  503: "Service Unavailable",
+  504: "Gateway Timeout",
+};
+
+interface PostmanKV {
+  key: string;
+  value: string;
+}
+
+function kv(record: Record<string, string> | undefined): PostmanKV[] {
+  return Object.entries(record ?? {}).map(([key, value]) => ({ key, value }));
+}
+
+function postmanRequest(spec: ApiSpec, example: ApiSavedExample) {
+  const { method, path, body } = example.request;
+  // Examples saved before credentials were stripped on save
+  const { headers, queryParams } = stripCredentials(spec, {
+    headers: example.request.headers ?? {},
+    queryParams: example.request.queryParams ?? {},
+  });
+  const query = kv(queryParams);
+  const search = query.length
+    ? `?${query.map((q) => `${encodeURIComponent(q.key)}=${encodeURIComponent(q.value)}`).join("&")}`
+    : "";
+  // OpenAPI `{param}` placeholders left in the path become Postman `:param`
+  const postmanPath = path.replace(/(?<!\{)\{([^{}]+)\}(?!\})/g, ":$1");
+  const language = /json/i.test(headers["Content-Type"] ?? "application/json") ? "json" : "text";
+
+  return {
+    method,
+    header: kv(headers),
+    url: {
+      raw: `{{baseUrl}}${postmanPath}${search}`,
+      host: ["{{baseUrl}}"],
+      path: postmanPath.split("/").filter(Boolean),
+      ...(query.length ? { query } : {}),
+    },
+    ...(body ? { body: { mode: "raw", raw: body, options: { raw: { language } } } } : {}),
+  };
+}
+
+function postmanItem(spec: ApiSpec, example: ApiSavedExample) {
+  const request = postmanRequest(spec, example);
+  // Examples saved before response cookies and auth headers were stripped on save
+  const response = example.response && stripResponseCredentials(example.response);
+  return {
+    name: example.name,
+    request,
+    response: response
+      ? [
+          {
+            name: example.name,
+            originalRequest: request,
+            code: response.status,
+            status: REASON_PHRASES[response.status] ?? "",
+            header: kv(response.headers),
+            body: response.body,
+            _postman_previewlanguage: /json/i.test(response.headers["content-type"] ?? "") ? "json" : "text",
+          },
+        ]
+      : [],
+  };
+}
+
+export function toPostmanCollection(spec: ApiSpec, examples: ApiSavedExample[]) {
+  const folders = new Map<string, ReturnType<typeof postmanItem>[]>();
+  for (const example of examples) {
+    const endpoint = spec.endpoints.find((e) => e.id === example.endpointId);
+    const tag = endpoint?.tags[0] ?? "Untagged";
+    if (!folders.has(tag)) folders.set(tag, []);
+    folders.get(tag)!.push(postmanItem(spec, example));
+  }
+
+  return {
+    info: {
+      name: spec.info.title || "API",
+      description: spec.info.description || undefined,
+      schema: SCHEMA,
+    },
+    item: [...folders.entries()].map(([name, item]) => ({ name, item })),
+    variable: [{ key: "baseUrl", value: spec.servers?.[0]?.url ?? "" }],
+  };
+}
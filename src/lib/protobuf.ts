@@ -0,0 +1,542 @@
+/**
+ * protobuf.ts — .proto files as an API reference.
+ *
+ * Parses proto2/proto3 service definitions and converts them to the endpoint
+ * model the reference viewer already renders: one endpoint per RPC, with
+ * messages and enums as JSON Schemas (scalars follow the proto3 JSON mapping;
+ * field names are kept as written).
+ * Options, reserved ranges and extensions are read past and ignored.
+ */
+import type { ApiSpecEndpoint, ApiSpecTag, ProtobufImportInput } from "./api";
+
+export class ProtobufParseError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `${message} (line ${line})` : message);
+    this.name = "ProtobufParseError";
+  }
+}
+
+interface ProtoField {
+  name: string;
+  type: string;
+  /** map<K, V> fields */
+  keyType?: string;
+  repeated: boolean;
+  required: boolean;
+  oneof?: string;
+  deprecated: boolean;
+  comment: string;
+}
+
+interface ProtoMessage {
+  /** Fully qualified, without the leading dot */
+  fullName: string;
+  fields: ProtoField[];
+  comment: string;
+}
+
+interface ProtoEnum {
+  fullName: string;
+  values: string[];
+  comment: string;
+}
+
+interface ProtoRpc {
+  name: string;
+  inputType: string;
+  outputType: string;
+  clientStreaming: boolean;
+  serverStreaming: boolean;
+  deprecated: boolean;
+  comment: string;
+}
+
+interface ProtoService {
+  fullName: string;
+  rpcs: ProtoRpc[];
+  comment: string;
+}
+
+export interface ProtoFile {
+  packageName: string;
+  services: ProtoService[];
+  messages: ProtoMessage[];
+  enums: ProtoEnum[];
+}
+
+// ── Lexer ────────────────────────────────────────────────────────────────
+
+interface Token {
+  kind: "ident" | "number" | "string" | "punct" | "eof";
+  value: string;
+  line: number;
+  /** The comment block directly above this token */
+  comment: string;
+}
+
+function cleanComment(raw: string): string {
+  return raw
+    .split("\n")
+    .map((l) => l.replace(/^\s*\*\s?/, "").trim())
+    .join("\n")
+    .trim();
+}
+
+function tokenize(src: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let line = 1;
+  let comment: string[] = [];
+  // A blank line detaches a comment from the next definition
+  let lastCommentLine = 0;
+
+  while (i < src.length) {
+    const c = src[i];
+    if (c === "\n") {
+      line++;
+      i++;
+      if (comment.length && line - lastCommentLine > 1) comment = [];
+    } else if (/\s/.test(c)) {
+      i++;
+    } else if (src.startsWith("//", i)) {
+      const end = src.indexOf("\n", i);
+      const text = src.slice(i + 2, end === -1 ? src.length : end);
+      // Trailing comments belong to the previous token
+      const trailing = tokens.length > 0 && tokens[tokens.length - 1].line === line;
+      if (!trailing) comment.push(text.trim());
+      lastCommentLine = line;
+      i = end === -1 ? src.length : end;
+    } else if (src.startsWith("/*", i)) {
+      const end = src.indexOf("*/", i + 2);
+      if (end === -1) throw new ProtobufParseError("Unterminated comment", line);
+      const text = src.slice(i + 2, end);
+      comment.push(cleanComment(text));
+      line += text.split("\n").length - 1;
+      lastCommentLine = line;
+      i = end + 2;
+    } else if (c === '"' || c === "'") {
+      let j = i + 1;
+      while (j < src.length && src[j] !== c && src[j] !== "\n") j += src[j] === "\\" ? 2 : 1;
+      if (src[j] !== c) throw new ProtobufParseError("Unterminated string", line);
+      tokens.push({ kind: "string", value: src.slice(i + 1, j), line, comment: "" });
+      i = j + 1;
+    } else if (/[A-Za-z_.]/.test(c)) {
+      const match = /^\.?[A-Za-z_][\w.]*/.exec(src.slice(i, i + 512));
+      if (!match) throw new ProtobufParseError(`Unexpected character "${c}"`, line);
+      tokens.push({ kind: "ident", value: match[0], line, comment: comment.join("\n").trim() });
+      comment = [];
+      i += match[0].length;
+    } else if (/[-+0-9]/.test(c)) {
+      const match = /^[-+]?(0x[0-9a-fA-F]+|\d+(\.\d*)?([eE][+-]?\d+)?|inf|nan)/.exec(src.slice(i, i + 64));
+      if (!match) throw new ProtobufParseError(`Unexpected character "${c}"`, line);
+      tokens.push({ kind: "number", value: match[0], line, comment: "" });
+      i += match[0].length;
+    } else if ("{}[]()<>;=,:".includes(c)) {
+      tokens.push({ kind: "punct", value: c, line, comment: "" });
+      i++;
+    } else {
+      throw new ProtobufParseError(`Unexpected character "${c}"`, line);
+    }
+  }
+  tokens.push({ kind: "eof", value: "", line, comment: "" });
+  return tokens;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────
+
+class ProtoParser {
+  private pos = 0;
+  private file: ProtoFile = { packageName: "", services: [], messages: [], enums: [] };
+
+  constructor(private tokens: Token[]) {}
+
+  private peek(): Token {
+    return this.tokens[this.pos];
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.pos];
+    if (token.kind !== "eof") this.pos++;
+    return token;
+  }
+
+  private is(value: string): boolean {
+    const t = this.peek();
+    return t.kind !== "string" && t.value === value;
+  }
+
+  private skip(value: string): boolean {
+    if (!this.is(value)) return false;
+    this.pos++;
+    return true;
+  }
+
+  private expect(value: string): Token {
+    const token = this.next();
+    if (token.value !== value || token.kind === "string") {
+      throw new ProtobufParseError(`Expected "${value}" but found "${token.value || "end of input"}"`, token.line);
+    }
+    return token;
+  }
+
+  private ident(): Token {
+    const token = this.next();
+    if (token.kind !== "ident") throw new ProtobufParseError(`Expected a name but found "${token.value || "end of input"}"`, token.line);
+    return token;
+  }
+
+  private qualify(scope: string, name: string): string {
+    return scope ? `${scope}.${name}` : name;
+  }
+
+  /** Skip a statement up to its `;`, or a `{ … }` block. */
+  private skipStatement() {
+    let depth = 0;
+    while (this.peek().kind !== "eof") {
+      const token = this.next();
+      if (token.kind === "string") continue;
+      if (token.value === "{") depth++;
+      else if (token.value === "}" && --depth <= 0) return;
+      else if (token.value === ";" && depth === 0) return;
+    }
+  }
+
+  /** `[deprecated = true, json_name = "x"]` → whether it is deprecated. */
+  private fieldOptions(): boolean {
+    let deprecated = false;
+    if (!this.skip("[")) return false;
+    let depth = 1;
+    while (depth > 0 && this.peek().kind !== "eof") {
+      const token = this.next();
+      if (token.kind === "string") continue;
+      if (token.value === "[") depth++;
+      else if (token.value === "]") depth--;
+      else if (token.value === "deprecated" && this.skip("=")) deprecated = this.next().value === "true";
+    }
+    return deprecated;
+  }
+
+  private field(comment: string, oneof?: string): ProtoField {
+    let repeated = false;
+    let required = false;
+    if (this.skip("repeated")) repeated = true;
+    else if (this.skip("required")) required = true;
+    else this.skip("optional");
+
+    let type: string;
+    let keyType: string | undefined;
+    if (this.is("map") && this.tokens[this.pos + 1]?.value === "<") {
+      this.next();
+      this.expect("<");
+      keyType = this.ident().value;
+      this.expect(",");
+      type = this.ident().value;
+      this.expect(">");
+    } else {
+      type = this.ident().value;
+    }
+    const name = this.ident().value;
+    this.expect("=");
+    this.next();
+    const deprecated = this.fieldOptions();
+    this.expect(";");
+    return { name, type, keyType, repeated, required, oneof, deprecated, comment };
+  }
+
+  private enumBody(fullName: string, comment: string) {
+    const values: string[] = [];
+    this.expect("{");
+    while (!this.skip("}")) {
+      if (this.skip(";")) continue;
+      if (this.is("option") || this.is("reserved")) {
+        this.skipStatement();
+        continue;
+      }
+      const name = this.ident().value;
+      this.expect("=");
+      this.next();
+      this.fieldOptions();
+      this.expect(";");
+      values.push(name);
+    }
+    this.file.enums.push({ fullName, values, comment });
+  }
+
+  private messageBody(fullName: string, comment: string) {
+    const message: ProtoMessage = { fullName, fields: [], comment };
+    this.file.messages.push(message);
+    this.expect("{");
+    while (!this.skip("}")) {
+      const token = this.peek();
+      if (this.skip(";")) continue;
+      switch (token.value) {
+        case "message":
+          this.next();
+          this.messageBody(this.qualify(fullName, this.ident().value), token.comment);
+          break;
+        case "enum":
+          this.next();
+          this.enumBody(this.qualify(fullName, this.ident().value), token.comment);
+          break;
+        case "oneof": {
+          this.next();
+          const oneof = this.ident().value;
+          this.expect("{");
+          while (!this.skip("}")) {
+            if (this.skip(";")) continue;
+            if (this.is("option")) {
+              this.skipStatement();
+              continue;
+            }
+            message.fields.push(this.field(this.peek().comment, oneof));
+          }
+          break;
+        }
+        case "option":
+        case "reserved":
+        case "extensions":
+        case "extend":
+          this.skipStatement();
+          break;
+        case "group":
+          throw new ProtobufParseError("proto2 groups are not supported", token.line);
+        default:
+          message.fields.push(this.field(token.comment));
+      }
+    }
+  }
+
+  private serviceBody(fullName: string, comment: string) {
+    const service: ProtoService = { fullName, rpcs: [], comment };
+    this.file.services.push(service);
+    this.expect("{");
+    while (!this.skip("}")) {
+      if (this.skip(";")) continue;
+      const token = this.peek();
+      if (token.value !== "rpc") {
+        this.skipStatement();
+        continue;
+      }
+      this.next();
+      const name = this.ident().value;
+      this.expect("(");
+      const clientStreaming = this.is("stream") && this.tokens[this.pos + 1]?.value !== ")" ? this.skip("stream") : false;
+      const inputType = this.ident().value;
+      this.expect(")");
+      this.expect("returns");
+      this.expect("(");
+      const serverStreaming = this.is("stream") && this.tokens[this.pos + 1]?.value !== ")" ? this.skip("stream") : false;
+      const outputType = this.ident().value;
+      this.expect(")");
+
+      let deprecated = false;
+      if (this.skip("{")) {
+        while (!this.skip("}")) {
+          if (this.skip(";")) continue;
+          if (this.skip("option") && this.is("deprecated")) {
+            this.next();
+            this.expect("=");
+            deprecated = this.next().value === "true";
+            this.expect(";");
+          } else {
+            this.skipStatement();
+          }
+        }
+      } else {
+        this.expect(";");
+      }
+      service.rpcs.push({ name, inputType, outputType, clientStreaming, serverStreaming, deprecated, comment: token.comment });
+    }
+  }
+
+  parse(): ProtoFile {
+    while (this.peek().kind !== "eof") {
+      const token = this.peek();
+      if (this.skip(";")) continue;
+      switch (token.value) {
+        case "syntax":
+        case "edition":
+        case "import":
+        case "option":
+        case "extend":
+          this.skipStatement();
+          break;
+        case "package":
+          this.next();
+          this.file.packageName = this.ident().value;
+          this.expect(";");
+          break;
+        case "message":
+          this.next();
+          this.messageBody(this.qualify(this.file.packageName, this.ident().value), token.comment);
+          break;
+        case "enum":
+          this.next();
+          this.enumBody(this.qualify(this.file.packageName, this.ident().value), token.comment);
+          break;
+        case "service":
+          this.next();
+          this.serviceBody(this.qualify(this.file.packageName, this.ident().value), token.comment);
+          break;
+        default:
+          throw new ProtobufParseError(`Unexpected "${token.value}"`, token.line);
+      }
+    }
+    return this.file;
+  }
+}
+
+export function parseProto(src: string): ProtoFile {
+  const file = new ProtoParser(tokenize(src)).parse();
+  if (!file.services.length && !file.messages.length) {
+    throw new ProtobufParseError("No services or messages found");
+  }
+  return file;
+}
+
+/** Whether `text` looks like a .proto file rather than an OpenAPI document. */
+export function looksLikeProto(text: string): boolean {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("{") || /^\s*(openapi|swagger|asyncapi)\s*:/m.test(trimmed)) return false;
+  return /^\s*syntax\s*=\s*["']proto[23]["']/m.test(trimmed) || /^\s*(service|message)\s+\w+\s*\{/m.test(trimmed);
+}
+
+// ── Conversion ───────────────────────────────────────────────────────────
+
+const SCALARS: Record<string, Record<string, unknown>> = {
+  double: { type: "number", format: "double" },
+  float: { type: "number", format: "float" },
+  int32: { type: "integer", format: "int32" },
+  uint32: { type: "integer", format: "int32", minimum: 0 },
+  sint32: { type: "integer", format: "int32" },
+  fixed32: { type: "integer", format: "int32", minimum: 0 },
+  sfixed32: { type: "integer", format: "int32" },
+  // 64-bit integers are strings in the JSON mapping
+  int64: { type: "string", format: "int64" },
+  uint64: { type: "string", format: "int64" },
+  sint64: { type: "string", format: "int64" },
+  fixed64: { type: "string", format: "int64" },
+  sfixed64: { type: "string", format: "int64" },
+  bool: { type: "boolean" },
+  string: { type: "string" },
+  bytes: { type: "string", format: "byte" },
+};
+
+const WELL_KNOWN: Record<string, Record<string, unknown>> = {
+  "google.protobuf.Timestamp": { type: "string", format: "date-time" },
+  "google.protobuf.Duration": { type: "string", example: "1.5s" },
+  "google.protobuf.Empty": { type: "object", properties: {} },
+  "google.protobuf.Struct": { type: "object", additionalProperties: true },
+  "google.protobuf.Value": {},
+  "google.protobuf.ListValue": { type: "array", items: {} },
+  "google.protobuf.Any": { type: "object", properties: { "@type": { type: "string" } } },
+  "google.protobuf.FieldMask": { type: "string", example: "name,address" },
+  "google.protobuf.StringValue": { type: "string", nullable: true },
+  "google.protobuf.BytesValue": { type: "string", format: "byte", nullable: true },
+  "google.protobuf.BoolValue": { type: "boolean", nullable: true },
+  "google.protobuf.Int32Value": { type: "integer", format: "int32", nullable: true },
+  "google.protobuf.UInt32Value": { type: "integer", format: "int32", nullable: true },
+  "google.protobuf.Int64Value": { type: "string", format: "int64", nullable: true },
+  "google.protobuf.UInt64Value": { type: "string", format: "int64", nullable: true },
+  "google.protobuf.FloatValue": { type: "number", format: "float", nullable: true },
+  "google.protobuf.DoubleValue": { type: "number", format: "double", nullable: true },
+};
+
+const schemaRef = (fullName: string) => ({ $ref: `#/components/schemas/${fullName}` });
+
+/**
+ * Resolve a type name the way protoc does: from the innermost scope outwards,
+ * or absolutely when it starts with a dot.
+ */
+function resolveTypeName(name: string, scope: string, known: Set<string>): string {
+  if (name.startsWith(".")) return name.slice(1);
+  const parts = scope ? scope.split(".") : [];
+  for (let i = parts.length; i >= 0; i--) {
+    const candidate = [...parts.slice(0, i), name].join(".");
+    if (known.has(candidate)) return candidate;
+  }
+  return name;
+}
+
+function typeSchema(type: string, scope: string, known: Set<string>): Record<string, unknown> {
+  if (SCALARS[type]) return { ...SCALARS[type] };
+  const full = resolveTypeName(type, scope, known);
+  if (WELL_KNOWN[full]) return { ...WELL_KNOWN[full] };
+  return schemaRef(full);
+}
+
+function fieldSchema(field: ProtoField, scope: string, known: Set<string>): Record<string, unknown> {
+  let schema = typeSchema(field.type, scope, known);
+  if (field.keyType) schema = { type: "object", additionalProperties: schema };
+  else if (field.repeated) schema = { type: "array", items: schema };
+
+  const notes = [field.comment, field.oneof && `One of \`${field.oneof}\`.`].filter(Boolean).join(" ");
+  if (notes) schema = schema.$ref ? { allOf: [schema], description: notes } : { ...schema, description: notes };
+  if (field.deprecated) schema = { ...schema, deprecated: true };
+  return schema;
+}
+
+/** The input for apiSpecApi.importProtobuf. */
+export function protoToSpec(file: ProtoFile, title?: string): Omit<ProtobufImportInput, "source"> {
+  const known = new Set([...file.messages.map((m) => m.fullName), ...file.enums.map((e) => e.fullName)]);
+  const schemas: Record<string, unknown> = {};
+
+  for (const message of file.messages) {
+    const properties: Record<string, unknown> = {};
+    for (const field of message.fields) properties[field.name] = fieldSchema(field, message.fullName, known);
+    const required = message.fields.filter((f) => f.required).map((f) => f.name);
+    schemas[message.fullName] = {
+      type: "object",
+      properties,
+      ...(required.length ? { required } : {}),
+      ...(message.comment ? { description: message.comment } : {}),
+    };
+  }
+  for (const e of file.enums) {
+    schemas[e.fullName] = { type: "string", enum: e.values, ...(e.comment ? { description: e.comment } : {}) };
+  }
+
+  const tags: ApiSpecTag[] = file.services.map((s) => ({ name: s.fullName, description: s.comment }));
+  const endpoints: Omit<ApiSpecEndpoint, "customNote">[] = file.services.flatMap((service) =>
+    service.rpcs.map((rpc) => {
+      const method = rpc.clientStreaming || rpc.serverStreaming ? "STREAM" : "RPC";
+      const path = `/${service.fullName}/${rpc.name}`;
+      const streaming = rpc.clientStreaming && rpc.serverStreaming
+        ? "Bidirectional streaming"
+        : rpc.clientStreaming ? "Client streaming" : rpc.serverStreaming ? "Server streaming" : "";
+      const scope = file.packageName;
+      const input = typeSchema(rpc.inputType, scope, known);
+      const output = typeSchema(rpc.outputType, scope, known);
+      return {
+        id: `${method} ${path}`,
+        method,
+        path,
+        summary: rpc.comment.split("\n")[0] ?? "",
+        description: [rpc.comment.split("\n").slice(1).join("\n").trim(), streaming && `${streaming} RPC.`].filter(Boolean).join("\n\n"),
+        tags: [service.fullName],
+        operationId: rpc.name,
+        parameters: [],
+        requestBody: {
+          required: true,
+          description: rpc.clientStreaming ? "A stream of messages." : "",
+          content: { "application/grpc": { schema: rpc.clientStreaming ? { type: "array", items: input } : input } },
+        },
+        responses: {
+          OK: {
+            description: rpc.serverStreaming ? "A stream of messages." : "",
+            content: { "application/grpc": { schema: rpc.serverStreaming ? { type: "array", items: output } : output } },
+          },
+        },
+        security: null,
+        deprecated: rpc.deprecated,
+      };
+    }),
+  );
+
+  return {
+    info: { title: title || file.packageName || "Protobuf API", version: "", description: "" },
+    tags,
+    endpoints,
+    schemas,
+  };
+}
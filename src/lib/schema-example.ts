@@ -0,0 +1,196 @@
+/**
+ * schema-example.ts — Sample payloads synthesised from JSON Schema.
+ *
+ * Used wherever the spec gives a schema but no `example`: prefilling Try-It
+ * request bodies, code snippets and sample responses. Explicit `example`,
+ * `default` and `const` values win over anything generated.
+ */
+import type { ApiSpec, ApiSpecEndpoint } from "./api";
+
+type Schema = Record<string, unknown>;
+
+export interface ExampleOptions {
+  /** Leave out `readOnly` properties (requests) or `writeOnly` ones (responses) */
+  direction?: "request" | "response";
+}
+
+/** Nested objects below this depth only get their required properties */
+const FULL_DEPTH = 4;
+const MAX_DEPTH = 8;
+
+const FORMAT_EXAMPLES: Record<string, string> = {
+  "date-time": "2024-01-15T09:30:00Z",
+  date: "2024-01-15",
+  time: "09:30:00",
+  duration: "P3D",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  email: "user@example.com",
+  "idn-email": "user@example.com",
+  uri: "https://example.com",
+  url: "https://example.com",
+  "uri-reference": "/path",
+  hostname: "example.com",
+  ipv4: "192.168.0.1",
+  ipv6: "2001:db8::1",
+  byte: "ZXhhbXBsZQ==",
+  binary: "<binary>",
+  password: "********",
+};
+
+/** `#/components/schemas/User` or `#/definitions/User` → the named schema. */
+export function resolveRef(schemas: Record<string, unknown>, ref: string): Schema | null {
+  const name = decodeURIComponent(ref.split("/").pop() ?? ref).replace(/~1/g, "/").replace(/~0/g, "~");
+  const schema = schemas[name];
+  return schema && typeof schema === "object" ? (schema as Schema) : null;
+}
+
+/**
+ * Merge allOf members into one object schema. `seen` holds the refs on the
+ * current expansion path; a member ref already on it is a cycle and skipped.
+ * `seen` itself is left untouched, so sibling members and later properties
+ * can still reference the same schema.
+ */
+export function mergeAllOf(parts: Schema[], schemas: Record<string, unknown>, seen: Set<string>): Schema {
+  const merged: Schema = { type: "object", properties: {}, required: [] };
+  for (let part of parts) {
+    let path = seen;
+    if (typeof part.$ref === "string") {
+      if (seen.has(part.$ref)) continue;
+      path = new Set(seen).add(part.$ref);
+      part = resolveRef(schemas, part.$ref) ?? {};
+    }
+    if (Array.isArray(part.allOf)) part = mergeAllOf(part.allOf as Schema[], schemas, path);
+    Object.assign(merged.properties as Schema, part.properties ?? {});
+    (merged.required as string[]).push(...((part.required as string[] | undefined) ?? []));
+    for (const [key, value] of Object.entries(part)) {
+      if (!["properties", "required", "allOf", "type"].includes(key)) merged[key] = value;
+    }
+    if (part.type && part.type !== "object") merged.type = part.type;
+  }
+  return merged;
+}
+
+function primaryType(schema: Schema): string | undefined {
+  const type = schema.type;
+  if (Array.isArray(type)) return (type as string[]).find((t) => t !== "null") ?? "null";
+  if (typeof type === "string") return type;
+  if (schema.properties || schema.additionalProperties) return "object";
+  if (schema.items) return "array";
+  return undefined;
+}
+
+function stringExample(schema: Schema): string {
+  const format = typeof schema.format === "string" ? schema.format : "";
+  if (Object.hasOwn(FORMAT_EXAMPLES, format)) return FORMAT_EXAMPLES[format];
+  const min = typeof schema.minLength === "number" ? schema.minLength : 0;
+  const max = typeof schema.maxLength === "number" ? schema.maxLength : Infinity;
+  return "string".padEnd(min, "x").slice(0, max);
+}
+
+function numberExample(schema: Schema, integer: boolean): number {
+  const min = typeof schema.minimum === "number" ? schema.minimum : typeof schema.exclusiveMinimum === "number" ? schema.exclusiveMinimum + (integer ? 1 : 0.1) : null;
+  const max = typeof schema.maximum === "number" ? schema.maximum : null;
+  const value = min ?? (max !== null && max < 0 ? max : 0);
+  return integer ? Math.ceil(value) : value;
+}
+
+function generate(schema: unknown, schemas: Record<string, unknown>, opts: ExampleOptions, seen: Set<string>, depth: number): unknown {
+  if (!schema || typeof schema !== "object" || depth > MAX_DEPTH) return undefined;
+  let s = schema as Schema;
+
+  if (typeof s.$ref === "string") {
+    // A schema that contains itself is cut off rather than expanded forever
+    if (seen.has(s.$ref)) return undefined;
+    const resolved = resolveRef(schemas, s.$ref);
+    return resolved ? generate(resolved, schemas, opts, new Set(seen).add(s.$ref), depth) : undefined;
+  }
+
+  if (s.example !== undefined) return s.example;
+  if (Array.isArray(s.examples) && s.examples.length) return s.examples[0];
+  if (s.const !== undefined) return s.const;
+  if (s.default !== undefined) return s.default;
+  if (Array.isArray(s.enum) && s.enum.length) return s.enum[0];
+
+  if (Array.isArray(s.allOf)) s = mergeAllOf([...(s.allOf as Schema[]), { ...s, allOf: undefined }], schemas, seen);
+  for (const key of ["oneOf", "anyOf"] as const) {
+    const options = s[key];
+    if (Array.isArray(options) && options.length) {
+      // The first alternative that isn't just `null`
+      const pick = (options as Schema[]).find((o) => o.type !== "null") ?? options[0];
+      const rest = { ...s, [key]: undefined };
+      const base = generate(rest, schemas, opts, seen, depth);
+      const chosen = generate(pick, schemas, opts, seen, depth);
+      return isPlainObject(base) && isPlainObject(chosen) ? { ...base, ...chosen } : chosen ?? base;
+    }
+  }
+
+  switch (primaryType(s)) {
+    case "object": {
+      const out: Record<string, unknown> = {};
+      const props = (s.properties ?? {}) as Record<string, Schema>;
+      const required = new Set((s.required as string[] | undefined) ?? []);
+      for (const [name, prop] of Object.entries(props)) {
+        if (depth >= FULL_DEPTH && !required.has(name)) continue;
+        if (opts.direction === "request" && prop?.readOnly) continue;
+        if (opts.direction === "response" && prop?.writeOnly) continue;
+        const value = generate(prop, schemas, opts, seen, depth + 1);
+        if (value !== undefined) out[name] = value;
+      }
+      if (!Object.keys(props).length && s.additionalProperties && typeof s.additionalProperties === "object") {
+        const value = generate(s.additionalProperties, schemas, opts, seen, depth + 1);
+        if (value !== undefined) out.key = value;
+      }
+      return out;
+    }
+    case "array": {
+      const item = generate(s.items, schemas, opts, seen, depth + 1);
+      const count = Math.max(1, typeof s.minItems === "number" ? s.minItems : 1);
+      return item === undefined ? [] : Array.from({ length: count }, () => item);
+    }
+    case "string":
+      return stringExample(s);
+    case "integer":
+      return numberExample(s, true);
+    case "number":
+      return numberExample(s, false);
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return undefined;
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/** A sample value for `schema`, or undefined when nothing sensible can be made. */
+export function exampleFromSchema(schema: unknown, schemas: Record<string, unknown> = {}, opts: ExampleOptions = {}): unknown {
+  return generate(schema, schemas, opts, new Set(), 0);
+}
+
+/** A media type's explicit example, or one generated from its schema. */
+export function mediaExample(
+  spec: Pick<ApiSpec, "schemas">,
+  media: { schema?: Record<string, unknown>; example?: unknown },
+  direction: ExampleOptions["direction"],
+): unknown {
+  if (media.example !== undefined && media.example !== null) return media.example;
+  return exampleFromSchema(media.schema, spec.schemas ?? {}, { direction });
+}
+
+/** Text form of an example, as shown in code blocks and editors. */
+export function formatExample(value: unknown): string {
+  if (value === undefined) return "";
+  return typeof value === "string" ? value : JSON.stringify(value, null, 2);
+}
+
+/** The request body to start from: the spec's example, else a generated one. */
+export function exampleRequestBody(spec: Pick<ApiSpec, "schemas">, endpoint: ApiSpecEndpoint): string {
+  const content = endpoint.requestBody?.content;
+  if (!content) return "";
+  const media = content["application/json"] ?? Object.values(content)[0];
+  return media ? formatExample(mediaExample(spec, media, "request")) : "";
+}
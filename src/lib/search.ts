@@ -0,0 +1,44 @@
+/**
+ * search.ts — Helpers for rendering global documentation search results.
+ *
+ * Ranking happens on the server (searchApi.query); the client only splits
+ * snippets into highlighted segments and builds links into the viewer.
+ */
+import type { ApiSearchResult } from "./api";
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Distinct words of a query, longest first so longer terms win overlaps. */
+export function queryTerms(query: string): string[] {
+  const terms = query.toLowerCase().split(/\s+/).filter((t) => t.length > 1);
+  return [...new Set(terms)].sort((a, b) => b.length - a.length);
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Split `text` into runs that do / don't match any query term. */
+export function highlightSegments(text: string, query: string): HighlightSegment[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [{ text, match: false }];
+  const re = new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "gi");
+  return text
+    .split(re)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: terms.includes(part.toLowerCase()) }));
+}
+
+/**
+ * Viewer URL for a hit: `?tab=` selects the tab, `?endpoint=` opens an API
+ * spec endpoint, and the hash scrolls to the nearest heading.
+ */
+export function searchResultHref(result: ApiSearchResult): string {
+  const params = new URLSearchParams({ tab: result.tab });
+  if (result.endpointId) params.set("endpoint", result.endpointId);
+  const hash = result.heading ? `#${encodeURIComponent(result.heading.slug)}` : "";
+  return `/projects/${result.projectId}/docs?${params}${hash}`;
+}
@@ -0,0 +1,303 @@
+/**
+ * snippets.ts — Client code for an API endpoint in several languages.
+ *
+ * A SnippetRequest is built from the endpoint (or from whatever is filled
+ * into the Try-It console) and rendered per language. Credentials never
+ * appear: the endpoint's security scheme is shown as a placeholder.
+ */
+import type { ApiSpec, ApiSpecEndpoint } from "./api";
+import { interpolate, type VariableMap } from "./environments";
+import { exampleFromSchema, exampleRequestBody } from "./schema-example";
+import { securityRequirements } from "./try-it-auth";
+import type { TryItInputs } from "@/store/try-it-requests";
+
+export type SnippetLanguage = "curl" | "fetch" | "python" | "go" | "java" | "php";
+
+export const SNIPPET_LANGUAGES: { id: SnippetLanguage; label: string }[] = [
+  { id: "curl", label: "cURL" },
+  { id: "fetch", label: "JavaScript" },
+  { id: "python", label: "Python" },
+  { id: "go", label: "Go" },
+  { id: "java", label: "Java" },
+  { id: "php", label: "PHP" },
+];
+
+export interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  body: string | null;
+}
+
+// ── Building the request ─────────────────────────────────────────────────
+
+/** URL encoding that keeps `{placeholders}` and `<PLACEHOLDERS>` readable. */
+function encodePart(s: string): string {
+  return encodeURIComponent(s).replace(/%7B/gi, "{").replace(/%7D/gi, "}").replace(/%3C/gi, "<").replace(/%3E/gi, ">");
+}
+
+/** Placeholder credentials for the endpoint's first security requirement. */
+function authPlaceholders(spec: ApiSpec, endpoint: ApiSpecEndpoint) {
+  const headers: [string, string][] = [];
+  const query: [string, string][] = [];
+  const requirement = securityRequirements(spec, endpoint).find((r) => Object.keys(r).length > 0);
+  for (const name of Object.keys(requirement ?? {})) {
+    const scheme = spec.securitySchemes?.[name];
+    if (!scheme) continue;
+    if (scheme.type === "apiKey") {
+      const placeholder = `<${name.replace(/\W+/g, "_").toUpperCase()}>`;
+      if (scheme.in === "header") headers.push([scheme.name, placeholder]);
+      else if (scheme.in === "query") query.push([scheme.name, placeholder]);
+      else headers.push(["Cookie", `${scheme.name}=${placeholder}`]);
+    } else if (scheme.type === "http" && scheme.scheme.toLowerCase() === "basic") {
+      headers.push(["Authorization", "Basic <BASE64_USER_PASSWORD>"]);
+    } else {
+      const prefix = scheme.type === "http" && scheme.scheme.toLowerCase() !== "bearer" ? scheme.scheme : "Bearer";
+      headers.push(["Authorization", `${prefix} <ACCESS_TOKEN>`]);
+    }
+  }
+  return { headers, query };
+}
+
+/** Console fields for an endpoint nobody has filled in yet. */
+export function defaultInputs(spec: ApiSpec, endpoint: ApiSpecEndpoint): TryItInputs {
+  const content = endpoint.requestBody?.content;
+  const placeholder = (p: ApiSpecEndpoint["parameters"][number]) => {
+    const value = p.example ?? exampleFromSchema(p.schema, spec.schemas ?? {});
+    return value != null && typeof value !== "object" ? String(value) : `<${p.name}>`;
+  };
+  return {
+    pathValues: {},
+    queryPairs: endpoint.parameters
+      .filter((p) => p.in === "query" && p.required)
+      .map((p) => ({ key: p.name, value: placeholder(p) })),
+    headerPairs: [
+      { key: "Accept", value: "application/json" },
+      ...endpoint.parameters
+        .filter((p) => p.in === "header" && p.required)
+        .map((p) => ({ key: p.name, value: placeholder(p) })),
+    ],
+    bodyText: exampleRequestBody(spec, endpoint),
+    contentType: content ? Object.keys(content)[0] ?? "application/json" : "application/json",
+  };
+}
+
+/**
+ * The request the console would send. Header precedence matches the console:
+ * environment defaults < credentials < the console's own fields. Empty path
+ * parameters stay as `{name}` and empty query values are left out.
+ */
+export function buildSnippetRequest(opts: {
+  spec: ApiSpec;
+  endpoint: ApiSpecEndpoint;
+  baseUrl: string;
+  inputs: TryItInputs;
+  /** The active environment's default headers */
+  envHeaders?: { key: string; value: string }[];
+  /** Only variables safe to show — never secrets */
+  vars?: VariableMap;
+}): SnippetRequest {
+  const { spec, endpoint, inputs, vars = {} } = opts;
+  const fill = (s: string) => interpolate(s, vars);
+  const path = endpoint.path.replace(/\{([^}]+)\}/g, (match, name: string) =>
+    inputs.pathValues[name] ? encodePart(fill(inputs.pathValues[name])) : match,
+  );
+  const auth = authPlaceholders(spec, endpoint);
+
+  const query: [string, string][] = [
+    ...auth.query,
+    ...inputs.queryPairs.filter((p) => p.key.trim() && p.value).map((p): [string, string] => [fill(p.key.trim()), fill(p.value)]),
+  ];
+  const search = query.map(([k, v]) => `${encodePart(k)}=${encodePart(v)}`).join("&");
+
+  const needsBody = ["POST", "PUT", "PATCH"].includes(endpoint.method);
+  const body = needsBody && inputs.bodyText.trim() ? fill(inputs.bodyText.trim()) : null;
+
+  // Later entries replace earlier ones with the same (case-insensitive) name
+  const headers = new Map<string, [string, string]>();
+  const setHeader = (key: string, value: string) => {
+    if (key.trim()) headers.set(key.trim().toLowerCase(), [key.trim(), value]);
+  };
+  for (const { key, value } of opts.envHeaders ?? []) setHeader(fill(key), fill(value));
+  for (const [key, value] of auth.headers) setHeader(key, value);
+  for (const { key, value } of inputs.headerPairs) setHeader(fill(key), fill(value));
+  if (body !== null) setHeader("Content-Type", inputs.contentType);
+
+  return {
+    method: endpoint.method,
+    url: `${fill(opts.baseUrl).replace(/\/$/, "")}${path}${search ? `?${search}` : ""}`,
+    headers: [...headers.values()],
+    body,
+  };
+}
+
+// ── Rendering ────────────────────────────────────────────────────────────
+
+const q = (s: string) => JSON.stringify(s);
+const sq = (s: string) => `'${s.replace(/'/g, "'\\''")}'`;
+const phpQ = (s: string) => `'${s.replace(/\\/g, "\\\\").replace(/'/g, "\\'")}'`;
+
+function parseJson(body: string | null): unknown {
+  if (body === null) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+}
+
+function indentLines(text: string, prefix: string): string {
+  return text.split("\n").map((l, i) => (i === 0 ? l : prefix + l)).join("\n");
+}
+
+/** A JSON value as a Python literal. */
+function pyLiteral(value: unknown, depth = 0): string {
+  const pad = "    ".repeat(depth + 1);
+  const end = "    ".repeat(depth);
+  if (value === null) return "None";
+  if (value === true) return "True";
+  if (value === false) return "False";
+  if (typeof value === "number" || typeof value === "string") return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return "[]";
+    return `[\n${value.map((v) => pad + pyLiteral(v, depth + 1)).join(",\n")},\n${end}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>);
+  if (entries.length === 0) return "{}";
+  return `{\n${entries.map(([k, v]) => `${pad}${JSON.stringify(k)}: ${pyLiteral(v, depth + 1)}`).join(",\n")},\n${end}}`;
+}
+
+function curl(req: SnippetRequest): string {
+  const lines = [`curl -X ${req.method} ${sq(req.url)}`];
+  for (const [k, v] of req.headers) lines.push(`  -H ${sq(`${k}: ${v}`)}`);
+  if (req.body !== null) lines.push(`  --data-raw ${sq(req.body)}`);
+  return lines.join(" \\\n");
+}
+
+function fetchJs(req: SnippetRequest): string {
+  const json = parseJson(req.body);
+  const opts = [`  method: ${q(req.method)},`];
+  if (req.headers.length) {
+    opts.push(`  headers: {\n${req.headers.map(([k, v]) => `    ${q(k)}: ${q(v)},`).join("\n")}\n  },`);
+  }
+  if (req.body !== null) {
+    opts.push(json !== undefined
+      ? `  body: JSON.stringify(${indentLines(JSON.stringify(json, null, 2), "  ")}),`
+      : `  body: ${q(req.body)},`);
+  }
+  return [
+    `const response = await fetch(${q(req.url)}, {`,
+    ...opts,
+    `});`,
+    ``,
+    `const data = await response.json();`,
+    `console.log(response.status, data);`,
+  ].join("\n");
+}
+
+function python(req: SnippetRequest): string {
+  const json = parseJson(req.body);
+  const lines = ["import requests", "", `url = ${q(req.url)}`];
+  const args = [`${q(req.method)}`, "url"];
+  if (req.headers.length) {
+    lines.push(`headers = {\n${req.headers.map(([k, v]) => `    ${q(k)}: ${q(v)},`).join("\n")}\n}`);
+    args.push("headers=headers");
+  }
+  if (req.body !== null) {
+    if (json !== undefined) {
+      lines.push(`payload = ${pyLiteral(json)}`);
+      args.push("json=payload");
+    } else {
+      lines.push(`payload = ${q(req.body)}`);
+      args.push("data=payload");
+    }
+  }
+  lines.push("", `response = requests.request(${args.join(", ")})`, "print(response.status_code, response.text)");
+  return lines.join("\n");
+}
+
+function go(req: SnippetRequest): string {
+  const body = req.body === null ? "nil" : req.body.includes("`") ? `strings.NewReader(${q(req.body)})` : `strings.NewReader(\`${req.body}\`)`;
+  const imports = ["fmt", "io", "net/http", ...(req.body !== null ? ["strings"] : [])];
+  return [
+    "package main",
+    "",
+    `import (\n${imports.map((i) => `\t${q(i)}`).join("\n")}\n)`,
+    "",
+    "func main() {",
+    `\treq, err := http.NewRequest(${q(req.method)}, ${q(req.url)}, ${body})`,
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    ...req.headers.map(([k, v]) => `\treq.Header.Set(${q(k)}, ${q(v)})`),
+    "",
+    "\tres, err := http.DefaultClient.Do(req)",
+    "\tif err != nil {",
+    "\t\tpanic(err)",
+    "\t}",
+    "\tdefer res.Body.Close()",
+    "",
+    "\tdata, _ := io.ReadAll(res.Body)",
+    "\tfmt.Println(res.StatusCode, string(data))",
+    "}",
+  ].join("\n");
+}
+
+function java(req: SnippetRequest): string {
+  const publisher = req.body === null
+    ? "HttpRequest.BodyPublishers.noBody()"
+    : `HttpRequest.BodyPublishers.ofString(${q(req.body)})`;
+  return [
+    "import java.net.URI;",
+    "import java.net.http.HttpClient;",
+    "import java.net.http.HttpRequest;",
+    "import java.net.http.HttpResponse;",
+    "",
+    "HttpRequest request = HttpRequest.newBuilder()",
+    `    .uri(URI.create(${q(req.url)}))`,
+    ...req.headers.map(([k, v]) => `    .header(${q(k)}, ${q(v)})`),
+    `    .method(${q(req.method)}, ${publisher})`,
+    "    .build();",
+    "",
+    "HttpResponse<String> response = HttpClient.newHttpClient()",
+    "    .send(request, HttpResponse.BodyHandlers.ofString());",
+    "System.out.println(response.statusCode() + \" \" + response.body());",
+  ].join("\n");
+}
+
+function php(req: SnippetRequest): string {
+  const opts = [
+    `    CURLOPT_URL => ${phpQ(req.url)},`,
+    `    CURLOPT_CUSTOMREQUEST => ${phpQ(req.method)},`,
+    "    CURLOPT_RETURNTRANSFER => true,",
+  ];
+  if (req.headers.length) {
+    opts.push(`    CURLOPT_HTTPHEADER => [\n${req.headers.map(([k, v]) => `        ${phpQ(`${k}: ${v}`)},`).join("\n")}\n    ],`);
+  }
+  if (req.body !== null) opts.push(`    CURLOPT_POSTFIELDS => ${phpQ(req.body)},`);
+  return [
+    "<?php",
+    "",
+    "$ch = curl_init();",
+    `curl_setopt_array($ch, [\n${opts.join("\n")}\n]);`,
+    "",
+    "$response = curl_exec($ch);",
+    "$status = curl_getinfo($ch, CURLINFO_HTTP_CODE);",
+    "curl_close($ch);",
+    "",
+    "echo $status . ' ' . $response;",
+  ].join("\n");
+}
+
+const RENDERERS: Record<SnippetLanguage, (req: SnippetRequest) => string> = {
+  curl,
+  fetch: fetchJs,
+  python,
+  go,
+  java,
+  php,
+};
+
+export function generateSnippet(language: SnippetLanguage, req: SnippetRequest): string {
+  return RENDERERS[language](req);
+}
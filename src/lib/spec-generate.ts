@@ -0,0 +1,636 @@
+/**
+ * spec-generate.ts — A draft OpenAPI 3.1 document from the AI API Reference.
+ *
+ * The generated markdown has no fixed layout, so endpoints are read from what
+ * it reliably contains: "METHOD /path" in headings, tables or list items,
+ * parameter tables, and JSON code blocks labelled as requests or responses.
+ * Everything else is left for the author to fill in in the editor.
+ */
+
+import { pointerToken } from "./spec-text";
+
+type Schema = Record<string, unknown>;
+
+const HTTP_METHODS = ["get", "post", "put", "patch", "delete", "head", "options"] as const;
+
+const METHOD_PATH = /\b(GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS)\b[\s`*]*((?:https?:\/\/[^\s/`*|]+)?\/[^\s`*|)]*)/;
+
+interface DraftParameter {
+  name: string;
+  in: "path" | "query" | "header" | "cookie";
+  required: boolean;
+  description: string;
+  schema: Schema;
+  example?: unknown;
+}
+
+interface DraftEndpoint {
+  method: string;
+  path: string;
+  summary: string;
+  description: string;
+  tag: string;
+  parameters: DraftParameter[];
+  bodyFields: { name: string; required: boolean; description: string; schema: Schema }[];
+  requestExample?: unknown;
+  responses: Record<string, { description: string; example?: unknown }>;
+  auth: boolean;
+}
+
+export interface GeneratedSpec {
+  document: Record<string, unknown>;
+  endpointCount: number;
+}
+
+// ── Markdown helpers ─────────────────────────────────────────────────────
+
+function plain(text: string): string {
+  return text
+    .replace(/`([^`]*)`/g, "$1")
+    .replace(/\*\*([^*]*)\*\*|__([^_]*)__/g, "$1$2")
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/^[\s>*_-]+|[\s*_]+$/g, "")
+    .trim();
+}
+
+function tableCells(line: string): string[] {
+  return line.trim().replace(/^\||\|$/g, "").split(/(?<!\\)\|/).map((c) => plain(c.replace(/\\\|/g, "|")));
+}
+
+const isTableSeparator = (line: string) => /^\s*\|?\s*:?-{2,}/.test(line);
+
+/** `/users/:id?page=1` → path `/users/{id}` plus the query's example values. */
+function normalizePath(raw: string): { path: string; server: string | null; query: Record<string, string> } {
+  let path = raw.replace(/[.,;:]+$/, "");
+  let server: string | null = null;
+  const full = /^(https?:\/\/[^/]+)(\/.*)?$/.exec(path);
+  if (full) {
+    server = full[1];
+    path = full[2] ?? "/";
+  }
+  const query: Record<string, string> = {};
+  const q = path.indexOf("?");
+  if (q !== -1) {
+    for (const pair of path.slice(q + 1).split("&")) {
+      const [k, v = ""] = pair.split("=");
+      if (k) query[decodeURIComponent(k)] = decodeURIComponent(v);
+    }
+    path = path.slice(0, q);
+  }
+  path = path
+    .replace(/:([A-Za-z_]\w*)/g, "{$1}")
+    .replace(/<(?:\w+:)?([A-Za-z_]\w*)>/g, "{$1}")
+    .replace(/\[([A-Za-z_]\w*)\]/g, "{$1}");
+  if (path.length > 1) path = path.replace(/\/+$/, "");
+  return { path: path || "/", server, query };
+}
+
+// ── Schema helpers ───────────────────────────────────────────────────────
+
+const TYPE_WORDS: [RegExp, Schema][] = [
+  [/^(int|integer|int32|int64|long)$/i, { type: "integer" }],
+  [/^(number|float|double|decimal)$/i, { type: "number" }],
+  [/^(bool|boolean)$/i, { type: "boolean" }],
+  [/^uuid$/i, { type: "string", format: "uuid" }],
+  [/^(date-?time|timestamp|datetime)$/i, { type: "string", format: "date-time" }],
+  [/^date$/i, { type: "string", format: "date" }],
+  [/^email$/i, { type: "string", format: "email" }],
+  [/^(url|uri)$/i, { type: "string", format: "uri" }],
+  [/^(object|json|map|dict|record)/i, { type: "object" }],
+  [/^(file|binary)$/i, { type: "string", format: "binary" }],
+];
+
+/** "string", "int", "string[]", "Array<number>", "enum: a | b" … → schema. */
+function schemaFromTypeWord(word: string): Schema {
+  const text = word.trim().replace(/\?$/, "");
+  const array = /^(?:array\s*<\s*(.+)\s*>|(.+)\[\]|array of (.+)|list\[(.+)\])$/i.exec(text);
+  if (array) return { type: "array", items: schemaFromTypeWord(array[1] ?? array[2] ?? array[3] ?? array[4]) };
+  if (/^array$/i.test(text)) return { type: "array", items: {} };
+  const values = text.split(/\s*\|\s*/).map((v) => v.replace(/^["']|["']$/g, ""));
+  if (values.length > 1 && values.every((v) => /^[\w.-]+$/.test(v))) return { type: "string", enum: values };
+  for (const [re, schema] of TYPE_WORDS) if (re.test(text)) return { ...schema };
+  return { type: "string" };
+}
+
+function formatOf(value: string): string | undefined {
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) return "date-time";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return "date";
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value)) return "uuid";
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email";
+  if (/^https?:\/\//.test(value)) return "uri";
+  return undefined;
+}
+
+/** A schema that the example value would satisfy. */
+export function schemaFromExample(value: unknown, depth = 0): Schema {
+  if (value === null) return { type: "null" };
+  if (Array.isArray(value)) return { type: "array", items: value.length && depth < 8 ? schemaFromExample(value[0], depth + 1) : {} };
+  switch (typeof value) {
+    case "string": {
+      const format = formatOf(value);
+      return format ? { type: "string", format } : { type: "string" };
+    }
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "object": {
+      if (depth >= 8) return { type: "object" };
+      const properties: Record<string, Schema> = {};
+      for (const [k, v] of Object.entries(value as Record<string, unknown>)) properties[k] = schemaFromExample(v, depth + 1);
+      return { type: "object", properties };
+    }
+    default:
+      return {};
+  }
+}
+
+/** JSON from a code block, tolerating comments, trailing commas and `...`. */
+function parseJsonBlock(code: string): unknown {
+  const cleaned = code
+    .replace(/^\s*\/\/.*$/gm, "")
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .replace(/,\s*\.\.\.\s*(?=[}\]])/g, "")
+    .replace(/^\s*\.\.\.\s*,?\s*$/gm, "")
+    .replace(/,(\s*[}\]])/g, "$1");
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    return undefined;
+  }
+}
+
+// ── Extraction ───────────────────────────────────────────────────────────
+
+function tagFromPath(path: string): string {
+  const segment = path.split("/").find((s) => s && !/^(api|v\d+|\{.*\})$/i.test(s));
+  return segment ? segment.charAt(0).toUpperCase() + segment.slice(1) : "Default";
+}
+
+function newEndpoint(method: string, rawPath: string, tag: string, summary: string): { endpoint: DraftEndpoint; server: string | null } {
+  const { path, server, query } = normalizePath(rawPath);
+  const parameters: DraftParameter[] = Object.entries(query).map(([name, example]) => ({
+    name, in: "query", required: false, description: "", schema: { type: "string" }, ...(example ? { example } : {}),
+  }));
+  return {
+    endpoint: { method: method.toLowerCase(), path, summary, description: "", tag: tag || tagFromPath(path), parameters, bodyFields: [], responses: {}, auth: false },
+    server,
+  };
+}
+
+function applyParamTable(endpoint: DraftEndpoint, header: string[], rows: string[][], context: string) {
+  const col = (re: RegExp) => header.findIndex((h) => re.test(h));
+  const nameCol = col(/^(name|param(eter)?|field|key|property|attribute)s?$/i);
+  if (nameCol === -1) return;
+  const typeCol = col(/^type$/i);
+  const inCol = col(/^(in|location|where|source)$/i);
+  const requiredCol = col(/^(required|req\.?|mandatory|optional)$/i);
+  const descCol = col(/^(description|desc|details|notes?|meaning)$/i);
+  const optionalHeader = requiredCol !== -1 && /optional/i.test(header[requiredCol]);
+
+  for (const row of rows) {
+    const name = row[nameCol]?.replace(/[`*]/g, "").trim();
+    if (!name || !/^[\w.[\]-]+$/.test(name)) continue;
+    const description = descCol !== -1 ? row[descCol] ?? "" : "";
+    const flag = requiredCol !== -1 ? row[requiredCol] ?? "" : "";
+    const yes = /^(yes|y|true|required|✓|✔|x)$/i.test(flag);
+    const required = optionalHeader ? !yes : yes || /\brequired\b/i.test(description);
+    const schema = typeCol !== -1 ? schemaFromTypeWord(row[typeCol] ?? "") : { type: "string" };
+    const where = (inCol !== -1 ? row[inCol] : context).toLowerCase();
+
+    let location: DraftParameter["in"] | "body";
+    if (/path|url param/.test(where) || endpoint.path.includes(`{${name}}`)) location = "path";
+    else if (/query/.test(where)) location = "query";
+    else if (/header/.test(where)) location = "header";
+    else if (/cookie/.test(where)) location = "cookie";
+    else if (/body|request|payload|form|field|json/.test(where)) location = "body";
+    else location = ["post", "put", "patch"].includes(endpoint.method) ? "body" : "query";
+
+    if (location === "body") {
+      if (!endpoint.bodyFields.some((f) => f.name === name)) endpoint.bodyFields.push({ name, required, description, schema });
+    } else if (!endpoint.parameters.some((p) => p.name === name && p.in === location)) {
+      endpoint.parameters.push({ name, in: location, required: location === "path" || required, description, schema });
+    }
+  }
+}
+
+function applyResponseTable(endpoint: DraftEndpoint, header: string[], rows: string[][]) {
+  const codeCol = header.findIndex((h) => /^(status|code|status code|http status)$/i.test(h));
+  if (codeCol === -1) return false;
+  const descCol = header.findIndex((h, i) => i !== codeCol && /description|meaning|when|reason/i.test(h));
+  for (const row of rows) {
+    const code = /\b([1-5]\d\d)\b/.exec(row[codeCol] ?? "")?.[1];
+    if (!code) continue;
+    endpoint.responses[code] ??= { description: (descCol !== -1 ? row[descCol] : "") || "" };
+  }
+  return true;
+}
+
+/** Endpoints described in the AI API Reference markdown, in document order. */
+function extractEndpoints(markdown: string): { endpoints: DraftEndpoint[]; servers: string[] } {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const endpoints = new Map<string, DraftEndpoint>();
+  const servers = new Set<string>();
+  const headings: { level: number; text: string }[] = [];
+
+  let current: DraftEndpoint | null = null;
+  let currentLevel = 0;
+  // The most recent label inside an endpoint section ("Query parameters", "Response 201" …)
+  let context = "";
+  let descriptionDone = false;
+
+  const add = (method: string, rawPath: string, summary: string): DraftEndpoint => {
+    const section = [...headings].reverse().find((h) => h.level > 1 && !METHOD_PATH.test(h.text));
+    const { endpoint, server } = newEndpoint(method, rawPath, section ? plain(section.text).replace(/\s+(endpoints?|api|routes?)$/i, "") : "", summary);
+    if (server) servers.add(server);
+    const key = `${endpoint.method} ${endpoint.path}`;
+    const existing = endpoints.get(key);
+    if (existing) {
+      if (!existing.summary) existing.summary = endpoint.summary;
+      return existing;
+    }
+    endpoints.set(key, endpoint);
+    return endpoint;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code blocks
+    const fence = /^\s*(```|~~~)\s*([\w+-]*)/.exec(line);
+    if (fence) {
+      const body: string[] = [];
+      for (i++; i < lines.length && !lines[i].trimStart().startsWith(fence[1]); i++) body.push(lines[i]);
+      if (!current || /^(bash|sh|shell|curl|zsh|console|http|python|js|javascript|ts|typescript|go|java|php|ruby)$/i.test(fence[2])) continue;
+      const value = parseJsonBlock(body.join("\n"));
+      if (value === undefined) continue;
+      const code = /\b([1-5]\d\d)\b/.exec(context)?.[1];
+      const isRequest = /request|body|payload|input/.test(context) && !/response|returns|output/.test(context);
+      const isResponse = /response|returns|output|result|success|error/.test(context) || !!code;
+      if (isRequest || (!isResponse && ["post", "put", "patch"].includes(current.method) && current.requestExample === undefined)) {
+        current.requestExample ??= value;
+      } else {
+        const status = code ?? (/error|fail/.test(context) ? "400" : "200");
+        const response = (current.responses[status] ??= { description: "" });
+        response.example ??= value;
+      }
+      continue;
+    }
+
+    const heading = /^(#{1,6})\s+(.*)$/.exec(line);
+    if (heading) {
+      const level = heading[1].length;
+      const match = METHOD_PATH.exec(heading[2]);
+      if (match) {
+        const summary = plain(heading[2].slice(match.index + match[0].length).replace(/^[\s`*)—–:-]+/, ""));
+        current = add(match[1], match[2], summary);
+        currentLevel = level;
+        context = "";
+        descriptionDone = false;
+        continue;
+      }
+      if (current && level > currentLevel) {
+        context = plain(heading[2]).toLowerCase();
+        descriptionDone = true;
+        continue;
+      }
+      current = null;
+      while (headings.length && headings[headings.length - 1].level >= level) headings.pop();
+      headings.push({ level, text: heading[2] });
+      continue;
+    }
+
+    // Tables: endpoint summaries, parameters or status codes
+    if (/^\s*\|/.test(line) && i + 1 < lines.length && isTableSeparator(lines[i + 1])) {
+      const header = tableCells(line);
+      const rows: string[][] = [];
+      for (i += 2; i < lines.length && /^\s*\|/.test(lines[i]); i++) rows.push(tableCells(lines[i]));
+      i--;
+      const methodCol = header.findIndex((h) => /^(method|verb|http method)$/i.test(h));
+      const pathCol = header.findIndex((h) => /^(path|endpoint|route|url|uri)$/i.test(h));
+      const descCol = header.findIndex((h) => /description|summary|purpose/i.test(h));
+      if (methodCol !== -1 || pathCol !== -1) {
+        for (const row of rows) {
+          const joined = methodCol !== -1 && pathCol !== -1 ? `${(row[methodCol] ?? "").toUpperCase()} ${row[pathCol] ?? ""}` : row.join(" ");
+          const match = METHOD_PATH.exec(joined);
+          if (match) add(match[1], match[2], descCol !== -1 ? row[descCol] ?? "" : "");
+        }
+        continue;
+      }
+      if (current) {
+        if (!applyResponseTable(current, header, rows)) applyParamTable(current, header, rows, context);
+        descriptionDone = true;
+      }
+      continue;
+    }
+
+    // List items and lines that name an endpoint outside an endpoint section
+    const listed = /^\s*(?:[-*+]|\d+\.)\s+(.*)$/.exec(line);
+    if (listed && !current) {
+      const match = METHOD_PATH.exec(listed[1]);
+      if (match && match.index < 4) {
+        add(match[1], match[2], plain(listed[1].slice(match.index + match[0].length).replace(/^[\s`*)—–:-]+/, "")));
+      }
+      continue;
+    }
+
+    const base = /base\s*url[^:]*:\s*[`*<]*(https?:\/\/[^\s`*>]+)/i.exec(line);
+    if (base) {
+      servers.add(base[1].replace(/[/.,;]+$/, ""));
+      continue;
+    }
+
+    if (!current) continue;
+    const text = line.trim();
+    if (!text) {
+      if (current.description) descriptionDone = true;
+      continue;
+    }
+
+    // Short bold or colon-terminated lines label what follows
+    const label = /^(?:\*\*|__)(.+?)(?:\*\*|__):?\s*$/.exec(text) ?? /^([^.|`]{2,60}):$/.exec(text);
+    if (label) {
+      context = plain(label[1]).toLowerCase();
+      descriptionDone = true;
+      continue;
+    }
+    if (/authori[sz]ation:\s*bearer|requires? (an? )?(auth|token|login)|authenticated|🔒|auth(entication)? required/i.test(text)) {
+      current.auth = true;
+    }
+    // "- `id` (string, required): The user id" style parameter lists
+    const param = /^[-*+]\s+`?([\w.[\]-]+)`?\s*(?:\(([^)]*)\))?\s*[:—–-]\s*(.*)$/.exec(text);
+    if (param && /param|query|path|header|body|field|request/.test(context)) {
+      const [, name, meta = "", description] = param;
+      const type = meta.split(/,\s*/).find((m) => !/required|optional/i.test(m)) ?? "string";
+      applyParamTable(current, ["name", "type", "required", "description"], [[name, type, /required/i.test(meta) ? "yes" : "no", description]], context);
+      continue;
+    }
+    if (!descriptionDone && !/^[-*+>|]/.test(text)) {
+      current.description = current.description ? `${current.description} ${plain(text)}` : plain(text);
+    }
+  }
+
+  return { endpoints: [...endpoints.values()], servers: [...servers] };
+}
+
+// ── Document ─────────────────────────────────────────────────────────────
+
+function operationId(method: string, path: string, used: Set<string>): string {
+  const words = path.split("/").filter(Boolean).map((s) => {
+    const param = /^\{(\w+)\}$/.exec(s);
+    const word = param ? `by-${param[1]}` : s;
+    return word.split(/[^A-Za-z0-9]+/).filter(Boolean).map((w) => w.charAt(0).toUpperCase() + w.slice(1)).join("");
+  });
+  const base = method + words.join("");
+  let id = base;
+  for (let n = 2; used.has(id); n++) id = `${base}${n}`;
+  used.add(id);
+  return id;
+}
+
+function operation(endpoint: DraftEndpoint, used: Set<string>): Schema {
+  // Every {param} in the template must be declared
+  const parameters = [...endpoint.parameters];
+  for (const [, name] of endpoint.path.matchAll(/\{(\w+)\}/g)) {
+    if (!parameters.some((p) => p.in === "path" && p.name === name)) {
+      parameters.unshift({ name, in: "path", required: true, description: "", schema: { type: "string" } });
+    }
+  }
+
+  const op: Schema = {
+    tags: [endpoint.tag],
+    summary: endpoint.summary || endpoint.description.split(/(?<=\.)\s/)[0] || `${endpoint.method.toUpperCase()} ${endpoint.path}`,
+    operationId: operationId(endpoint.method, endpoint.path, used),
+  };
+  if (endpoint.description && endpoint.description !== op.summary) op.description = endpoint.description;
+  if (parameters.length) {
+    op.parameters = parameters.map((p) => ({
+      name: p.name,
+      in: p.in,
+      required: p.in === "path" ? true : p.required,
+      ...(p.description ? { description: p.description } : {}),
+      schema: p.schema,
+      ...(p.example !== undefined ? { example: p.example } : {}),
+    }));
+  }
+
+  if (endpoint.requestExample !== undefined || endpoint.bodyFields.length) {
+    const schema = endpoint.requestExample !== undefined ? schemaFromExample(endpoint.requestExample) : { type: "object", properties: {} };
+    if (endpoint.bodyFields.length && schema.type === "object") {
+      const properties = schema.properties as Record<string, Schema>;
+      for (const field of endpoint.bodyFields) {
+        properties[field.name] = { ...properties[field.name], ...field.schema, ...(field.description ? { description: field.description } : {}) };
+      }
+      const required = endpoint.bodyFields.filter((f) => f.required).map((f) => f.name);
+      if (required.length) schema.required = required;
+    }
+    op.requestBody = {
+      required: true,
+      content: {
+        "application/json": { schema, ...(endpoint.requestExample !== undefined ? { example: endpoint.requestExample } : {}) },
+      },
+    };
+  }
+
+  const responses: Record<string, Schema> = {};
+  const codes = Object.keys(endpoint.responses).sort();
+  if (!codes.length) codes.push(endpoint.method === "post" ? "201" : endpoint.method === "delete" ? "204" : "200");
+  for (const code of codes) {
+    const r = endpoint.responses[code] ?? { description: "" };
+    responses[code] = {
+      description: r.description || (code.startsWith("2") ? "Successful response" : "Error response"),
+      ...(r.example !== undefined
+        ? { content: { "application/json": { schema: schemaFromExample(r.example), example: r.example } } }
+        : {}),
+    };
+  }
+  op.responses = responses;
+  if (endpoint.auth) op.security = [{ bearerAuth: [] }];
+  return op;
+}
+
+export interface GenerateOptions {
+  title: string;
+  version?: string;
+  description?: string;
+}
+
+/** A draft OpenAPI 3.1 document for the endpoints found in `markdown`. */
+export function generateOpenApi(markdown: string, options: GenerateOptions): GeneratedSpec {
+  const { endpoints, servers } = extractEndpoints(markdown);
+  const used = new Set<string>();
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const endpoint of endpoints) {
+    (paths[endpoint.path] ??= {})[endpoint.method] = operation(endpoint, used);
+  }
+  const tags = [...new Set(endpoints.map((e) => e.tag))];
+
+  const document: Record<string, unknown> = {
+    openapi: "3.1.0",
+    info: {
+      title: options.title,
+      version: options.version || "0.1.0",
+      ...(options.description ? { description: options.description } : {}),
+    },
+    servers: servers.length ? servers.map((url) => ({ url })) : [{ url: "https://api.example.com", description: "Replace with your API's base URL" }],
+    tags: tags.map((name) => ({ name })),
+    paths,
+  };
+  if (endpoints.some((e) => e.auth)) {
+    document.components = { securitySchemes: { bearerAuth: { type: "http", scheme: "bearer" } } };
+  }
+  return { document, endpointCount: endpoints.length };
+}
+
+// ── Validation ───────────────────────────────────────────────────────────
+
+export interface SpecProblem {
+  severity: "error" | "warning";
+  /** JSON pointer into the document */
+  pointer: string;
+  message: string;
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object" && !Array.isArray(v);
+
+/** Structural checks for an OpenAPI 3.x document — what the importer and viewer rely on. */
+export function validateOpenApi(doc: unknown): SpecProblem[] {
+  const problems: SpecProblem[] = [];
+  const error = (pointer: string, message: string) => problems.push({ severity: "error", pointer, message });
+  const warn = (pointer: string, message: string) => problems.push({ severity: "warning", pointer, message });
+
+  if (!isObject(doc)) {
+    error("", "The document must be an object.");
+    return problems;
+  }
+  if (typeof doc.openapi !== "string" || !/^3\.\d+\.\d+$/.test(doc.openapi)) {
+    error("/openapi", '`openapi` must be a version string such as "3.1.0".');
+  }
+  if (!isObject(doc.info)) {
+    error("/info", "`info` is required.");
+  } else {
+    if (typeof doc.info.title !== "string" || !doc.info.title.trim()) error("/info/title", "`info.title` is required.");
+    if (typeof doc.info.version !== "string") error("/info/version", "`info.version` must be a string.");
+  }
+  if (doc.servers !== undefined) {
+    if (!Array.isArray(doc.servers)) error("/servers", "`servers` must be a list.");
+    else doc.servers.forEach((s, i) => {
+      if (!isObject(s) || typeof s.url !== "string") error(`/servers/${i}`, "Each server needs a `url`.");
+      else if (/example\.com/.test(s.url)) warn(`/servers/${i}/url`, "Replace the placeholder server URL so Try It can reach your API.");
+    });
+  }
+
+  const schemes = isObject(doc.components) && isObject(doc.components.securitySchemes) ? doc.components.securitySchemes : {};
+
+  // Local $refs must point at something that exists; external ones are left to the importer
+  const resolves = (ref: string) => {
+    let node: unknown = doc;
+    for (const part of ref.slice(2).split("/")) {
+      const key = decodeURIComponent(part).replace(/~1/g, "/").replace(/~0/g, "~");
+      if (!isObject(node) && !Array.isArray(node)) return false;
+      node = (node as Record<string, unknown>)[key];
+      if (node === undefined) return false;
+    }
+    return true;
+  };
+  const checkRefs = (value: unknown, pointer: string) => {
+    if (Array.isArray(value)) value.forEach((v, i) => checkRefs(v, `${pointer}/${i}`));
+    else if (isObject(value)) {
+      if (typeof value.$ref === "string" && value.$ref.startsWith("#/") && !resolves(value.$ref)) {
+        error(`${pointer}/$ref`, `Cannot resolve ${value.$ref}.`);
+      }
+      for (const [k, v] of Object.entries(value)) checkRefs(v, `${pointer}/${pointerToken(k)}`);
+    }
+  };
+
+  if (!isObject(doc.paths)) {
+    error("/paths", "`paths` is required — it holds the endpoints.");
+    return problems;
+  }
+  if (!Object.keys(doc.paths).length) warn("/paths", "The document has no endpoints yet.");
+
+  const operationIds = new Map<string, string>();
+  for (const [path, item] of Object.entries(doc.paths)) {
+    const pathPointer = `/paths/${pointerToken(path)}`;
+    if (!path.startsWith("/")) error(pathPointer, `Path "${path}" must start with "/".`);
+    if (!isObject(item)) {
+      error(pathPointer, "Each path must map to its operations.");
+      continue;
+    }
+    const templateParams = [...path.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]);
+    const shared = Array.isArray(item.parameters) ? item.parameters : [];
+
+    for (const [method, op] of Object.entries(item)) {
+      if (["summary", "description", "parameters", "servers", "$ref"].includes(method)) continue;
+      const opPointer = `${pathPointer}/${pointerToken(method)}`;
+      if (!(HTTP_METHODS as readonly string[]).includes(method) && method !== "trace") {
+        error(opPointer, `"${method}" is not an HTTP method.`);
+        continue;
+      }
+      if (!isObject(op)) {
+        error(opPointer, "An operation must be an object.");
+        continue;
+      }
+
+      if (typeof op.operationId === "string") {
+        const other = operationIds.get(op.operationId);
+        if (other) error(`${opPointer}/operationId`, `operationId "${op.operationId}" is also used by ${other}.`);
+        else operationIds.set(op.operationId, `${method.toUpperCase()} ${path}`);
+      }
+
+      const params = [...shared, ...(Array.isArray(op.parameters) ? op.parameters : [])];
+      if (op.parameters !== undefined && !Array.isArray(op.parameters)) error(`${opPointer}/parameters`, "`parameters` must be a list.");
+      (Array.isArray(op.parameters) ? op.parameters : []).forEach((p, i) => {
+        const pp = `${opPointer}/parameters/${i}`;
+        if (!isObject(p)) return error(pp, "Each parameter must be an object.");
+        if (typeof p.$ref === "string") return;
+        if (typeof p.name !== "string" || !p.name) error(pp, "Parameter `name` is required.");
+        if (!["path", "query", "header", "cookie"].includes(String(p.in))) error(`${pp}/in`, "`in` must be path, query, header or cookie.");
+        if (p.in === "path" && p.required !== true) error(pp, `Path parameter "${p.name}" must have \`required: true\`.`);
+        if (p.in === "path" && typeof p.name === "string" && !templateParams.includes(p.name)) {
+          error(pp, `Path parameter "${p.name}" does not appear in ${path}.`);
+        }
+        if (p.schema === undefined && p.content === undefined) warn(pp, `Parameter "${p.name}" has no schema.`);
+      });
+      for (const name of templateParams) {
+        if (!params.some((p) => isObject(p) && p.in === "path" && p.name === name)) {
+          error(opPointer, `{${name}} in the path is not declared as a path parameter.`);
+        }
+      }
+
+      if (op.requestBody !== undefined) {
+        if (!isObject(op.requestBody) || (!isObject(op.requestBody.content) && typeof op.requestBody.$ref !== "string")) {
+          error(`${opPointer}/requestBody`, "`requestBody` needs a `content` map of media types.");
+        } else if (["get", "head", "delete"].includes(method)) {
+          warn(`${opPointer}/requestBody`, `${method.toUpperCase()} requests usually have no body.`);
+        }
+      }
+
+      if (!isObject(op.responses) || !Object.keys(op.responses).length) {
+        error(`${opPointer}/responses`, "At least one response is required.");
+      } else {
+        for (const [code, response] of Object.entries(op.responses)) {
+          const rp = `${opPointer}/responses/${pointerToken(code)}`;
+          if (!/^([1-5]\d\d|[1-5]XX|default)$/.test(code)) error(rp, `"${code}" is not a status code.`);
+          if (!isObject(response)) error(rp, "A response must be an object.");
+          else if (typeof response.$ref !== "string" && typeof response.description !== "string") {
+            error(rp, "Each response needs a `description`.");
+          }
+        }
+      }
+
+      if (Array.isArray(op.security)) {
+        op.security.forEach((req, i) => {
+          if (!isObject(req)) return;
+          for (const name of Object.keys(req)) {
+            if (!(name in schemes)) error(`${opPointer}/security/${i}`, `Security scheme "${name}" is not defined in components.securitySchemes.`);
+          }
+        });
+      }
+    }
+  }
+
+  checkRefs(doc.paths, "/paths");
+  checkRefs(doc.components, "/components");
+  return problems;
+}
@@ -0,0 +1,458 @@
+/**
+ * spec-text.ts — Read and write spec documents as YAML or JSON text.
+ *
+ * The reader records the line of every key and array item (by JSON pointer)
+ * so validation issues can be shown next to the text they refer to. YAML
+ * support covers what specs are written in: block mappings and sequences,
+ * single-line flow collections, quoted and block scalars, and comments.
+ * Anchors, aliases and tags are rejected.
+ */
+
+export type SpecFormat = "yaml" | "json";
+
+export interface ParsedSpecText {
+  value: unknown;
+  /** JSON pointer → 1-based line number */
+  lines: Map<string, number>;
+}
+
+export class SpecTextError extends Error {
+  constructor(message: string, public line: number) {
+    super(message);
+    this.name = "SpecTextError";
+  }
+}
+
+export function pointerToken(key: string | number): string {
+  return String(key).replace(/~/g, "~0").replace(/\//g, "~1");
+}
+
+/** The line of `pointer`, or of its nearest ancestor that has one. */
+export function lineOf(lines: Map<string, number>, pointer: string): number {
+  let p = pointer;
+  while (p) {
+    const line = lines.get(p);
+    if (line !== undefined) return line;
+    p = p.slice(0, p.lastIndexOf("/"));
+  }
+  return 1;
+}
+
+export function detectFormat(text: string): SpecFormat {
+  const trimmed = text.trimStart();
+  return trimmed.startsWith("{") || trimmed.startsWith("[") ? "json" : "yaml";
+}
+
+export function parseSpecText(text: string, format: SpecFormat = detectFormat(text)): ParsedSpecText {
+  return format === "json" ? parseJson(text) : parseYaml(text);
+}
+
+// ── JSON reader ──────────────────────────────────────────────────────────
+
+function parseJson(text: string): ParsedSpecText {
+  const lines = new Map<string, number>();
+  let i = 0;
+  let line = 1;
+
+  const fail = (message: string): never => {
+    throw new SpecTextError(message, line);
+  };
+
+  const ws = () => {
+    while (i < text.length && /\s/.test(text[i])) {
+      if (text[i] === "\n") line++;
+      i++;
+    }
+  };
+
+  const string = (): string => {
+    const start = i;
+    i++;
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === "\n") fail("Unterminated string");
+      i += text[i] === "\\" ? 2 : 1;
+    }
+    if (i >= text.length) fail("Unterminated string");
+    i++;
+    try {
+      return JSON.parse(text.slice(start, i));
+    } catch {
+      return fail("Invalid escape in string");
+    }
+  };
+
+  const value = (pointer: string): unknown => {
+    ws();
+    const c = text[i];
+    if (c === "{") {
+      i++;
+      const out: Record<string, unknown> = {};
+      ws();
+      if (text[i] === "}") {
+        i++;
+        return out;
+      }
+      for (;;) {
+        ws();
+        if (text[i] !== '"') fail("Expected a quoted key");
+        const keyLine = line;
+        const key = string();
+        if (key in out) fail(`Duplicate key "${key}"`);
+        ws();
+        if (text[i] !== ":") fail(`Expected ":" after "${key}"`);
+        i++;
+        const child = `${pointer}/${pointerToken(key)}`;
+        lines.set(child, keyLine);
+        out[key] = value(child);
+        ws();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "}") {
+          i++;
+          return out;
+        }
+        fail('Expected "," or "}"');
+      }
+    }
+    if (c === "[") {
+      i++;
+      const out: unknown[] = [];
+      ws();
+      if (text[i] === "]") {
+        i++;
+        return out;
+      }
+      for (;;) {
+        ws();
+        const child = `${pointer}/${out.length}`;
+        lines.set(child, line);
+        out.push(value(child));
+        ws();
+        if (text[i] === ",") {
+          i++;
+          continue;
+        }
+        if (text[i] === "]") {
+          i++;
+          return out;
+        }
+        fail('Expected "," or "]"');
+      }
+    }
+    if (c === '"') return string();
+    const literal = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/.exec(text.slice(i, i + 64));
+    if (!literal) fail(c === undefined ? "Unexpected end of document" : `Unexpected "${c}"`);
+    i += literal![0].length;
+    return JSON.parse(literal![0]);
+  };
+
+  const result = value("");
+  ws();
+  if (i < text.length) fail("Unexpected content after the document");
+  return { value: result, lines };
+}
+
+// ── YAML reader ──────────────────────────────────────────────────────────
+
+interface Line {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+/** Remove a trailing `# comment` that is not inside quotes. */
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "#" && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+}
+
+/** Split `key: rest` at the first mapping colon outside quotes and brackets. */
+function splitKey(text: string): [string, string] | null {
+  let quote: string | null = null;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quote) {
+      if (c === "\\" && quote === '"') i++;
+      else if (c === quote) quote = null;
+    } else if (c === '"' || c === "'") {
+      quote = c;
+    } else if (c === "[" || c === "{") {
+      depth++;
+    } else if (c === "]" || c === "}") {
+      depth--;
+    } else if (c === ":" && depth === 0 && (i === text.length - 1 || text[i + 1] === " ")) {
+      return [text.slice(0, i).trim(), text.slice(i + 1).trim()];
+    }
+  }
+  return null;
+}
+
+function unquote(text: string, line: number): string {
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new SpecTextError(`Invalid quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new SpecTextError(`Invalid quoted string ${text}`, line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  return text;
+}
+
+function scalar(text: string, line: number): unknown {
+  if (text.startsWith('"') || text.startsWith("'")) return unquote(text, line);
+  if (/^[&*!]/.test(text)) throw new SpecTextError("Anchors, aliases and tags are not supported", line);
+  if (text === "" || text === "~" || text === "null" || text === "Null" || text === "NULL") return null;
+  if (/^(true|True|TRUE)$/.test(text)) return true;
+  if (/^(false|False|FALSE)$/.test(text)) return false;
+  if (/^[-+]?\d+$/.test(text)) return Number(text);
+  if (/^[-+]?(\d+\.\d*|\.\d+|\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+/** Single-line flow collections: `[a, "b"]`, `{ a: 1 }`. */
+function flow(text: string, line: number): unknown {
+  let i = 0;
+  const ws = () => {
+    while (text[i] === " ") i++;
+  };
+  const item = (): unknown => {
+    ws();
+    if (text[i] === "[") {
+      i++;
+      const out: unknown[] = [];
+      ws();
+      if (text[i] === "]") {
+        i++;
+        return out;
+      }
+      for (;;) {
+        out.push(item());
+        ws();
+        if (text[i] === ",") { i++; continue; }
+        if (text[i] === "]") { i++; return out; }
+        throw new SpecTextError('Expected "," or "]" in flow sequence', line);
+      }
+    }
+    if (text[i] === "{") {
+      i++;
+      const out: Record<string, unknown> = {};
+      ws();
+      if (text[i] === "}") {
+        i++;
+        return out;
+      }
+      for (;;) {
+        ws();
+        const key = token(":");
+        if (text[i] !== ":") throw new SpecTextError('Expected ":" in flow mapping', line);
+        i++;
+        out[String(scalar(key, line))] = item();
+        ws();
+        if (text[i] === ",") { i++; continue; }
+        if (text[i] === "}") { i++; return out; }
+        throw new SpecTextError('Expected "," or "}" in flow mapping', line);
+      }
+    }
+    return scalar(token(""), line);
+  };
+  // A scalar inside a flow collection ends at , ] } (or : for keys)
+  const token = (extra: string): string => {
+    ws();
+    const start = i;
+    if (text[i] === '"' || text[i] === "'") {
+      const q = text[i++];
+      while (i < text.length && text[i] !== q) i += text[i] === "\\" && q === '"' ? 2 : 1;
+      i++;
+      return text.slice(start, i);
+    }
+    while (i < text.length && !`,]}${extra}`.includes(text[i])) i++;
+    return text.slice(start, i).trim();
+  };
+  const out = item();
+  ws();
+  if (i < text.length) throw new SpecTextError("Unexpected content after flow collection", line);
+  return out;
+}
+
+function parseYaml(text: string): ParsedSpecText {
+  const raw = text.replace(/\r\n?/g, "\n").split("\n");
+  const lines: Line[] = [];
+  const map = new Map<string, number>();
+
+  raw.forEach((source, idx) => {
+    if (/^\s*(#.*)?$/.test(source) || /^(---|\.\.\.)\s*$/.test(source)) return;
+    if (/^\t/.test(source)) throw new SpecTextError("Tabs are not allowed for indentation", idx + 1);
+    const indent = source.length - source.trimStart().length;
+    lines.push({ indent, text: source.slice(indent), line: idx + 1 });
+  });
+
+  let pos = 0;
+
+  /** `|` and `>` scalars: the more-indented lines that follow. */
+  const blockScalar = (header: string, parentIndent: number, from: number): string => {
+    const body: string[] = [];
+    // `|2` fixes the indent relative to the parent; otherwise the first line sets it
+    const indicator = /\d/.exec(header);
+    let blockIndent: number | null = indicator ? parentIndent + Number(indicator[0]) : null;
+    // The text's final line break ends the last line; it does not open another
+    const end = raw[raw.length - 1] === "" ? raw.length - 1 : raw.length;
+    for (let i = from; i < end; i++) {
+      const source = raw[i];
+      const indent = source.length - source.trimStart().length;
+      if (source.trim() && indent <= parentIndent) break;
+      if (source.trim() && blockIndent === null) blockIndent = indent;
+      if (source.trim() && indent < blockIndent!) throw new SpecTextError("Block scalar line is indented less than the block", i + 1);
+      body.push(source.trim() ? source.slice(blockIndent!) : "");
+    }
+    // Consume the structural lines that were part of the block
+    const last = from + body.length;
+    while (pos < lines.length && lines[pos].line <= last) pos++;
+    // Chomping: `+` keeps trailing blank lines, `-` drops every final break, the default keeps one
+    const keep = header.includes("+");
+    if (!keep) while (body.length && body[body.length - 1] === "") body.pop();
+    const folded = header.startsWith(">")
+      ? body.join("\n").replace(/([^\n])\n(?=[^\n ])/g, "$1 ")
+      : body.join("\n");
+    return header.includes("-") || (keep && !body.length) ? folded : `${folded}\n`;
+  };
+
+  const inlineValue = (rest: string, indent: number, line: number, pointer: string): unknown => {
+    if (rest === "") {
+      const next = lines[pos];
+      // A sequence may sit at the same indent as its key
+      if (next && (next.indent > indent || (next.indent === indent && /^-( |$)/.test(next.text)))) {
+        return block(next.indent, pointer);
+      }
+      return null;
+    }
+    if (/^[|>]([-+]\d?|\d[-+]?)?$/.test(rest)) return blockScalar(rest, indent, line);
+    if (rest.startsWith("[") || rest.startsWith("{")) return flow(rest, line);
+    return scalar(rest, line);
+  };
+
+  const block = (indent: number, pointer: string): unknown => {
+    const first = lines[pos];
+    if (/^-( |$)/.test(first.text)) {
+      const out: unknown[] = [];
+      while (pos < lines.length && lines[pos].indent === indent && /^-( |$)/.test(lines[pos].text)) {
+        const current = lines[pos];
+        const child = `${pointer}/${out.length}`;
+        map.set(child, current.line);
+        const rest = current.text.slice(1).trimStart();
+        if (/^-( |$)/.test(rest) || (splitKey(rest) && !/^[[{]/.test(rest))) {
+          // `- key: value` starts a mapping (or nested sequence) indented to the content
+          lines[pos] = { indent: indent + current.text.length - rest.length, text: rest, line: current.line };
+          out.push(block(lines[pos].indent, child));
+        } else {
+          pos++;
+          out.push(inlineValue(rest, indent, current.line, child));
+        }
+      }
+      return out;
+    }
+
+    const out: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent) {
+      const current = lines[pos];
+      if (/^-( |$)/.test(current.text)) throw new SpecTextError("Unexpected sequence item in a mapping", current.line);
+      const text = stripComment(current.text);
+      const parts = splitKey(text);
+      if (!parts) throw new SpecTextError(`Expected "key: value" but found "${text}"`, current.line);
+      const key = String(unquote(parts[0], current.line));
+      if (key in out) throw new SpecTextError(`Duplicate key "${key}"`, current.line);
+      const child = `${pointer}/${pointerToken(key)}`;
+      map.set(child, current.line);
+      pos++;
+      out[key] = inlineValue(parts[1], indent, current.line, child);
+    }
+    if (pos < lines.length && lines[pos].indent > indent) {
+      throw new SpecTextError("Unexpected indentation", lines[pos].line);
+    }
+    return out;
+  };
+
+  if (!lines.length) throw new SpecTextError("The document is empty", 1);
+  // Strip trailing comments from sequence items and plain values up front
+  for (const l of lines) l.text = stripComment(l.text);
+  const value = block(lines[0].indent, "");
+  if (pos < lines.length) throw new SpecTextError("Unexpected indentation", lines[pos].line);
+  return { value, lines: map };
+}
+
+// ── Writers ──────────────────────────────────────────────────────────────
+
+const PLAIN_KEY = /^[A-Za-z_$/][\w.$/{}-]*$/;
+// YAML 1.1 readers take these for booleans
+const YAML11_BOOLEANS = /^(y|n|yes|no|on|off)$/i;
+
+function yamlString(value: string): string {
+  const plain =
+    value !== "" &&
+    value === value.trim() &&
+    !/^[-?:,[\]{}#&*!|>'"%@`]/.test(value) &&
+    !/: |\s#|[\n\t]/.test(value) &&
+    !value.endsWith(":") &&
+    !YAML11_BOOLEANS.test(value) &&
+    typeof scalar(value, 0) === "string";
+  return plain ? value : JSON.stringify(value);
+}
+
+function yamlKey(key: string): string {
+  return PLAIN_KEY.test(key) && !YAML11_BOOLEANS.test(key) && typeof scalar(key, 0) === "string" ? key : JSON.stringify(key);
+}
+
+function yamlLines(value: unknown, indent: string): string[] {
+  if (Array.isArray(value)) {
+    if (!value.length) return ["[]"];
+    return value.flatMap((item) => {
+      const inner = yamlLines(item, `${indent}  `);
+      if (isBlock(item)) return [`${indent}- ${inner[0].trimStart()}`, ...inner.slice(1)];
+      return [`${indent}- ${inner.join("\n")}`];
+    });
+  }
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value);
+    if (!entries.length) return ["{}"];
+    return entries.flatMap(([k, v]) => {
+      const key = `${indent}${yamlKey(k)}:`;
+      if (isBlock(v)) return [key, ...yamlLines(v, `${indent}  `)];
+      if (typeof v === "string" && v.includes("\n") && !/^\s/.test(v)) {
+        const body = v.replace(/\n+$/, "").split("\n").map((l) => (l ? `${indent}  ${l}` : ""));
+        // Line breaks past the first are kept as blank lines under `|+`
+        const extraBreaks = Math.max(0, (/\n*$/.exec(v)?.[0].length ?? 0) - 1);
+        const chomp = extraBreaks ? "|+" : v.endsWith("\n") ? "|" : "|-";
+        return [`${key} ${chomp}`, ...body, ...Array<string>(extraBreaks).fill("")];
+      }
+      return [`${key} ${yamlLines(v, `${indent}  `).join("\n")}`];
+    });
+  }
+  if (typeof value === "string") return [yamlString(value)];
+  return [value === undefined ? "null" : JSON.stringify(value)];
+}
+
+function isBlock(value: unknown): boolean {
+  return !!value && typeof value === "object" && Object.keys(value).length > 0;
+}
+
+export function stringifySpec(value: unknown, format: SpecFormat): string {
+  if (format === "json") return `${JSON.stringify(value, null, 2)}\n`;
+  return `${yamlLines(value, "").join("\n")}\n`;
+}
@@ -0,0 +1,372 @@
+/**
+ * try-it-auth.ts — Credentials for the Try-It console, driven by the spec's
+ * security schemes.
+ *
+ * Credentials live in sessionStorage only (one entry per project) and are
+ * applied to every console request. OAuth2 token requests go through the
+ * Try-It proxy so that token endpoints without CORS still work.
+ */
+import {
+  apiSpecApi,
+  type ApiOAuthFlow,
+  type ApiSecurityRequirement,
+  type ApiSecurityScheme,
+  type ApiSpec,
+  type ApiSpecEndpoint,
+} from "./api";
+
+type KeyValue = { key: string; value: string };
+
+export type SchemeCredential =
+  | { kind: "apiKey"; value: string }
+  | { kind: "basic"; username: string; password: string }
+  | { kind: "bearer"; token: string }
+  | {
+      kind: "oauth2";
+      accessToken: string;
+      tokenType: string;
+      /** Epoch ms; null when the server did not say */
+      expiresAt: number | null;
+      scopes: string[];
+      clientId: string;
+    };
+
+/** Scheme name → credential */
+export type ProjectCredentials = Record<string, SchemeCredential>;
+
+/** Where the authorization-code popup lands (see TryItOAuthCompletePage). */
+export const OAUTH_REDIRECT_PATH = "/try-it/oauth/complete";
+/** localStorage key the popup writes its result to. */
+export const OAUTH_RESULT_KEY = "__docnine_tryit_oauth_result";
+
+const storageKey = (projectId: string) => `docnine:try-it-auth:${projectId}`;
+
+// ── Session storage ──────────────────────────────────────────────────────
+
+export function loadCredentials(projectId: string): ProjectCredentials {
+  try {
+    const raw = sessionStorage.getItem(storageKey(projectId));
+    return raw ? (JSON.parse(raw) as ProjectCredentials) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveCredentials(projectId: string, creds: ProjectCredentials): void {
+  try {
+    if (Object.keys(creds).length === 0) sessionStorage.removeItem(storageKey(projectId));
+    else sessionStorage.setItem(storageKey(projectId), JSON.stringify(creds));
+  } catch {
+    /* storage unavailable — credentials stay in memory */
+  }
+}
+
+// ── Requirements ─────────────────────────────────────────────────────────
+
+/** The endpoint's own requirements, falling back to the spec-wide default. */
+export function securityRequirements(spec: ApiSpec, endpoint: ApiSpecEndpoint): ApiSecurityRequirement[] {
+  return endpoint.security ?? spec.security ?? [];
+}
+
+/** True when no anonymous alternative (`{}`) is allowed. */
+export function requiresAuth(spec: ApiSpec, endpoint: ApiSpecEndpoint): boolean {
+  const reqs = securityRequirements(spec, endpoint);
+  return reqs.length > 0 && !reqs.some((r) => Object.keys(r).length === 0);
+}
+
+/** The kind of credential a scheme takes; other OAuth flows accept a pasted token. */
+export function credentialKind(scheme: ApiSecurityScheme): SchemeCredential["kind"] {
+  switch (scheme.type) {
+    case "apiKey":
+      return "apiKey";
+    case "http":
+      return scheme.scheme.toLowerCase() === "basic" ? "basic" : "bearer";
+    case "oauth2":
+      return scheme.flows.clientCredentials || scheme.flows.authorizationCode ? "oauth2" : "bearer";
+    case "openIdConnect":
+      return "bearer";
+  }
+}
+
+export function describeScheme(scheme: ApiSecurityScheme): string {
+  switch (scheme.type) {
+    case "apiKey":
+      return `API key in ${scheme.in} "${scheme.name}"`;
+    case "http":
+      return scheme.scheme.toLowerCase() === "basic"
+        ? "HTTP basic"
+        : `HTTP ${scheme.scheme.toLowerCase()}${scheme.bearerFormat ? ` (${scheme.bearerFormat})` : ""}`;
+    case "oauth2": {
+      const flows = [
+        scheme.flows.authorizationCode && "authorization code",
+        scheme.flows.clientCredentials && "client credentials",
+      ].filter(Boolean);
+      return flows.length ? `OAuth 2.0 (${flows.join(", ")})` : "OAuth 2.0";
+    }
+    case "openIdConnect":
+      return "OpenID Connect";
+  }
+}
+
+export function isExpired(cred: SchemeCredential): boolean {
+  return cred.kind === "oauth2" && cred.expiresAt !== null && cred.expiresAt <= Date.now();
+}
+
+function usable(creds: ProjectCredentials, name: string): boolean {
+  const cred = creds[name];
+  return !!cred && !isExpired(cred);
+}
+
+/**
+ * The first requirement alternative that the stored credentials fully
+ * satisfy. `{}` when anonymous access is allowed, null when nothing fits.
+ */
+export function satisfiedRequirement(
+  spec: ApiSpec,
+  endpoint: ApiSpecEndpoint,
+  creds: ProjectCredentials,
+): ApiSecurityRequirement | null {
+  const reqs = securityRequirements(spec, endpoint);
+  if (reqs.length === 0) return {};
+  return (
+    reqs.find((r) => Object.keys(r).length > 0 && Object.keys(r).every((name) => usable(creds, name))) ??
+    reqs.find((r) => Object.keys(r).length === 0) ??
+    null
+  );
+}
+
+// ── Applying credentials ─────────────────────────────────────────────────
+
+function base64Utf8(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function authorizationValue(scheme: ApiSecurityScheme, cred: SchemeCredential): string | null {
+  switch (cred.kind) {
+    case "basic":
+      return `Basic ${base64Utf8(`${cred.username}:${cred.password}`)}`;
+    case "bearer": {
+      const prefix = scheme.type === "http" && scheme.scheme.toLowerCase() !== "bearer" ? scheme.scheme : "Bearer";
+      return `${prefix} ${cred.token}`;
+    }
+    case "oauth2":
+      // Token endpoints answer "bearer"; headers conventionally use "Bearer"
+      return `${/^bearer$/i.test(cred.tokenType) ? "Bearer" : cred.tokenType} ${cred.accessToken}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Add the credentials for `requirement` to a request in place. Returns the
+ * scheme names that were applied.
+ */
+export function applyCredentials(
+  spec: ApiSpec,
+  requirement: ApiSecurityRequirement,
+  creds: ProjectCredentials,
+  request: { headers: Record<string, string>; queryParams: Record<string, string> },
+): string[] {
+  const applied: string[] = [];
+  for (const name of Object.keys(requirement)) {
+    const scheme = spec.securitySchemes[name];
+    const cred = creds[name];
+    if (!scheme || !cred) continue;
+
+    if (scheme.type === "apiKey" && cred.kind === "apiKey") {
+      if (scheme.in === "header") request.headers[scheme.name] = cred.value;
+      else if (scheme.in === "query") request.queryParams[scheme.name] = cred.value;
+      else {
+        const cookie = `${scheme.name}=${encodeURIComponent(cred.value)}`;
+        request.headers["Cookie"] = request.headers["Cookie"] ? `${request.headers["Cookie"]}; ${cookie}` : cookie;
+      }
+      applied.push(name);
+      continue;
+    }
+
+    const value = authorizationValue(scheme, cred);
+    if (value) {
+      request.headers["Authorization"] = value;
+      applied.push(name);
+    }
+  }
+  return applied;
+}
+
+/** Header and query names that carry a credential for this spec; header names are lower-cased. */
+function credentialNames(spec: ApiSpec): { headers: Set<string>; query: Set<string> } {
+  const headers = new Set(["authorization", "proxy-authorization", "cookie"]);
+  const query = new Set<string>();
+  for (const scheme of Object.values(spec.securitySchemes)) {
+    if (scheme.type !== "apiKey") continue;
+    if (scheme.in === "header") headers.add(scheme.name.toLowerCase());
+    else if (scheme.in === "query") query.add(scheme.name);
+  }
+  return { headers, query };
+}
+
+/**
+ * Remove anything that carries a credential — `Authorization`, `Cookie` and
+ * the spec's apiKey header/query names — from a request that is about to be
+ * shared with the team. Header names match case-insensitively.
+ */
+export function stripCredentials(
+  spec: ApiSpec,
+  request: { headers: Record<string, string>; queryParams: Record<string, string> },
+): { headers: Record<string, string>; queryParams: Record<string, string> } {
+  const names = credentialNames(spec);
+  return {
+    headers: Object.fromEntries(Object.entries(request.headers).filter(([key]) => !names.headers.has(key.toLowerCase()))),
+    queryParams: Object.fromEntries(Object.entries(request.queryParams).filter(([key]) => !names.query.has(key))),
+  };
+}
+
+/** stripCredentials for the console's key/value rows, before they are stored. */
+export function stripCredentialPairs<T extends { headerPairs: KeyValue[]; queryPairs: KeyValue[] }>(
+  spec: ApiSpec,
+  inputs: T,
+): T {
+  const names = credentialNames(spec);
+  return {
+    ...inputs,
+    headerPairs: inputs.headerPairs.filter(({ key }) => !names.headers.has(key.trim().toLowerCase())),
+    queryPairs: inputs.queryPairs.filter(({ key }) => !names.query.has(key.trim())),
+  };
+}
+
+/** Response headers that hand out or ask for a credential. */
+const CREDENTIAL_RESPONSE_HEADERS = new Set(["set-cookie", "authorization", "www-authenticate", "proxy-authenticate"]);
+
+/** The response without headers that carry credentials, for storing or sharing. */
+export function stripResponseCredentials<T extends { headers: Record<string, string> }>(response: T): T {
+  return {
+    ...response,
+    headers: Object.fromEntries(
+      Object.entries(response.headers ?? {}).filter(([key]) => !CREDENTIAL_RESPONSE_HEADERS.has(key.toLowerCase())),
+    ),
+  };
+}
+
+// ── OAuth 2.0 ────────────────────────────────────────────────────────────
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+export function randomToken(bytes = 32): string {
+  return base64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+/** RFC 7636 verifier and its S256 challenge. */
+export async function createPkcePair(): Promise<{ verifier: string; challenge: string }> {
+  const verifier = randomToken(48);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64Url(new Uint8Array(digest)) };
+}
+
+export function oauthRedirectUri(): string {
+  return `${window.location.origin}${OAUTH_REDIRECT_PATH}`;
+}
+
+export function authorizationUrl(
+  flow: ApiOAuthFlow,
+  opts: { clientId: string; scopes: string[]; state: string; challenge: string },
+): string {
+  const url = new URL(flow.authorizationUrl ?? "");
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", opts.clientId);
+  url.searchParams.set("redirect_uri", oauthRedirectUri());
+  if (opts.scopes.length) url.searchParams.set("scope", opts.scopes.join(" "));
+  url.searchParams.set("state", opts.state);
+  url.searchParams.set("code_challenge", opts.challenge);
+  url.searchParams.set("code_challenge_method", "S256");
+  return url.toString();
+}
+
+/** POST a token request through the Try-It proxy. */
+export async function requestToken(
+  projectId: string,
+  tokenUrl: string,
+  params: Record<string, string>,
+  scopes: string[],
+): Promise<SchemeCredential> {
+  const res = await apiSpecApi.tryRequest(projectId, {
+    method: "POST",
+    baseUrl: tokenUrl,
+    path: "",
+    headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  let body: Record<string, unknown> = {};
+  try {
+    body = JSON.parse(res.body);
+  } catch {
+    /* not JSON — handled below */
+  }
+  if (res.status >= 400 || typeof body.access_token !== "string") {
+    const reason = (body.error_description ?? body.error ?? `HTTP ${res.status}`) as string;
+    throw new Error(`Token request failed: ${reason}`);
+  }
+
+  const expiresIn = Number(body.expires_in);
+  return {
+    kind: "oauth2",
+    accessToken: body.access_token,
+    tokenType: typeof body.token_type === "string" ? body.token_type : "Bearer",
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : null,
+    scopes: typeof body.scope === "string" ? body.scope.split(" ").filter(Boolean) : scopes,
+    clientId: params.client_id ?? "",
+  };
+}
+
+const OAUTH_TIMEOUT_MS = 5 * 60 * 1000;
+const OAUTH_POLL_INTERVAL_MS = 300;
+
+/**
+ * Wait for the authorization-code popup to report back, via postMessage or
+ * the localStorage fallback. Resolves with the code for `state`.
+ */
+export function waitForAuthorizationCode(state: string, popup: Window): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const startedAt = Date.now();
+
+    const finish = (result: { code?: string | null; state?: string | null; error?: string | null } | null) => {
+      if (!result || result.state !== state) return false;
+      cleanup();
+      if (result.code) resolve(result.code);
+      else reject(new Error(result.error || "Authorization was not granted."));
+      return true;
+    };
+
+    const onMessage = (e: MessageEvent) => {
+      if (e.origin === window.location.origin && e.data?.type === "try-it-oauth-complete") finish(e.data);
+    };
+
+    const poll = setInterval(() => {
+      try {
+        const raw = localStorage.getItem(OAUTH_RESULT_KEY);
+        if (raw && finish(JSON.parse(raw))) return;
+      } catch {
+        /* ignore malformed entries */
+      }
+      if (popup.closed || Date.now() - startedAt > OAUTH_TIMEOUT_MS) {
+        cleanup();
+        reject(new Error(popup.closed ? "The authorization window was closed." : "Authorization timed out."));
+      }
+    }, OAUTH_POLL_INTERVAL_MS);
+
+    function cleanup() {
+      clearInterval(poll);
+      window.removeEventListener("message", onMessage);
+      try {
+        localStorage.removeItem(OAUTH_RESULT_KEY);
+      } catch {
+        /* ignore */
+      }
+    }
+
+    window.addEventListener("message", onMessage);
+  });
+}
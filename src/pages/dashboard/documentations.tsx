@@ -30,6 +30,7 @@ import {
 import TopBar from "@/components/projects/top-bar"
 import { DocStatusBadge, DocStatusDot, DOC_STATUS_ORDER, type DocStatus } from "@/components/projects/doc-status"
 import { useDocTrackerStore } from "@/store/doc-tracker"
+import { useCommandPaletteStore } from "@/store/command-palette"
 
 // ── Security grade colour ────────────────────────────────────────────────────
 function gradeColour(grade?: string) {
@@ -225,9 +226,10 @@ export function DocumentationsPage() {
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [search, setSearch] = useState("")
+    const openPalette = useCommandPaletteStore((s) => s.openPalette)
     const [statusFilter, setStatusFilter] = useState<DocStatus | "all">("all")
 
-    const { getEntry } = useDocTrackerStore()
+    const { getEntry, loadProjects: loadDocTracker } = useDocTrackerStore()
     const SECTION_KEYS = DOC_SECTIONS.map((s) => s.key)
 
     const loadProjects = useCallback(async () => {
@@ -240,6 +242,8 @@ export function DocumentationsPage() {
                 projectsApi.list({ limit: 100, sort: "-updatedAt" }),
             ])
             setCompletedProjects(doneRes.projects as unknown as ApiProject[])
+            // Review status badges come from the shared review workflow
+            loadDocTracker(doneRes.projects.map((p) => p._id))
             // Running/queued/error that aren't done
             const nonDone = (activeRes.projects as unknown as ApiProject[]).filter(
                 (p) => p.status !== "done"
@@ -250,7 +254,7 @@ export function DocumentationsPage() {
         } finally {
             setIsLoading(false)
         }
-    }, [])
+    }, [loadDocTracker])
 
     useEffect(() => {
         loadProjects()
@@ -313,14 +317,26 @@ export function DocumentationsPage() {
                 <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-4">
                     {/* Search */}
                     {!isLoading && completedProjects.length > 0 && (
-                        <div className="relative max-w-sm">
-                            <Search className="absolute left-2.5 top-3 h-4 w-4 text-muted-foreground" />
-                            <Input
-                                placeholder="Search by name, language, or tech..."
-                                className="pl-9 rounded-2xl"
-                                value={search}
-                                onChange={(e) => setSearch(e.target.value)}
-                            />
+                        <div className="flex items-center gap-2">
+                            <div className="relative max-w-sm">
+                                <Search className="absolute left-2.5 top-3 h-4 w-4 text-muted-foreground" />
+                                <Input
+                                    placeholder="Search by name, language, or tech..."
+                                    className="pl-9 rounded-2xl"
+                                    value={search}
+                                    onChange={(e) => setSearch(e.target.value)}
+                                />
+                            </div>
+                            <Button
+                                variant="outline"
+                                size="sm"
+                                className="rounded-2xl shrink-0"
+                                onClick={() => openPalette(search)}
+                                title="Search the contents of every documentation (Ctrl+K)"
+                            >
+                                <BookOpen className="h-4 w-4 mr-1.5" />
+                                Search inside docs
+                            </Button>
                         </div>
                     )}
 
@@ -0,0 +1,197 @@
+import { useState, useEffect, useCallback, useRef } from "react"
+import { useNavigate } from "react-router-dom"
+import { Bell, CheckCheck, Mail, MailOpen, RefreshCw, Settings } from "lucide-react"
+import {
+  notificationsApi,
+  NOTIFICATION_TYPES,
+  NOTIFICATION_TYPE_LABELS,
+  type ApiNotification,
+  type NotificationType,
+} from "@/lib/api"
+import { useNotificationsStore } from "@/store/notifications"
+import { Button } from "@/components/ui/button"
+import { Skeleton } from "@/components/ui/skeleton"
+import { EmptyState, ErrorBanner, NotificationItem } from "@/components/common"
+import { cn } from "@/lib/utils"
+import TopBar from "@/components/projects/top-bar"
+import Loader1 from "@/components/ui/loader1"
+
+const PAGE_SIZE = 25
+
+type ReadFilter = "all" | "unread"
+
+export function NotificationsPage() {
+  const navigate = useNavigate()
+  const { unreadCount, markRead, markAllRead } = useNotificationsStore()
+  const latest = useNotificationsStore((s) => s.recent[0])
+
+  const [notifications, setNotifications] = useState<ApiNotification[]>([])
+  const [total, setTotal] = useState(0)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [readFilter, setReadFilter] = useState<ReadFilter>("all")
+  const [typeFilter, setTypeFilter] = useState<NotificationType | "all">("all")
+
+  const load = useCallback(async (nextPage = 1) => {
+    setIsLoading(true)
+    setError(null)
+    try {
+      const data = await notificationsApi.list({
+        page: nextPage,
+        limit: PAGE_SIZE,
+        unread: readFilter === "unread",
+        type: typeFilter === "all" ? undefined : typeFilter,
+      })
+      // Live arrivals and rows dropped from the unread view shift the offsets; skip the overlap
+      setNotifications((prev) => {
+        if (nextPage === 1) return data.notifications
+        const ids = new Set(prev.map((n) => n._id))
+        return [...prev, ...data.notifications.filter((n) => !ids.has(n._id))]
+      })
+      setTotal(data.total)
+    } catch (err: any) {
+      setError(err?.message ?? "Failed to load notifications")
+    } finally {
+      setIsLoading(false)
+    }
+  }, [readFilter, typeFilter])
+
+  useEffect(() => { load(1) }, [load])
+
+  // Live notifications from the layout's stream land at the top when they match the filters.
+  // `latest` also changes when it is marked read, so only ids not seen before are added.
+  const seenIds = useRef(new Set<string>())
+  useEffect(() => {
+    for (const n of notifications) seenIds.current.add(n._id)
+  }, [notifications])
+  useEffect(() => {
+    if (!latest || seenIds.current.has(latest._id)) return
+    seenIds.current.add(latest._id)
+    if (typeFilter !== "all" && latest.type !== typeFilter) return
+    if (readFilter === "unread" && latest.read) return
+    setNotifications((prev) => (prev.some((n) => n._id === latest._id) ? prev : [latest, ...prev]))
+    setTotal((t) => t + 1)
+  }, [latest, typeFilter, readFilter])
+
+  const setRead = (ids: string[], read: boolean) => {
+    if (readFilter === "unread" && read) {
+      const dropped = notifications.filter((n) => ids.includes(n._id) && !n.read).length
+      setTotal((t) => Math.max(0, t - dropped))
+    }
+    setNotifications((prev) => prev
+      .map((n) => (ids.includes(n._id) ? { ...n, read } : n))
+      // Keep the unread view honest without a refetch
+      .filter((n) => readFilter === "all" || !n.read))
+    markRead(ids, read)
+  }
+
+  const handleOpen = (n: ApiNotification) => {
+    if (!n.read) setRead([n._id], true)
+    if (n.link) navigate(n.link)
+  }
+
+  const handleMarkAllRead = async () => {
+    await markAllRead()
+    setNotifications((prev) => (readFilter === "unread" ? [] : prev.map((n) => ({ ...n, read: true }))))
+    if (readFilter === "unread") setTotal(0)
+  }
+
+  // The server's page holding the first row not loaded yet; rows already listed are skipped
+  const nextPage = Math.floor(notifications.length / PAGE_SIZE) + 1
+
+  return (
+    <>
+      <TopBar title="Notifications" description="Invitations, assignments, mentions and pipeline failures across your projects.">
+        <Button variant="outline" size="sm" onClick={() => navigate("/settings?tab=notifications")} className="gap-2 shrink-0 rounded-2xl">
+          <Settings className="h-4 w-4" />
+          Preferences
+        </Button>
+        <Button variant="outline" size="sm" onClick={handleMarkAllRead} disabled={unreadCount === 0} className="gap-2 shrink-0 rounded-2xl">
+          <CheckCheck className="h-4 w-4" />
+          Mark all read
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => load(1)} className="gap-2 shrink-0 rounded-2xl">
+          <RefreshCw className="h-4 w-4" />
+          Refresh
+        </Button>
+      </TopBar>
+
+      <div className="space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          {(["all", "unread"] as const).map((key) => (
+            <button
+              key={key}
+              onClick={() => setReadFilter(key)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border",
+                readFilter === key
+                  ? "bg-primary text-primary-foreground border-primary"
+                  : "border-border text-muted-foreground hover:text-foreground hover:border-foreground/30 bg-card"
+              )}
+            >
+              {key === "all" ? "All" : `Unread${unreadCount ? ` (${unreadCount})` : ""}`}
+            </button>
+          ))}
+          <div className="h-5 w-px bg-border mx-1" />
+          {(["all", ...NOTIFICATION_TYPES] as const).map((key) => (
+            <button
+              key={key}
+              onClick={() => setTypeFilter(key)}
+              className={cn(
+                "px-3 py-1.5 rounded-lg text-sm font-medium transition-colors border",
+                typeFilter === key
+                  ? "bg-muted text-foreground border-foreground/30"
+                  : "border-border text-muted-foreground hover:text-foreground hover:border-foreground/30 bg-card"
+              )}
+            >
+              {key === "all" ? "All types" : NOTIFICATION_TYPE_LABELS[key].label}
+            </button>
+          ))}
+        </div>
+
+        {error && <ErrorBanner message={error} onRetry={() => load(1)} />}
+
+        {isLoading && notifications.length === 0 ? (
+          <div className="space-y-2">
+            {Array.from({ length: 5 }).map((_, i) => <Skeleton key={i} className="h-16 w-full rounded-xl" />)}
+          </div>
+        ) : notifications.length === 0 && !error ? (
+          <EmptyState
+            icon={Bell}
+            title={readFilter === "unread" ? "No unread notifications" : "No notifications yet"}
+            description="You'll hear about invitations, section assignments, mentions and failed pipelines here."
+          />
+        ) : (
+          <div className="rounded-xl border border-border bg-card divide-y divide-border overflow-hidden">
+            {notifications.map((n) => (
+              <NotificationItem
+                key={n._id}
+                notification={n}
+                onOpen={handleOpen}
+                actions={
+                  <button
+                    onClick={() => setRead([n._id], !n.read)}
+                    title={n.read ? "Mark as unread" : "Mark as read"}
+                    className="shrink-0 rounded p-1 text-muted-foreground opacity-0 transition-opacity hover:text-foreground group-hover:opacity-100"
+                  >
+                    {n.read ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />}
+                  </button>
+                }
+              />
+            ))}
+          </div>
+        )}
+
+        {notifications.length < total && (
+          <div className="flex justify-center">
+            <Button variant="ghost" size="sm" onClick={() => load(nextPage)} disabled={isLoading}>
+              {isLoading && <Loader1 className="mr-1.5 h-3.5 w-3.5" />}
+              Load more
+            </Button>
+          </div>
+        )}
+      </div>
+    </>
+  )
+}
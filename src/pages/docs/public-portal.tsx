@@ -25,6 +25,7 @@ import {
     publicPortalApi,
     type PublicPortalData,
     type PortalSectionKey,
+    PORTAL_SECTION_DEFAULT_VISIBILITY,
     PORTAL_SECTION_LABELS,
     PORTAL_SECTION_KEYS,
 } from "@/lib/api"
@@ -181,7 +182,7 @@ export function PublicPortalPage() {
             // Auto-select the first visible section
             if (res.sectionVisibility) {
                 const firstVisible = PORTAL_SECTION_KEYS.find(
-                    (k) => res.sectionVisibility![k] !== "internal",
+                    (k) => (res.sectionVisibility![k] ?? PORTAL_SECTION_DEFAULT_VISIBILITY[k] ?? "public") !== "internal",
                 )
                 if (firstVisible) setActiveSection(firstVisible)
             }
@@ -243,7 +244,9 @@ export function PublicPortalPage() {
 
     const visibleSections = useMemo(() => {
         if (!data?.sectionVisibility) return []
-        return PORTAL_SECTION_KEYS.filter((k) => data.sectionVisibility![k] !== "internal")
+        return PORTAL_SECTION_KEYS.filter(
+            (k) => (data.sectionVisibility![k] ?? PORTAL_SECTION_DEFAULT_VISIBILITY[k] ?? "public") !== "internal",
+        )
     }, [data])
 
     const currentContent = useMemo(() => {
@@ -1,9 +1,9 @@
-import { useState, useEffect, useRef } from "react"
-import { useParams, Link } from "react-router-dom"
+import { useState, useEffect, useRef, useCallback } from "react"
+import { useParams, Link, useLocation, useSearchParams } from "react-router-dom"
 import { useProjectStore, mapApiStatus } from "@/store/projects"
-import { projectsApi, versionsApi, customTabsApi, ApiException, ApiProject, ApiShare, sharingApi, portalApi, apiSpecApi, type ApiPortal, type ApiSpec, type ApiProjectEditedSection, type CustomTab } from "@/lib/api"
-import { prepareExportData, getExportSummary, getFormattedTabContent } from "@/lib/export-utils"
-import { generatePDFHTML } from "@/lib/pdf-generator"
+import { projectsApi, versionsApi, customTabsApi, isEditConflict, ApiProject, type ApiConflict, type EditPrecondition, portalApi, apiSpecApi, type ApiPortal, type ApiSpec, type ApiProjectEditedSection, type CustomTab, type ProjectPermissions } from "@/lib/api"
+import { prepareExportData, getExportSummary, getFormattedTabContent, getStructuredTabContent } from "@/lib/export-utils"
+import { generatePDFHTML, renderExportDiagrams } from "@/lib/pdf-generator"
 import { Button } from "@/components/ui/button"
 import {
   ArrowLeft,
@@ -24,21 +24,40 @@ import {
   AlertTriangle,
   ShieldAlert,
   File,
+  MessageSquare,
+  Wand2,
+  Webhook,
+  Users,
 } from "lucide-react"
 import { Skeleton } from "@/components/ui/skeleton"
 import Markdown from "react-markdown"
 import { cn } from "@/lib/utils"
 import { Input } from "@/components/ui/input"
 import { AIChatPanel } from "@/components/projects/ai-chat"
-import { DocRenderer } from "@/components/projects/DocRenderer"
+import { DocRenderer, type DocAnnotations } from "@/components/projects/DocRenderer"
 import { DocStatusDot, DOC_STATUS_ORDER, DOC_STATUS_CONFIG } from "@/components/projects/doc-status"
 import { VersionHistoryPanel } from "@/components/projects/version-history-panel"
 import { OtherDocsPanel } from "@/components/projects/other-docs-panel"
 import { useDocTrackerStore } from "@/store/doc-tracker"
+import { useCommentsStore } from "@/store/comments"
+import { useCollabStore } from "@/store/collab"
+import { useCommandPaletteStore } from "@/store/command-palette"
+import { CommentsPanel, type CommentDraft } from "@/components/projects/comments-panel"
+import { useTextSelectionAnchor, useCommentHighlights, useCollabSection } from "@/hooks"
+import { resolveAnchor } from "@/lib/comment-anchors"
+import { draftKey, deleteDraft } from "@/lib/draft-store"
 import { useAuthStore } from "@/store/auth"
 import { PortalSettingsModal } from "@/components/projects/portal-settings-modal"
 import { ApiSpecImportModal } from "@/components/projects/api-spec-import-modal"
+import { SpecGeneratorModal } from "@/components/projects/spec-generator-modal"
+import { WebhooksModal } from "@/components/projects/webhooks-modal"
+import { SharePanel } from "@/components/projects/share-panel"
+import { BUILTIN_ROLE_PERMISSIONS, resolvePermissions, can, canViewSection, canEditSection } from "@/lib/permissions"
+import { importAsyncApiUrl } from "@/lib/asyncapi"
 import { ApiReferenceViewer } from "@/components/projects/api-reference-viewer"
+import { GraphQLExplorer } from "@/components/projects/graphql-explorer"
+import { ApiChangelog } from "@/components/projects/api-changelog"
+import { useApiChangelogStore } from "@/store/api-changelog"
 import { useSubscriptionStore, meetsMinPlan } from "@/store/subscription"
 import { UpgradeModal } from "@/components/billing/UpgradeModal"
 import Loader1 from "@/components/ui/loader1"
@@ -47,14 +66,23 @@ import { CreateTabModal } from "@/components/projects/custom-tabs-modals"
 import { StatusChangeModal } from "@/components/projects/status-change-modal"
 import { StaleSectionBanner } from "@/components/projects/stale-section-banner"
 import { StaleDiffModal } from "@/components/projects/stale-diff-modal"
-import { MarkdownToolbar } from "@/components/projects/markdown-toolbar"
+import { ThreeWayMerge } from "@/components/projects/three-way-merge"
+import { MarkdownEditor } from "@/components/projects/markdown-editor"
+import { CollabPresence, TabPresenceDots } from "@/components/projects/collab-presence"
+import { EditConflictDialog, type ConflictAction } from "@/components/projects/edit-conflict-dialog"
 import { buildTabList, NATIVE_TABS, TAB_TO_SECTION, type NativeTab, type DocTab, type TabDef } from "@/components/projects/documentation-tabs"
 
 // ── Main component ────────────────────────────────────────────────────────────
 export function DocumentationViewerPage() {
   const { id } = useParams<{ id: string }>()
   const { getProjectData } = useProjectStore()
-  const { getEntry: getDocEntry, setStatus: setDocStatus, setAssignee: setDocAssignee } = useDocTrackerStore()
+  const {
+    getEntry: getDocEntry,
+    setStatus: setDocStatus,
+    setAssignee: setDocAssignee,
+    loadProject: loadDocTracker,
+    loadMembers,
+  } = useDocTrackerStore()
   const { user } = useAuthStore()
 
   type EffectiveOutput = {
@@ -81,8 +109,18 @@ export function DocumentationViewerPage() {
   const [showStaleDiff, setShowStaleDiff] = useState(false)
   const [staleSummary, setStaleSummary] = useState<string | null>(null)
   const [acceptingAI, setAcceptingAI] = useState(false)
+  const [applyingMerge, setApplyingMerge] = useState(false)
+  const [mergingTab, setMergingTab] = useState<DocTab | null>(null)
+  const [editConflict, setEditConflict] = useState<{ mine: string; remote: ApiConflict } | null>(null)
+  const [conflictAction, setConflictAction] = useState<ConflictAction | null>(null)
   const [createTabModalOpen, setCreateTabModalOpen] = useState(false)
 
+  // Review comments
+  const [isCommentsOpen, setIsCommentsOpen] = useState(false)
+  const [commentDraft, setCommentDraft] = useState<CommentDraft | null>(null)
+  const { loadCounts: loadCommentCounts, reanchorSection } = useCommentsStore()
+  const commentCounts = useCommentsStore((s) => (id ? s.counts[id] : undefined)) ?? {}
+
   // Global search
   const [searchQuery, setSearchQuery] = useState("")
   const [searchResults, setSearchResults] = useState<Record<string, { label: string; matches: number; highlights: string[]; firstMatchLine: number }>>({})
@@ -90,6 +128,12 @@ export function DocumentationViewerPage() {
   const [highlightedText, setHighlightedText] = useState<string>("") // Track text to highlight
   const searchInputRef = useRef<HTMLInputElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
+  const openPalette = useCommandPaletteStore((s) => s.openPalette)
+
+  // Deep links (e.g. from the command palette): ?tab=…&endpoint=…#heading-slug
+  const [searchParams, setSearchParams] = useSearchParams()
+  const location = useLocation()
+  const linkedEndpointId = searchParams.get("endpoint")
 
   // Status-change modal
   const [statusDropdownOpen, setStatusDropdownOpen] = useState(false)
@@ -103,13 +147,16 @@ export function DocumentationViewerPage() {
     pendingStatus: import("@/store/doc-tracker").DocStatus | null
   }>({ open: false, pendingStatus: null })
 
-  const [projectMembers, setProjectMembers] = useState<ApiShare[]>([])
-  const [loadingMembers, setLoadingMembers] = useState(false)
+  const projectMembers = useDocTrackerStore((s) => (id ? s.members[id] : undefined)) ?? []
+  const loadingMembers = useDocTrackerStore((s) => (id ? !!s.membersLoading[id] : false))
 
   // Portal
   const [portal, setPortal] = useState<ApiPortal | null>(null)
   const [portalModalOpen, setPortalModalOpen] = useState(false)
+  const [webhooksOpen, setWebhooksOpen] = useState(false)
+  const [sharePanelOpen, setSharePanelOpen] = useState(false)
   const [isOwner, setIsOwner] = useState(false)
+  const [permissions, setPermissions] = useState<ProjectPermissions>(BUILTIN_ROLE_PERMISSIONS.viewer)
 
   // Subscription gates
   const { subscription } = useSubscriptionStore()
@@ -151,7 +198,8 @@ export function DocumentationViewerPage() {
   const [apiSpec, setApiSpec] = useState<ApiSpec | null>(null)
   const [apiSpecLoading, setApiSpecLoading] = useState(false)
   const [apiSpecImportOpen, setApiSpecImportOpen] = useState(false)
-  const [apiSubTab, setApiSubTab] = useState<"document" | "spec">("document")
+  const [specGeneratorOpen, setSpecGeneratorOpen] = useState(false)
+  const [apiSubTab, setApiSubTab] = useState<"document" | "spec" | "changelog">("document")
   const [syncingSpec, setSyncingSpec] = useState(false)
 
   // Editable content per tab (initialized from project data)
@@ -178,14 +226,16 @@ export function DocumentationViewerPage() {
         setEditedSections((data.editedSections as ApiProjectEditedSection[]) ?? []);
         const owner = data.shareRole === 'owner'
         setIsOwner(owner)
+        const perms = resolvePermissions(data.shareRole, data.permissions)
+        setPermissions(perms)
 
         // Build dynamic tab list (native + custom)
         const customTabs = data.project.customTabs ?? [];
         const tabs = buildTabList(customTabs);
         setAllTabs(tabs);
 
-        // Fetch portal settings for owners
-        if (owner) {
+        // Fetch portal settings for whoever may publish
+        if (can(perms, "portal.publish")) {
           portalApi.get(data.project._id)
             .then((r) => setPortal(r.portal))
             .catch(() => { })
@@ -236,6 +286,146 @@ export function DocumentationViewerPage() {
       .finally(() => setIsLoading(false));
   }, [id, getProjectData])
 
+  // Apply ?tab= / ?endpoint= once the tab list is known
+  useEffect(() => {
+    if (isLoading) return
+    const tab = searchParams.get("tab")
+    if (!tab || !allTabs.some((t) => t.key === tab) || !canViewSection(permissions, tab)) return
+    setActiveTab(tab as DocTab)
+    setIsEditMode(false)
+    if (tab === "api" && linkedEndpointId) setApiSubTab("spec")
+    // allTabs also changes when tabs are created — only follow navigation
+  }, [isLoading, searchParams]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Move off a section the user's access hides
+  useEffect(() => {
+    if (canViewSection(permissions, activeTab)) return
+    const firstVisible = allTabs.find((t) => canViewSection(permissions, t.key))
+    if (firstVisible) setActiveTab(firstVisible.key)
+  }, [permissions, activeTab, allTabs])
+
+  // Sections the user may see (tab bar, exports) and whether the open one is writable
+  const viewableTabs = allTabs.filter((t) => canViewSection(permissions, t.key))
+  const canEditActiveTab = canEditSection(permissions, activeTab)
+  // Forking a conflicting custom tab draft creates another custom tab
+  const canForkConflictDraft =
+    !allTabs.find((t) => t.key === activeTab)?.isCustom || can(permissions, "customTabs.manage")
+
+  // Scroll to the linked heading after the tab has rendered
+  useEffect(() => {
+    if (isLoading || !location.hash) return
+    const slug = decodeURIComponent(location.hash.slice(1))
+    const timer = setTimeout(() => {
+      contentRef.current
+        ?.querySelector(`[id="${CSS.escape(slug)}"]`)
+        ?.scrollIntoView({ behavior: "smooth", block: "start" })
+    }, 100)
+    return () => clearTimeout(timer)
+  }, [isLoading, location.key]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Review status is shared with collaborators — load it and poll for their changes
+  useEffect(() => {
+    if (!id) return
+    loadDocTracker(id)
+    loadCommentCounts(id)
+    const refresh = () => loadDocTracker(id, true)
+    const interval = setInterval(refresh, 30_000)
+    window.addEventListener("focus", refresh)
+    return () => {
+      clearInterval(interval)
+      window.removeEventListener("focus", refresh)
+    }
+  }, [id, loadDocTracker, loadCommentCounts])
+
+  // Realtime collaboration: presence across the project, a shared replica of the tab being edited
+  useEffect(() => {
+    if (!id || !user) return
+    const { connect, disconnect } = useCollabStore.getState()
+    connect(id, { id: user.id, name: user.name, email: user.email })
+    return () => disconnect()
+  }, [id, user?.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  useEffect(() => {
+    useCollabStore.getState().setPresence({ tab: activeTab, editing: isEditMode, cursor: null })
+  }, [activeTab, isEditMode])
+
+  const savedTabContent = effectiveOutput ? getEffectiveOutputTabContent(effectiveOutput, activeTab) : ""
+  const setActiveTabText = useCallback(
+    (text: string) => setEditedContent((c) => ({ ...c, [activeTab]: text })),
+    [activeTab],
+  )
+  const collab = useCollabSection(activeTab, isEditMode, savedTabContent, setActiveTabText)
+
+  // Without realtime, saves carry the saved state the edit started from, so a
+  // concurrent save by someone else comes back as a 409 conflict
+  const editBaseRef = useRef<{ precondition: EditPrecondition; content: string } | null>(null)
+  useEffect(() => {
+    if (!isEditMode) {
+      editBaseRef.current = null
+      return
+    }
+    const customTab = allTabs.find((t) => t.key === activeTab)?.customTab
+    if (customTab) {
+      editBaseRef.current = { precondition: { updatedAt: customTab.updatedAt }, content: savedTabContent }
+      return
+    }
+    const sectionName = TAB_TO_SECTION[activeTab as NativeTab]
+    const base = {
+      precondition: {
+        versionId: null as string | null,
+        updatedAt: editedSections.find((e) => e.section === sectionName)?.editedAt ?? null,
+      },
+      content: savedTabContent,
+    }
+    editBaseRef.current = base
+    if (id && sectionName) {
+      versionsApi.list(id, sectionName)
+        .then((r) => { base.precondition.versionId = r.versions[0]?._id ?? null })
+        .catch(() => { })
+    }
+    // only the state at the moment editing starts matters
+  }, [isEditMode, activeTab]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Comments: threads of the active section, anchored against its current content
+  const commentSection = activeTab.startsWith("custom_") ? activeTab : (TAB_TO_SECTION[activeTab as NativeTab] ?? null)
+  const sectionThreads = useCommentsStore((s) => (id && commentSection ? s.threads[id]?.[commentSection] : undefined))
+  const openAnchors = (sectionThreads ?? [])
+    .filter((t) => !t.resolved)
+    .map((t) => ({ thread: t, resolution: resolveAnchor(editedContent[activeTab] ?? "", t.anchor) }))
+  const { selection: textSelection, clear: clearTextSelection } = useTextSelectionAnchor(contentRef, !isEditMode && !!commentSection)
+  useCommentHighlights(
+    contentRef,
+    openAnchors.filter((a) => a.resolution.kind === "exact" && a.thread.anchor.quote).map((a) => a.thread.anchor.quote as string),
+    [activeTab, isEditMode, effectiveOutput],
+  )
+
+  const openCommentDraft = (draft: CommentDraft) => {
+    if (!id) return
+    loadMembers(id)
+    setCommentDraft(draft)
+    setIsCommentsOpen(true)
+    setIsHistoryOpen(false)
+    setIsChatOpen(false)
+  }
+
+  const commentAnnotations: DocAnnotations | undefined = commentSection
+    ? {
+      commentCounts: openAnchors.reduce<Record<string, number>>((acc, a) => {
+        const slug = a.resolution.anchor.headingSlug
+        if (slug) acc[slug] = (acc[slug] ?? 0) + 1
+        return acc
+      }, {}),
+      onCommentHeading: (slug, text) => openCommentDraft({ headingSlug: slug, headingText: text, quote: null }),
+    }
+    : undefined
+
+  const jumpToComment = (headingSlug: string | null, quote: string | null) => {
+    const viewer = contentRef.current
+    if (!viewer) return
+    const target = headingSlug ? viewer.querySelector<HTMLElement>(`[id="${CSS.escape(headingSlug)}"]`) : null
+    ;(target ?? viewer.firstElementChild)?.scrollIntoView({ behavior: "smooth", block: quote ? "center" : "start" })
+  }
+
   // Fetch change summary for stale section when it becomes active
   useEffect(() => {
     const isCustomTab = activeTab.startsWith("custom_");
@@ -259,20 +449,57 @@ export function DocumentationViewerPage() {
 
   const getCurrentContent = () => editedContent[activeTab] ?? ""
 
-  const insertMarkdown = (prefix: string, suffix: string = "") => {
-    const textarea = document.getElementById("markdown-editor") as HTMLTextAreaElement
-    if (!textarea) return
-    const start = textarea.selectionStart
-    const end = textarea.selectionEnd
-    const text = editedContent[activeTab]
-    const selected = text.substring(start, end)
-    const newText = text.substring(0, start) + prefix + selected + suffix + text.substring(end)
-    setEditedContent((c) => ({ ...c, [activeTab]: newText }))
-    setTimeout(() => {
-      textarea.focus()
-      textarea.setSelectionRange(start + prefix.length, end + prefix.length)
-    }, 0)
-  }
+  /**
+   * Save `content` as the active tab and leave edit mode. With `base` the save
+   * is conditional and throws a 409 ApiException if someone else saved first.
+   */
+  const saveActiveTab = async (content: string, base?: EditPrecondition) => {
+    if (!id || !activeTabDef) return;
+
+    // Handle custom tabs
+    if (activeTabDef.isCustom && activeTabDef.customTab) {
+      const tabId = activeTabDef.customTab._id;
+      const data = await customTabsApi.update(id, tabId, { content, base });
+      setProject(data.project);
+      reanchorSection(id, activeTab, content);
+      // Reload tabs since content may have changed
+      if (data.project.customTabs) {
+        setAllTabs(buildTabList(data.project.customTabs));
+      }
+    } else if (activeTabDef.field) {
+      // Handle native tabs
+      const sectionName = activeTabDef.field;
+      const data = await projectsApi.saveEdit(id, sectionName, content, base);
+      setProject(data.project);
+      reanchorSection(id, sectionName, content);
+      setEffectiveOutput(data.effectiveOutput as any);
+      setEditedSections((data.editedSections as ApiProjectEditedSection[]) ?? []);
+
+      // Update version count for this section
+      const vSection = TAB_TO_SECTION[activeTab as NativeTab];
+      if (vSection) {
+        versionsApi.list(id, vSection).then((r) => {
+          setVersionCounts((prev) => ({ ...prev, [vSection]: r.total }));
+        }).catch(() => { });
+      }
+    }
+
+    setEditedContent((c) => ({ ...c, [activeTab]: content }));
+    deleteDraft(draftKey(id, activeTab));
+    setIsEditMode(false);
+  };
+
+  /** What the server holds for the active tab, for 409s that didn't include it */
+  const fetchSavedTab = async (): Promise<ApiConflict> => {
+    const data = await projectsApi.get(id!);
+    const customTab = data.project.customTabs?.find((ct) => `custom_${ct._id}` === activeTab);
+    if (customTab) return { content: customTab.content ?? "", updatedAt: customTab.updatedAt };
+    const sectionName = TAB_TO_SECTION[activeTab as NativeTab];
+    return {
+      content: activeTabDef?.field ? (data.effectiveOutput as any)[activeTabDef.field] ?? "" : "",
+      updatedAt: data.editedSections.find((e) => e.section === sectionName)?.editedAt ?? null,
+    };
+  };
 
   const handleSave = async () => {
     if (!id || !activeTabDef) return;
@@ -281,37 +508,75 @@ export function DocumentationViewerPage() {
     setActionLoading("save");
 
     try {
-      // Handle custom tabs
-      if (activeTabDef.isCustom && activeTabDef.customTab) {
-        const tabId = activeTabDef.customTab._id;
-        const data = await customTabsApi.update(id, tabId, { content });
+      // Live co-editing merges concurrent edits already; otherwise save conditionally
+      await saveActiveTab(content, collab.live ? undefined : editBaseRef.current?.precondition);
+    } catch (err: any) {
+      if (isEditConflict(err)) {
+        try {
+          setEditConflict({ mine: content, remote: err.conflict ?? await fetchSavedTab() });
+          return;
+        } catch { /* fall through to the generic message */ }
+      }
+      alert(err?.message ?? "Failed to save. Please try again.");
+    } finally {
+      setActionLoading(null);
+    }
+  };
+
+  /** Merge or overwrite: save again, conditional on the version we've now seen */
+  const resolveEditConflict = async (action: "merge" | "overwrite", content: string) => {
+    if (!editConflict) return;
+    const { remote } = editConflict;
+    setConflictAction(action);
+    try {
+      await saveActiveTab(content, { versionId: remote.versionId ?? null, updatedAt: remote.updatedAt });
+      setEditConflict(null);
+    } catch (err: any) {
+      if (isEditConflict(err)) {
+        // Yet another save landed in the meantime — show the newest one
+        setEditConflict({ mine: content, remote: err.conflict ?? await fetchSavedTab().catch(() => remote) });
+        return;
+      }
+      alert(err?.message ?? "Failed to save. Please try again.");
+    } finally {
+      setConflictAction(null);
+    }
+  };
+
+  /** Fork: keep the draft aside (as a version, or a copy of a custom tab) and take theirs */
+  const forkConflictDraft = async () => {
+    if (!id || !activeTabDef || !editConflict || !canForkConflictDraft) return;
+    const { mine, remote } = editConflict;
+    setConflictAction("fork");
+    try {
+      if (activeTabDef.isCustom) {
+        const data = await customTabsApi.create(id, { name: `${activeTabDef.label} (your draft)`, content: mine });
+        const tabs = buildTabList(data.project.customTabs ?? []);
+        const known = new Set(allTabs.map((t) => t.key));
+        const forked = tabs.find((t) => !known.has(t.key));
         setProject(data.project);
-        // Reload tabs since content may have changed
-        if (data.project.customTabs) {
-          setAllTabs(buildTabList(data.project.customTabs));
-        }
-      } else if (activeTabDef.field) {
-        // Handle native tabs
-        const sectionName = activeTabDef.field;
-        const data = await projectsApi.saveEdit(id, sectionName, content);
+        setAllTabs(tabs);
+        setEditedContent((c) => ({ ...c, [activeTab]: remote.content, ...(forked && { [forked.key]: mine }) }));
+        if (forked) setActiveTab(forked.key);
+      } else {
+        const vSection = TAB_TO_SECTION[activeTab as NativeTab];
+        await versionsApi.fork(id, vSection, mine);
+        const data = await projectsApi.get(id);
         setProject(data.project);
         setEffectiveOutput(data.effectiveOutput as any);
         setEditedSections((data.editedSections as ApiProjectEditedSection[]) ?? []);
-
-        // Update version count for this section
-        const vSection = TAB_TO_SECTION[activeTab as NativeTab];
-        if (vSection) {
-          versionsApi.list(id, vSection).then((r) => {
-            setVersionCounts((prev) => ({ ...prev, [vSection]: r.total }));
-          }).catch(() => { });
-        }
+        setEditedContent((c) => ({ ...c, [activeTab]: remote.content }));
+        versionsApi.list(id, vSection).then((r) => {
+          setVersionCounts((prev) => ({ ...prev, [vSection]: r.total }));
+        }).catch(() => { });
       }
-
+      deleteDraft(draftKey(id, activeTab));
       setIsEditMode(false);
+      setEditConflict(null);
     } catch (err: any) {
-      alert(err?.message ?? "Failed to save. Please try again.");
+      alert(err?.message ?? "Failed to keep your draft. Please try again.");
     } finally {
-      setActionLoading(null);
+      setConflictAction(null);
     }
   };
 
@@ -337,6 +602,7 @@ export function DocumentationViewerPage() {
 
       setEditedContent(newEditedContent);
     }
+    if (id) deleteDraft(draftKey(id, activeTab));
     setIsEditMode(false);
   };
 
@@ -512,7 +778,7 @@ export function DocumentationViewerPage() {
   const handleAcceptAI = async () => {
     const isCustom = activeTab.startsWith("custom_");
     const sectionName = isCustom ? activeTab : (TAB_TO_SECTION[activeTab as NativeTab] ?? null);
-    if (!id || !sectionName) return;
+    if (!id || !sectionName || !canEditActiveTab) return;
     setAcceptingAI(true);
     try {
       const result = await projectsApi.acceptAI(id, sectionName);
@@ -538,6 +804,34 @@ export function DocumentationViewerPage() {
     finally { setAcceptingAI(false); }
   }
 
+  // Save the user's edit with a cherry-picked subset of the AI changes applied
+  const handleApplyMerged = async (merged: string) => {
+    if (!id || !activeTabDef?.field || activeTabDef.isCustom || !canEditActiveTab) return;
+    const sectionName = activeTabDef.field;
+    setApplyingMerge(true);
+    try {
+      const data = await projectsApi.saveEdit(id, sectionName, merged);
+      setProject(data.project);
+      reanchorSection(id, sectionName, merged);
+      setEffectiveOutput(data.effectiveOutput as any);
+      setEditedSections((data.editedSections as ApiProjectEditedSection[]) ?? []);
+      setEditedContent((prev) => ({ ...prev, [activeTab]: merged }));
+      const vSection = TAB_TO_SECTION[activeTab as NativeTab];
+      if (vSection) {
+        versionsApi.list(id, vSection).then((r) => {
+          setVersionCounts((prev) => ({ ...prev, [vSection]: r.total }));
+        }).catch(() => { });
+      }
+      setShowStaleDiff(false);
+      setMergingTab(null);
+      setDismissedStaleTabs((prev) => new Set([...prev, activeTab as string]));
+    } catch (err: any) {
+      alert(err?.message ?? "Failed to save. Please try again.");
+    } finally {
+      setApplyingMerge(false);
+    }
+  }
+
   // ── Exports ────────────────────────────────────────────────────────────────
 
   const triggerDownload = (blob: Blob, filename: string) => {
@@ -559,18 +853,20 @@ export function DocumentationViewerPage() {
         project.meta?.name ?? id,
         (project.meta?.description || "") as string,
         editedContent,
-        allTabs
+        viewableTabs
       )
 
       const summary = getExportSummary(exportData)
       console.debug("📊 PDF Export:", summary)
 
       // Generate formatted PDF HTML with all sections
+      const diagrams = await renderExportDiagrams(exportData)
       const pdfHtml = generatePDFHTML(exportData, {
         includeTableOfContents: true,
         includeTimestamp: true,
         pageNumbers: true,
         headerFooter: true,
+        diagrams,
       })
 
       // Save as HTML file (users can print to PDF from browser)
@@ -597,7 +893,7 @@ export function DocumentationViewerPage() {
         project.meta?.name ?? id,
         (project.meta?.description || "") as string,
         editedContent,
-        allTabs
+        viewableTabs
       )
 
       // Format content to remove markdown for cleaner export
@@ -638,11 +934,11 @@ export function DocumentationViewerPage() {
         project.meta?.name ?? id,
         (project.meta?.description || "") as string,
         editedContent,
-        allTabs
+        viewableTabs
       )
 
-      // Format content to remove markdown for cleaner Notion export
-      const formattedTabs = getFormattedTabContent(exportData.tabs, "plain")
+      // Plain text plus structured blocks (callouts become Notion callout blocks)
+      const formattedTabs = getStructuredTabContent(exportData.tabs, "plain")
       const cleanExportData = {
         ...exportData,
         tabs: formattedTabs,
@@ -681,11 +977,11 @@ export function DocumentationViewerPage() {
         project.meta?.name ?? id,
         (project.meta?.description || "") as string,
         editedContent,
-        allTabs
+        viewableTabs
       )
 
-      // Format content to remove markdown for cleaner Google Docs export
-      const formattedTabs = getFormattedTabContent(exportData.tabs, "plain")
+      // Plain text plus structured blocks (callouts become shaded boxes in Google Docs)
+      const formattedTabs = getStructuredTabContent(exportData.tabs, "plain")
       const cleanExportData = {
         ...exportData,
         tabs: formattedTabs,
@@ -753,10 +1049,10 @@ export function DocumentationViewerPage() {
     )
   }
 
-  // Show all tabs if pipeline is done, else only those with content
+  // Show all tabs if pipeline is done, else only those with content; hidden sections never show
   const availableTabs = project && mapApiStatus(project.status) === "completed"
-    ? allTabs
-    : allTabs.filter((t) => !!editedContent[t.key as string]);
+    ? viewableTabs
+    : viewableTabs.filter((t) => !!editedContent[t.key as string]);
 
   // Stale section derived state
   const isCustomTab = activeTab.startsWith("custom_");
@@ -765,7 +1061,9 @@ export function DocumentationViewerPage() {
   const staleEntry = activeSectionName
     ? editedSections.find((e) => e.section === activeSectionName && e.stale)
     : null;
-  const showStaleBanner = !!staleEntry && !dismissedStaleTabs.has(activeTab as string) && !isEditMode;
+  const isMerging = mergingTab === activeTab && canEditActiveTab;
+  // Accepting, merging and restoring all write the section
+  const showStaleBanner = !!staleEntry && canEditActiveTab && !dismissedStaleTabs.has(activeTab as string) && !isEditMode && !isMerging;
   const aiSnapshotContent = activeTabDef && activeTabDef.field && !isCustomTab ? (project?.output as any)?.[activeTabDef.field] ?? "" : "";
   const userEditContent = activeTabDef && activeTabDef.field && !isCustomTab ? (project?.editedOutput as any)?.[activeTabDef.field] ?? "" : "";
 
@@ -786,6 +1084,36 @@ export function DocumentationViewerPage() {
     return "";
   }
 
+  // What "Generate Spec" drafts the OpenAPI document from (edits included)
+  const apiReferenceMarkdown = effectiveOutput?.apiReference || project?.output?.apiReference || ""
+
+  // Shared by the REST reference viewer and the GraphQL explorer
+  const specViewerProps = apiSpec && {
+    spec: apiSpec,
+    projectId: id ?? "",
+    canEdit: can(permissions, "apispec.import"),
+    onReimport: () => requirePlan("API Spec Importer", "pro", "Import and manage OpenAPI specifications.", () => setApiSpecImportOpen(true)),
+    onSync: apiSpec.source === "url" ? async () => {
+      if (!id) return;
+      setSyncingSpec(true);
+      try {
+        // The server cannot re-read AsyncAPI, so those documents are re-fetched and converted here
+        const r = apiSpec.specVersion.startsWith("asyncapi") && apiSpec.sourceUrl
+          ? await importAsyncApiUrl(id, apiSpec.sourceUrl)
+          : await apiSpecApi.sync(id);
+        if (r.changelog) useApiChangelogStore.getState().add(id, r.changelog);
+        setApiSpec(r.spec);
+      }
+      catch { /* ignore */ } finally { setSyncingSpec(false); }
+    } : undefined,
+    onDelete: isOwner ? async () => {
+      if (!id) return;
+      await apiSpecApi.delete(id).catch(() => { });
+      setApiSpec(null);
+    } : undefined,
+    isSyncing: syncingSpec,
+  };
+
   // ── Main render ───────────────────────────────────────────────────────────
   return (
     <div>
@@ -827,16 +1155,33 @@ export function DocumentationViewerPage() {
                     )}
                   </button>
                 ))}
+                <button
+                  onClick={() => {
+                    setShowSearchResults(false)
+                    openPalette(searchQuery)
+                  }}
+                  className="w-full text-left px-3 py-2 hover:bg-muted transition-colors text-xs text-primary"
+                >
+                  Search all projects for “{searchQuery}”
+                </button>
               </div>
             )}
             {searchQuery && !showSearchResults && (
               <div className="absolute top-full mt-1 left-0 right-0 z-50 rounded-md border border-border bg-background shadow-lg p-3 text-center text-sm text-muted-foreground">
                 No matches found
+                <button
+                  onClick={() => openPalette(searchQuery)}
+                  className="block w-full mt-1 text-xs text-primary hover:underline"
+                >
+                  Search all projects for “{searchQuery}”
+                </button>
               </div>
             )}
           </div>
         </div>
         <div className="flex items-center gap-2 flex-wrap">
+          <CollabPresence tabLabel={(tab) => allTabs.find((t) => t.key === tab)?.label ?? tab} />
+
           {/* Export / action feedback message */}
           {exportMessage && (
             <span className={`text-xs px-2 py-1 rounded ${exportMessage.startsWith("✅") ? "bg-green-50 text-green-700 border border-green-200" : "bg-destructive/10 text-destructive"}`}>
@@ -845,7 +1190,7 @@ export function DocumentationViewerPage() {
           )}
 
           {/* ── Primary: Edit / Cancel / Save ── */}
-          {activeTab !== "security" && activeTab !== "other_docs" && (
+          {activeTab !== "security" && activeTab !== "other_docs" && canEditActiveTab && (
             isEditMode ? (
               <>
                 <Button variant="outline" size="sm" onClick={handleCancelEdit}>
@@ -860,7 +1205,7 @@ export function DocumentationViewerPage() {
                 </Button>
               </>
             ) : (
-              <Button variant="outline" size="sm" onClick={() => setIsEditMode(true)}>
+              <Button variant="outline" size="sm" onClick={() => { setMergingTab(null); setIsEditMode(true) }}>
                 <Edit3 className="h-4 w-4" />
                 <span className="hidden sm:inline ml-1.5">Edit</span>
               </Button>
@@ -868,7 +1213,7 @@ export function DocumentationViewerPage() {
           )}
 
           {/* ── Primary: Create Custom Tab ── */}
-          {isOwner && (
+          {can(permissions, "customTabs.manage") && (
             <Button variant="outline" size="sm" onClick={() => setCreateTabModalOpen(true)}>
               <Plus className="h-4 w-4" />
               <span className="hidden sm:inline ml-1.5">Contents</span>
@@ -882,6 +1227,7 @@ export function DocumentationViewerPage() {
             onClick={() => requirePlan("AI Assistant", "pro", "Chat with your codebase using AI to get instant answers and generate documentation.", () => {
               setIsChatOpen((o) => !o)
               if (isHistoryOpen) setIsHistoryOpen(false)
+              if (isCommentsOpen) setIsCommentsOpen(false)
             })}
           >
             {!meetsMinPlan(subscription, "pro") && <Lock className="h-3.5 w-3.5 mr-1 opacity-50" />}
@@ -889,6 +1235,29 @@ export function DocumentationViewerPage() {
             <span className="hidden sm:inline ml-1.5">Ask AI</span>
           </Button>
 
+          {/* ── Primary: Comments ── */}
+          {activeSectionName && (
+            <Button
+              variant={isCommentsOpen ? "default" : "outline"}
+              size="sm"
+              onClick={() => {
+                setIsCommentsOpen((o) => !o)
+                setCommentDraft(null)
+                if (id) loadMembers(id)
+                if (isHistoryOpen) setIsHistoryOpen(false)
+                if (isChatOpen) setIsChatOpen(false)
+              }}
+            >
+              <MessageSquare className="h-4 w-4" />
+              <span className="hidden sm:inline ml-1.5">Comments</span>
+              {(commentCounts[activeSectionName] ?? 0) > 0 && (
+                <span className="ml-1.5 text-[10px] font-mono px-1 rounded bg-primary/15">
+                  {commentCounts[activeSectionName]}
+                </span>
+              )}
+            </Button>
+          )}
+
           {/* ── Primary: Status selector ── */}
           {activeSectionName && id && (() => {
             const currentStatus = getDocEntry(id, activeSectionName)?.status ?? "draft"
@@ -919,13 +1288,7 @@ export function DocumentationViewerPage() {
                             setStatusDropdownOpen(false)
 
                             // load members once per project
-                            if (projectMembers.length === 0 && !loadingMembers) {
-                              setLoadingMembers(true)
-                              sharingApi.listAccess(id)
-                                .then((r) => setProjectMembers(r.shares))
-                                .catch(() => { })
-                                .finally(() => setLoadingMembers(false))
-                            }
+                            loadMembers(id)
 
                             setStatusModal({ open: true, pendingStatus: s })
                           }}
@@ -945,8 +1308,8 @@ export function DocumentationViewerPage() {
             )
           })()}
 
-          {/* ── Primary: Portal Publish button (owners only) ── */}
-          {isOwner && id && (
+          {/* ── Primary: Portal Publish button ── */}
+          {can(permissions, "portal.publish") && id && (
             <Button
               variant={portal?.isPublished ? "default" : "outline"}
               size="sm"
@@ -987,6 +1350,7 @@ export function DocumentationViewerPage() {
                     requirePlan("Version History", "starter", "Access the full version history for each documentation section.", () => {
                       setIsHistoryOpen((o) => !o)
                       if (isChatOpen) setIsChatOpen(false)
+                      if (isCommentsOpen) setIsCommentsOpen(false)
                     })
                   }}
                   disabled={!activeSectionName}
@@ -1000,25 +1364,44 @@ export function DocumentationViewerPage() {
                   )}
                 </button>
 
-                <div className="mx-3 my-1 border-t border-border" />
-                <div className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Export</div>
+                {/* People and roles */}
+                {can(permissions, "shares.manage") && (
+                  <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); setSharePanelOpen(true) }}>
+                    <Users className="h-4 w-4 text-muted-foreground shrink-0" /> Share & roles
+                  </button>
+                )}
 
-                <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("PDF Export", "starter", "Export your documentation as a PDF file.", handleExportPdf) }}>
-                  <FileDown className="h-4 w-4 text-muted-foreground shrink-0" /> PDF
-                  {!meetsMinPlan(subscription, "starter") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
-                </button>
-                <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("GitHub Actions Export", "team", "Export your documentation as a GitHub Actions YAML workflow.", handleExportYaml) }}>
-                  <GitBranch className="h-4 w-4 text-muted-foreground shrink-0" /> GitHub Actions (YAML)
-                  {!meetsMinPlan(subscription, "team") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
-                </button>
-                <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("Notion Export", "team", "Push your documentation directly to Notion.", handleExportNotion) }}>
-                  <BookMarked className="h-4 w-4 text-muted-foreground shrink-0" /> Push to Notion
-                  {!meetsMinPlan(subscription, "team") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
-                </button>
-                <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("Google Docs Export", "pro", "Export your documentation to Google Docs.", handleExportGoogleDocs) }}>
-                  <File className="h-4 w-4 text-muted-foreground shrink-0" /> Google Docs
-                  {!meetsMinPlan(subscription, "pro") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
-                </button>
+                {/* Outbound webhooks (owners only) */}
+                {isOwner && (
+                  <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("Webhooks", "team", "Notify your own systems when this project's documentation changes.", () => setWebhooksOpen(true)) }}>
+                    <Webhook className="h-4 w-4 text-muted-foreground shrink-0" /> Webhooks
+                    {!meetsMinPlan(subscription, "team") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
+                  </button>
+                )}
+
+                {can(permissions, "export") && (
+                  <>
+                    <div className="mx-3 my-1 border-t border-border" />
+                    <div className="px-3 py-1 text-[10px] font-semibold uppercase tracking-wider text-muted-foreground">Export</div>
+
+                    <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("PDF Export", "starter", "Export your documentation as a PDF file.", handleExportPdf) }}>
+                      <FileDown className="h-4 w-4 text-muted-foreground shrink-0" /> PDF
+                      {!meetsMinPlan(subscription, "starter") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
+                    </button>
+                    <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("GitHub Actions Export", "team", "Export your documentation as a GitHub Actions YAML workflow.", handleExportYaml) }}>
+                      <GitBranch className="h-4 w-4 text-muted-foreground shrink-0" /> GitHub Actions (YAML)
+                      {!meetsMinPlan(subscription, "team") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
+                    </button>
+                    <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("Notion Export", "team", "Push your documentation directly to Notion.", handleExportNotion) }}>
+                      <BookMarked className="h-4 w-4 text-muted-foreground shrink-0" /> Push to Notion
+                      {!meetsMinPlan(subscription, "team") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
+                    </button>
+                    <button className="flex w-full items-center gap-2.5 px-3 py-2 hover:bg-muted transition-colors" onClick={() => { setMoreDropdownOpen(false); requirePlan("Google Docs Export", "pro", "Export your documentation to Google Docs.", handleExportGoogleDocs) }}>
+                      <File className="h-4 w-4 text-muted-foreground shrink-0" /> Google Docs
+                      {!meetsMinPlan(subscription, "pro") && <Lock className="h-3 w-3 ml-auto opacity-40" />}
+                    </button>
+                  </>
+                )}
               </div>
             )}
           </div>
@@ -1065,9 +1448,19 @@ export function DocumentationViewerPage() {
                         const de = getDocEntry(id ?? "", sectionName)
                         return de && de.status !== "draft" ? <DocStatusDot status={de.status} /> : null
                       })()}
+                      <TabPresenceDots tab={tab.key} />
                       {isStale && (
                         <span className="h-1.5 w-1.5 rounded-full bg-primary shrink-0" title="Stale — AI has newer content" />
                       )}
+                      {sectionName && (commentCounts[sectionName] ?? 0) > 0 && (
+                        <span
+                          className="flex items-center gap-0.5 text-[10px] font-mono text-muted-foreground shrink-0"
+                          title={`${commentCounts[sectionName]} open comment${commentCounts[sectionName] !== 1 ? "s" : ""}`}
+                        >
+                          <MessageSquare className="h-2.5 w-2.5" />
+                          {commentCounts[sectionName]}
+                        </span>
+                      )}
                       {!isCustomTab && vCount > 1 && (
                         <span className="text-[10px] font-mono px-1 py-0.5 rounded bg-muted-foreground/15 text-muted-foreground shrink-0">
                           {vCount > 20 ? "20+" : vCount}
@@ -1103,13 +1496,28 @@ export function DocumentationViewerPage() {
                 changeSummary={staleSummary}
                 accepting={acceptingAI}
                 onViewDiff={() => setShowStaleDiff(true)}
+                onMerge={activeTabDef?.field && !isCustomTab ? () => setMergingTab(activeTab) : undefined}
                 onAcceptAI={handleAcceptAI}
                 onDismiss={() => setDismissedStaleTabs((prev) => new Set([...prev, activeTab]))}
               />
             )}
 
+            {/* Three-way merge of the user's edit with the AI update */}
+            {isMerging && project && activeSectionName && (
+              <ThreeWayMerge
+                projectId={project._id}
+                section={activeSectionName}
+                sectionLabel={activeTabDef?.label ?? activeTab}
+                mine={userEditContent}
+                theirs={aiSnapshotContent}
+                saving={applyingMerge}
+                onSave={handleApplyMerged}
+                onCancel={() => setMergingTab(null)}
+              />
+            )}
+
             {/* ── API sub-tabs: Document / Api Spec ── */}
-            {activeTab === "api" && (
+            {activeTab === "api" && !isMerging && (
               <div className="flex border-b border-border px-4 shrink-0 mt-3">
                 <button
                   onClick={() => setApiSubTab("document")}
@@ -1133,63 +1541,87 @@ export function DocumentationViewerPage() {
                 >
                   Api Spec
                 </button>
+                {apiSpec && (
+                  <button
+                    onClick={() => setApiSubTab("changelog")}
+                    className={cn(
+                      "px-4 py-3 text-sm font-medium border-b-2 -mb-px transition-colors",
+                      apiSubTab === "changelog"
+                        ? "border-primary text-foreground"
+                        : "border-transparent text-muted-foreground hover:text-foreground"
+                    )}
+                  >
+                    Changelog
+                  </button>
+                )}
               </div>
             )}
 
             {/* ── API Spec viewer (shown when Api Spec sub-tab is active) ── */}
-            {activeTab === "api" && apiSubTab === "spec" && (
+            {activeTab === "api" && apiSubTab === "spec" && !isMerging && (
               <div className="flex-1 overflow-hidden flex flex-col">
-                {apiSpec ? (
-                  <ApiReferenceViewer
-                    spec={apiSpec}
-                    projectId={id ?? ""}
-                    canEdit={true}
-                    onReimport={() => requirePlan("API Spec Importer", "pro", "Import and manage OpenAPI specifications.", () => setApiSpecImportOpen(true))}
-                    onSync={apiSpec.source === "url" ? async () => {
-                      if (!id) return
-                      setSyncingSpec(true)
-                      try { const r = await apiSpecApi.sync(id); setApiSpec(r.spec) }
-                      catch { /* ignore */ } finally { setSyncingSpec(false) }
-                    } : undefined}
-                    onDelete={isOwner ? async () => {
-                      if (!id) return
-                      await apiSpecApi.delete(id).catch(() => { })
-                      setApiSpec(null)
-                    } : undefined}
-                    isSyncing={syncingSpec}
-                  />
+                {specViewerProps ? (
+                  specViewerProps.spec.specVersion === "graphql" && specViewerProps.spec.graphql
+                    ? <GraphQLExplorer {...specViewerProps} />
+                    : <ApiReferenceViewer {...specViewerProps} initialEndpointId={linkedEndpointId} />
                 ) : (
                   <div className="flex flex-col items-center justify-center flex-1 gap-3 text-muted-foreground">
                     <Info className="h-8 w-8" />
                     <p className="text-sm">No API spec imported yet.</p>
-                    <Button size="sm" variant="outline" onClick={() => requirePlan("API Spec Importer", "pro", "Import and manage OpenAPI specifications for your project.", () => setApiSpecImportOpen(true))}>
-                      {!meetsMinPlan(subscription, "pro") && <Lock className="h-3.5 w-3.5 mr-1 opacity-50" />}
-                      Import Spec
-                    </Button>
+                    {can(permissions, "apispec.import") && (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => requirePlan("API Spec Importer", "pro", "Import and manage OpenAPI specifications for your project.", () => setApiSpecImportOpen(true))}>
+                          {!meetsMinPlan(subscription, "pro") && <Lock className="h-3.5 w-3.5 mr-1 opacity-50" />}
+                          Import Spec
+                        </Button>
+                        {apiReferenceMarkdown && (project?.stats.endpoints ?? 0) > 0 && (
+                          <>
+                            <p className="text-xs">or draft one from the {project?.stats.endpoints} endpoints in the API Reference</p>
+                            <Button size="sm" variant="outline" onClick={() => requirePlan("API Spec Importer", "pro", "Generate an OpenAPI spec from your API Reference.", () => setSpecGeneratorOpen(true))}>
+                              {meetsMinPlan(subscription, "pro") ? <Wand2 className="h-3.5 w-3.5 mr-1" /> : <Lock className="h-3.5 w-3.5 mr-1 opacity-50" />}
+                              Generate Spec
+                            </Button>
+                          </>
+                        )}
+                      </>
+                    )}
                   </div>
                 )}
               </div>
             )}
 
-            {/* Normal content (all tabs; hidden when API Spec sub-tab is open) */}
-            {!(activeTab === "api" && apiSubTab === "spec") && (
-              <div className={cn("flex-1 overflow-y-auto", !isEditMode && "p-6 md:p-10")} data-content-viewer>
+            {/* ── Spec changelog (shown when Changelog sub-tab is active) ── */}
+            {activeTab === "api" && apiSubTab === "changelog" && !isMerging && id && (
+              <div className="flex-1 overflow-hidden flex flex-col">
+                <ApiChangelog
+                  projectId={id}
+                  canPublish={can(permissions, "portal.publish")}
+                  onOpenEndpoint={(endpointId) => {
+                    setApiSubTab("spec")
+                    setSearchParams({ tab: "api", endpoint: endpointId })
+                  }}
+                />
+              </div>
+            )}
+
+            {/* Normal content (all tabs; hidden when an API Spec sub-tab is open) */}
+            {!(activeTab === "api" && apiSubTab !== "document") && !isMerging && (
+              <div ref={contentRef} className={cn("flex-1", isEditMode ? "overflow-hidden" : "overflow-y-auto p-6 md:p-10")} data-content-viewer>
                 <div className={cn("mx-auto", "h-full flex flex-col")}>
                   {/* Markdown tabs (readme, api, schema, internal, custom) */}
                   {(["readme", "api", "schema", "internal"].includes(activeTab) || activeTab.startsWith("custom_")) && (
                     isEditMode ? (
-                      <div className="flex flex-col h-full border-0">
-                        <MarkdownToolbar onInsert={insertMarkdown} />
-                        <textarea
-                          id="markdown-editor"
-                          className="flex-1 w-full p-6 font-mono text-sm bg-background border-0 focus:outline-none resize-none"
-                          value={editedContent[activeTab as string] ?? ""}
-                          onChange={(e) => setEditedContent((c) => ({ ...c, [activeTab]: e.target.value }))}
-                        />
-                      </div>
+                      <MarkdownEditor
+                        value={editedContent[activeTab as string] ?? ""}
+                        onChange={collab.onChange}
+                        draftKey={id ? draftKey(id, activeTab) : null}
+                        savedContent={savedTabContent}
+                        remoteCursors={collab.remoteCursors}
+                        onSelectionChange={collab.onSelectionChange}
+                      />
                     ) : effectiveOutput && getEffectiveOutputTabContent(effectiveOutput, activeTab) ? (
                       <div className="prose prose-slate dark:prose-invert max-w-none">
-                        <DocRenderer content={getEffectiveOutputTabContent(effectiveOutput, activeTab)} />
+                        <DocRenderer content={getEffectiveOutputTabContent(effectiveOutput, activeTab)} annotations={commentAnnotations} />
                       </div>
                     ) : project && mapApiStatus(project.status) === "completed" && !activeTab.startsWith("custom_") ? (
                       <div className="flex flex-col items-center justify-center py-24 text-center text-muted-foreground">
@@ -1213,7 +1645,7 @@ export function DocumentationViewerPage() {
                     editedContent.security ? (
                       <div className="space-y-6">
                         <div className="prose prose-slate dark:prose-invert max-w-none">
-                          <DocRenderer content={editedContent.security} />
+                          <DocRenderer content={editedContent.security} annotations={commentAnnotations} />
                         </div>
                       </div>
                     ) : (
@@ -1230,7 +1662,7 @@ export function DocumentationViewerPage() {
                   )}
                 </div>
               </div>
-            )} {/* end: !(api && apiSubTab === spec) */}
+            )} {/* end: !(api && apiSubTab !== document) */}
           </div>
 
           {/* Version history panel */}
@@ -1240,8 +1672,26 @@ export function DocumentationViewerPage() {
                 projectId={project._id}
                 section={activeSectionName}
                 sectionLabel={activeTabDef?.label ?? activeTab}
+                currentContent={editedContent[activeTab] ?? ""}
                 onClose={() => setIsHistoryOpen(false)}
-                onRestored={handleVersionRestored}
+                onRestored={canEditActiveTab ? handleVersionRestored : undefined}
+              />
+            </div>
+          )}
+
+          {/* Review comments panel */}
+          {isCommentsOpen && project && activeSectionName && (
+            <div className="w-80 shrink-0 flex flex-col overflow-hidden">
+              <CommentsPanel
+                projectId={project._id}
+                section={activeSectionName}
+                sectionLabel={activeTabDef?.label ?? activeTab}
+                content={editedContent[activeTab] ?? ""}
+                members={projectMembers}
+                draft={commentDraft}
+                onDraftDone={() => setCommentDraft(null)}
+                onJumpTo={jumpToComment}
+                onClose={() => { setIsCommentsOpen(false); setCommentDraft(null) }}
               />
             </div>
           )}
@@ -1259,8 +1709,25 @@ export function DocumentationViewerPage() {
           )}
         </div>
 
+        {/* Floating "Comment" action for a text selection in the viewer */}
+        {textSelection && (
+          <Button
+            size="sm"
+            className="fixed z-40 h-7 gap-1.5 text-xs shadow-lg"
+            style={{ top: Math.max(8, textSelection.rect.top - 36), left: textSelection.rect.left + textSelection.rect.width / 2 - 48 }}
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => {
+              openCommentDraft({ headingSlug: textSelection.headingSlug, headingText: textSelection.headingText, quote: textSelection.quote })
+              clearTextSelection()
+              window.getSelection()?.removeAllRanges()
+            }}
+          >
+            <MessageSquare className="h-3.5 w-3.5" /> Comment
+          </Button>
+        )}
+
         {/* Stale diff modal (full-screen overlay) */}
-        {showStaleDiff && activeTabDef && (
+        {showStaleDiff && activeTabDef && canEditActiveTab && (
           <StaleDiffModal
             sectionLabel={activeTabDef.label}
             userContent={userEditContent}
@@ -1268,11 +1735,31 @@ export function DocumentationViewerPage() {
             accepting={acceptingAI}
             onClose={() => setShowStaleDiff(false)}
             onAcceptAI={handleAcceptAI}
+            onApplyMerged={handleApplyMerged}
+            applying={applyingMerge}
+          />
+        )}
+
+        {/* Save conflict (full-screen overlay) */}
+        {editConflict && activeTabDef && id && (
+          <EditConflictDialog
+            projectId={id}
+            section={activeTabDef.isCustom ? activeTab : TAB_TO_SECTION[activeTab as NativeTab]}
+            sectionLabel={activeTabDef.label}
+            base={editBaseRef.current?.content ?? savedTabContent}
+            mine={editConflict.mine}
+            remote={editConflict.remote}
+            busy={conflictAction}
+            forkLabel={activeTabDef.isCustom ? "Save as new tab" : "Save as version"}
+            onMerge={(merged) => resolveEditConflict("merge", merged)}
+            onOverwrite={() => resolveEditConflict("overwrite", editConflict.mine)}
+            onFork={canForkConflictDraft ? forkConflictDraft : undefined}
+            onCancel={() => setEditConflict(null)}
           />
         )}
 
         {/* Portal settings modal */}
-        {isOwner && id && (
+        {can(permissions, "portal.publish") && id && (
           <PortalSettingsModal
             isOpen={portalModalOpen}
             onClose={() => setPortalModalOpen(false)}
@@ -1283,6 +1770,36 @@ export function DocumentationViewerPage() {
           />
         )}
 
+        {isOwner && id && webhooksOpen && (
+          <WebhooksModal projectId={id} onClose={() => setWebhooksOpen(false)} />
+        )}
+
+        {id && can(permissions, "shares.manage") && (
+          <SharePanel
+            open={sharePanelOpen}
+            onOpenChange={setSharePanelOpen}
+            projectId={id}
+            projectName={project?.meta.name || project?.repoName || "Project"}
+            isOwner={isOwner}
+            canManageShares
+          />
+        )}
+
+        {id && specGeneratorOpen && apiReferenceMarkdown && (
+          <SpecGeneratorModal
+            projectId={id}
+            markdown={apiReferenceMarkdown}
+            title={project?.meta.name || project?.repoName || "API"}
+            description={project?.meta.description ?? undefined}
+            detectedEndpoints={project?.stats.endpoints ?? 0}
+            onClose={() => setSpecGeneratorOpen(false)}
+            onSaved={(spec) => {
+              setApiSpec(spec)
+              setApiSubTab("spec")
+            }}
+          />
+        )}
+
         {/* Status-change modal */}
         {id && (
           <ApiSpecImportModal
@@ -1290,7 +1807,8 @@ export function DocumentationViewerPage() {
             open={apiSpecImportOpen}
             onClose={() => setApiSpecImportOpen(false)}
             existingSpec={apiSpec}
-            onImported={(spec) => {
+            onImported={(spec, changelog) => {
+              if (changelog) useApiChangelogStore.getState().add(id, changelog)
               setApiSpec(spec)
               setApiSubTab("spec")
             }}
@@ -3,11 +3,14 @@ import { useParams, Link, useNavigate } from "react-router-dom"
 import { useProjectStore } from "@/store/projects"
 import { projectsApi, ApiException } from "@/lib/api"
 import { prepareExportData, getExportSummary, getFormattedTabContent } from "@/lib/export-utils"
-import { generatePDFHTML } from "@/lib/pdf-generator"
+import { generatePDFHTML, renderExportDiagrams } from "@/lib/pdf-generator"
 import { useSubscriptionStore, meetsMinPlan } from "@/store/subscription"
 import { UpgradeModal } from "@/components/billing/UpgradeModal"
 import { DocRenderer } from "@/components/projects/DocRenderer"
 import { SharePanel } from "@/components/projects/share-panel"
+import { TransferProjectModal } from "@/components/projects/transfer-project-modal"
+import { useWorkspaceStore, canAdministerOrg } from "@/store/workspace"
+import { resolvePermissions, can, canViewSection } from "@/lib/permissions"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
@@ -29,6 +32,7 @@ import {
     ExternalLink,
     FileCode,
     Lock,
+    Building2,
 } from "lucide-react"
 import Loader1 from "@/components/ui/loader1"
 import { MCPServerCard } from "@/components/settings/MCPServerCard"
@@ -56,8 +60,14 @@ export function ProjectOverviewPage() {
     const [githubReadme, setGithubReadme] = useState<string | null>(null)
     const [isReadmeLoading, setIsReadmeLoading] = useState(false)
     const [showShare, setShowShare] = useState(false)
+    const [showTransfer, setShowTransfer] = useState(false)
 
     const isOwner = !project || project.shareRole === "owner"
+    const permissions = resolvePermissions(project?.shareRole ?? "owner", project?.permissions)
+    const canManageShares = can(permissions, "shares.manage")
+    const canExport = can(permissions, "export")
+    const { organizations, switchTo: switchWorkspace } = useWorkspaceStore()
+    const canTransfer = isOwner && !!project && !project.orgId && organizations.some(canAdministerOrg)
 
     // Subscription gates
     const { subscription } = useSubscriptionStore()
@@ -233,7 +243,7 @@ export function ProjectOverviewPage() {
                     content: project.output?.securityReport || "",
                     isCustom: false,
                 },
-            ].filter((t) => t.content)
+            ].filter((t) => t.content && canViewSection(permissions, t.id))
 
             const exportData = {
                 projectName: project.name,
@@ -245,12 +255,14 @@ export function ProjectOverviewPage() {
             const summary = getExportSummary(exportData)
             console.debug("📊 PDF Export:", summary)
 
-            // Generate formatted PDF HTML
+            // Generate formatted PDF HTML, with mermaid fences pre-rendered to SVG
+            const diagrams = await renderExportDiagrams(exportData)
             const pdfHtml = generatePDFHTML(exportData, {
                 includeTableOfContents: true,
                 includeTimestamp: true,
                 pageNumbers: true,
                 headerFooter: true,
+                diagrams,
             })
 
             // Save as HTML file (users can print to PDF from browser)
@@ -301,7 +313,7 @@ export function ProjectOverviewPage() {
                     content: project.output?.securityReport || "",
                     isCustom: false,
                 },
-            ].filter((t) => t.content)
+            ].filter((t) => t.content && canViewSection(permissions, t.id))
 
             const exportData = {
                 projectName: project.name,
@@ -383,8 +395,8 @@ export function ProjectOverviewPage() {
                         </div>
                     </div>
                     <div className="flex items-center gap-2 w-full md:w-auto flex-wrap">
-                        {/* Share button — owner only */}
-                        {isOwner && (
+                        {/* Share button — anyone allowed to manage sharing */}
+                        {canManageShares && (
                             <Button
                                 variant="outline"
                                 className="w-full md:w-auto"
@@ -546,49 +558,65 @@ export function ProjectOverviewPage() {
                                     {exportMessage}
                                 </div>
                             )}
-                            <Button
-                                variant="outline"
-                                className="w-full justify-start"
-                                disabled={project.status !== "completed" || !!actionLoading}
-                                onClick={() => requirePlan("PDF Export", "starter", "Export your documentation as a PDF file.", handleExportPdf)}
-                            >
-                                {actionLoading === "pdf" ? (
-                                    <Loader1 className="mr-2 h-4 w-4" />
-                                ) : (
-                                    <Download className="mr-2 h-4 w-4" />
-                                )}
-                                Export to PDF
-                                {!meetsMinPlan(subscription, "starter") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
-                            </Button>
-                            <Button
-                                variant="outline"
-                                className="w-full justify-start"
-                                disabled={project.status !== "completed" || !!actionLoading}
-                                onClick={() => requirePlan("GitHub Actions Export", "team", "Export your documentation as a GitHub Actions YAML workflow.", handleExportYaml)}
-                            >
-                                {actionLoading === "yaml" ? (
-                                    <Loader1 className="mr-2 h-4 w-4" />
-                                ) : (
-                                    <FileCode className="mr-2 h-4 w-4" />
-                                )}
-                                Export GitHub Actions YAML
-                                {!meetsMinPlan(subscription, "team") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
-                            </Button>
-                            <Button
-                                variant="outline"
-                                className="w-full justify-start"
-                                disabled={project.status !== "completed" || !!actionLoading}
-                                onClick={() => requirePlan("Notion Export", "team", "Push your documentation directly to Notion.", handleExportNotion)}
-                            >
-                                {actionLoading === "notion" ? (
-                                    <Loader1 className="mr-2 h-4 w-4" />
-                                ) : (
-                                    <ExternalLink className="mr-2 h-4 w-4" />
-                                )}
-                                Push to Notion
-                                {!meetsMinPlan(subscription, "team") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
-                            </Button>
+                            {/* Exports follow the role's export capability, as in the documentation viewer */}
+                            {canExport && (
+                                <>
+                                    <Button
+                                        variant="outline"
+                                        className="w-full justify-start"
+                                        disabled={project.status !== "completed" || !!actionLoading}
+                                        onClick={() => requirePlan("PDF Export", "starter", "Export your documentation as a PDF file.", handleExportPdf)}
+                                    >
+                                        {actionLoading === "pdf" ? (
+                                            <Loader1 className="mr-2 h-4 w-4" />
+                                        ) : (
+                                            <Download className="mr-2 h-4 w-4" />
+                                        )}
+                                        Export to PDF
+                                        {!meetsMinPlan(subscription, "starter") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        className="w-full justify-start"
+                                        disabled={project.status !== "completed" || !!actionLoading}
+                                        onClick={() => requirePlan("GitHub Actions Export", "team", "Export your documentation as a GitHub Actions YAML workflow.", handleExportYaml)}
+                                    >
+                                        {actionLoading === "yaml" ? (
+                                            <Loader1 className="mr-2 h-4 w-4" />
+                                        ) : (
+                                            <FileCode className="mr-2 h-4 w-4" />
+                                        )}
+                                        Export GitHub Actions YAML
+                                        {!meetsMinPlan(subscription, "team") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
+                                    </Button>
+                                    <Button
+                                        variant="outline"
+                                        className="w-full justify-start"
+                                        disabled={project.status !== "completed" || !!actionLoading}
+                                        onClick={() => requirePlan("Notion Export", "team", "Push your documentation directly to Notion.", handleExportNotion)}
+                                    >
+                                        {actionLoading === "notion" ? (
+                                            <Loader1 className="mr-2 h-4 w-4" />
+                                        ) : (
+                                            <ExternalLink className="mr-2 h-4 w-4" />
+                                        )}
+                                        Push to Notion
+                                        {!meetsMinPlan(subscription, "team") && <Lock className="h-3.5 w-3.5 ml-auto opacity-40" />}
+                                    </Button>
+                                </>
+                            )}
                             <div className="border-t border-border pt-2 space-y-1">
+                                {canTransfer && (
+                                    <Button
+                                        variant="ghost"
+                                        className="w-full justify-start text-muted-foreground hover:text-foreground"
+                                        disabled={!!actionLoading}
+                                        onClick={() => setShowTransfer(true)}
+                                    >
+                                        <Building2 className="mr-2 h-4 w-4" />
+                                        Move to Organization
+                                    </Button>
+                                )}
                                 {isOwner && project.status !== "archived" && project.status !== "analyzing" && (
                                     <Button
                                         variant="ghost"
@@ -639,6 +667,17 @@ export function ProjectOverviewPage() {
                     projectId={project.id}
                     projectName={project.name}
                     isOwner={isOwner}
+                    canManageShares={canManageShares}
+                />
+            )}
+
+            {/* A moved project lives in the organization's workspace; switching there remounts this page */}
+            {project && showTransfer && (
+                <TransferProjectModal
+                    projectId={project.id}
+                    projectName={project.name}
+                    onClose={() => setShowTransfer(false)}
+                    onTransferred={(p) => switchWorkspace(p.orgId ?? null)}
                 />
             )}
 
@@ -45,8 +45,10 @@ import {
     PaymentMethodData,
     SubscriptionData,
     UsageData,
+    type ApiOrganization,
 } from "@/lib/api"
 import { useSubscriptionStore, PLAN_LEVEL } from "@/store/subscription"
+import { useWorkspaceStore, selectCurrentOrg } from "@/store/workspace"
 import { PlanBadge } from "@/components/billing/PlanBadge"
 import { cn } from "@/lib/utils"
 import Loader1 from "@/components/ui/loader1"
@@ -330,10 +332,13 @@ function ChangePlanModal({
 function CurrentPlanCard({
     sub,
     usage,
+    org,
     onRefresh,
 }: {
     sub: SubscriptionData
     usage: UsageData | null
+    /** Set in an organization workspace — only its owner manages the plan */
+    org: ApiOrganization | null
     onRefresh: () => void
 }) {
     const [cancelOpen, setCancelOpen] = useState(false)
@@ -382,6 +387,8 @@ function CurrentPlanCard({
         }
     }
 
+    const readOnly = !!org && org.role !== "owner"
+
     const daysLeft =
         sub.trialEndsAt ? differenceInDays(new Date(sub.trialEndsAt), new Date()) : null
 
@@ -507,40 +514,44 @@ function CurrentPlanCard({
                     )}
 
                     {/* Actions */}
-                    <div className="flex flex-wrap gap-2 pt-1">
-                        <Button
-                            size="sm"
-                            onClick={() => setChangePlanOpen(true)}
-                        >
-                            <ArrowUpDown className="mr-1.5 h-3.5 w-3.5" />
-                            Change Plan
-                        </Button>
+                    {readOnly ? (
+                        <p className="text-sm text-muted-foreground">Only organization owners can change the plan.</p>
+                    ) : (
+                        <div className="flex flex-wrap gap-2 pt-1">
+                            <Button
+                                size="sm"
+                                onClick={() => setChangePlanOpen(true)}
+                            >
+                                <ArrowUpDown className="mr-1.5 h-3.5 w-3.5" />
+                                Change Plan
+                            </Button>
 
-                        {sub.plan !== "free" &&
-                            !sub.cancelAtPeriodEnd &&
-                            sub.status !== "cancelled" && (
-                                <>
-                                    <Button
-                                        variant="outline"
-                                        size="sm"
-                                        onClick={() => setPauseOpen(true)}
-                                        disabled={sub.status === "paused"}
-                                    >
-                                        <PauseCircle className="mr-1.5 h-3.5 w-3.5" />
-                                        {sub.status === "paused" ? "Paused" : "Pause"}
-                                    </Button>
-                                    <Button
-                                        variant="outline"
-                                        size="sm"
-                                        className="text-destructive hover:bg-destructive/10 border-destructive/30"
-                                        onClick={() => setCancelOpen(true)}
-                                    >
-                                        <XCircle className="mr-1.5 h-3.5 w-3.5" />
-                                        Cancel plan
-                                    </Button>
-                                </>
-                            )}
-                    </div>
+                            {sub.plan !== "free" &&
+                                !sub.cancelAtPeriodEnd &&
+                                sub.status !== "cancelled" && (
+                                    <>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() => setPauseOpen(true)}
+                                            disabled={sub.status === "paused"}
+                                        >
+                                            <PauseCircle className="mr-1.5 h-3.5 w-3.5" />
+                                            {sub.status === "paused" ? "Paused" : "Pause"}
+                                        </Button>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="text-destructive hover:bg-destructive/10 border-destructive/30"
+                                            onClick={() => setCancelOpen(true)}
+                                        >
+                                            <XCircle className="mr-1.5 h-3.5 w-3.5" />
+                                            Cancel plan
+                                        </Button>
+                                    </>
+                                )}
+                        </div>
+                    )}
                 </CardContent>
             </Card>
 
@@ -669,9 +680,12 @@ function CurrentPlanCard({
 // ── Seat management card ──────────────────────────────────────────────────────
 function SeatsCard({
     sub,
+    org,
     onRefresh,
 }: {
     sub: SubscriptionData
+    /** Set in an organization workspace — seats belong to the organization */
+    org: ApiOrganization | null
     onRefresh: () => void
 }) {
     const [qty, setQty] = useState(1)
@@ -689,6 +703,8 @@ function SeatsCard({
             if (result.type === "immediate") {
                 // Charged immediately via saved card
                 await onRefresh()
+                // Organization seat usage is reported on the org itself
+                if (org) await useWorkspaceStore.getState().load()
                 setSuccess(true)
                 setTimeout(() => setSuccess(false), 3000)
             } else {
@@ -715,56 +731,85 @@ function SeatsCard({
                     Team Seats
                 </CardTitle>
                 <CardDescription>
-                    You have {sub.seats + sub.extraSeats} seats (
-                    {sub.extraSeats > 0 && `${sub.extraSeats} extra`}). Add more seats —
-                    charged prorated for the current period.
+                    {org
+                        ? `${org.name} uses ${org.seats.used} of ${sub.seats + sub.extraSeats} seats. `
+                        : `You have ${sub.seats + sub.extraSeats} seats${sub.extraSeats > 0 ? ` (${sub.extraSeats} extra)` : ""}. `}
+                    Add more seats — charged prorated for the current period.
                 </CardDescription>
             </CardHeader>
             <CardContent>
-                <div className="flex items-center gap-3">
-                    <Button
-                        variant="outline"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => setQty((q) => Math.max(1, q - 1))}
-                        disabled={loading || redirecting}
-                    >
-                        <Minus className="h-3.5 w-3.5" />
-                    </Button>
-                    <span className="text-lg font-semibold w-8 text-center tabular-nums">
-                        {qty}
-                    </span>
-                    <Button
-                        variant="outline"
-                        size="icon"
-                        className="h-8 w-8"
-                        onClick={() => setQty((q) => q + 1)}
-                        disabled={loading || redirecting}
-                    >
-                        <Plus className="h-3.5 w-3.5" />
-                    </Button>
-                    <Button size="sm" onClick={handleAdd} disabled={loading || redirecting}>
-                        {loading && <Loader1 className="mr-2 h-3.5 w-3.5 " />}
-                        {redirecting ? "Redirecting…" : `Add ${qty} seat${qty !== 1 ? "s" : ""}`}
-                    </Button>
-                    {success && (
-                        <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
-                    )}
-                </div>
-                {redirecting && (
-                    <p className="mt-2 text-xs text-muted-foreground flex items-center gap-1.5">
-                        <Loader1 className="h-3 w-3 " />
-                        Taking you to payment — seats will be added once payment is confirmed.
-                    </p>
+                {org && org.role !== "owner" ? (
+                    <p className="text-sm text-muted-foreground">Only organization owners can add seats.</p>
+                ) : (
+                    <>
+                        <div className="flex items-center gap-3">
+                            <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setQty((q) => Math.max(1, q - 1))}
+                                disabled={loading || redirecting}
+                            >
+                                <Minus className="h-3.5 w-3.5" />
+                            </Button>
+                            <span className="text-lg font-semibold w-8 text-center tabular-nums">
+                                {qty}
+                            </span>
+                            <Button
+                                variant="outline"
+                                size="icon"
+                                className="h-8 w-8"
+                                onClick={() => setQty((q) => q + 1)}
+                                disabled={loading || redirecting}
+                            >
+                                <Plus className="h-3.5 w-3.5" />
+                            </Button>
+                            <Button size="sm" onClick={handleAdd} disabled={loading || redirecting}>
+                                {loading && <Loader1 className="mr-2 h-3.5 w-3.5 " />}
+                                {redirecting ? "Redirecting…" : `Add ${qty} seat${qty !== 1 ? "s" : ""}`}
+                            </Button>
+                            {success && (
+                                <CheckCircle2 className="h-4 w-4 text-green-500 shrink-0" />
+                            )}
+                        </div>
+                        {redirecting && (
+                            <p className="mt-2 text-xs text-muted-foreground flex items-center gap-1.5">
+                                <Loader1 className="h-3 w-3 " />
+                                Taking you to payment — seats will be added once payment is confirmed.
+                            </p>
+                        )}
+                        {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
+                    </>
                 )}
-                {error && <p className="mt-2 text-sm text-red-400">{error}</p>}
             </CardContent>
         </Card>
     )
 }
 
+// ── Organization billing banner ───────────────────────────────────────────────
+function OrgBillingBanner({ org }: { org: ApiOrganization }) {
+    return (
+        <div className="flex items-center gap-3 rounded-lg border border-border bg-muted/30 px-4 py-3 text-sm">
+            <Building2 className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <span>
+                Billing for <strong>{org.name}</strong> — the plan and seats are shared by its{" "}
+                {org.memberCount} {org.memberCount === 1 ? "member" : "members"}.
+                {org.role !== "owner" && " Only organization owners can change them."}
+            </span>
+        </div>
+    )
+}
+
 // ── Payment methods card ──────────────────────────────────────────────────────
-function PaymentMethodsCard({ onRefresh }: { onRefresh: () => void }) {
+function PaymentMethodsCard({
+    org,
+    onRefresh,
+}: {
+    /** Set in an organization workspace — only its owner manages payment methods */
+    org: ApiOrganization | null
+    onRefresh: () => void
+}) {
+    const readOnly = !!org && org.role !== "owner"
     const [methods, setMethods] = useState<PaymentMethodData[]>([])
     const [loading, setLoading] = useState(true)
     const [actionId, setActionId] = useState<string | null>(null)
@@ -830,6 +875,9 @@ function PaymentMethodsCard({ onRefresh }: { onRefresh: () => void }) {
                 {error && (
                     <p className="text-sm text-red-400">{error}</p>
                 )}
+                {readOnly && (
+                    <p className="text-sm text-muted-foreground">Only organization owners can change payment methods.</p>
+                )}
 
                 {loading ? (
                     <div className="space-y-2">
@@ -891,32 +939,34 @@ function PaymentMethodsCard({ onRefresh }: { onRefresh: () => void }) {
                                     </div>
                                 </div>
 
-                                <div className="flex items-center gap-2 shrink-0">
-                                    {!pm.isDefault && (
+                                {!readOnly && (
+                                    <div className="flex items-center gap-2 shrink-0">
+                                        {!pm.isDefault && (
+                                            <Button
+                                                variant="ghost"
+                                                size="sm"
+                                                className="text-xs h-7"
+                                                disabled={actionId === pm._id}
+                                                onClick={() => handleSetDefault(pm._id)}
+                                            >
+                                                Make default
+                                            </Button>
+                                        )}
                                         <Button
                                             variant="ghost"
-                                            size="sm"
-                                            className="text-xs h-7"
+                                            size="icon"
+                                            className="h-7 w-7 text-muted-foreground hover:text-destructive"
                                             disabled={actionId === pm._id}
-                                            onClick={() => handleSetDefault(pm._id)}
+                                            onClick={() => handleDelete(pm._id)}
                                         >
-                                            Make default
+                                            {actionId === pm._id ? (
+                                                <Loader1 className="h-3.5 w-3.5 " />
+                                            ) : (
+                                                <Trash2 className="h-3.5 w-3.5" />
+                                            )}
                                         </Button>
-                                    )}
-                                    <Button
-                                        variant="ghost"
-                                        size="icon"
-                                        className="h-7 w-7 text-muted-foreground hover:text-destructive"
-                                        disabled={actionId === pm._id}
-                                        onClick={() => handleDelete(pm._id)}
-                                    >
-                                        {actionId === pm._id ? (
-                                            <Loader1 className="h-3.5 w-3.5 " />
-                                        ) : (
-                                            <Trash2 className="h-3.5 w-3.5" />
-                                        )}
-                                    </Button>
-                                </div>
+                                    </div>
+                                )}
                             </div>
                         )
                     })
@@ -1188,6 +1238,7 @@ export function BillingPage() {
     const welcome = searchParams.get("welcome") === "1"
 
     const { subscription, usage, load, refresh } = useSubscriptionStore()
+    const org = useWorkspaceStore(selectCurrentOrg)
     const [initialising, setInitialising] = useState(true)
 
     useEffect(() => {
@@ -1233,15 +1284,18 @@ export function BillingPage() {
                 </div>
             )}
 
+            {org && <OrgBillingBanner org={org} />}
+
             {subscription ? (
                 <>
                     <CurrentPlanCard
                         sub={subscription}
                         usage={usage}
+                        org={org}
                         onRefresh={handleRefresh}
                     />
-                    <SeatsCard sub={subscription} onRefresh={handleRefresh} />
-                    <PaymentMethodsCard onRefresh={handleRefresh} />
+                    <SeatsCard sub={subscription} org={org} onRefresh={handleRefresh} />
+                    <PaymentMethodsCard org={org} onRefresh={handleRefresh} />
                     <BillingHistoryCard />
                 </>
             ) : (
@@ -1256,6 +1310,7 @@ export function BillingPage() {
 // ── Tab variant (embedded inside Settings) ───────────────────────────────────
 export function BillingTab() {
     const { subscription, usage, load, refresh } = useSubscriptionStore()
+    const org = useWorkspaceStore(selectCurrentOrg)
     const [searchParams, setSearchParams] = useSearchParams()
     const [initialising, setInitialising] = useState(true)
     const [verifyState, setVerifyState] = useState<
@@ -1354,15 +1409,18 @@ export function BillingTab() {
                 </div>
             )}
 
+            {org && <OrgBillingBanner org={org} />}
+
             {subscription ? (
                 <>
                     <CurrentPlanCard
                         sub={subscription}
                         usage={usage}
+                        org={org}
                         onRefresh={handleRefresh}
                     />
-                    <SeatsCard sub={subscription} onRefresh={handleRefresh} />
-                    <PaymentMethodsCard onRefresh={handleRefresh} />
+                    <SeatsCard sub={subscription} org={org} onRefresh={handleRefresh} />
+                    <PaymentMethodsCard org={org} onRefresh={handleRefresh} />
                     <BillingHistoryCard />
                 </>
             ) : (
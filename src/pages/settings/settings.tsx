@@ -29,6 +29,8 @@ import {
     UtensilsCrossed,
     Cloud,
     User,
+    Bell,
+    Building2,
 } from "lucide-react"
 import { format } from "date-fns"
 import { cn } from "@/lib/utils"
@@ -37,6 +39,11 @@ import Loader1 from "@/components/ui/loader1"
 import { CopyButton } from "@/components/common"
 import { GeneralSettingsCard } from "@/components/settings/GeneralSettingsCard"
 import { APITokensCard } from "@/components/settings/APITokensCard"
+import { ChatNotificationsCard } from "@/components/settings/ChatNotificationsCard"
+import { NotificationPreferencesCard } from "@/components/settings/NotificationPreferencesCard"
+import { OrganizationCard } from "@/components/settings/OrganizationCard"
+import { OrganizationMembersCard } from "@/components/settings/OrganizationMembersCard"
+import { useWorkspaceStore, selectCurrentOrg } from "@/store/workspace"
 
 // ── GitHub Integration card ──────────────────────────────────────────────────
 function GitHubCard() {
@@ -291,6 +298,7 @@ function WebhookCard() {
                         </CardTitle>
                         <CardDescription>
                             Configure one shared webhook secret for your account and trigger automatic syncs on push.
+                            To notify your own systems when docs change, add outbound webhooks from a project's menu.
                         </CardDescription>
                     </div>
                     {webhookSettings && !isLoading && (
@@ -1306,10 +1314,51 @@ function AzureDevOpsCard() {
     )
 }
 
+// ── Organization tab ─────────────────────────────────────────────────────────
+function OrganizationTab() {
+    const org = useWorkspaceStore(selectCurrentOrg)
+    const loaded = useWorkspaceStore((s) => s.loaded)
+
+    if (!loaded) {
+        return (
+            <div className="flex items-center gap-2">
+                <Loader1 className="h-4 w-4" />
+                <span className="text-sm text-muted-foreground">Loading organization...</span>
+            </div>
+        )
+    }
+
+    if (!org) {
+        return (
+            <Card className="shadow-none">
+                <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                        <Building2 className="h-5 w-5" />
+                        Organization
+                    </CardTitle>
+                    <CardDescription>
+                        You're in your personal workspace. Create an organization or switch to one from the workspace menu
+                        next to the logo to share project ownership, members and seats with your team.
+                    </CardDescription>
+                </CardHeader>
+            </Card>
+        )
+    }
+
+    return (
+        <div className="space-y-6">
+            <OrganizationCard org={org} />
+            <OrganizationMembersCard org={org} />
+        </div>
+    )
+}
+
 // ── Tab nav ───────────────────────────────────────────────────────────────────
 const TABS = [
     { id: "general", label: "General", icon: User },
+    { id: "organization", label: "Organization", icon: Building2 },
     { id: "integrations", label: "Integrations", icon: Puzzle },
+    { id: "notifications", label: "Notifications", icon: Bell },
     { id: "billing", label: "Billings", icon: CreditCard },
     { id: "api-tokens", label: "Tokens", icon: KeyRound },
 ] as const
@@ -1380,8 +1429,12 @@ export function SettingsPage() {
                 {/* Tab content */}
                 {activeTab === "general" ? (
                     <GeneralSettingsCard />
+                ) : activeTab === "organization" ? (
+                    <OrganizationTab />
                 ) : activeTab === "api-tokens" ? (
                     <APITokensCard />
+                ) : activeTab === "notifications" ? (
+                    <NotificationPreferencesCard />
                 ) : activeTab === "integrations" ? (
                     <div className="space-y-6">
                         <GitHubCard />
@@ -1391,6 +1444,7 @@ export function SettingsPage() {
                         <GoogleDocsCard initialStatus={googleDocsStatus ?? undefined} />
                         <NotionCard />
                         <WebhookCard />
+                        <ChatNotificationsCard />
                     </div>
                 ) : activeTab === "billing" ? (
                     <BillingTab />
@@ -0,0 +1,47 @@
+/**
+ * api-changelog.ts — Changes between imported versions of a project's spec.
+ *
+ * The server diffs every spec it replaces — imports and syncs from the app,
+ * scheduled auto-syncs and CLI/API imports alike — so the whole team, and
+ * the public portal when published, sees the same history. Imports made
+ * here return their entry, which is added without reloading.
+ */
+import { create } from "zustand";
+import { apiSpecApi, type ApiSpecChangelogEntry } from "@/lib/api";
+
+interface ApiChangelogState {
+  /** projectId → entries, newest first */
+  entries: Record<string, ApiSpecChangelogEntry[]>;
+  loading: boolean;
+  error: string | null;
+
+  load: (projectId: string) => Promise<void>;
+  /** Add an entry returned by an import or sync. */
+  add: (projectId: string, entry: ApiSpecChangelogEntry) => void;
+}
+
+export const useApiChangelogStore = create<ApiChangelogState>((set) => ({
+  entries: {},
+  loading: false,
+  error: null,
+
+  load: async (projectId) => {
+    set({ loading: true, error: null });
+    try {
+      const { entries } = await apiSpecApi.listChangelog(projectId);
+      set((state) => ({ entries: { ...state.entries, [projectId]: entries } }));
+    } catch (err: any) {
+      set({ error: err?.message ?? "Failed to load the changelog." });
+    } finally {
+      set({ loading: false });
+    }
+  },
+
+  add: (projectId, entry) =>
+    set((state) => ({
+      entries: {
+        ...state.entries,
+        [projectId]: [entry, ...(state.entries[projectId] ?? []).filter((e) => e._id !== entry._id)],
+      },
+    })),
+}));
@@ -0,0 +1,219 @@
+/**
+ * collab.ts — Realtime presence and concurrent editing for a project.
+ *
+ * One connection per open project (see lib/collab.ts for the protocol). Each
+ * documentation tab being edited is a TextCrdt replica (lib/crdt.ts) keyed by
+ * the tab key; local edits are turned into ops and broadcast, remote ops are
+ * merged and pushed to the section's subscribers.
+ *
+ * When the collaboration server is unreachable the status stays "offline" and
+ * the editor saves with a version precondition instead (projectsApi.saveEdit).
+ */
+import { create } from "zustand";
+import {
+  connectCollab,
+  type CollabPeer,
+  type CollabPresence,
+  type CollabServerMessage,
+  type CollabTransport,
+  type CollabUser,
+} from "@/lib/collab";
+import { TextCrdt, type CrdtOp } from "@/lib/crdt";
+
+export type CollabStatus = "idle" | "connecting" | "live" | "offline";
+
+const RECONNECT_MS = 15000;
+const SNAPSHOT_TIMEOUT_MS = 3000;
+
+// Connection-scoped state that never needs to trigger a render
+let transport: CollabTransport | null = null;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+const docs = new Map<string, TextCrdt>();
+/** Replicas waiting for their snapshot; they already collect live ops */
+const joining = new Map<string, TextCrdt>();
+const listeners = new Map<string, Set<(text: string) => void>>();
+const snapshotWaits = new Map<string, (ops: CrdtOp[]) => void>();
+
+interface CollabState {
+  status: CollabStatus;
+  room: string | null;
+  user: CollabUser | null;
+  clientId: string | null;
+  /** Other participants, keyed by clientId */
+  peers: Record<string, CollabPeer>;
+  presence: CollabPresence;
+
+  connect: (room: string, user: CollabUser) => Promise<void>;
+  disconnect: () => void;
+  setPresence: (patch: Partial<CollabPresence>) => void;
+
+  /** Join a section's replica; null when realtime is unavailable */
+  openSection: (section: string, savedContent: string) => Promise<TextCrdt | null>;
+  closeSection: (section: string) => void;
+  /** Record a local edit of an open section */
+  editSection: (section: string, text: string) => void;
+  /** Called with the new text whenever remote ops change a section */
+  subscribe: (section: string, listener: (text: string) => void) => () => void;
+}
+
+function notify(section: string, text: string) {
+  listeners.get(section)?.forEach((fn) => fn(text));
+}
+
+export const useCollabStore = create<CollabState>((set, get) => {
+  const handleMessage = (msg: CollabServerMessage) => {
+    switch (msg.type) {
+      case "welcome":
+        set({
+          status: "live",
+          clientId: msg.clientId,
+          peers: Object.fromEntries(msg.peers.map((p) => [p.clientId, p])),
+        });
+        transport?.send({ type: "presence", presence: get().presence });
+        // Re-publish replicas that were open before a reconnect
+        for (const [section, doc] of docs) {
+          transport?.send({ type: "ops", section, ops: doc.snapshot() });
+        }
+        break;
+      case "presence":
+        if (msg.peer.clientId === get().clientId) break;
+        set((s) => ({ peers: { ...s.peers, [msg.peer.clientId]: msg.peer } }));
+        break;
+      case "left":
+        set((s) => {
+          const peers = { ...s.peers };
+          delete peers[msg.clientId];
+          return { peers };
+        });
+        break;
+      case "ops": {
+        const doc = docs.get(msg.section) ?? joining.get(msg.section);
+        if (msg.from === get().clientId || !doc) break;
+        if (doc.apply(msg.ops)) notify(msg.section, doc.text);
+        break;
+      }
+      case "snapshot":
+        snapshotWaits.get(msg.section)?.(msg.ops);
+        break;
+    }
+  };
+
+  const open = async () => {
+    const { room, user } = get();
+    if (!room || !user) return;
+    set({ status: "connecting" });
+    try {
+      const t = await connectCollab(room, {
+        onMessage: handleMessage,
+        onClose: () => {
+          transport = null;
+          set({ status: "offline", peers: {} });
+          scheduleReconnect();
+        },
+        getSnapshot: (section) => docs.get(section)?.snapshot() ?? null,
+      });
+      // Project changed while connecting
+      if (get().room !== room) {
+        t.close();
+        return;
+      }
+      transport = t;
+      t.send({ type: "join", room, user });
+    } catch {
+      set({ status: "offline" });
+      scheduleReconnect();
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      if (get().room && !transport) open();
+    }, RECONNECT_MS);
+  };
+
+  return {
+    status: "idle",
+    room: null,
+    user: null,
+    clientId: null,
+    peers: {},
+    presence: { tab: null, editing: false, cursor: null },
+
+    connect: async (room, user) => {
+      if (get().room === room && get().status !== "idle") return;
+      get().disconnect();
+      set({ room, user });
+      await open();
+    },
+
+    disconnect: () => {
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      transport?.send({ type: "leave" });
+      transport?.close();
+      transport = null;
+      docs.clear();
+      joining.clear();
+      snapshotWaits.clear();
+      set({ status: "idle", room: null, clientId: null, peers: {} });
+    },
+
+    setPresence: (patch) => {
+      const presence = { ...get().presence, ...patch };
+      set({ presence });
+      transport?.send({ type: "presence", presence });
+    },
+
+    openSection: async (section, savedContent) => {
+      const { status, clientId } = get();
+      if (status !== "live" || !transport || !clientId) return null;
+      const existing = docs.get(section);
+      if (existing) return existing;
+
+      const doc = new TextCrdt(clientId);
+      joining.set(section, doc);
+      const ops = await new Promise<CrdtOp[]>((resolve) => {
+        const timer = setTimeout(() => resolve([]), SNAPSHOT_TIMEOUT_MS);
+        snapshotWaits.set(section, (received) => {
+          clearTimeout(timer);
+          resolve(received);
+        });
+        transport!.send({ type: "sync", section });
+      });
+      snapshotWaits.delete(section);
+      joining.delete(section);
+      if (!transport) return null;
+
+      if (ops.length > 0) {
+        doc.apply(ops);
+      } else if (!doc.text) {
+        // Nobody is editing this section yet — start from the saved content
+        const seed = doc.seed(savedContent);
+        if (seed.length > 0) transport.send({ type: "ops", section, ops: seed });
+      }
+      docs.set(section, doc);
+      return doc;
+    },
+
+    closeSection: (section) => {
+      docs.delete(section);
+    },
+
+    editSection: (section, text) => {
+      const doc = docs.get(section);
+      if (!doc) return;
+      const ops = doc.applyText(text);
+      if (ops.length > 0) transport?.send({ type: "ops", section, ops });
+    },
+
+    subscribe: (section, listener) => {
+      if (!listeners.has(section)) listeners.set(section, new Set());
+      listeners.get(section)!.add(listener);
+      return () => {
+        listeners.get(section)?.delete(listener);
+      };
+    },
+  };
+});
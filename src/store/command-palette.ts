@@ -0,0 +1,22 @@
+import { create } from 'zustand'
+
+interface CommandPaletteState {
+  open: boolean
+  /** Query to start with when the palette opens */
+  initialQuery: string
+  openPalette: (query?: string) => void
+  closePalette: () => void
+}
+
+export const useCommandPaletteStore = create<CommandPaletteState>((set) => ({
+  open: false,
+  initialQuery: "",
+
+  openPalette: (query = "") => {
+    set({ open: true, initialQuery: query })
+  },
+
+  closePalette: () => {
+    set({ open: false })
+  },
+}))
@@ -0,0 +1,196 @@
+/**
+ * comments.ts — Review comment threads for documentation sections.
+ *
+ * Backed by the /projects/:id/comments API. Threads are loaded per section
+ * when it is opened; open-thread counts are loaded per project for the
+ * sidebar badges.
+ */
+import { create } from "zustand";
+import {
+  commentsApi,
+  type ApiCommentAnchor,
+  type ApiCommentThread,
+} from "@/lib/api";
+import { anchorChanged, resolveAnchor } from "@/lib/comment-anchors";
+
+// projectId → section → threads
+type Threads = Record<string, Record<string, ApiCommentThread[]>>;
+
+/** Pull `@email` mentions that match a known member out of a comment body. */
+export function parseMentions(body: string, memberEmails: string[]): string[] {
+  const found = new Set<string>();
+  for (const m of body.matchAll(/@([^\s@]+@[^\s@]+\.[^\s@,;:!?)]+)/g)) {
+    const email = m[1].toLowerCase();
+    if (memberEmails.some((e) => e.toLowerCase() === email)) found.add(email);
+  }
+  return [...found];
+}
+
+interface CommentsState {
+  threads: Threads;
+  /** projectId → section → open thread count */
+  counts: Record<string, Record<string, number>>;
+  loading: boolean;
+  error: string | null;
+
+  loadSection: (projectId: string, section: string) => Promise<void>;
+  loadCounts: (projectId: string) => Promise<void>;
+
+  createThread: (
+    projectId: string,
+    section: string,
+    anchor: ApiCommentAnchor,
+    body: string,
+    mentions: string[],
+  ) => Promise<ApiCommentThread | null>;
+  reply: (
+    projectId: string,
+    section: string,
+    threadId: string,
+    body: string,
+    mentions: string[],
+  ) => Promise<void>;
+  setResolved: (
+    projectId: string,
+    section: string,
+    threadId: string,
+    resolved: boolean,
+  ) => Promise<void>;
+  deleteThread: (
+    projectId: string,
+    section: string,
+    threadId: string,
+  ) => Promise<void>;
+
+  /**
+   * Re-resolve every thread of a section against freshly saved content and
+   * persist anchors that moved (quote relocated or heading removed).
+   */
+  reanchorSection: (
+    projectId: string,
+    section: string,
+    content: string,
+  ) => Promise<void>;
+
+  getThreads: (projectId: string, section: string) => ApiCommentThread[];
+}
+
+function countOpen(threads: ApiCommentThread[]): number {
+  return threads.filter((t) => !t.resolved).length;
+}
+
+export const useCommentsStore = create<CommentsState>((set, get) => {
+  /** Replace the thread list of one section and keep its count in sync. */
+  const setSectionThreads = (
+    projectId: string,
+    section: string,
+    update: (threads: ApiCommentThread[]) => ApiCommentThread[],
+  ) => {
+    set((state) => {
+      const next = update(state.threads[projectId]?.[section] ?? []);
+      return {
+        threads: {
+          ...state.threads,
+          [projectId]: { ...(state.threads[projectId] ?? {}), [section]: next },
+        },
+        counts: {
+          ...state.counts,
+          [projectId]: { ...(state.counts[projectId] ?? {}), [section]: countOpen(next) },
+        },
+      };
+    });
+  };
+
+  const replaceThread = (projectId: string, section: string, thread: ApiCommentThread) =>
+    setSectionThreads(projectId, section, (threads) =>
+      threads.map((t) => (t._id === thread._id ? thread : t)),
+    );
+
+  return {
+    threads: {},
+    counts: {},
+    loading: false,
+    error: null,
+
+    loadSection: async (projectId, section) => {
+      set({ loading: true, error: null });
+      try {
+        const { threads } = await commentsApi.list(projectId, section);
+        setSectionThreads(projectId, section, () => threads);
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to load comments." });
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    loadCounts: async (projectId) => {
+      try {
+        const { counts } = await commentsApi.counts(projectId);
+        set((state) => ({ counts: { ...state.counts, [projectId]: counts } }));
+      } catch {
+        // Counts are decorative — ignore failures
+      }
+    },
+
+    createThread: async (projectId, section, anchor, body, mentions) => {
+      try {
+        const { thread } = await commentsApi.create(projectId, section, { anchor, body, mentions });
+        setSectionThreads(projectId, section, (threads) => [...threads, thread]);
+        return thread;
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to add comment." });
+        return null;
+      }
+    },
+
+    reply: async (projectId, section, threadId, body, mentions) => {
+      try {
+        const { thread } = await commentsApi.reply(projectId, threadId, { body, mentions });
+        replaceThread(projectId, section, thread);
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to send reply." });
+      }
+    },
+
+    setResolved: async (projectId, section, threadId, resolved) => {
+      const previous = get().getThreads(projectId, section).find((t) => t._id === threadId);
+      if (!previous) return;
+      // Optimistic toggle
+      replaceThread(projectId, section, { ...previous, resolved });
+      try {
+        const { thread } = await commentsApi.update(projectId, threadId, { resolved });
+        replaceThread(projectId, section, thread);
+      } catch (err: any) {
+        replaceThread(projectId, section, previous);
+        set({ error: err?.message ?? "Failed to update comment." });
+      }
+    },
+
+    deleteThread: async (projectId, section, threadId) => {
+      try {
+        await commentsApi.delete(projectId, threadId);
+        setSectionThreads(projectId, section, (threads) => threads.filter((t) => t._id !== threadId));
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to delete comment." });
+      }
+    },
+
+    reanchorSection: async (projectId, section, content) => {
+      const moved = get()
+        .getThreads(projectId, section)
+        .map((t) => ({ thread: t, next: resolveAnchor(content, t.anchor).anchor }))
+        .filter(({ thread, next }) => anchorChanged(thread.anchor, next));
+
+      await Promise.allSettled(
+        moved.map(async ({ thread, next }) => {
+          replaceThread(projectId, section, { ...thread, anchor: next });
+          const r = await commentsApi.update(projectId, thread._id, { anchor: next });
+          replaceThread(projectId, section, r.thread);
+        }),
+      );
+    },
+
+    getThreads: (projectId, section) => get().threads[projectId]?.[section] ?? [],
+  };
+});
@@ -1,37 +1,33 @@
 /**
- * doc-tracker.ts — Per-project documentation status tracker.
+ * doc-tracker.ts — Per-project documentation review workflow.
  *
- * Persisted to localStorage via zustand/middleware.
- * Tracks a status, optional assignee, optional due date, and an audit log
- * for each (projectId, sectionKey) pair.
+ * Backed by the /projects/:id/reviews API so every collaborator sees the same
+ * status, assignee, due date and audit log for each (projectId, sectionKey)
+ * pair. Mutations are applied optimistically and rolled back on failure.
  *
- * TODO: Replace localStorage persistence with real API calls when a backend
- * endpoint becomes available.
+ * Older builds kept this data in localStorage only ("docnine-doc-tracker").
+ * Those entries are imported to the server the first time a project is
+ * loaded and then removed from the browser.
  */
 import { create } from "zustand";
-import { persist } from "zustand/middleware";
+import {
+  reviewApi,
+  sharingApi,
+  type ApiReviewLogEntry,
+  type ApiSectionReview,
+  type ApiShare,
+  type ReviewStatus,
+} from "@/lib/api";
 
 // ── Types ────────────────────────────────────────────────────────────────────
 
-export type DocStatus =
-  | "draft"
-  | "in_review"
-  | "changes_requested"
-  | "approved"
-  | "published"
-  | "outdated"
-  | "archived";
+export type DocStatus = ReviewStatus;
 
-export interface DocStatusLogEntry {
-  status: DocStatus;
-  changedAt: string; // ISO
-  changedBy?: string; // display name or email
-  note?: string;
-}
+export type DocStatusLogEntry = ApiReviewLogEntry;
 
 export interface DocSectionTrack {
   status: DocStatus;
-  assignee?: string; // display name or email string
+  assignee?: string; // invitee email
   dueDate?: string; // ISO date (date-only part, e.g. "2025-07-01")
   log: DocStatusLogEntry[];
 }
@@ -44,10 +40,79 @@ const DEFAULT_SECTION: DocSectionTrack = {
   log: [],
 };
 
+const LOG_LIMIT = 30;
+
+// ── Legacy localStorage migration ────────────────────────────────────────────
+
+const LEGACY_STORAGE_KEY = "docnine-doc-tracker";
+
+function readLegacyEntries(): Entries {
+  try {
+    const raw = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (!raw) return {};
+    return (JSON.parse(raw)?.state?.entries as Entries) ?? {};
+  } catch {
+    return {};
+  }
+}
+
+/** Drop one project's entries from the legacy blob; remove the key once empty. */
+function clearLegacyProject(projectId: string) {
+  try {
+    const entries = readLegacyEntries();
+    delete entries[projectId];
+    if (Object.keys(entries).length === 0) {
+      localStorage.removeItem(LEGACY_STORAGE_KEY);
+    } else {
+      localStorage.setItem(
+        LEGACY_STORAGE_KEY,
+        JSON.stringify({ state: { entries }, version: 0 }),
+      );
+    }
+  } catch {
+    /* storage unavailable — nothing to clean up */
+  }
+}
+
+function fromApiReview(r: ApiSectionReview): DocSectionTrack {
+  return {
+    status: r.status,
+    assignee: r.assignee ?? undefined,
+    dueDate: r.dueDate ?? undefined,
+    log: r.log ?? [],
+  };
+}
+
+function groupByProject(reviews: ApiSectionReview[]): Entries {
+  const grouped: Entries = {};
+  for (const r of reviews) {
+    (grouped[r.projectId] ??= {})[r.section] = fromApiReview(r);
+  }
+  return grouped;
+}
+
 // ── Store interface ──────────────────────────────────────────────────────────
 
 interface DocTrackerState {
   entries: Entries;
+  /** Project IDs whose review state has been fetched at least once. */
+  loaded: Record<string, boolean>;
+  /** Project members eligible for assignment, keyed by projectId. */
+  members: Record<string, ApiShare[]>;
+  membersLoading: Record<string, boolean>;
+  error: string | null;
+
+  /**
+   * Fetch the review state of one project, migrating any legacy localStorage
+   * entries first. Pass `force` to refetch (e.g. to pick up teammates' changes).
+   */
+  loadProject: (projectId: string, force?: boolean) => Promise<void>;
+
+  /** Fetch review states for many projects in one request (dashboard). */
+  loadProjects: (projectIds: string[]) => Promise<void>;
+
+  /** Fetch the accepted members of a project (owner only — empty otherwise). */
+  loadMembers: (projectId: string) => Promise<void>;
 
   /** Change the status of a section and append an audit log entry. */
   setStatus: (
@@ -56,21 +121,21 @@ interface DocTrackerState {
     status: DocStatus,
     changedBy?: string,
     note?: string,
-  ) => void;
+  ) => Promise<void>;
 
   /** Update the assignee for a section. */
   setAssignee: (
     projectId: string,
     section: string,
     assignee: string | undefined,
-  ) => void;
+  ) => Promise<void>;
 
   /** Update the due date for a section (ISO date string or undefined to clear). */
   setDueDate: (
     projectId: string,
     section: string,
     dueDate: string | undefined,
-  ) => void;
+  ) => Promise<void>;
 
   /** Get the tracker entry for one section, or undefined if never set. */
   getEntry: (projectId: string, section: string) => DocSectionTrack | undefined;
@@ -84,98 +149,201 @@ interface DocTrackerState {
 
 // ── Store implementation ─────────────────────────────────────────────────────
 
-export const useDocTrackerStore = create<DocTrackerState>()(
-  persist(
-    (set, get) => ({
-      entries: {},
+export const useDocTrackerStore = create<DocTrackerState>()((set, get) => {
+  /** Replace one section entry locally and return the previous value. */
+  const patchEntry = (
+    projectId: string,
+    section: string,
+    update: (existing: DocSectionTrack) => DocSectionTrack,
+  ): DocSectionTrack | undefined => {
+    const previous = get().entries[projectId]?.[section];
+    set((state) => {
+      const projectEntries = state.entries[projectId] ?? {};
+      const existing = projectEntries[section] ?? { ...DEFAULT_SECTION };
+      return {
+        entries: {
+          ...state.entries,
+          [projectId]: { ...projectEntries, [section]: update(existing) },
+        },
+      };
+    });
+    return previous;
+  };
+
+  /** Restore a section entry after a failed optimistic update. */
+  const rollback = (
+    projectId: string,
+    section: string,
+    previous: DocSectionTrack | undefined,
+    err: any,
+  ) => {
+    set((state) => {
+      const projectEntries = { ...(state.entries[projectId] ?? {}) };
+      if (previous) projectEntries[section] = previous;
+      else delete projectEntries[section];
+      return {
+        entries: { ...state.entries, [projectId]: projectEntries },
+        error: err?.message ?? "Failed to update review status.",
+      };
+    });
+  };
 
-      setStatus: (projectId, section, status, changedBy, note) => {
-        const now = new Date().toISOString();
+  const applyServerReview = (review: ApiSectionReview) => {
+    patchEntry(review.projectId, review.section, () => fromApiReview(review));
+  };
+
+  return {
+    entries: {},
+    loaded: {},
+    members: {},
+    membersLoading: {},
+    error: null,
+
+    loadProject: async (projectId, force = false) => {
+      if (get().loaded[projectId] && !force) return;
+      try {
+        const legacy = readLegacyEntries()[projectId];
+        if (legacy && Object.keys(legacy).length > 0) {
+          await reviewApi.importLegacy(
+            projectId,
+            Object.entries(legacy).map(([section, track]) => ({
+              section,
+              status: track.status,
+              assignee: track.assignee ?? null,
+              dueDate: track.dueDate ?? null,
+              log: track.log ?? [],
+            })),
+          );
+          clearLegacyProject(projectId);
+        }
+
+        const { reviews } = await reviewApi.list(projectId);
+        set((state) => ({
+          entries: {
+            ...state.entries,
+            [projectId]: groupByProject(reviews)[projectId] ?? {},
+          },
+          loaded: { ...state.loaded, [projectId]: true },
+          error: null,
+        }));
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to load review status." });
+      }
+    },
+
+    loadProjects: async (projectIds) => {
+      if (projectIds.length === 0) return;
+      try {
+        const { reviews } = await reviewApi.listMany(projectIds);
+        const grouped = groupByProject(reviews);
         set((state) => {
-          const projectEntries = state.entries[projectId] ?? {};
-          const existing: DocSectionTrack = projectEntries[section] ?? {
-            ...DEFAULT_SECTION,
-          };
-          const logEntry: DocStatusLogEntry = {
-            status,
-            changedAt: now,
-            changedBy,
-            note,
-          };
-          return {
-            entries: {
-              ...state.entries,
-              [projectId]: {
-                ...projectEntries,
-                [section]: {
-                  ...existing,
-                  status,
-                  log: [logEntry, ...existing.log].slice(0, 30), // keep last 30
-                },
-              },
-            },
-          };
+          const entries = { ...state.entries };
+          const loaded = { ...state.loaded };
+          for (const pid of projectIds) {
+            entries[pid] = grouped[pid] ?? {};
+            loaded[pid] = true;
+          }
+          return { entries, loaded, error: null };
         });
-      },
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to load review status." });
+      }
+    },
 
-      setAssignee: (projectId, section, assignee) => {
-        set((state) => {
-          const projectEntries = state.entries[projectId] ?? {};
-          const existing: DocSectionTrack = projectEntries[section] ?? {
-            ...DEFAULT_SECTION,
-          };
-          return {
-            entries: {
-              ...state.entries,
-              [projectId]: {
-                ...projectEntries,
-                [section]: { ...existing, assignee },
-              },
-            },
-          };
+    loadMembers: async (projectId) => {
+      if (get().members[projectId] || get().membersLoading[projectId]) return;
+      set((state) => ({
+        membersLoading: { ...state.membersLoading, [projectId]: true },
+      }));
+      try {
+        const { shares } = await sharingApi.listAccess(projectId);
+        set((state) => ({
+          members: {
+            ...state.members,
+            [projectId]: shares.filter((s) => s.status === "accepted"),
+          },
+        }));
+      } catch {
+        // Non-owners cannot list access — leave the member list empty.
+        set((state) => ({ members: { ...state.members, [projectId]: [] } }));
+      } finally {
+        set((state) => ({
+          membersLoading: { ...state.membersLoading, [projectId]: false },
+        }));
+      }
+    },
+
+    setStatus: async (projectId, section, status, changedBy, note) => {
+      const logEntry: DocStatusLogEntry = {
+        status,
+        changedAt: new Date().toISOString(),
+        changedBy,
+        note,
+      };
+      const previous = patchEntry(projectId, section, (existing) => ({
+        ...existing,
+        status,
+        log: [logEntry, ...existing.log].slice(0, LOG_LIMIT),
+      }));
+      try {
+        const { review } = await reviewApi.setStatus(projectId, section, {
+          status,
+          note,
+        });
+        applyServerReview(review);
+      } catch (err) {
+        rollback(projectId, section, previous, err);
+      }
+    },
+
+    setAssignee: async (projectId, section, assignee) => {
+      const previous = patchEntry(projectId, section, (existing) => ({
+        ...existing,
+        assignee,
+      }));
+      try {
+        const { review } = await reviewApi.update(projectId, section, {
+          assignee: assignee ?? null,
         });
-      },
+        applyServerReview(review);
+      } catch (err) {
+        rollback(projectId, section, previous, err);
+      }
+    },
 
-      setDueDate: (projectId, section, dueDate) => {
-        set((state) => {
-          const projectEntries = state.entries[projectId] ?? {};
-          const existing: DocSectionTrack = projectEntries[section] ?? {
-            ...DEFAULT_SECTION,
-          };
-          return {
-            entries: {
-              ...state.entries,
-              [projectId]: {
-                ...projectEntries,
-                [section]: { ...existing, dueDate },
-              },
-            },
-          };
+    setDueDate: async (projectId, section, dueDate) => {
+      const previous = patchEntry(projectId, section, (existing) => ({
+        ...existing,
+        dueDate,
+      }));
+      try {
+        const { review } = await reviewApi.update(projectId, section, {
+          dueDate: dueDate ?? null,
         });
-      },
-
-      getEntry: (projectId, section) => {
-        return get().entries[projectId]?.[section];
-      },
-
-      getProjectSummary: (projectId) => {
-        return get().entries[projectId] ?? {};
-      },
-
-      isOverdue: (projectId, section) => {
-        const entry = get().entries[projectId]?.[section];
-        if (!entry?.dueDate) return false;
-        const nonOverdueStatuses: DocStatus[] = [
-          "approved",
-          "published",
-          "archived",
-        ];
-        if (nonOverdueStatuses.includes(entry.status)) return false;
-        return new Date(entry.dueDate) < new Date();
-      },
-    }),
-    {
-      name: "docnine-doc-tracker",
+        applyServerReview(review);
+      } catch (err) {
+        rollback(projectId, section, previous, err);
+      }
+    },
+
+    getEntry: (projectId, section) => {
+      return get().entries[projectId]?.[section];
+    },
+
+    getProjectSummary: (projectId) => {
+      return get().entries[projectId] ?? {};
+    },
+
+    isOverdue: (projectId, section) => {
+      const entry = get().entries[projectId]?.[section];
+      if (!entry?.dueDate) return false;
+      const nonOverdueStatuses: DocStatus[] = [
+        "approved",
+        "published",
+        "archived",
+      ];
+      if (nonOverdueStatuses.includes(entry.status)) return false;
+      return new Date(entry.dueDate) < new Date();
     },
-  ),
-);
+  };
+});
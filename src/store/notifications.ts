@@ -0,0 +1,188 @@
+/**
+ * notifications.ts — In-app notification inbox (bell + live delivery).
+ *
+ * Backed by the /notifications API. The dashboard layout opens one SSE
+ * stream per session; new notifications are prepended to `recent` and the
+ * unread count is kept in sync across tabs by the server's "unread" events.
+ * A dropped stream reconnects with the current access token, refreshing it
+ * first when the server answers 401, and reloads `recent` once it is back.
+ */
+import { create } from "zustand";
+import { fetchEventSource } from "@microsoft/fetch-event-source";
+import {
+  getAccessToken,
+  notificationsApi,
+  refreshToken,
+  type ApiNotification,
+} from "@/lib/api";
+
+/** How many notifications the bell dropdown keeps. */
+const RECENT_LIMIT = 10;
+
+/** Wait before reconnecting a dropped stream. */
+const RETRY_MS = 3000;
+
+type ConnectionState = "idle" | "connecting" | "connected" | "reconnecting";
+
+/** Thrown from the SSE callbacks when retrying won't help (e.g. 403). */
+class StreamClosedError extends Error {}
+
+/** The access token expired; refresh it and reconnect. */
+class StreamUnauthorizedError extends Error {}
+
+interface NotificationsState {
+  recent: ApiNotification[];
+  unreadCount: number;
+  connection: ConnectionState;
+  error: string | null;
+
+  loadRecent: () => Promise<void>;
+  markRead: (ids: string[], read?: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+
+  /** Open the live stream (no-op when already open). */
+  connect: () => void;
+  disconnect: () => void;
+}
+
+let controller: AbortController | null = null;
+
+export const useNotificationsStore = create<NotificationsState>((set, get) => ({
+  recent: [],
+  unreadCount: 0,
+  connection: "idle",
+  error: null,
+
+  loadRecent: async () => {
+    try {
+      const { notifications, unreadCount } = await notificationsApi.list({ limit: RECENT_LIMIT });
+      set({ recent: notifications, unreadCount, error: null });
+    } catch (err: any) {
+      set({ error: err?.message ?? "Failed to load notifications." });
+    }
+  },
+
+  markRead: async (ids, read = true) => {
+    if (!ids.length) return;
+    const previous = get().recent;
+    set({ recent: previous.map((n) => (ids.includes(n._id) ? { ...n, read } : n)) });
+    try {
+      const { unreadCount } = await notificationsApi.markRead(ids, read);
+      set({ unreadCount });
+    } catch (err: any) {
+      set({ recent: previous, error: err?.message ?? "Failed to update notifications." });
+    }
+  },
+
+  markAllRead: async () => {
+    const previous = get().recent;
+    set({ recent: previous.map((n) => ({ ...n, read: true })) });
+    try {
+      const { unreadCount } = await notificationsApi.markAllRead();
+      set({ unreadCount });
+    } catch (err: any) {
+      set({ recent: previous, error: err?.message ?? "Failed to update notifications." });
+    }
+  },
+
+  connect: () => {
+    if (controller) return;
+    const ctrl = new AbortController();
+    controller = ctrl;
+    set({ connection: "connecting" });
+    get().loadRecent();
+
+    // One refresh per expiry; a second 401 straight after means the session is gone
+    let refreshed = false;
+    let opened = false;
+    const handlers = {
+      signal: ctrl.signal,
+      credentials: "include" as const,
+      // Keep the stream open in background tabs so the badge stays current
+      openWhenHidden: true,
+
+      onopen: async (res: Response) => {
+        if (res.ok) {
+          refreshed = false;
+          // Catch up on whatever arrived while the stream was down
+          if (opened) get().loadRecent();
+          opened = true;
+          set({ connection: "connected", error: null });
+          return;
+        }
+        if (res.status === 401) throw new StreamUnauthorizedError();
+        // Permission failures won't fix themselves by retrying
+        if (res.status >= 400 && res.status < 500) throw new StreamClosedError(`HTTP ${res.status}`);
+        throw new Error(`HTTP ${res.status}`);
+      },
+
+      onmessage: (ev: { data?: string }) => {
+        try {
+          const data = JSON.parse(ev.data ?? "{}");
+          if (data.type === "notification" && data.notification) {
+            const notification = data.notification as ApiNotification;
+            set((state) => state.recent.some((n) => n._id === notification._id)
+              ? state
+              : {
+                recent: [notification, ...state.recent].slice(0, RECENT_LIMIT),
+                unreadCount: state.unreadCount + (notification.read ? 0 : 1),
+              });
+          } else if (data.type === "unread" && typeof data.unreadCount === "number") {
+            set({ unreadCount: data.unreadCount });
+          }
+        } catch {
+          // Malformed JSON — ignore
+        }
+      },
+
+      // Every failure comes back to the loop below, which reconnects with the current token
+      onerror: (err: unknown) => {
+        throw err;
+      },
+    };
+
+    (async () => {
+      try {
+        while (!ctrl.signal.aborted) {
+          try {
+            const token = getAccessToken();
+            await fetchEventSource(notificationsApi.streamUrl(), {
+              ...handlers,
+              headers: { Authorization: token ? `Bearer ${token}` : "" },
+            });
+            // The server ended the stream; reconnect below
+          } catch (err) {
+            if (ctrl.signal.aborted || err instanceof StreamClosedError) throw err;
+            if (err instanceof StreamUnauthorizedError) {
+              if (!refreshed && (await refreshToken())) {
+                refreshed = true;
+                continue;
+              }
+              throw new StreamClosedError("Your session expired");
+            }
+          }
+          if (ctrl.signal.aborted) break;
+          set({ connection: "reconnecting" });
+          await new Promise((resolve) => setTimeout(resolve, RETRY_MS));
+        }
+      } catch (err) {
+        // Closed for good; the bell still works from loadRecent
+        if (!ctrl.signal.aborted) {
+          const reason = err instanceof Error && err.message ? err.message : "connection lost";
+          set({ error: `Live notifications stopped (${reason}). Reload the page to reconnect.` });
+        }
+      } finally {
+        if (controller === ctrl) {
+          controller = null;
+          set({ connection: "idle" });
+        }
+      }
+    })();
+  },
+
+  disconnect: () => {
+    controller?.abort();
+    controller = null;
+    set({ connection: "idle", recent: [], unreadCount: 0 });
+  },
+}));
@@ -5,7 +5,7 @@
  * We map those to the UI status terms (analyzing/completed/failed/archived).
  */
 import { create } from "zustand";
-import { projectsApi, sharingApi, ApiProject, ApiProjectStatus, ApiSharedProject } from "@/lib/api";
+import { projectsApi, sharingApi, ApiProject, ApiProjectStatus, ApiSharedProject, type ProjectPermissions } from "@/lib/api";
 
 // ── Status mapping ────────────────────────────────────────────────────────────
 
@@ -38,6 +38,8 @@ export interface Project {
   createdAt: string;
   updatedAt: string;
   shareRole: 'owner' | 'editor' | 'viewer'; // access level
+  orgId?: string | null; // owning organization, null for personal projects
+  permissions?: ProjectPermissions; // custom-role access; absent means the share role's defaults
   // Documentation fields (populated after a successful pipeline run)
   readme?: string;
   apiReference?: string;
@@ -58,6 +60,7 @@ export function fromApiProject(p: ApiProject, shareRole: 'owner' | 'editor' | 'v
     createdAt: p.createdAt,
     updatedAt: p.updatedAt,
     shareRole,
+    orgId: p.orgId ?? null,
     readme: p.output?.readme,
     apiReference: p.output?.apiReference,
     schemaDocs: p.output?.schemaDocs,
@@ -127,6 +130,7 @@ interface ProjectState {
     effectiveOutput: any;
     lastSyncedCommit: string;
     shareRole: 'owner' | 'editor' | 'viewer';
+    permissions?: ProjectPermissions;
   }>;
 
   /** Update a project in the local cache (e.g. after SSE stream completes). */
@@ -204,7 +208,7 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
 
   getProject: async (id) => {
     const data = await projectsApi.get(id);
-    const project = fromApiProject(data.project, data.shareRole ?? 'owner');
+    const project = { ...fromApiProject(data.project, data.shareRole ?? 'owner'), permissions: data.permissions };
 
     // Update cache
     set((state) => {
@@ -230,12 +234,14 @@ export const useProjectStore = create<ProjectState>((set, get) => ({
       effectiveOutput: data.effectiveOutput,
       lastSyncedCommit: data.lastSyncedCommit,
       shareRole: data.shareRole ?? 'owner',
+      permissions: data.permissions,
     } as {
       project: ApiProject;
       editedSections: any;
       effectiveOutput: any;
       lastSyncedCommit: string;
       shareRole: 'owner' | 'editor' | 'viewer';
+      permissions?: ProjectPermissions;
     };
   },
 
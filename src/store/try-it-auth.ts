@@ -0,0 +1,48 @@
+/**
+ * try-it-auth.ts — Try-It console credentials per project.
+ *
+ * Shared by the Authorize panel and the console; mirrored to sessionStorage
+ * (lib/try-it-auth.ts) so they survive a reload but not the browser session.
+ */
+import { create } from "zustand";
+import {
+  loadCredentials,
+  saveCredentials,
+  type ProjectCredentials,
+  type SchemeCredential,
+} from "@/lib/try-it-auth";
+
+interface TryItAuthState {
+  /** projectId → scheme name → credential */
+  credentials: Record<string, ProjectCredentials>;
+
+  /** Read a project's credentials from sessionStorage (once). */
+  load: (projectId: string) => ProjectCredentials;
+  setCredential: (projectId: string, scheme: string, cred: SchemeCredential | null) => void;
+  clear: (projectId: string) => void;
+}
+
+export const useTryItAuthStore = create<TryItAuthState>((set, get) => ({
+  credentials: {},
+
+  load: (projectId) => {
+    const existing = get().credentials[projectId];
+    if (existing) return existing;
+    const creds = loadCredentials(projectId);
+    set((s) => ({ credentials: { ...s.credentials, [projectId]: creds } }));
+    return creds;
+  },
+
+  setCredential: (projectId, scheme, cred) => {
+    const next = { ...get().load(projectId) };
+    if (cred) next[scheme] = cred;
+    else delete next[scheme];
+    saveCredentials(projectId, next);
+    set((s) => ({ credentials: { ...s.credentials, [projectId]: next } }));
+  },
+
+  clear: (projectId) => {
+    saveCredentials(projectId, {});
+    set((s) => ({ credentials: { ...s.credentials, [projectId]: {} } }));
+  },
+}));
@@ -0,0 +1,122 @@
+/**
+ * try-it-environments.ts — Named Try-It environments per project.
+ *
+ * Environments are shared with the project's team (environmentsApi); which
+ * one is active is a per-browser choice kept in localStorage. The console can
+ * also target one of the spec's own servers instead.
+ */
+import { create } from "zustand";
+import { environmentsApi, type ApiEnvironment, type ApiEnvironmentInput } from "@/lib/api";
+import { parsePostmanEnvironment } from "@/lib/environments";
+
+export type EnvSelection = { kind: "server"; index: number } | { kind: "env"; id: string };
+
+const DEFAULT_SELECTION: EnvSelection = { kind: "server", index: 0 };
+const selectionKey = (projectId: string) => `docnine:try-it-env:${projectId}`;
+
+function readSelection(projectId: string): EnvSelection {
+  try {
+    const raw = localStorage.getItem(selectionKey(projectId));
+    return raw ? (JSON.parse(raw) as EnvSelection) : DEFAULT_SELECTION;
+  } catch {
+    return DEFAULT_SELECTION;
+  }
+}
+
+function writeSelection(projectId: string, selection: EnvSelection) {
+  try {
+    localStorage.setItem(selectionKey(projectId), JSON.stringify(selection));
+  } catch {
+    /* ignore */
+  }
+}
+
+interface EnvironmentsState {
+  /** projectId → environments */
+  environments: Record<string, ApiEnvironment[]>;
+  /** projectId → active server or environment */
+  selection: Record<string, EnvSelection>;
+  loading: boolean;
+  error: string | null;
+
+  load: (projectId: string) => Promise<void>;
+  select: (projectId: string, selection: EnvSelection) => void;
+  /** Create, or update when `envId` is given. */
+  save: (projectId: string, data: ApiEnvironmentInput, envId?: string) => Promise<ApiEnvironment | null>;
+  remove: (projectId: string, envId: string) => Promise<void>;
+  /** Create an environment from a Postman environment export; throws on bad input. */
+  importPostman: (projectId: string, raw: string) => Promise<ApiEnvironment | null>;
+}
+
+export const useEnvironmentsStore = create<EnvironmentsState>((set, get) => {
+  const setProjectEnvs = (projectId: string, update: (envs: ApiEnvironment[]) => ApiEnvironment[]) =>
+    set((state) => ({
+      environments: { ...state.environments, [projectId]: update(state.environments[projectId] ?? []) },
+    }));
+
+  return {
+    environments: {},
+    selection: {},
+    loading: false,
+    error: null,
+
+    load: async (projectId) => {
+      if (!get().selection[projectId]) {
+        set((state) => ({ selection: { ...state.selection, [projectId]: readSelection(projectId) } }));
+      }
+      set({ loading: true, error: null });
+      try {
+        const { environments } = await environmentsApi.list(projectId);
+        setProjectEnvs(projectId, () => environments);
+        // Fall back to the spec server when the stored environment is gone
+        const current = get().selection[projectId];
+        if (current?.kind === "env" && !environments.some((e) => e._id === current.id)) {
+          get().select(projectId, DEFAULT_SELECTION);
+        }
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to load environments." });
+      } finally {
+        set({ loading: false });
+      }
+    },
+
+    select: (projectId, selection) => {
+      writeSelection(projectId, selection);
+      set((state) => ({ selection: { ...state.selection, [projectId]: selection } }));
+    },
+
+    save: async (projectId, data, envId) => {
+      set({ error: null });
+      try {
+        if (envId) {
+          const { environment } = await environmentsApi.update(projectId, envId, data);
+          setProjectEnvs(projectId, (envs) => envs.map((e) => (e._id === envId ? environment : e)));
+          return environment;
+        }
+        const { environment } = await environmentsApi.create(projectId, data);
+        setProjectEnvs(projectId, (envs) => [...envs, environment]);
+        return environment;
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to save environment." });
+        return null;
+      }
+    },
+
+    remove: async (projectId, envId) => {
+      set({ error: null });
+      try {
+        await environmentsApi.delete(projectId, envId);
+        setProjectEnvs(projectId, (envs) => envs.filter((e) => e._id !== envId));
+        const current = get().selection[projectId];
+        if (current?.kind === "env" && current.id === envId) get().select(projectId, DEFAULT_SELECTION);
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to delete environment." });
+      }
+    },
+
+    importPostman: async (projectId, raw) => {
+      const data = parsePostmanEnvironment(raw);
+      return get().save(projectId, data);
+    },
+  };
+});
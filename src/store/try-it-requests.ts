@@ -0,0 +1,180 @@
+/**
+ * try-it-requests.ts — What the Try-It console has sent.
+ *
+ * History is personal: the last requests per endpoint with their results,
+ * kept in localStorage. Credentials are never part of it — the console strips
+ * typed-in credential fields before recording, cookies and auth challenges are
+ * dropped from stored responses, and a replay applies the current credentials
+ * again.
+ *
+ * Saved examples are shared with the team through apiSpecApi and shown on
+ * the endpoint's reference page.
+ *
+ * Drafts are the console's current, unsent fields — in memory only — so the
+ * reference page's code snippets can follow what is being edited.
+ */
+import { create } from "zustand";
+import { apiSpecApi, type ApiSavedExample, type TryItResult } from "@/lib/api";
+import type { ValidationReport } from "@/lib/contract";
+import { stripResponseCredentials } from "@/lib/try-it-auth";
+
+const MAX_HISTORY = 20;
+/** Response bodies above this are truncated before being stored */
+const MAX_STORED_BODY = 64 * 1024;
+
+export interface TryItInputs {
+  pathValues: Record<string, string>;
+  queryPairs: { key: string; value: string }[];
+  headerPairs: { key: string; value: string }[];
+  bodyText: string;
+  contentType: string;
+}
+
+export interface TryItHistoryEntry {
+  id: string;
+  sentAt: number;
+  durationMs: number;
+  /** Server or environment the request went to */
+  target: string;
+  url: string;
+  inputs: TryItInputs;
+  result: TryItResult | null;
+  error: string | null;
+  /** The response checked against the spec when it arrived */
+  validation?: ValidationReport | null;
+}
+
+// endpointId → newest-first entries
+type EndpointHistory = Record<string, TryItHistoryEntry[]>;
+
+const historyKey = (projectId: string) => `docnine:try-it-history:${projectId}`;
+
+function readHistory(projectId: string): EndpointHistory {
+  try {
+    const raw = localStorage.getItem(historyKey(projectId));
+    return raw ? (JSON.parse(raw) as EndpointHistory) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeHistory(projectId: string, history: EndpointHistory) {
+  try {
+    localStorage.setItem(historyKey(projectId), JSON.stringify(history));
+  } catch {
+    /* quota exceeded — history stays in memory for this page */
+  }
+}
+
+function storedResult(result: TryItResult | null): TryItResult | null {
+  if (!result) return null;
+  const stripped = stripResponseCredentials(result);
+  if (stripped.body.length <= MAX_STORED_BODY) return stripped;
+  return { ...stripped, body: `${stripped.body.slice(0, MAX_STORED_BODY)}\n… (truncated)` };
+}
+
+interface TryItRequestsState {
+  /** projectId → endpointId → entries */
+  history: Record<string, EndpointHistory>;
+  /** projectId → saved examples of every endpoint */
+  examples: Record<string, ApiSavedExample[]>;
+  /** projectId → endpointId → the console's current fields */
+  drafts: Record<string, Record<string, TryItInputs>>;
+  error: string | null;
+
+  loadHistory: (projectId: string) => void;
+  record: (projectId: string, endpointId: string, entry: Omit<TryItHistoryEntry, "id">) => void;
+  clearHistory: (projectId: string, endpointId: string) => void;
+  setDraft: (projectId: string, endpointId: string, inputs: TryItInputs) => void;
+
+  loadExamples: (projectId: string) => Promise<void>;
+  saveExample: (
+    projectId: string,
+    data: Pick<ApiSavedExample, "endpointId" | "name" | "request" | "response">,
+  ) => Promise<ApiSavedExample | null>;
+  deleteExample: (projectId: string, exampleId: string) => Promise<void>;
+}
+
+export const useTryItRequestsStore = create<TryItRequestsState>((set, get) => {
+  const updateHistory = (projectId: string, update: (h: EndpointHistory) => EndpointHistory) => {
+    const next = update(get().history[projectId] ?? readHistory(projectId));
+    writeHistory(projectId, next);
+    set((state) => ({ history: { ...state.history, [projectId]: next } }));
+  };
+
+  return {
+    history: {},
+    examples: {},
+    drafts: {},
+    error: null,
+
+    loadHistory: (projectId) => {
+      if (get().history[projectId]) return;
+      set((state) => ({ history: { ...state.history, [projectId]: readHistory(projectId) } }));
+    },
+
+    record: (projectId, endpointId, entry) => {
+      const stored: TryItHistoryEntry = {
+        ...entry,
+        id: `${entry.sentAt}-${Math.random().toString(36).slice(2, 8)}`,
+        result: storedResult(entry.result),
+      };
+      updateHistory(projectId, (h) => ({
+        ...h,
+        [endpointId]: [stored, ...(h[endpointId] ?? [])].slice(0, MAX_HISTORY),
+      }));
+    },
+
+    clearHistory: (projectId, endpointId) => {
+      updateHistory(projectId, (h) => {
+        const next = { ...h };
+        delete next[endpointId];
+        return next;
+      });
+    },
+
+    setDraft: (projectId, endpointId, inputs) => {
+      set((state) => ({
+        drafts: { ...state.drafts, [projectId]: { ...state.drafts[projectId], [endpointId]: inputs } },
+      }));
+    },
+
+    loadExamples: async (projectId) => {
+      try {
+        const { examples } = await apiSpecApi.listExamples(projectId);
+        set((state) => ({ examples: { ...state.examples, [projectId]: examples } }));
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to load saved examples." });
+      }
+    },
+
+    saveExample: async (projectId, data) => {
+      set({ error: null });
+      try {
+        const { example } = await apiSpecApi.saveExample(projectId, data);
+        set((state) => ({
+          examples: { ...state.examples, [projectId]: [...(state.examples[projectId] ?? []), example] },
+        }));
+        return example;
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to save the example." });
+        return null;
+      }
+    },
+
+    deleteExample: async (projectId, exampleId) => {
+      set({ error: null });
+      try {
+        await apiSpecApi.deleteExample(projectId, exampleId);
+        set((state) => ({
+          examples: {
+            ...state.examples,
+            [projectId]: (state.examples[projectId] ?? []).filter((e) => e._id !== exampleId),
+          },
+        }));
+      } catch (err: any) {
+        set({ error: err?.message ?? "Failed to delete the example." });
+      }
+    },
+  };
+});
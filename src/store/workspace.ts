@@ -0,0 +1,114 @@
+/**
+ * workspace.ts — Organizations and the active workspace.
+ *
+ * `currentOrgId` is null for the personal workspace. The choice is kept per
+ * browser in localStorage and handed to api.ts, which scopes project lists,
+ * new projects and billing to it (X-Workspace-Id).
+ */
+import { create } from "zustand";
+import {
+  organizationsApi,
+  setWorkspaceId,
+  type ApiOrganization,
+} from "@/lib/api";
+
+const STORAGE_KEY = "docnine:workspace";
+
+function readStoredWorkspace(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+function writeStoredWorkspace(orgId: string | null) {
+  try {
+    if (orgId) localStorage.setItem(STORAGE_KEY, orgId);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    /* ignore */
+  }
+}
+
+// Scope the very first requests (before `load`) to the remembered workspace
+const initialOrgId = readStoredWorkspace();
+setWorkspaceId(initialOrgId);
+
+interface WorkspaceState {
+  organizations: ApiOrganization[];
+  currentOrgId: string | null;
+  loaded: boolean;
+  error: string | null;
+
+  /** Fetch the user's organizations; drops a remembered org they left. */
+  load: () => Promise<void>;
+  /** Switch workspace (null = personal). */
+  switchTo: (orgId: string | null) => void;
+  createOrganization: (name: string) => Promise<ApiOrganization>;
+  /** Replace an organization after an update (name, defaults, seats). */
+  upsertOrganization: (org: ApiOrganization) => void;
+  /** Forget an organization after leaving or deleting it. */
+  removeOrganization: (orgId: string) => void;
+  /** Back to the personal workspace on logout. */
+  reset: () => void;
+}
+
+export const useWorkspaceStore = create<WorkspaceState>((set, get) => ({
+  organizations: [],
+  currentOrgId: initialOrgId,
+  loaded: false,
+  error: null,
+
+  load: async () => {
+    try {
+      const { organizations } = await organizationsApi.list();
+      set({ organizations, loaded: true, error: null });
+      const { currentOrgId } = get();
+      if (currentOrgId && !organizations.some((o) => o._id === currentOrgId)) get().switchTo(null);
+    } catch (err: any) {
+      set({ loaded: true, error: err?.message ?? "Failed to load organizations." });
+    }
+  },
+
+  switchTo: (orgId) => {
+    if (orgId === get().currentOrgId) return;
+    setWorkspaceId(orgId);
+    writeStoredWorkspace(orgId);
+    set({ currentOrgId: orgId });
+  },
+
+  createOrganization: async (name) => {
+    const { organization } = await organizationsApi.create({ name });
+    set((state) => ({ organizations: [...state.organizations, organization] }));
+    return organization;
+  },
+
+  upsertOrganization: (org) =>
+    set((state) => ({
+      organizations: state.organizations.some((o) => o._id === org._id)
+        ? state.organizations.map((o) => (o._id === org._id ? org : o))
+        : [...state.organizations, org],
+    })),
+
+  removeOrganization: (orgId) => {
+    set((state) => ({ organizations: state.organizations.filter((o) => o._id !== orgId) }));
+    if (get().currentOrgId === orgId) get().switchTo(null);
+  },
+
+  reset: () => {
+    setWorkspaceId(null);
+    writeStoredWorkspace(null);
+    set({ organizations: [], currentOrgId: null, loaded: false, error: null });
+  },
+}));
+
+/** The active organization, or null in the personal workspace. */
+export function selectCurrentOrg(state: WorkspaceState): ApiOrganization | null {
+  return state.organizations.find((o) => o._id === state.currentOrgId) ?? null;
+}
+
+/** Owners and admins manage members, defaults and project transfers. */
+export function canAdministerOrg(org: ApiOrganization | null): boolean {
+  return org?.role === "owner" || org?.role === "admin";
+}
@@ -1,7 +1,52 @@
 import tailwindcss from "@tailwindcss/vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
-import { defineConfig, loadEnv } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
+
+// Dev-only stand-in for Slack / Teams incoming webhooks. Add a chat channel
+// whose URL is http://localhost:3000/__mock-chat/slack (or /teams) and the
+// messages the backend posts are listed under Settings → Integrations.
+function mockChatReceiver(): Plugin {
+  const received: { id: number; provider: string; receivedAt: string; payload: unknown }[] = [];
+  let nextId = 1;
+  return {
+    name: "mock-chat-receiver",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use("/__mock-chat", (req, res) => {
+        const route = (req.url ?? "/").split("?")[0];
+        if (route === "/messages") {
+          if (req.method === "DELETE") received.length = 0;
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify({ messages: received }));
+          return;
+        }
+        const provider = /^\/(slack|teams)\/?$/.exec(route)?.[1];
+        if (req.method !== "POST" || !provider) {
+          res.statusCode = 404;
+          res.end("Not found");
+          return;
+        }
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+          let payload: unknown;
+          try {
+            payload = JSON.parse(body);
+          } catch {
+            res.statusCode = 400;
+            res.end("invalid_payload");
+            return;
+          }
+          received.unshift({ id: nextId++, provider, receivedAt: new Date().toISOString(), payload });
+          received.splice(50);
+          // What the real services answer on success
+          res.end(provider === "slack" ? "ok" : "1");
+        });
+      });
+    },
+  };
+}
 
 export default defineConfig(({ mode }) => {
   const env = loadEnv(mode, ".", "");
@@ -47,10 +92,15 @@ export default defineConfig(({ mode }) => {
     "/webhook": makeProxy(),
     "/api": makeProxy(),
     "/health": makeProxy(),
+    "/search": makeProxy(),
+    "/notifications": makeProxy(),
+    "/orgs": makeProxy(),
+    // Realtime collaboration WebSocket
+    "/collab": { target: BACKEND_URL, changeOrigin: true, secure: false, ws: true },
   };
 
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [react(), tailwindcss(), mockChatReceiver()],
     define: {
       "process.env.GEMINI_API_KEY": JSON.stringify(env.GEMINI_API_KEY),
     },